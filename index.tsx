@@ -1,8 +1,33 @@
 import React, { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, GenerateContentResponse, Chat, Type } from "@google/genai";
-
-type Page = 'dashboard' | 'my-projects' | 'settings' | 'my-account-profile' | 'billing' | 'plans-pricing' | 'e-commerce-redaction' | 'faq-generator' | 'summary-table-generator' | 'roadmap-dev' | 'summary' | 'online-help' | 'competitive-analysis' | 'product-page-analysis' | 'cro-optimization' | 'specs-for-dev' | 'search-intentions';
+import { type Schema } from "@google/genai";
+import { CHAT_MESSAGE_COST, CREDIT_COSTS, type CreditAction, currentCreditPeriod, EMBEDDING_TEXTS_PER_UNIT } from './shared/aiCredits';
+import { conformToSchema, parseStructuredText } from './shared/structuredOutput';
+import { type ChatTurn, trimChatHistory } from './shared/chatbot';
+import {
+    BUILT_IN_PROMPT_VERSION, activePromptVersion, addPromptTemplateVersion, brandVoiceLengthLabels, emptyBrandVoice, promptTemplateIds, promptTemplateVersions,
+    promptTemplates, renderPrompt, resolvePromptTemplate, setActivePromptVersion, unknownPromptVariables, withBrandVoice, withReviewNotes,
+    type BrandVoice, type BrandVoiceLength, type GlossaryEntry, type PromptLibrary, type PromptTemplateId, type PromptTemplateVersion,
+} from './shared/promptTemplates';
+import {
+    croAuditCategories, promptTemplateOutputs,
+    type CompetitiveAnalysisResult, type CompetitorAnalysis, type CroAuditResult, type FaqResult, type ProductDescriptionResult,
+    type ProductPageAnalysisResult, type SiteAnalysis, type SummaryTableResult,
+} from './shared/aiSchemas';
+import { DEFAULT_USER_PLAN, PLAN_LIMITS, planCreditAllowance, type PlanFeature, type PlanLimits, type UserPlan } from './shared/plans';
+import { type RevisionDocumentKind, normalizeProductUrl, revisionDocumentKey } from './shared/documentKeys';
+import { catalogueColumnAliases, catalogueCsvFields, catalogueFromCsv, guessCatalogueMapping, validateCatalogueMapping, type CatalogueProduct } from './lib/catalogue';
+import { buildCmsExport, cmsExporters, cmsExportFormats, type ExportFormat } from './lib/cmsExports';
+import { CSV_DELIMITERS, CSV_ENCODINGS, csvCell, csvDelimiterLabels, csvEncodingLabels, decodeTextFile, guessCsvMapping, normalizeCsvHeader, parseCsvTable, type CsvColumnField, type CsvColumnMapping, type CsvDelimiter, type CsvEncoding, type CsvParseOptions, type CsvTable } from './lib/csv';
+import { asJsonLdList, formatJsonLd, jsonLdTypesOf, parseJsonLdText, validateJsonLd, type JsonLdValidation } from './lib/jsonLd';
+import { brandTermsFor, carryOverClusterMappings, clusterIntentions, defaultClusteringThresholds, intentionsForPrompt, intentionWeight, queryTokens, SEARCH_INTENT_TYPES, type ClusteringMethod, type KeywordCluster, type SearchIntentType } from './lib/keywordClustering';
+import { isSavedResultOf, savedResultToolLabels, type CMS, type Collaborator, type CroResult, type Project, type SavedAnalysis, type SavedResultsByTool, type SavedResultTool, type UserProfileData, type UserRole } from './lib/models';
+import { emptyReview, reviewAuthorLabel, reviewStatusOf, type DescriptionReview, type ReviewAuthor, type ReviewStatus } from './lib/reviews';
+import { htmlDiff, MAX_REVISIONS_PER_DOCUMENT, revisionDocumentKindLabels, revisionSourceLabels, type ContentRevision, type NewContentRevision, type RevisionContent, type RevisionSource } from './lib/revisions';
+import { MAX_SEARCH_INTENTION_IMPORTS, mergeSearchIntentions, normalizeQuery, toSearchIntention, type IntentionMergeMode, type IntentionSource, type SearchIntention, type SearchIntentionImport } from './lib/searchIntentions';
+import { ApiError, apiRequest, createRepositories, IndexedDbBackend, InMemoryBackend, loadFromLocalStorage, LOCAL_STORAGE_AUTH_TOKEN, LocalStorageBackend, saveToLocalStorage, setUnauthorizedHandler, type CollectionRepository, type KeyValueBackend, type StorageBackendKind } from './lib/storage';
+
+type Page = 'dashboard' | 'my-projects' | 'settings' | 'my-account-profile' | 'billing' | 'plans-pricing' | 'e-commerce-redaction' | 'faq-generator' | 'summary-table-generator' | 'roadmap-dev' | 'summary' | 'online-help' | 'competitive-analysis' | 'product-page-analysis' | 'cro-optimization' | 'specs-for-dev' | 'search-intentions' | 'structured-data' | 'prompt-templates' | 'results-archive';
 
 interface NavItem {
     id: Page | string; // Allow string for non-Page IDs
@@ -13,32 +38,21 @@ interface NavItem {
 }
 
 // --- Helper Functions ---
-const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
-    try {
-        const storedValue = localStorage.getItem(key);
-        return storedValue ? JSON.parse(storedValue) as T : defaultValue;
-    } catch (e) {
-        console.warn(`Error loading '${key}' from localStorage:`, e);
-        return defaultValue;
-    }
-};
-
-const saveToLocalStorage = <T,>(key: string, value: T): void => {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (e) {
-        console.error(`Error saving '${key}' to localStorage:`, e);
-    }
+const downloadTextFile = (content: string, fileName: string, mimeType: string = 'text/csv;charset=utf-8;') => {
+    const blob = new Blob([content], { type: mimeType });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
 };
 
-const extractJsonFromResponse = (responseText: string): any => {
-    let cleanedText = responseText.trim();
-    const jsonMatch = cleanedText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (jsonMatch && jsonMatch[1]) {
-        cleanedText = jsonMatch[1];
-    }
-    return JSON.parse(cleanedText);
-};
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 const handleCopy = (text: string, e: React.MouseEvent<HTMLButtonElement>) => {
     navigator.clipboard.writeText(text);
@@ -53,41 +67,467 @@ const handleCopy = (text: string, e: React.MouseEvent<HTMLButtonElement>) => {
 };
 
 
-// --- Project Data Structure ---
-type CMS = 'woocommerce' | 'shopify' | 'prestashop' | 'bigcommerce' | 'other';
+// --- Structured Data Builders ---
+// Form models and builders for the schema.org types of the structured-data builder page.
+type StructuredDataKind = 'BreadcrumbList' | 'Organization' | 'ItemList' | 'ProductGroup' | 'MerchantReturnPolicy' | 'OfferShippingDetails';
 
-interface Project {
-    id: string;
+interface BreadcrumbForm {
+    items: { name: string; url: string }[];
+}
+
+interface OrganizationForm {
+    type: 'Organization' | 'OnlineStore';
+    name: string;
+    url: string;
+    logo: string;
+    description: string;
+    email: string;
+    telephone: string;
+    sameAs: string; // One URL per line
+    streetAddress: string;
+    postalCode: string;
+    addressLocality: string;
+    addressCountry: string;
+    includeReturnPolicy: boolean;
+}
+
+interface ItemListForm {
+    name: string;
+    urls: string; // One URL per line, in display order
+}
+
+interface ProductVariantForm {
     name: string;
+    sku: string;
     url: string;
-    cms?: CMS;
-    creationDate: string; // ISO string date
-    gscConnected?: boolean;
-    gaConnected?: boolean;
+    image: string;
+    price: string;
+    availability: string;
+    size: string;
+    color: string;
+    material: string;
+}
+
+interface ProductGroupForm {
+    name: string;
+    url: string;
+    description: string;
+    brand: string;
+    productGroupID: string;
+    variesBy: string[];
+    currency: string;
+    variants: ProductVariantForm[];
+    includeShipping: boolean;
+    includeReturnPolicy: boolean;
+}
+
+interface ReturnPolicyForm {
+    applicableCountry: string;
+    returnPolicyCategory: string;
+    merchantReturnDays: string;
+    returnMethod: string;
+    returnFees: string;
+    returnShippingFeesAmount: string;
+    currency: string;
+}
+
+interface ShippingDetailsForm {
+    shippingRate: string;
+    currency: string;
+    addressCountry: string;
+    handlingMin: string;
+    handlingMax: string;
+    transitMin: string;
+    transitMax: string;
+}
+
+interface StructuredDataForms {
+    breadcrumb: BreadcrumbForm;
+    organization: OrganizationForm;
+    itemList: ItemListForm;
+    productGroup: ProductGroupForm;
+    returnPolicy: ReturnPolicyForm;
+    shipping: ShippingDetailsForm;
+}
+
+const structuredDataKindLabels: Record<StructuredDataKind, string> = {
+    BreadcrumbList: "Fil d'Ariane (BreadcrumbList)",
+    Organization: 'Organisation / Boutique en ligne',
+    ItemList: 'Liste de produits de catégorie (ItemList)',
+    ProductGroup: 'Produit à variantes (ProductGroup)',
+    MerchantReturnPolicy: 'Politique de retour (MerchantReturnPolicy)',
+    OfferShippingDetails: 'Livraison (OfferShippingDetails)',
+};
+
+// Properties Google reads on ProductGroup.variesBy, with the matching variant form field.
+const PRODUCT_VARIES_BY_OPTIONS: { property: 'size' | 'color' | 'material'; label: string }[] = [
+    { property: 'size', label: 'Taille' },
+    { property: 'color', label: 'Couleur' },
+    { property: 'material', label: 'Matière' },
+];
+
+const emptyProductVariant = (): ProductVariantForm => ({ name: '', sku: '', url: '', image: '', price: '', availability: 'InStock', size: '', color: '', material: '' });
+
+const defaultStructuredDataForms = (): StructuredDataForms => ({
+    breadcrumb: { items: [{ name: 'Accueil', url: '' }, { name: '', url: '' }] },
+    organization: { type: 'OnlineStore', name: '', url: '', logo: '', description: '', email: '', telephone: '', sameAs: '', streetAddress: '', postalCode: '', addressLocality: '', addressCountry: 'FR', includeReturnPolicy: false },
+    itemList: { name: '', urls: '' },
+    productGroup: { name: '', url: '', description: '', brand: '', productGroupID: '', variesBy: ['size'], currency: 'EUR', variants: [emptyProductVariant()], includeShipping: false, includeReturnPolicy: false },
+    returnPolicy: { applicableCountry: 'FR', returnPolicyCategory: 'MerchantReturnFiniteReturnWindow', merchantReturnDays: '30', returnMethod: 'ReturnByMail', returnFees: 'FreeReturn', returnShippingFeesAmount: '', currency: 'EUR' },
+    shipping: { shippingRate: '0', currency: 'EUR', addressCountry: 'FR', handlingMin: '0', handlingMax: '1', transitMin: '1', transitMax: '3' },
+});
+
+const schemaOrgUrl = (name: string) => `https://schema.org/${name}`;
+
+const splitLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Catalogue prices come as "39,90 EUR" or "€39.90"; JSON-LD wants "39.90".
+const jsonLdPrice = (price: string | undefined): string => (price ?? '').replace(/[^\d.,]/g, '').replace(',', '.');
+
+// Drops empty strings, empty arrays and objects left with only their @type, so that optional form fields can stay blank.
+const compactJsonLd = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(compactJsonLd).filter(item => item !== undefined);
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .map(([key, child]) => [key, compactJsonLd(child)] as [string, any])
+            .filter(([, child]) => child !== undefined && !(Array.isArray(child) && child.length === 0));
+        return entries.some(([key]) => key !== '@type') ? Object.fromEntries(entries) : undefined;
+    }
+    return typeof value === 'string' && !value.trim() ? undefined : value;
+};
+
+const buildBreadcrumbList = (form: BreadcrumbForm) => ({
+    '@type': 'BreadcrumbList',
+    itemListElement: form.items.map((item, index) => ({ '@type': 'ListItem', position: index + 1, name: item.name.trim(), item: item.url.trim() })),
+});
+
+const buildMerchantReturnPolicy = (form: ReturnPolicyForm) => ({
+    '@type': 'MerchantReturnPolicy',
+    applicableCountry: form.applicableCountry.trim().toUpperCase(),
+    returnPolicyCategory: schemaOrgUrl(form.returnPolicyCategory),
+    merchantReturnDays: form.returnPolicyCategory === 'MerchantReturnFiniteReturnWindow' && form.merchantReturnDays.trim() ? Number(form.merchantReturnDays) : undefined,
+    returnMethod: form.returnPolicyCategory === 'MerchantReturnNotPermitted' ? undefined : schemaOrgUrl(form.returnMethod),
+    returnFees: form.returnPolicyCategory === 'MerchantReturnNotPermitted' ? undefined : schemaOrgUrl(form.returnFees),
+    returnShippingFeesAmount: form.returnPolicyCategory !== 'MerchantReturnNotPermitted' && form.returnFees === 'ReturnShippingFees'
+        ? { '@type': 'MonetaryAmount', value: jsonLdPrice(form.returnShippingFeesAmount), currency: form.currency.trim().toUpperCase() }
+        : undefined,
+});
+
+const buildOfferShippingDetails = (form: ShippingDetailsForm) => {
+    const range = (min: string, max: string) => (min.trim() || max.trim()
+        ? { '@type': 'QuantitativeValue', minValue: min.trim() ? Number(min) : '', maxValue: max.trim() ? Number(max) : '', unitCode: 'DAY' }
+        : undefined);
+    return {
+        '@type': 'OfferShippingDetails',
+        shippingRate: { '@type': 'MonetaryAmount', value: jsonLdPrice(form.shippingRate), currency: form.currency.trim().toUpperCase() },
+        shippingDestination: { '@type': 'DefinedRegion', addressCountry: form.addressCountry.trim().toUpperCase() },
+        deliveryTime: {
+            '@type': 'ShippingDeliveryTime',
+            handlingTime: range(form.handlingMin, form.handlingMax),
+            transitTime: range(form.transitMin, form.transitMax),
+        },
+    };
+};
+
+const buildOrganization = (form: OrganizationForm, returnPolicy: ReturnPolicyForm) => ({
+    '@type': form.type,
+    name: form.name.trim(),
+    url: form.url.trim(),
+    logo: form.logo.trim(),
+    description: form.description.trim(),
+    email: form.email.trim(),
+    telephone: form.telephone.trim(),
+    sameAs: splitLines(form.sameAs),
+    address: {
+        '@type': 'PostalAddress',
+        streetAddress: form.streetAddress.trim(),
+        postalCode: form.postalCode.trim(),
+        addressLocality: form.addressLocality.trim(),
+        addressCountry: form.streetAddress.trim() || form.addressLocality.trim() ? form.addressCountry.trim().toUpperCase() : '',
+    },
+    hasMerchantReturnPolicy: form.includeReturnPolicy ? buildMerchantReturnPolicy(returnPolicy) : undefined,
+});
+
+const buildItemList = (form: ItemListForm) => ({
+    '@type': 'ItemList',
+    name: form.name.trim(),
+    itemListElement: splitLines(form.urls).map((url, index) => ({ '@type': 'ListItem', position: index + 1, url })),
+});
+
+// Each variant is a Product whose offer carries the group's currency and, optionally, the shared shipping and return terms.
+const buildProductGroup = (form: ProductGroupForm, shipping: ShippingDetailsForm, returnPolicy: ReturnPolicyForm) => ({
+    '@type': 'ProductGroup',
+    name: form.name.trim(),
+    url: form.url.trim(),
+    description: form.description.trim(),
+    brand: { '@type': 'Brand', name: form.brand.trim() },
+    productGroupID: form.productGroupID.trim(),
+    variesBy: form.variesBy.map(schemaOrgUrl),
+    hasVariant: form.variants.map(variant => ({
+        '@type': 'Product',
+        name: variant.name.trim() || form.name.trim(),
+        sku: variant.sku.trim(),
+        image: variant.image.trim(),
+        inProductGroupWithID: form.productGroupID.trim(),
+        ...Object.fromEntries(PRODUCT_VARIES_BY_OPTIONS.filter(option => form.variesBy.includes(option.property)).map(option => [option.property, variant[option.property].trim()])),
+        offers: {
+            '@type': 'Offer',
+            url: variant.url.trim(),
+            price: jsonLdPrice(variant.price),
+            priceCurrency: form.currency.trim().toUpperCase(),
+            availability: schemaOrgUrl(variant.availability),
+            shippingDetails: form.includeShipping ? buildOfferShippingDetails(shipping) : undefined,
+            hasMerchantReturnPolicy: form.includeReturnPolicy ? buildMerchantReturnPolicy(returnPolicy) : undefined,
+        },
+    })),
+});
+
+const buildStructuredData = (kind: StructuredDataKind, forms: StructuredDataForms): Record<string, any> => {
+    const node = (() => {
+        switch (kind) {
+            case 'BreadcrumbList': return buildBreadcrumbList(forms.breadcrumb);
+            case 'Organization': return buildOrganization(forms.organization, forms.returnPolicy);
+            case 'ItemList': return buildItemList(forms.itemList);
+            case 'ProductGroup': return buildProductGroup(forms.productGroup, forms.shipping, forms.returnPolicy);
+            case 'MerchantReturnPolicy': return buildMerchantReturnPolicy(forms.returnPolicy);
+            case 'OfferShippingDetails': return buildOfferShippingDetails(forms.shipping);
+            default:
+                const exhaustiveCheck: never = kind;
+                return exhaustiveCheck;
+        }
+    })();
+    return compactJsonLd(node) ?? { '@type': node['@type'] };
+};
+
+const sameJsonLdEntity = (a: any, b: any): boolean => {
+    if (a?.['@id'] || b?.['@id']) return a?.['@id'] === b?.['@id'];
+    const typesOfB = jsonLdTypesOf(b);
+    return jsonLdTypesOf(a).some(type => typesOfB.includes(type)) && (!a.url || !b.url || a.url === b.url);
+};
+
+// Adds the generated node to markup already on the page: a node describing the same entity (same @id, or same
+// @type and URL) is updated in place, keeping the properties the form does not manage; other nodes are kept as is.
+const mergeJsonLdMarkup = (existing: unknown, generated: Record<string, any>): { data: Record<string, any>; updated: boolean } => {
+    const nodes: any[] = asJsonLdList(existing)
+        .flatMap(root => (Array.isArray(root?.['@graph']) ? root['@graph'] : [root]))
+        .filter(node => node && typeof node === 'object')
+        .map(({ '@context': _context, ...node }) => node);
+    const index = nodes.findIndex(node => sameJsonLdEntity(node, generated));
+    if (index >= 0) {
+        nodes[index] = { ...nodes[index], ...generated };
+    } else {
+        nodes.push(generated);
+    }
+    const data = nodes.length === 1 ? { '@context': 'https://schema.org', ...nodes[0] } : { '@context': 'https://schema.org', '@graph': nodes };
+    return { data, updated: index >= 0 };
+};
+// --- End Structured Data Builders ---
+
+
+// --- Project Data Structure ---
+const LOCAL_STORAGE_CURRENT_PROJECT = 'semanticAppCurrentProject';
+
+// The project picked in the header is shared by every tool: its brand voice, catalogue and search intentions
+// are used, and results are saved under it.
+interface CurrentProjectProps {
+    currentProject: Project | null;
+    onProjectChange: (projectId: string | null) => void;
 }
-const LOCAL_STORAGE_PROJECTS = 'semanticAppProjects';
 // --- End Project Data Structure ---
 
 
-// --- Search Intentions Data ---
-interface SearchIntention {
-    query: string;
-    [key: string]: any; // To accommodate various CSV columns
+// --- Search Intention Analytics ---
+// Average organic CTR by position (1 to 20), used where the project has too few impressions to measure its own.
+const BENCHMARK_CTR_BY_POSITION = [0.28, 0.157, 0.11, 0.08, 0.072, 0.051, 0.04, 0.032, 0.028, 0.025, 0.017, 0.015, 0.013, 0.012, 0.011, 0.01, 0.009, 0.008, 0.008, 0.007];
+const MIN_CURVE_IMPRESSIONS = 100;
+const OPPORTUNITY_POSITIONS = { min: 5, max: 20 };
+const OPPORTUNITY_TARGET_POSITION = 3;
+
+interface CtrCurvePoint {
+    position: number;
+    impressions: number;
+    observed: number | null; // Project CTR at this rounded position
+    benchmark: number;
+    expected: number; // Observed when measured on enough impressions, benchmark otherwise
 }
-const LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX = 'semanticAppSearchIntentions_';
-// --- End Search Intentions Data ---
 
+interface IntentionAnalytics {
+    expectedCtr?: number;
+    ctrGap?: number; // Actual minus expected CTR
+    potentialClicks: number; // Extra clicks at OPPORTUNITY_TARGET_POSITION, for queries ranking 5 to 20
+    opportunityScore: number; // 0 to 100, relative to the project's best opportunity
+}
 
-// --- My Account Profile Data ---
-interface UserProfileData {
-    firstName: string;
-    lastName: string;
-    email: string;
-    language: string;
-    stripeCustomerId?: string;
+type AnalyzedIntention = SearchIntention & IntentionAnalytics;
+
+const intentionCtr = (intention: SearchIntention): number | undefined =>
+    intention.ctr ?? (intention.clicks !== undefined && intention.impressions ? intention.clicks / intention.impressions : undefined);
+
+const intentionClicks = (intention: SearchIntention): number | undefined =>
+    intention.clicks ?? (intention.ctr !== undefined && intention.impressions !== undefined ? intention.ctr * intention.impressions : undefined);
+
+// The expected curve is kept non-increasing, so a noisy bucket cannot make a lower position look better.
+const expectedCtrCurve = (intentions: SearchIntention[]): CtrCurvePoint[] => {
+    const buckets = BENCHMARK_CTR_BY_POSITION.map(() => ({ clicks: 0, impressions: 0 }));
+    intentions.forEach(intention => {
+        const clicks = intentionClicks(intention);
+        if (intention.position === undefined || !intention.impressions || clicks === undefined) return;
+        const bucket = buckets[Math.round(intention.position) - 1];
+        if (!bucket) return;
+        bucket.clicks += clicks;
+        bucket.impressions += intention.impressions;
+    });
+    let previous = 1;
+    return buckets.map((bucket, index) => {
+        const benchmark = BENCHMARK_CTR_BY_POSITION[index];
+        const observed = bucket.impressions > 0 ? bucket.clicks / bucket.impressions : null;
+        const expected = Math.min(previous, observed !== null && bucket.impressions >= MIN_CURVE_IMPRESSIONS ? observed : benchmark);
+        previous = expected;
+        return { position: index + 1, impressions: bucket.impressions, observed, benchmark, expected };
+    });
+};
+
+const expectedCtrAt = (curve: CtrCurvePoint[], position: number): number =>
+    curve[Math.min(Math.max(Math.round(position), 1), curve.length) - 1].expected;
+
+const analyzeIntentions = (intentions: SearchIntention[], curve: CtrCurvePoint[]): AnalyzedIntention[] => {
+    const targetCtr = expectedCtrAt(curve, OPPORTUNITY_TARGET_POSITION);
+    const analyzed = intentions.map(intention => {
+        const ctr = intentionCtr(intention);
+        const expectedCtr = intention.position !== undefined ? expectedCtrAt(curve, intention.position) : undefined;
+        const inRange = intention.position !== undefined && intention.position >= OPPORTUNITY_POSITIONS.min && intention.position <= OPPORTUNITY_POSITIONS.max;
+        const potentialClicks = inRange && intention.impressions
+            ? Math.max(0, Math.round(intention.impressions * targetCtr - (intentionClicks(intention) ?? 0)))
+            : 0;
+        return {
+            ...intention,
+            expectedCtr,
+            ctrGap: ctr !== undefined && expectedCtr !== undefined ? ctr - expectedCtr : undefined,
+            potentialClicks,
+            opportunityScore: 0,
+        };
+    });
+    const maxPotential = Math.max(0, ...analyzed.map(item => item.potentialClicks));
+    return analyzed.map(item => ({ ...item, opportunityScore: maxPotential > 0 ? Math.round((100 * item.potentialClicks) / maxPotential) : 0 }));
+};
+
+interface IntentionTotals {
+    clicks: number;
+    impressions: number;
+    ctr: number | null;
+    position: number | null; // Weighted by impressions
+    potentialClicks: number;
+}
+
+const intentionTotals = (intentions: AnalyzedIntention[]): IntentionTotals => {
+    let clicks = 0;
+    let impressions = 0;
+    let positionWeight = 0;
+    let positionSum = 0;
+    intentions.forEach(intention => {
+        clicks += intentionClicks(intention) ?? 0;
+        impressions += intention.impressions ?? 0;
+        if (intention.position !== undefined && intention.impressions) {
+            positionSum += intention.position * intention.impressions;
+            positionWeight += intention.impressions;
+        }
+    });
+    return {
+        clicks: Math.round(clicks),
+        impressions,
+        ctr: impressions > 0 ? clicks / impressions : null,
+        position: positionWeight > 0 ? positionSum / positionWeight : null,
+        potentialClicks: intentions.reduce((sum, intention) => sum + intention.potentialClicks, 0),
+    };
+};
+
+interface PageOpportunity {
+    url: string;
+    clusters: string[];
+    queries: number;
+    potentialClicks: number;
+}
+
+// Sums the potential of each cluster's queries on the URL the cluster is mapped to.
+const pageOpportunities = (analyzed: AnalyzedIntention[], clusters: KeywordCluster[]): PageOpportunity[] => {
+    const potentialByQuery = new Map<string, number>(analyzed.map(item => [normalizeQuery(item.query), item.potentialClicks]));
+    const byUrl = new Map<string, PageOpportunity>();
+    clusters.filter(cluster => cluster.url).forEach(cluster => {
+        const url = cluster.url as string;
+        const page = byUrl.get(url) ?? { url, clusters: [], queries: 0, potentialClicks: 0 };
+        page.clusters.push(cluster.label);
+        cluster.queries.forEach(query => {
+            const potential = potentialByQuery.get(normalizeQuery(query)) ?? 0;
+            if (potential > 0) page.queries++;
+            page.potentialClicks += potential;
+        });
+        byUrl.set(url, page);
+    });
+    return Array.from(byUrl.values()).filter(page => page.potentialClicks > 0).sort((a, b) => b.potentialClicks - a.potentialClicks);
+};
+// --- End Search Intention Analytics ---
+
+
+// --- Product Intention Matching ---
+// Each product is written for the queries that share its words: a query token found in the product
+// name counts fully, in the URL path or category partly. Queries of a cluster mapped to the product
+// URL always come first.
+const MAX_PRODUCT_INTENTIONS = 15;
+const MIN_PRODUCT_MATCH_SCORE = 0.5;
+const CLUSTER_MATCH_SCORE = 2;
+
+interface IntentionMatch {
+    query: string;
+    score: number;
 }
-const LOCAL_STORAGE_USER_PROFILE = 'userProfileData';
-// --- End My Account Profile Data ---
+
+const urlPathText = (url: string): string => {
+    try {
+        return decodeURIComponent(new URL(url).pathname).replace(/\.html?$/, '');
+    } catch (_) {
+        return '';
+    }
+};
+
+const matchIntentionsToProduct = (product: CatalogueProduct, intentions: SearchIntention[], clusters: KeywordCluster[]): IntentionMatch[] => {
+    const fields = [
+        { tokens: new Set(queryTokens(product.name ?? '')), weight: 1 },
+        { tokens: new Set(queryTokens(urlPathText(product.url))), weight: 0.8 },
+        { tokens: new Set(queryTokens(product.category ?? '')), weight: 0.6 },
+    ];
+    const productUrl = normalizeProductUrl(product.url);
+    const clusterQueries = new Set<string>();
+    clusters.filter(cluster => cluster.url && normalizeProductUrl(cluster.url) === productUrl)
+        .forEach(cluster => cluster.queries.forEach(query => clusterQueries.add(normalizeQuery(query))));
+
+    return intentions
+        .map(intention => {
+            if (clusterQueries.has(normalizeQuery(intention.query))) {
+                return { intention, score: CLUSTER_MATCH_SCORE };
+            }
+            const tokens = queryTokens(intention.query);
+            const matched = tokens.reduce((sum, token) => sum + Math.max(0, ...fields.filter(field => field.tokens.has(token)).map(field => field.weight)), 0);
+            return { intention, score: tokens.length > 0 ? matched / tokens.length : 0 };
+        })
+        .filter(match => match.score >= MIN_PRODUCT_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score || intentionWeight(b.intention) - intentionWeight(a.intention))
+        .slice(0, MAX_PRODUCT_INTENTIONS)
+        .map(match => ({ query: match.intention.query, score: match.score }));
+};
+
+// Keyed by normalized product URL; products without any match are left out and get the project-wide queries.
+const intentionsByProduct = (products: CatalogueProduct[], intentions: SearchIntention[], clusters: KeywordCluster[]): Record<string, string[]> => {
+    const byUrl: Record<string, string[]> = {};
+    products.forEach(product => {
+        const matches = matchIntentionsToProduct(product, intentions, clusters);
+        if (matches.length > 0) byUrl[normalizeProductUrl(product.url)] = matches.map(match => match.query);
+    });
+    return byUrl;
+};
+// --- End Product Intention Matching ---
+
 
 const languageOptions = [
     { value: 'fr', label: 'Français' },
@@ -99,19 +539,6 @@ const languageOptions = [
 ];
 
 
-// --- Collaborator Data Structure ---
-interface Collaborator {
-    id: string;
-    email: string;
-    invitationDate: string; // ISO string date
-    creditsUsedMock?: number;
-    lastActivityMock?: string; // ISO string date
-}
-const LOCAL_STORAGE_COLLABORATORS = 'semanticAppCollaborators';
-const MAX_COLLABORATORS = 5;
-// --- End Collaborator Data Structure ---
-
-
 // --- Pricing Plan Data Structure ---
 interface PricingPlan {
     id: string;
@@ -127,6 +554,7 @@ interface PricingPlan {
     isEnterprise?: boolean;
     description?: string;
     featuresIntro?: string;
+    limits: PlanLimits;
 }
 
 const pricingPlans: PricingPlan[] = [
@@ -136,7 +564,7 @@ const pricingPlans: PricingPlan[] = [
         monthlyPrice: 9,
         annualPrice: 92,
         priceSubtitle: 'Pour démarrer et pour les petits besoins',
-        credits: 250,
+        credits: PLAN_LIMITS.starter.monthlyCredits,
         buttonText: 'Commencer',
         buttonType: 'individual',
         features: [
@@ -150,6 +578,7 @@ const pricingPlans: PricingPlan[] = [
             'Gestion de 3 projets',
             'Support par email',
         ],
+        limits: PLAN_LIMITS.starter,
     },
     {
         id: 'pro',
@@ -157,7 +586,7 @@ const pricingPlans: PricingPlan[] = [
         monthlyPrice: 49,
         annualPrice: 500,
         priceSubtitle: 'Idéal pour les freelances et PME',
-        credits: 2000,
+        credits: PLAN_LIMITS.pro.monthlyCredits,
         buttonText: 'Choisir Pro',
         buttonType: 'team',
         bestValue: true,
@@ -170,6 +599,7 @@ const pricingPlans: PricingPlan[] = [
             'Gestion de 10 projets',
             'Support prioritaire par email',
         ],
+        limits: PLAN_LIMITS.pro,
     },
     {
         id: 'entreprise',
@@ -177,7 +607,7 @@ const pricingPlans: PricingPlan[] = [
         monthlyPrice: 99,
         annualPrice: 1010,
         priceSubtitle: 'Parfait pour les agences et les gros volumes',
-        credits: 5000,
+        credits: PLAN_LIMITS.entreprise.monthlyCredits,
         buttonText: 'Choisir Entreprise',
         buttonType: 'enterprise',
         featuresIntro: 'Toutes les fonctionnalités du Plan Pro, plus :',
@@ -190,6 +620,7 @@ const pricingPlans: PricingPlan[] = [
             'Accès aux nouvelles fonctionnalités en avant-première',
             'Support prioritaire par chat',
         ],
+        limits: PLAN_LIMITS.entreprise,
     },
     {
         id: 'sur-mesure',
@@ -209,11 +640,52 @@ const pricingPlans: PricingPlan[] = [
             'Accompagnement stratégique',
             'Développement de fonctionnalités sur mesure',
         ],
+        limits: PLAN_LIMITS.entreprise,
     }
 ];
 // --- End Pricing Plan Data Structure ---
 
 
+// --- Plan Entitlements ---
+const planFeatureLabels: Record<PlanFeature, string> = {
+    'advanced-seo-analysis': 'Analyse SEO Avancée',
+    'revision-history': 'Éditeur avancé avec historique',
+};
+
+// Pages that are only reachable when the active plan includes the given feature.
+const pageFeatureRequirements: Partial<Record<Page, PlanFeature>> = {
+    'competitive-analysis': 'advanced-seo-analysis',
+    'product-page-analysis': 'advanced-seo-analysis',
+};
+
+const getPlan = (userPlan: UserPlan): PricingPlan => pricingPlans.find(p => p.id === userPlan)!;
+
+const hasFeature = (userPlan: UserPlan, feature: PlanFeature): boolean =>
+    getPlan(userPlan).limits.features.includes(feature);
+
+// The cheapest plan unlocking a feature, i.e. the first one in `pricingPlans` order.
+const getRequiredPlanFor = (feature: PlanFeature): PricingPlan =>
+    pricingPlans.find(p => p.limits.features.includes(feature))!;
+
+const checkProjectLimit = (userPlan: UserPlan, currentCount: number): UpgradeReason | null => {
+    const { maxProjects } = getPlan(userPlan).limits;
+    if (maxProjects === null || currentCount < maxProjects) return null;
+    return { kind: 'projects', limit: maxProjects, plan: userPlan };
+};
+
+const checkCollaboratorLimit = (userPlan: UserPlan, currentCount: number): UpgradeReason | null => {
+    const { maxCollaborators } = getPlan(userPlan).limits;
+    if (currentCount < maxCollaborators) return null;
+    return { kind: 'collaborators', limit: maxCollaborators, plan: userPlan };
+};
+
+const checkFeatureAccess = (userPlan: UserPlan, feature: PlanFeature): UpgradeReason | null => {
+    if (hasFeature(userPlan, feature)) return null;
+    return { kind: 'feature', feature, plan: userPlan };
+};
+// --- End Plan Entitlements ---
+
+
 // --- Chatbot Interfaces ---
 interface ChatMessage {
     id: string;
@@ -274,6 +746,115 @@ const useSortableData = <T extends object>(items: T[], config: SortConfig<T> | n
 };
 // --- End Sortable Table Hook ---
 
+// --- Prompt Templates Hook ---
+// Loads the account's prompt library and the project's brand voice, and returns a function giving the template
+// to fill for a feature. The built-in templates are used until the library is loaded or when it fails to load.
+type PromptTemplateResolver = (id: PromptTemplateId) => string;
+
+const usePromptTemplates = (projectId?: string): PromptTemplateResolver => {
+    const [library, setLibrary] = useState<PromptLibrary>({});
+    const [brandVoice, setBrandVoice] = useState<BrandVoice | null>(null);
+
+    useEffect(() => {
+        repositories.promptLibrary.get()
+            .then(setLibrary)
+            .catch(e => console.warn('Prompt library unavailable, using the built-in templates:', e));
+    }, []);
+
+    useEffect(() => {
+        setBrandVoice(null);
+        if (!projectId) return;
+        let cancelled = false;
+        repositories.brandVoices.getForProject(projectId)
+            .then(loaded => { if (!cancelled) setBrandVoice(loaded); })
+            .catch(e => console.warn(`Brand voice of project ${projectId} unavailable:`, e));
+        return () => { cancelled = true; };
+    }, [projectId]);
+
+    return useCallback<PromptTemplateResolver>(id => resolvePromptTemplate(id, library, brandVoice), [library, brandVoice]);
+};
+// --- End Prompt Templates Hook ---
+
+// --- Content Revisions Hook ---
+// Loads the revisions of one document and saves new ones; a null key (nothing generated yet) gives an empty history.
+interface ContentRevisionsState {
+    revisions: ContentRevision[];
+    loading: boolean;
+    error: string | null;
+    record: (revision: NewContentRevision) => Promise<ContentRevision | null>;
+}
+
+const useContentRevisions = (documentKey: string | null): ContentRevisionsState => {
+    const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setRevisions([]);
+        setError(null);
+        if (!documentKey) return;
+        let cancelled = false;
+        setLoading(true);
+        repositories.revisions.listForDocument(documentKey)
+            .then(loaded => { if (!cancelled) setRevisions(loaded); })
+            .catch(e => { if (!cancelled) setError(`Impossible de charger l'historique des versions : ${e.message}`); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [documentKey]);
+
+    // A revision that cannot be saved must not block the user's work: the failure is only reported.
+    const record = useCallback(async (revision: NewContentRevision): Promise<ContentRevision | null> => {
+        try {
+            const saved = await repositories.revisions.add(revision);
+            if (saved.documentKey === documentKey) {
+                setRevisions(prev => [...prev, saved].slice(-MAX_REVISIONS_PER_DOCUMENT));
+            }
+            return saved;
+        } catch (e: any) {
+            setError(`La version n'a pas pu être enregistrée : ${e.message}`);
+            return null;
+        }
+    }, [documentKey]);
+
+    return { revisions, loading, error, record };
+};
+// --- End Content Revisions Hook ---
+
+// --- Current Project Hook ---
+// Owned by App. Pages that create, rename or delete projects call reloadProjects so the header stays in sync;
+// a current project that no longer exists is treated as none.
+interface CurrentProjectState {
+    projects: Project[];
+    currentProject: Project | null;
+    selectProject: (projectId: string | null) => void;
+    reloadProjects: () => void;
+}
+
+const useCurrentProject = (accountEmail: string | null): CurrentProjectState => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [currentProjectId, setCurrentProjectId] = useState<string | null>(() => loadFromLocalStorage<string | null>(LOCAL_STORAGE_CURRENT_PROJECT, null));
+
+    const reloadProjects = useCallback(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => console.error("Error loading projects:", e));
+    }, []);
+
+    useEffect(() => {
+        if (accountEmail) reloadProjects();
+        else setProjects([]);
+    }, [accountEmail, reloadProjects]);
+
+    const selectProject = useCallback((projectId: string | null) => {
+        setCurrentProjectId(projectId);
+        saveToLocalStorage(LOCAL_STORAGE_CURRENT_PROJECT, projectId);
+    }, []);
+
+    const currentProject = projects.find(project => project.id === currentProjectId) ?? null;
+    return { projects, currentProject, selectProject, reloadProjects };
+};
+// --- End Current Project Hook ---
+
 
 const getPageTitle = (page: Page): string => {
     switch (page) {
@@ -286,6 +867,9 @@ const getPageTitle = (page: Page): string => {
         case 'cro-optimization': return "Optimisation CRO";
         case 'faq-generator': return "Générer une FAQ";
         case 'summary-table-generator': return "Générer un Tableau Récapitulatif";
+        case 'structured-data': return "Données Structurées";
+        case 'prompt-templates': return "Modèles de Prompts";
+        case 'results-archive': return "Archives des Résultats";
         case 'settings': return 'Settings';
         case 'my-account-profile': return 'My Account Profile';
         case 'billing': return 'Billing';
@@ -300,9 +884,6 @@ const getPageTitle = (page: Page): string => {
     }
 };
 
-type UserRole = 'main' | 'collaborator';
-type UserPlan = 'starter' | 'pro' | 'entreprise';
-
 // Concurrency Simulation
 const ACTIVE_SESSION_KEY_PREFIX = 'semanticAppActiveSession_';
 const CONCURRENCY_ERROR_MESSAGE = "Vous êtes déjà connecté à cette application sur une autre instance ou un autre onglet. Veuillez fermer les autres instances pour continuer.";
@@ -381,1630 +962,5438 @@ class ActiveSessionManager {
 // --- End Active Session Manager ---
 
 
-// Initialize Gemini AI Client if API_KEY is available
-let ai: GoogleGenAI | null = null;
-if (process.env.API_KEY) {
-    try {
-        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    } catch (error) {
-        console.error("Error initializing GoogleGenAI:", error);
-        ai = null;
-    }
-} else {
-    console.warn("API_KEY environment variable not set. AI features will be disabled.");
+// --- Credit Ledger ---
+type CreditTransactionStatus = 'reserved' | 'committed' | 'refunded';
+
+interface CreditTransaction {
+    id: string;
+    amount: number;
+    label: string;
+    page?: Page; // Absent for assistant messages recorded by the API server
+    projectId?: string;
+    status: CreditTransactionStatus;
+    timestamp: string; // ISO string date
+    settledAt?: string; // ISO string date
 }
 
-// --- STICKY FOOTER COMPONENT ---
-interface StickyFooterProps {
-    creditCost: number;
-    buttonText: string;
-    onButtonClick: () => void;
-    isButtonDisabled: boolean;
-    buttonLoadingText?: string;
+interface CreditLedgerData {
+    total: number;
+    remaining: number;
+    period?: string; // Month the balance belongs to (YYYY-MM); absent in ledgers saved before periods were tracked
+    transactions: CreditTransaction[];
 }
 
-const StickyFooter: React.FC<StickyFooterProps> = ({ creditCost, buttonText, onButtonClick, isButtonDisabled, buttonLoadingText }) => {
-    const isLoading = buttonLoadingText && isButtonDisabled;
-    
-    return (
-        <div className="sticky-action-footer">
-            <div className="footer-content-wrapper">
-                <p className="footer-credit-cost">
-                    Coût de l'action : <strong>{creditCost} crédits</strong>
-                </p>
-                <button onClick={onButtonClick} className="submit-button" disabled={isButtonDisabled}>
-                    {isLoading ? <><span className="spinner"></span> {buttonLoadingText}</> : buttonText}
-                </button>
-            </div>
-        </div>
-    );
-};
-// --- END STICKY FOOTER COMPONENT ---
+// Monthly allowance and what is left of it, as counted by the API server, with the account's latest charges.
+interface CreditBalance {
+    total: number;
+    remaining: number;
+    transactions: CreditTransaction[];
+}
 
-const App: React.FC = () => {
-    const [currentPage, setCurrentPage] = useState<Page>('dashboard');
-    const [userRole, setUserRole] = useState<UserRole>('main');
-    const [userPlan, setUserPlan] = useState<UserPlan>('pro'); // Set 'pro' as default for credit display
-    const [isUpgradeModalOpen, setIsUpgradeModalOpen] = useState(false);
-    const [userProfile, setUserProfile] = useState<UserProfileData | null>(null);
-    const [isConcurrencyError, setIsConcurrencyError] = useState(false);
-    const sessionManagerRef = useRef<ActiveSessionManager | null>(null);
-    const appContainerRef = useRef<HTMLDivElement>(null);
-    const [isChatbotOpen, setIsChatbotOpen] = useState(false);
-    
-    // Mocked credits state
-    const [credits, setCredits] = useState({ remaining: 1850, total: 2000 });
+interface CreditRequest {
+    amount: number;
+    label: string;
+    page: Page;
+    projectId?: string;
+}
 
+type SpendCredits = <T>(request: CreditRequest, action: () => Promise<T>) => Promise<T>;
+
+const LOCAL_STORAGE_CREDIT_LEDGER = 'semanticAppCreditLedger';
+const MAX_STORED_CREDIT_TRANSACTIONS = 500;
+
+// How the charges recorded by the API server, which only know their action, are shown.
+const creditActionDetails: Record<CreditAction, { label: string; page?: Page }> = {
+    siteAnalysis: { label: 'Analyse du site', page: 'e-commerce-redaction' },
+    productDescription: { label: 'Fiche produit', page: 'e-commerce-redaction' },
+    competitorAnalysis: { label: 'Analyse concurrentielle', page: 'competitive-analysis' },
+    productPageAnalysis: { label: 'Analyse fiche produit', page: 'product-page-analysis' },
+    croAudit: { label: 'Audit CRO', page: 'cro-optimization' },
+    faqGeneration: { label: 'FAQ', page: 'faq-generator' },
+    summaryTable: { label: 'Tableau récapitulatif', page: 'summary-table-generator' },
+    keywordClustering: { label: 'Clustering sémantique', page: 'search-intentions' },
+    chat: { label: 'Assistant' },
+};
 
-    const mockUserEmail = "user@example.com";
+class InsufficientCreditsError extends Error {
+    constructor(public required: number, public remaining: number) {
+        super(`Crédits insuffisants : cette action nécessite ${required} crédits, il vous en reste ${remaining}.`);
+        this.name = 'InsufficientCreditsError';
+    }
+}
 
-    useEffect(() => {
-        if (!sessionManagerRef.current) {
-            sessionManagerRef.current = new ActiveSessionManager(() => {
-                setIsConcurrencyError(true);
-            });
-        }
-        return () => {
-            sessionManagerRef.current?.releaseSession();
-        };
-    }, []);
+class CreditLedger {
+    private storageKey: string;
+    private allowance: number;
+    private data: CreditLedgerData;
+    private listeners: Set<(data: CreditLedgerData) => void> = new Set();
+
+    constructor(storageKey: string, allowance: number) {
+        this.storageKey = storageKey;
+        this.allowance = allowance;
+        this.data = loadFromLocalStorage<CreditLedgerData>(storageKey, {
+            total: allowance,
+            remaining: allowance,
+            period: currentCreditPeriod(),
+            transactions: [],
+        });
+        this.releaseStaleReservations();
+    }
 
-     useEffect(() => {
-        if (appContainerRef.current) {
-            if (isConcurrencyError) {
-                appContainerRef.current.classList.add('concurrency-error-active');
-            } else {
-                appContainerRef.current.classList.remove('concurrency-error-active');
-            }
+    // Like the API server, grants the full allowance at the start of each month and applies a plan change to the
+    // running month: what was already spent stays spent.
+    private applyAllowance() {
+        const period = currentCreditPeriod();
+        if (this.data.period !== period) {
+            const reserved = this.data.transactions.filter(t => t.status === 'reserved').reduce((sum, t) => sum + t.amount, 0);
+            this.data = { ...this.data, total: this.allowance, remaining: Math.max(0, this.allowance - reserved), period };
+        } else if (this.data.total !== this.allowance) {
+            this.data = { ...this.data, total: this.allowance, remaining: Math.max(0, this.data.remaining + this.allowance - this.data.total) };
+        } else {
+            return;
         }
-    }, [isConcurrencyError]);
+        this.persist();
+    }
 
+    // A reservation still pending at startup belongs to a call interrupted by a reload: give the credits back.
+    private releaseStaleReservations() {
+        this.data.transactions
+            .filter(t => t.status === 'reserved')
+            .forEach(t => this.settle(t.id, 'refunded'));
+    }
 
-    useEffect(() => {
-        const profile = loadFromLocalStorage<UserProfileData | null>(LOCAL_STORAGE_USER_PROFILE, null);
-        if (profile) {
-            setUserProfile(profile);
-        } else {
-            const defaultProfile: UserProfileData = {
-                firstName: "Utilisateur",
-                lastName: "Principal",
-                email: mockUserEmail,
-                language: "fr",
-                stripeCustomerId: undefined,
-            };
-            setUserProfile(defaultProfile);
-            saveToLocalStorage(LOCAL_STORAGE_USER_PROFILE, defaultProfile);
-        }
-    }, []);
+    private persist() {
+        this.data = {
+            ...this.data,
+            transactions: this.data.transactions.slice(-MAX_STORED_CREDIT_TRANSACTIONS),
+        };
+        saveToLocalStorage(this.storageKey, this.data);
+        this.listeners.forEach(listener => listener(this.data));
+    }
 
+    private settle(transactionId: string, status: 'committed' | 'refunded') {
+        const transaction = this.data.transactions.find(t => t.id === transactionId);
+        if (!transaction || transaction.status !== 'reserved') return;
 
-    const navigateTo = (page: Page) => {
-        setCurrentPage(page);
-        window.scrollTo(0, 0);
-    };
+        this.data = {
+            ...this.data,
+            remaining: status === 'refunded' ? this.data.remaining + transaction.amount : this.data.remaining,
+            transactions: this.data.transactions.map(t =>
+                t.id === transactionId ? { ...t, status, settledAt: new Date().toISOString() } : t
+            ),
+        };
+        this.persist();
+    }
 
-    const handlePageNavigation = useCallback((page: Page) => {
-        navigateTo(page);
-    }, []);
+    public getSnapshot(): CreditLedgerData {
+        return this.data;
+    }
 
+    public subscribe(listener: (data: CreditLedgerData) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
 
-    const handleProfileUpdate = useCallback((updatedProfile: UserProfileData) => {
-        setUserProfile(updatedProfile);
-        saveToLocalStorage(LOCAL_STORAGE_USER_PROFILE, updatedProfile);
-    }, []);
+    // The server's history covers every device and collaborator of the account; only the calls still
+    // running here are kept from the local one.
+    public setBalance(balance: CreditBalance) {
+        this.allowance = balance.total;
+        this.data = {
+            total: balance.total,
+            remaining: balance.remaining,
+            period: currentCreditPeriod(),
+            transactions: [...balance.transactions, ...this.data.transactions.filter(t => t.status === 'reserved')],
+        };
+        this.persist();
+    }
 
-    const handleSignOut = useCallback(() => {
-        window.location.reload();
-    }, []);
+    // Follows the plan of the signed-in account; called once the session is known, before any reservation.
+    public setAllowance(allowance: number) {
+        this.allowance = allowance;
+        this.applyAllowance();
+    }
 
-    const closeConcurrencyBanner = () => {
-        setIsConcurrencyError(false);
-    };
+    public canAfford(amount: number): boolean {
+        return this.data.remaining >= amount;
+    }
 
-    const toggleChatbot = () => setIsChatbotOpen(!isChatbotOpen);
+    public reserve(request: CreditRequest): string {
+        this.applyAllowance();
+        if (!this.canAfford(request.amount)) {
+            throw new InsufficientCreditsError(request.amount, this.data.remaining);
+        }
+        const transaction: CreditTransaction = {
+            id: `txn_${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            amount: request.amount,
+            label: request.label,
+            page: request.page,
+            projectId: request.projectId,
+            status: 'reserved',
+            timestamp: new Date().toISOString(),
+        };
+        this.data = {
+            ...this.data,
+            remaining: this.data.remaining - request.amount,
+            transactions: [...this.data.transactions, transaction],
+        };
+        this.persist();
+        return transaction.id;
+    }
 
-    return (
-        <div ref={appContainerRef} className="app-container">
-            {isConcurrencyError && (
-                <div className="concurrency-error-banner" role="alertdialog" aria-labelledby="concurrencyErrorHeading" aria-describedby="concurrencyErrorDesc">
-                    <strong id="concurrencyErrorHeading" style={{display:'block', marginBottom: '5px'}}>Accès Multiple Détecté</strong>
-                    <p id="concurrencyErrorDesc">{CONCURRENCY_ERROR_MESSAGE}</p>
-                    <button onClick={closeConcurrencyBanner} className="close-concurrency-error" aria-label="Fermer l'avertissement">&times;</button>
-                </div>
-            )}
-            <Sidebar currentPage={currentPage} navigateTo={handlePageNavigation} userRole={userRole} userPlan={userPlan} />
-            <MainWrapper
-                currentPage={currentPage}
-                navigateTo={navigateTo}
-                userRole={userRole}
-                userPlan={userPlan}
-                userProfile={userProfile}
-                onProfileUpdate={handleProfileUpdate}
-                onSignOut={handleSignOut}
-                userEmail={userProfile?.email || mockUserEmail}
-                credits={credits}
-            />
-             {isUpgradeModalOpen && (
-                <UpgradeModal
-                    onClose={() => setIsUpgradeModalOpen(false)}
-                    onUpgrade={() => {
-                        setIsUpgradeModalOpen(false);
-                        navigateTo('plans-pricing');
-                    }}
-                />
-            )}
-            {ai && (
-                <button
-                    className="chatbot-fab"
-                    onClick={toggleChatbot}
-                    aria-label={isChatbotOpen ? "Fermer l'assistant" : "Ouvrir l'assistant"}
-                    title={isChatbotOpen ? "Fermer l'assistant" : "Ouvrir l'assistant"}
-                >
-                    {isChatbotOpen ? 'Fermer' : 'Assistant'}
-                </button>
-            )}
-            {isChatbotOpen && ai && (
-                <ChatbotModal
-                    isOpen={isChatbotOpen}
-                    onClose={toggleChatbot}
-                    currentPage={currentPage}
-                    navigateTo={navigateTo}
-                    ai={ai}
-                    userLanguage={userProfile?.language || 'fr'}
-                />
-            )}
-        </div>
-    );
-};
+    public commit(transactionId: string) {
+        this.settle(transactionId, 'committed');
+    }
 
-// --- UpgradeModal Component ---
-interface UpgradeModalProps {
-    onClose: () => void;
-    onUpgrade: () => void;
+    public refund(transactionId: string) {
+        this.settle(transactionId, 'refunded');
+    }
 }
 
-const UpgradeModal: React.FC<UpgradeModalProps> = ({ onClose, onUpgrade }) => {
-    return (
-        <div className="modal-overlay" onClick={onClose}>
-            <div className="modal-content" style={{ maxWidth: '500px' }} onClick={e => e.stopPropagation()}>
-                <div className="modal-header">
-                    <h3 className="modal-title">Fonctionnalité Premium</h3>
-                    <button className="close-modal-button" onClick={onClose}>&times;</button>
-                </div>
-                <div className="modal-body">
-                    <p>L'<strong>Analyse SEO Avancée</strong> est une fonctionnalité exclusive du plan <strong>Entreprise</strong>.</p>
-                    <p>Passez au niveau supérieur pour débloquer cette fonctionnalité et obtenir des analyses concurrentielles approfondies, des suggestions de différenciation et des idées de contenu stratégiques.</p>
-                </div>
-                <div className="modal-footer">
-                    <button className="button-secondary" onClick={onClose}>Plus Tard</button>
-                    <button className="submit-button" onClick={onUpgrade}>Voir les Plans</button>
-                </div>
-            </div>
-        </div>
-    );
+// Reserves the credits, runs the AI action, then commits on success or refunds on failure.
+const runWithCredits = async <T,>(ledger: CreditLedger, request: CreditRequest, action: () => Promise<T>): Promise<T> => {
+    const transactionId = ledger.reserve(request);
+    try {
+        const result = await action();
+        ledger.commit(transactionId);
+        return result;
+    } catch (e) {
+        ledger.refund(transactionId);
+        throw e;
+    }
 };
+// --- End Credit Ledger ---
 
-// --- ChatbotModal Component ---
-interface ChatbotModalProps {
-    isOpen: boolean;
-    onClose: () => void;
-    currentPage: Page;
-    navigateTo: (page: Page) => void;
-    ai: GoogleGenAI;
-    userLanguage: string;
+
+// --- Storage Layer ---
+
+const storageBackendKind = (process.env.STORAGE_BACKEND || 'local') as StorageBackendKind;
+const repositories = createRepositories(storageBackendKind);
+// --- End Storage Layer ---
+
+
+// --- Authentication ---
+interface AuthUser {
+    id: string;
+    email: string;
+    role: UserRole;
+    plan?: UserPlan; // The account's plan, sent by the API; the browser backends keep the default one
 }
 
-const getChatbotSystemInstruction = (page: Page): string => {
-    // Default instruction
-    let instruction = "You are a helpful assistant for the OtterCluster application. Help the user understand the current page and navigate if requested. If you suggest navigation, clearly state 'Okay, I will navigate you to the [Page Name] page.' or 'Navigating to [Page Name].'";
+interface AuthSession {
+    token: string;
+    user: AuthUser;
+}
 
-    switch (page) {
-        case 'dashboard':
-            instruction = "You are a dashboard assistant for OtterCluster. You can provide summaries of what's on the dashboard or help navigate to other sections like 'My Projects' or 'E-commerce Redaction'. If you suggest navigation, clearly state 'Okay, I will navigate you to the [Page Name] page.'";
-            break;
-        default:
-            break;
+interface AuthService {
+    restoreSession(): Promise<AuthSession | null>;
+    login(email: string, password: string): Promise<AuthSession>;
+    // The invitation token comes from the link sent by the account owner; without it a main account is created.
+    register(email: string, password: string, invitationToken?: string | null): Promise<AuthSession>;
+    // Makes the signed-in main account a collaborator of the account that sent the invitation.
+    acceptInvitation(invitationToken: string): Promise<AuthSession>;
+    // Resolves with the reset token when there is no mail delivery (local accounts), null when a link was emailed.
+    requestPasswordReset(email: string): Promise<string | null>;
+    resetPassword(token: string, password: string): Promise<void>;
+    signOut(): Promise<void>;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const RESET_TOKEN_QUERY_PARAM = 'resetToken';
+const INVITATION_QUERY_PARAM = 'invitation';
+
+class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+const storeToken = (key: string, token: string | null) => {
+    if (token) {
+        saveToLocalStorage(key, token);
+    } else {
+        localStorage.removeItem(key);
     }
-    return instruction;
 };
 
+class HttpAuthService implements AuthService {
+    async restoreSession(): Promise<AuthSession | null> {
+        const token = loadFromLocalStorage<string | null>(LOCAL_STORAGE_AUTH_TOKEN, null);
+        if (!token) return null;
+        try {
+            const { user } = await apiRequest<{ user: AuthUser }>('/api/auth/me');
+            return { token, user: { ...user, id: String(user.id) } };
+        } catch (e) {
+            if (e instanceof ApiError && e.status === 401) {
+                storeToken(LOCAL_STORAGE_AUTH_TOKEN, null);
+                return null;
+            }
+            throw e;
+        }
+    }
 
-const ChatbotModal: React.FC<ChatbotModalProps> = ({ isOpen, onClose, currentPage, navigateTo, ai, userLanguage }) => {
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
-    const [listeningState, setListeningState] = useState<ListeningState>('idle');
-    const [chatbotError, setChatbotError] = useState<string | null>(null);
-    const geminiChatRef = useRef<Chat | null>(null);
-    const messagesEndRef = useRef<HTMLDivElement>(null);
-    const [textInputValue, setTextInputValue] = useState('');
+    async login(email: string, password: string): Promise<AuthSession> {
+        return this.authenticate('/api/auth/login', { email, password });
+    }
 
-    const scrollToBottom = useCallback(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, []);
+    async register(email: string, password: string, invitationToken?: string | null): Promise<AuthSession> {
+        return this.authenticate('/api/auth/register', { email, password, invitationToken });
+    }
 
-    useEffect(scrollToBottom, [messages]);
+    async acceptInvitation(invitationToken: string): Promise<AuthSession> {
+        return this.authenticate('/api/auth/accept-invitation', { invitationToken });
+    }
 
-    useEffect(() => {
-        if (!isOpen) {
-            setListeningState('idle');
-            return;
-        }
+    async requestPasswordReset(email: string): Promise<string | null> {
+        await apiRequest<void>('/api/auth/forgot-password', { method: 'POST', body: JSON.stringify({ email }) });
+        return null;
+    }
 
-        if (!geminiChatRef.current && ai) {
-            geminiChatRef.current = ai.chats.create({
-                model: 'gemini-2.5-flash',
-                config: {
-                    systemInstruction: getChatbotSystemInstruction(currentPage),
-                }
-            });
-        } else if (geminiChatRef.current) {
-            geminiChatRef.current = ai.chats.create({
-                model: 'gemini-2.5-flash',
-                config: {
-                    systemInstruction: getChatbotSystemInstruction(currentPage),
-                }
-            });
-        }
+    async resetPassword(token: string, password: string): Promise<void> {
+        await apiRequest<void>('/api/auth/reset-password', { method: 'POST', body: JSON.stringify({ token, password }) });
+    }
 
-        setMessages([{
-            id: `system-${Date.now()}`,
-            sender: 'system',
-            text: `Assistant pour "${getPageTitle(currentPage)}" activé.`,
-            timestamp: Date.now()
-        }]);
+    async signOut(): Promise<void> {
+        storeToken(LOCAL_STORAGE_AUTH_TOKEN, null);
+    }
 
-    }, [isOpen, currentPage, ai]);
+    private async authenticate(path: string, body: Record<string, unknown>): Promise<AuthSession> {
+        const session = await apiRequest<AuthSession>(path, { method: 'POST', body: JSON.stringify(body) });
+        storeToken(LOCAL_STORAGE_AUTH_TOKEN, session.token);
+        return { token: session.token, user: { ...session.user, id: String(session.user.id) } };
+    }
+}
 
-    const pageTitlesMap: Record<Page, string> = {
-        'dashboard': 'Dashboard',
-        'my-projects': 'My Projects',
-        'search-intentions': 'Intentions de Recherches',
-        'e-commerce-redaction': "Rédaction Fiche E-commerce",
-        'competitive-analysis': 'Analyse Concurrentielle',
-        'product-page-analysis': 'Analyse Fiche Produit Concurrent',
-        'cro-optimization': 'Optimisation CRO',
-        'faq-generator': "Générer une FAQ",
-        'summary-table-generator': "Générer un Tableau Récapitulatif",
-        'settings': 'Settings',
-        'my-account-profile': 'My Account Profile',
-        'billing': 'Billing',
-        'plans-pricing': 'Plans et Tarif',
-        'roadmap-dev': 'Roadmap de Développement',
-        'summary': 'Résumé & Personas',
-        'online-help': 'Aide en Ligne',
-        'specs-for-dev': 'Spécifications pour Développeur',
-    };
-    
-    const handleAiResponse = useCallback((aiText: string) => {
-        setMessages(prev => [...prev, { id: `ai-${Date.now()}`, sender: 'ai', text: aiText, timestamp: Date.now() }]);
-        setListeningState('idle');
+interface LocalAccount {
+    id: string;
+    email: string;
+    passwordHash: string;
+    salt: string;
+    role: UserRole;
+    resetToken?: { token: string; expiresAt: string };
+}
 
-        const navRegex = /navigate to the ([\w\s'-]+) page|navigating to ([\w\s'-]+)/i;
-        const navMatch = aiText.match(navRegex);
+const LOCAL_STORAGE_ACCOUNTS = 'semanticAppAccounts';
+const LOCAL_STORAGE_AUTH_SESSIONS = 'semanticAppAuthSessions';
+// Kept apart from the API token so local sessions are never sent to the server as a bearer token.
+const LOCAL_STORAGE_LOCAL_SESSION_TOKEN = 'semanticAppLocalSessionToken';
+const LOCAL_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
 
-        if (navMatch) {
-            const pageNameQuery = (navMatch[1] || navMatch[2]).trim().toLowerCase();
-            const pageEntries = Object.entries(pageTitlesMap) as [Page, string][];
-            const foundPage = pageEntries.find(([_, title]) => title.toLowerCase() === pageNameQuery);
+const createRandomToken = (): string => Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
 
-            if (foundPage) {
-                setTimeout(() => navigateTo(foundPage[0]), 1000);
-            } else {
-                 console.warn("Chatbot tried to navigate to an unknown page title:", pageNameQuery);
-            }
+const hashLocalPassword = async (password: string, salt: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${password}`));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Browser-only accounts for the non-HTTP storage backends. All of them share this browser's storage, so unlike
+// the API no invitation token is needed: an email that was invited on the Settings page registers as a collaborator.
+class LocalAuthService implements AuthService {
+    private backend: KeyValueBackend;
+    private collaborators: CollectionRepository<Collaborator>;
+
+    constructor(backend: KeyValueBackend, collaborators: CollectionRepository<Collaborator>) {
+        this.backend = backend;
+        this.collaborators = collaborators;
+    }
+
+    async restoreSession(): Promise<AuthSession | null> {
+        const token = loadFromLocalStorage<string | null>(LOCAL_STORAGE_LOCAL_SESSION_TOKEN, null);
+        if (!token) return null;
+        const sessions = await this.backend.get<Record<string, string>>(LOCAL_STORAGE_AUTH_SESSIONS, {});
+        const account = (await this.loadAccounts()).find(a => a.id === sessions[token]);
+        if (!account) {
+            storeToken(LOCAL_STORAGE_LOCAL_SESSION_TOKEN, null);
+            return null;
         }
-    }, [navigateTo]);
+        return { token, user: this.toUser(account) };
+    }
 
-    const processUserMessageWithAI = useCallback(async (userText: string) => {
-        if (!geminiChatRef.current) {
-            setChatbotError("Session de chat non initialisée.");
-            setListeningState('idle');
-            return;
+    async login(email: string, password: string): Promise<AuthSession> {
+        const account = (await this.loadAccounts()).find(a => a.email === normalizeEmail(email));
+        if (!account || account.passwordHash !== await hashLocalPassword(password, account.salt)) {
+            throw new AuthError('Email ou mot de passe incorrect.');
         }
-        setListeningState('processing');
-        try {
-            const response: GenerateContentResponse = await geminiChatRef.current.sendMessage({ message: userText });
-            handleAiResponse(response.text);
-        } catch (error: any) {
-            console.error("Error sending message to Gemini:", error);
-            const errText = `Erreur de l'assistant: ${error.message || 'Impossible de répondre.'}`;
-            setMessages(prev => [...prev, { id: `ai-err-${Date.now()}`, sender: 'ai', text: errText, timestamp: Date.now() }]);
-            setListeningState('idle');
-            setChatbotError(errText);
+        return this.openSession(account);
+    }
+
+    async register(email: string, password: string): Promise<AuthSession> {
+        const normalizedEmail = normalizeEmail(email);
+        validatePassword(password);
+        const accounts = await this.loadAccounts();
+        if (accounts.some(a => a.email === normalizedEmail)) {
+            throw new AuthError('Un compte existe déjà avec cette adresse email.');
         }
-    }, [handleAiResponse]);
+        const invitedCollaborators = await this.collaborators.list();
+        const salt = createRandomToken();
+        const account: LocalAccount = {
+            id: Date.now().toString(),
+            email: normalizedEmail,
+            passwordHash: await hashLocalPassword(password, salt),
+            salt,
+            role: invitedCollaborators.some(c => c.email.toLowerCase() === normalizedEmail) ? 'collaborator' : 'main',
+        };
+        await this.backend.set(LOCAL_STORAGE_ACCOUNTS, [...accounts, account]);
+        return this.openSession(account);
+    }
 
-    const handleSendTextMessage = useCallback(() => {
-        if (!textInputValue.trim()) return;
-        setMessages(prev => [...prev, { id: `user-${Date.now()}`, sender: 'user', text: textInputValue, timestamp: Date.now() }]);
-        processUserMessageWithAI(textInputValue);
-        setTextInputValue('');
-    }, [textInputValue, processUserMessageWithAI]);
+    async acceptInvitation(_invitationToken: string): Promise<AuthSession> {
+        throw new AuthError("Les liens d'invitation ne s'utilisent qu'avec les comptes de l'API.");
+    }
 
-    if (!isOpen) return null;
+    async requestPasswordReset(email: string): Promise<string | null> {
+        const accounts = await this.loadAccounts();
+        const account = accounts.find(a => a.email === normalizeEmail(email));
+        if (!account) {
+            throw new AuthError('Aucun compte local ne correspond à cette adresse email.');
+        }
+        const token = createRandomToken();
+        account.resetToken = { token, expiresAt: new Date(Date.now() + LOCAL_RESET_TOKEN_TTL_MS).toISOString() };
+        await this.backend.set(LOCAL_STORAGE_ACCOUNTS, accounts);
+        return token;
+    }
 
-    let statusText = "Tapez votre message et appuyez sur Envoyer.";
-    if (listeningState === 'processing') {
-        statusText = "Réflexion en cours...";
+    async resetPassword(token: string, password: string): Promise<void> {
+        validatePassword(password);
+        const accounts = await this.loadAccounts();
+        const account = accounts.find(a => a.resetToken?.token === token);
+        if (!account?.resetToken || new Date(account.resetToken.expiresAt).getTime() < Date.now()) {
+            throw new AuthError('Lien de réinitialisation invalide ou expiré.');
+        }
+        account.salt = createRandomToken();
+        account.passwordHash = await hashLocalPassword(password, account.salt);
+        delete account.resetToken;
+        await this.backend.set(LOCAL_STORAGE_ACCOUNTS, accounts);
     }
 
-    return (
-        <div className="chatbot-modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="chatbotTitle">
-            <div className="chatbot-modal-content" onClick={e => e.stopPropagation()}>
-                <div className="chatbot-modal-header">
-                    <h3 id="chatbotTitle" className="chatbot-modal-title">
-                        Assistant OtterCluster
-                    </h3>
-                    <button onClick={onClose} className="chatbot-close-button" aria-label="Fermer l'assistant">&times;</button>
-                </div>
-                <div className="chatbot-messages-container">
-                    {messages.map(msg => (
-                        <div key={msg.id} className={`chatbot-message chatbot-message-${msg.sender}`}>
-                            <p className="chatbot-message-text">{msg.text}</p>
-                            <span className="chatbot-message-timestamp">{new Date(msg.timestamp).toLocaleTimeString()}</span>
-                        </div>
-                    ))}
-                    <div ref={messagesEndRef} />
-                </div>
-                {chatbotError && <p className="chatbot-error-display" role="alert">{chatbotError}</p>}
+    async signOut(): Promise<void> {
+        const token = loadFromLocalStorage<string | null>(LOCAL_STORAGE_LOCAL_SESSION_TOKEN, null);
+        if (token) {
+            const { [token]: _, ...sessions } = await this.backend.get<Record<string, string>>(LOCAL_STORAGE_AUTH_SESSIONS, {});
+            await this.backend.set(LOCAL_STORAGE_AUTH_SESSIONS, sessions);
+        }
+        storeToken(LOCAL_STORAGE_LOCAL_SESSION_TOKEN, null);
+    }
 
-                <div className="chatbot-input-area">
-                    <div style={{width: '100%', display: 'flex', gap: '8px', alignItems: 'center'}}>
-                        <input
-                            type="text"
-                            className="chatbot-text-input"
-                            placeholder="Posez votre question..."
-                            value={textInputValue}
-                            onChange={(e) => setTextInputValue(e.target.value)}
-                            onKeyPress={(e) => e.key === 'Enter' && handleSendTextMessage()}
-                            disabled={listeningState === 'processing'}
-                            aria-label="Entrée de texte pour le chat"
-                        />
-                        <button
-                            onClick={handleSendTextMessage}
-                            className="chatbot-send-button submit-button"
-                            disabled={listeningState === 'processing' || !textInputValue.trim()}
-                            aria-label="Envoyer le message texte"
-                        >
-                            Envoyer
-                        </button>
-                    </div>
-                    <p className="chatbot-status-text">
-                        {statusText}
-                    </p>
-                </div>
-            </div>
-        </div>
-    );
+    private loadAccounts(): Promise<LocalAccount[]> {
+        return this.backend.get<LocalAccount[]>(LOCAL_STORAGE_ACCOUNTS, []);
+    }
+
+    private async openSession(account: LocalAccount): Promise<AuthSession> {
+        const token = createRandomToken();
+        const sessions = await this.backend.get<Record<string, string>>(LOCAL_STORAGE_AUTH_SESSIONS, {});
+        await this.backend.set(LOCAL_STORAGE_AUTH_SESSIONS, { ...sessions, [token]: account.id });
+        storeToken(LOCAL_STORAGE_LOCAL_SESSION_TOKEN, token);
+        return { token, user: this.toUser(account) };
+    }
+
+    private toUser(account: LocalAccount): AuthUser {
+        return { id: account.id, email: account.email, role: account.role };
+    }
+}
+
+const normalizeEmail = (email: string): string => {
+    const normalized = email.trim().toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(normalized)) {
+        throw new AuthError('Adresse email invalide.');
+    }
+    return normalized;
 };
-// --- End ChatbotModal Component ---
 
+const validatePassword = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères.`);
+    }
+};
 
-interface SidebarProps {
-    currentPage: Page;
-    navigateTo: (page: Page) => void;
-    userRole: UserRole;
-    userPlan: UserPlan;
+const createAuthService = (kind: StorageBackendKind): AuthService => {
+    switch (kind) {
+        case 'http': return new HttpAuthService();
+        case 'memory': return new LocalAuthService(new InMemoryBackend(), repositories.collaborators);
+        case 'indexeddb':
+        case 'local': return new LocalAuthService(new LocalStorageBackend(), repositories.collaborators);
+        default:
+            const exhaustiveCheck: never = kind;
+            return exhaustiveCheck;
+    }
+};
+
+const authService = createAuthService(storageBackendKind);
+// --- End Authentication ---
+
+
+// --- AI Proxy Client ---
+// Models are only reached through the API server (`/api/ai`), which holds the keys, renders the prompt of
+// each template from the account's library, picks the model of each feature, rate-limits callers and
+// charges credits server-side. Pages only send the template's variables.
+interface AiRequest {
+    template: PromptTemplateId;
+    variables: Record<string, string>;
+    projectId?: string; // Adds the project's brand voice and pinned template versions
+    reviewNotes?: string[]; // Product descriptions sent back by the review queue
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentPage, navigateTo }) => {
-    const mainNavItems: NavItem[] = [
-        { id: 'dashboard', label: 'Dashboard', href: '#' },
-        { id: 'my-projects', label: 'My Projects', href: '#' },
-        { id: 'search-intentions', label: 'Intentions de recherches', href: '#' },
-        { id: 'e-commerce-redaction', label: 'Rédaction Fiche E-commerce', href: '#' },
-        { id: 'competitive-analysis', label: 'Analyse Concurrentielle', href: '#' },
-        { id: 'product-page-analysis', label: 'Analyse Fiche Produit', href: '#' },
-        { id: 'cro-optimization', label: 'Optimisation CRO', href: '#' },
-        { id: 'faq-generator', label: "Générer une FAQ", href: '#' },
-        { id: 'summary-table-generator', label: "Générer un Tableau Récapitulatif", href: '#' },
-    ];
+interface AiResponse {
+    text: string;
+}
 
-    const accountNavItems: NavItem[] = [
-        { id: 'my-account-profile', label: 'Mon Compte Profil', href: '#' },
-        { id: 'billing', label: 'Billing', href: '#' },
-        { id: 'settings', label: 'Settings', href: '#' }
-    ];
+interface AiCreditTransaction {
+    id: string;
+    action: CreditAction;
+    projectId?: string;
+    amount: number;
+    status: 'committed' | 'refunded';
+    createdAt: string;
+}
 
-    const helpNavItems: NavItem[] = [
-        { id: 'summary', label: 'Résumé', href: '#' },
-        { id: 'online-help', label: 'Aide en ligne', href: '#' },
-        { id: 'roadmap-dev', label: 'Roadmap Dev', href: '#' },
-        { id: 'specs-for-dev', label: 'Specs pour dev', href: '#' },
-        { id: 'contact-support', label: 'Contact Support', href: '#' },
-    ];
+// The server picks the assistant's instructions from the page; the oldest turns are dropped to fit its limits.
+class AiChat {
+    private page: Page;
+    private history: ChatTurn[] = [];
 
+    constructor(page: Page) {
+        this.page = page;
+    }
 
-    const renderNavItems = useCallback((items: NavItem[]) => (
-        <ul className="nav-list">
-            {items.map(item => (
-                <li key={item.id} className="nav-item">
-                    <a
-                        href={item.href}
-                        className={`nav-link ${currentPage === item.id ? 'active' : ''}`}
-                        onClick={(e) => {
-                            e.preventDefault();
-                            if (item.id === 'contact-support') {
-                                alert("Contact Support (Placeholder)");
-                            } else {
-                                navigateTo(item.id as Page);
-                            }
-                        }}
-                        aria-current={currentPage === item.id ? 'page' : undefined}
-                    >
-                        {item.label}
-                    </a>
-                </li>
-            ))}
-        </ul>
-    ), [currentPage, navigateTo]);
+    async sendMessage(message: string): Promise<AiResponse> {
+        const history = trimChatHistory(this.history, message);
+        const response = await apiRequest<AiResponse>('/api/ai/chat', {
+            method: 'POST',
+            body: JSON.stringify({ page: this.page, history, message }),
+        });
+        this.history = [...history, { role: 'user', parts: [{ text: message }] }, { role: 'model', parts: [{ text: response.text }] }];
+        return response;
+    }
+}
 
-    return (
-        <aside className="sidebar">
-            <div className="sidebar-logo">
-                <h1>OtterCluster</h1>
-            </div>
+class AiProxyClient {
+    // Returns the template's result checked and typed (see promptTemplateOutputs); throws AiResponseError otherwise.
+    async generateStructured<T>(request: AiRequest): Promise<T> {
+        const response = await apiRequest<AiResponse>('/api/ai/generate', { method: 'POST', body: JSON.stringify(request) });
+        return parseAiResponse<T>(response.text, promptTemplateOutputs[request.template].schema);
+    }
 
-            <nav>
-                <div className="nav-section">
-                    <h2 className="nav-section-title">Principal</h2>
-                    {renderNavItems(mainNavItems)}
-                </div>
+    // The server lists the most recent charges first; the ledger keeps them in chronological order.
+    async getCreditBalance(): Promise<CreditBalance> {
+        const { total, remaining, transactions } = await apiRequest<{ total: number; remaining: number; transactions: AiCreditTransaction[] }>('/api/ai/credits');
+        return {
+            total,
+            remaining,
+            transactions: transactions.map((transaction): CreditTransaction => ({
+                id: `server_${transaction.id}`,
+                amount: transaction.amount,
+                ...creditActionDetails[transaction.action],
+                projectId: transaction.projectId,
+                status: transaction.status,
+                timestamp: transaction.createdAt,
+                settledAt: transaction.createdAt,
+            })).reverse(),
+        };
+    }
 
-                <div className="nav-section">
-                    <h2 className="nav-section-title">Mon Compte</h2>
-                     {renderNavItems(accountNavItems)}
-                </div>
+    // Returns one vector per text, in the same order; used for semantic keyword clustering.
+    async embedContents(texts: string[], projectId?: string): Promise<number[][]> {
+        const { embeddings } = await apiRequest<{ embeddings: number[][] }>('/api/ai/embed', { method: 'POST', body: JSON.stringify({ texts, projectId }) });
+        return embeddings;
+    }
 
-                <div className="nav-section">
-                    <h2 className="nav-section-title">Aide & Ressources</h2>
-                    {renderNavItems(helpNavItems)}
-                </div>
-            </nav>
-        </aside>
-    );
-};
+    createChat(page: Page): AiChat {
+        return new AiChat(page);
+    }
 
-interface MainWrapperProps {
-    currentPage: Page;
-    navigateTo: (page: Page) => void;
-    userRole: UserRole;
-    userPlan: UserPlan;
-    userProfile: UserProfileData | null;
-    onProfileUpdate: (profile: UserProfileData) => void;
-    onSignOut: () => void;
-    userEmail: string;
-    credits: { remaining: number; total: number; };
+    async isEnabled(): Promise<boolean> {
+        try {
+            const { enabled } = await apiRequest<{ enabled: boolean }>('/api/ai/status');
+            return enabled;
+        } catch (e) {
+            console.warn("AI proxy unavailable. AI features will be disabled.", e);
+            return false;
+        }
+    }
 }
 
-const MainWrapper: React.FC<MainWrapperProps> = (props) => {
-    const { currentPage, navigateTo, userRole, userPlan, userProfile, onProfileUpdate, onSignOut, credits } = props;
+const ai = new AiProxyClient();
+// --- End AI Proxy Client ---
 
-    return (
-        <div className="main-wrapper">
-            <Header 
-                currentPage={currentPage} 
-                userRole={userRole} 
-                userProfile={userProfile} 
-                onSignOut={onSignOut} 
-                navigateTo={navigateTo}
-                creditsRemaining={credits.remaining}
-                creditsTotal={credits.total}
-            />
-            <main className="main-content">
-                {currentPage === 'dashboard' && <DashboardPage navigateTo={navigateTo} userProfile={userProfile} />}
-                {currentPage === 'my-projects' && <MyProjectsPage />}
-                {currentPage === 'search-intentions' && <SearchIntentionsPage navigateTo={navigateTo} />}
-                {currentPage === 'e-commerce-redaction' && ai && <EcommerceRedactionPage ai={ai}/>}
-                {currentPage === 'competitive-analysis' && ai && <CompetitiveAnalysisPage ai={ai} />}
-                {currentPage === 'product-page-analysis' && ai && <ProductPageAnalysisPage ai={ai} />}
-                {currentPage === 'cro-optimization' && ai && <CroOptimizationPage ai={ai} />}
-                {currentPage === 'faq-generator' && ai && <FaqGeneratorPage ai={ai} />}
-                {currentPage === 'summary-table-generator' && ai && <SummaryTableGeneratorPage ai={ai} />}
-                {currentPage === 'settings' && userRole === 'main' && <SettingsPage />}
-                {currentPage === 'my-account-profile' && userProfile && <MyAccountProfilePage userProfile={userProfile} onProfileUpdate={onProfileUpdate} />}
-                {currentPage === 'billing' && <BillingPage navigateTo={navigateTo} />}
-                {currentPage === 'plans-pricing' && <PlansPricingPage navigateTo={navigateTo} />}
-                {currentPage === 'roadmap-dev' && <RoadmapDevPage />}
-                {currentPage === 'summary' && <SummaryPage />}
-                {currentPage === 'online-help' && <OnlineHelpPage />}
-                {currentPage === 'specs-for-dev' && <SpecsForDevPage />}
-            </main>
-        </div>
-    );
+// --- AI Response Schemas ---
+// The result types and responseSchemas are declared in shared/aiSchemas.ts. Replies are checked against the
+// schema on the server (which asks the model again once when they do not match) and here, where tolerated
+// values are converted to the declared types.
+class AiResponseError extends Error {
+    issues: string[];
+
+    constructor(message: string, issues: string[]) {
+        super(message);
+        this.name = 'AiResponseError';
+        this.issues = issues;
+    }
+}
+
+const parseAiResponse = <T,>(text: string, schema: Schema): T => {
+    let data: unknown;
+    try {
+        data = parseStructuredText(text);
+    } catch (e: any) {
+        throw new AiResponseError(`La réponse de l'IA n'est pas un JSON valide : ${e.message}`, [e.message]);
+    }
+    const issues: string[] = [];
+    const result = conformToSchema(schema, data, '', issues);
+    if (issues.length > 0) {
+        throw new AiResponseError(`La réponse de l'IA ne respecte pas le format attendu (${issues.slice(0, 3).join(' ; ')}${issues.length > 3 ? ' ; …' : ''}).`, issues);
+    }
+    return result as T;
 };
 
-interface HeaderProps {
-    currentPage: Page;
-    userRole: UserRole;
-    userProfile: UserProfileData | null;
-    onSignOut: () => void;
-    navigateTo: (page: Page) => void;
-    creditsRemaining: number;
-    creditsTotal: number;
+// --- End AI Response Schemas ---
+
+// --- Redaction Job Queue ---
+// Bulk product description runs. The queue lives in App so a run keeps going when the user leaves the
+// page, and it is persisted after every change so partial results survive a reload.
+type RedactionItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+type RedactionJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+interface RedactionJobItem {
+    id: string;
+    url: string;
+    product?: CatalogueProduct; // Catalogue identifiers used by the CMS exports.
+    status: RedactionItemStatus;
+    attempts: number;
+    nextAttemptAt?: number; // Backoff: the item is not picked up again before this timestamp.
+    description?: string;
+    jsonLd?: string;
+    originalDescription?: string; // Description found on the product page when it was generated
+    editedDescription?: string; // Reviewer's edit, used instead of the generated HTML
+    reviewNotes?: string[]; // Review comments sent with a regeneration
+    error?: string;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentPage, userRole, userProfile, onSignOut, navigateTo, creditsRemaining, creditsTotal }) => {
-    const [dropdownOpen, setDropdownOpen] = useState(false);
-    const dropdownRef = useRef<HTMLDivElement>(null);
 
-    const getGreetingName = useCallback(() => {
-        if (userProfile?.firstName) {
-            return userProfile.firstName;
-        }
-        return userRole === 'main' ? 'Admin' : 'Collaborateur';
-    }, [userProfile, userRole]);
+interface RedactionContext {
+    siteAnalysis: SiteAnalysis;
+    targetCustomer: string;
+    intentions: string[];
+    intentionsByUrl?: Record<string, string[]>; // Queries matched to each product, keyed by normalized product URL
+    projectId?: string;
+    promptTemplate?: string; // Product description template shown in the prompt preview; the server renders its own
+}
 
-    const getUserInitials = useCallback(() => {
-        if (userProfile?.firstName && userProfile?.lastName) {
-            return `${userProfile.firstName.charAt(0)}${userProfile.lastName.charAt(0)}`.toUpperCase();
-        }
-        if (userProfile?.firstName) {
-            return userProfile.firstName.charAt(0).toUpperCase();
-        }
-        return getGreetingName().charAt(0).toUpperCase();
-    }, [userProfile, getGreetingName]);
+interface RedactionJob {
+    id: string;
+    createdAt: string;
+    status: RedactionJobStatus;
+    pauseReason?: string;
+    concurrency: number;
+    maxAttempts: number;
+    context: RedactionContext;
+    items: RedactionJobItem[];
+}
 
-    const toggleDropdown = useCallback(() => setDropdownOpen(prev => !prev), []);
+interface RedactionResult {
+    description: string;
+    jsonLd: string;
+    originalDescription?: string;
+}
 
-    useEffect(() => {
-        const handleClickOutside = (event: MouseEvent) => {
-            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-                setDropdownOpen(false);
-            }
-        };
-        document.addEventListener("mousedown", handleClickOutside);
-        return () => document.removeEventListener("mousedown", handleClickOutside);
-    }, []);
+// Review comments of a description sent back for rework are passed along so the new version addresses them.
+type RedactionWorker = (context: RedactionContext, url: string, reviewNotes?: string[]) => Promise<RedactionResult>;
 
-    const isLowOnCredits = creditsTotal > 0 && (creditsRemaining / creditsTotal) < 0.1;
 
-    return (
-        <header className="header">
-            <div className="breadcrumbs">
-                OtterCluster / <span className="current-page">{getPageTitle(currentPage)}</span>
-            </div>
-            <div className="header-right-section">
-                <div 
-                    className={`header-credits-display ${isLowOnCredits ? 'low-credits' : ''}`}
-                    title={`Crédits restants ce mois-ci : ${creditsRemaining} / ${creditsTotal}`}
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 1 0 0-16 8 8 0 0 0 0 16Zm.75-13a.75.75 0 0 0-1.5 0v5c0 .414.336.75.75.75h4a.75.75 0 0 0 0-1.5h-3.25V5Z" clipRule="evenodd" />
-                    </svg>
-                    <span>Crédits : <strong>{creditsRemaining}</strong></span>
-                </div>
-                <div className="user-profile-container" ref={dropdownRef}>
-                    <div className="user-profile" onClick={toggleDropdown} role="button" tabIndex={0} aria-expanded={dropdownOpen} aria-haspopup="true" aria-controls="userProfileMenu">
-                        <div className="user-avatar" aria-hidden="true">{getUserInitials()}</div>
-                        <span className="user-name">Bonjour, {getGreetingName()}</span>
-                    </div>
-                    {dropdownOpen && (
-                        <ul id="userProfileMenu" className="user-profile-dropdown" role="menu">
-                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('my-account-profile'); setDropdownOpen(false); }}>Mon Profil</button></li>
-                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('billing'); setDropdownOpen(false); }}>Facturation</button></li>
-                            {userRole === 'main' && (
-                               <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('plans-pricing'); setDropdownOpen(false);}}>Plans et Tarif</button></li>
-                            )}
-                            {userRole === 'main' && (
-                                 <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('settings'); setDropdownOpen(false); }}>Paramètres</button></li>
-                            )}
-                            <li role="separator"><hr style={{margin: '5px 0', borderColor: '#eee'}} /></li>
-                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={onSignOut}>Déconnexion</button></li>
-                        </ul>
-                    )}
-                </div>
-            </div>
-        </header>
-    );
-};
+const LOCAL_STORAGE_REDACTION_JOB = 'semanticAppRedactionJob';
+const MAX_REDACTION_URLS = 1000;
+const REDACTION_CONCURRENCY_OPTIONS = [1, 2, 3, 5];
+const DEFAULT_REDACTION_CONCURRENCY = 3;
+const DEFAULT_REDACTION_MAX_ATTEMPTS = 3;
+const REDACTION_RETRY_BASE_DELAY_MS = 2000;
 
+class RedactionJobQueue {
+    private backend: KeyValueBackend;
+    private storageKey: string;
+    private job: RedactionJob | null = null;
+    private worker: RedactionWorker | null = null;
+    private activeCount: number = 0;
+    private retryTimeoutId?: number;
+    private listeners: Set<(job: RedactionJob | null) => void> = new Set();
+    private ready: Promise<void>;
+
+    constructor(backend: KeyValueBackend, storageKey: string) {
+        this.backend = backend;
+        this.storageKey = storageKey;
+        this.ready = this.restore();
+    }
 
-const DashboardPage: React.FC<{ navigateTo: (page: Page) => void; userProfile: UserProfileData | null; }> = ({ navigateTo, userProfile }) => {
-    const [stats, setStats] = useState({ projects: 0 });
-    const greetingName = userProfile?.firstName || 'Utilisateur';
+    // A run interrupted by a reload comes back paused, with its in-flight items queued again.
+    private async restore() {
+        try {
+            const stored = await this.backend.get<RedactionJob | null>(this.storageKey, null);
+            if (!stored) return;
+            this.job = {
+                ...stored,
+                status: stored.status === 'running' ? 'paused' : stored.status,
+                pauseReason: stored.status === 'running' ? "Génération interrompue par le rechargement de la page." : stored.pauseReason,
+                items: stored.items.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item),
+            };
+            this.listeners.forEach(listener => listener(this.job));
+        } catch (e) {
+            console.error("Error restoring redaction job:", e);
+        }
+    }
 
-    useEffect(() => {
-        const projectsCount = loadFromLocalStorage<Project[]>(LOCAL_STORAGE_PROJECTS, []).length;
-        setStats({ projects: projectsCount });
-    }, []);
+    private update(mutate: (job: RedactionJob) => RedactionJob) {
+        if (!this.job) return;
+        this.job = mutate(this.job);
+        this.persist();
+    }
 
-    return (
-        <div className="dashboard-page">
-            <div className="dashboard-header">
-                <h2 className="content-title">Bonjour, {greetingName} !</h2>
-                <p className="content-subtitle">Prêt à optimiser votre boutique en ligne aujourd'hui ?</p>
-            </div>
+    private updateItem(itemId: string, changes: Partial<RedactionJobItem>) {
+        this.update(job => ({
+            ...job,
+            items: job.items.map(item => item.id === itemId ? { ...item, ...changes } : item),
+        }));
+    }
 
-            <div className="dashboard-grid">
-                <div className="stat-card">
-                    <div className="stat-card-icon projects-icon">
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12.75V12A2.25 2.25 0 0 1 4.5 9.75h15A2.25 2.25 0 0 1 21.75 12v.75m-8.69-6.44-2.12-2.12a1.5 1.5 0 0 0-1.061-.44H4.5A2.25 2.25 0 0 0 2.25 6v12a2.25 2.25 0 0 0 2.25 2.25h15A2.25 2.25 0 0 0 21.75 18V9a2.25 2.25 0 0 0-2.25-2.25h-5.379a1.5 1.5 0 0 1-1.06-.44Z" />
-                        </svg>
-                    </div>
-                    <div className="stat-card-content">
-                        <p className="stat-card-metric">{stats.projects}</p>
-                        <p className="stat-card-label">Projets Actifs</p>
-                    </div>
-                </div>
+    private persist() {
+        this.backend.set(this.storageKey, this.job).catch(e => console.error("Error saving redaction job:", e));
+        this.listeners.forEach(listener => listener(this.job));
+    }
 
-                <div className="content-card quick-actions-card">
-                    <h3 className="card-title-small">Actions Rapides</h3>
-                    <div className="quick-actions-buttons">
-                        <button className="submit-button" onClick={() => navigateTo('e-commerce-redaction')}>Rédiger une Fiche Produit</button>
-                        <button className="button-secondary" onClick={() => navigateTo('competitive-analysis')}>Analyser un Concurrent</button>
-                    </div>
-                </div>
+    public whenReady(): Promise<void> {
+        return this.ready;
+    }
+
+    public getSnapshot(): RedactionJob | null {
+        return this.job;
+    }
+
+    public subscribe(listener: (job: RedactionJob | null) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    public isActive(): boolean {
+        return this.job?.status === 'running' || this.job?.status === 'paused';
+    }
+
+    public start(products: CatalogueProduct[], context: RedactionContext, concurrency: number, worker: RedactionWorker) {
+        if (this.isActive()) {
+            throw new Error("Une génération est déjà en cours. Terminez-la ou annulez-la avant d'en lancer une nouvelle.");
+        }
+        this.job = {
+            id: Date.now().toString(),
+            createdAt: new Date().toISOString(),
+            status: 'running',
+            concurrency,
+            maxAttempts: DEFAULT_REDACTION_MAX_ATTEMPTS,
+            context,
+            items: products.map((product, index) => ({ id: `${index}`, url: product.url, product, status: 'pending', attempts: 0 })),
+        };
+        this.worker = worker;
+        this.persist();
+        this.pump();
+    }
+
+    public resume(worker: RedactionWorker) {
+        if (this.job?.status !== 'paused') return;
+        this.worker = worker;
+        this.update(job => ({ ...job, status: 'running', pauseReason: undefined }));
+        this.pump();
+    }
+
+    // Items already sent to the model finish; no new item is started until the run is resumed.
+    public pause(reason?: string) {
+        if (this.job?.status !== 'running') return;
+        clearTimeout(this.retryTimeoutId);
+        this.update(job => ({ ...job, status: 'paused', pauseReason: reason }));
+    }
+
+    public cancel() {
+        if (!this.isActive()) return;
+        clearTimeout(this.retryTimeoutId);
+        this.update(job => ({
+            ...job,
+            status: 'cancelled',
+            pauseReason: undefined,
+            items: job.items.map(item => item.status === 'pending' ? { ...item, status: 'cancelled' } : item),
+        }));
+    }
+
+    public retryFailed(worker: RedactionWorker) {
+        if (!this.job || this.job.status === 'running') return;
+        this.worker = worker;
+        this.update(job => ({
+            ...job,
+            status: 'running',
+            pauseReason: undefined,
+            items: job.items.map(item => item.status === 'failed' || item.status === 'cancelled'
+                ? { ...item, status: 'pending', attempts: 0, error: undefined, nextAttemptAt: undefined }
+                : item),
+        }));
+        this.pump();
+    }
+
+    // undefined goes back to the generated text.
+    public editDescription(itemId: string, html: string | undefined) {
+        this.updateItem(itemId, { editedDescription: html });
+    }
+
+    // Generates the given items again, sending each one's review comments with the new request.
+    public regenerate(itemIds: string[], worker: RedactionWorker, reviewNotes: Record<string, string[]>) {
+        if (!this.job || this.job.status === 'running') return;
+        this.worker = worker;
+        this.update(job => ({
+            ...job,
+            status: 'running',
+            pauseReason: undefined,
+            items: job.items.map(item => itemIds.includes(item.id)
+                ? {
+                    ...item, status: 'pending', attempts: 0, error: undefined, nextAttemptAt: undefined,
+                    editedDescription: undefined, reviewNotes: reviewNotes[item.id],
+                }
+                : item),
+        }));
+        this.pump();
+    }
+
+    public clear() {
+        if (this.job?.status === 'running') return;
+        this.job = null;
+        this.backend.remove(this.storageKey).catch(e => console.error("Error clearing redaction job:", e));
+        this.listeners.forEach(listener => listener(null));
+    }
+
+    private pump() {
+        const job = this.job;
+        if (!job || job.status !== 'running' || !this.worker) return;
+
+        const now = Date.now();
+        const pending = job.items.filter(item => item.status === 'pending');
+        const ready = pending.filter(item => !item.nextAttemptAt || item.nextAttemptAt <= now);
+
+        for (const item of ready.slice(0, Math.max(0, job.concurrency - this.activeCount))) {
+            this.process(item, this.worker);
+        }
+
+        if (pending.length === 0 && this.activeCount === 0) {
+            this.update(current => ({ ...current, status: 'completed' }));
+            return;
+        }
+
+        const waiting = pending.filter(item => item.nextAttemptAt && item.nextAttemptAt > now);
+        if (waiting.length > 0 && this.activeCount < job.concurrency) {
+            clearTimeout(this.retryTimeoutId);
+            const nextAttemptAt = Math.min(...waiting.map(item => item.nextAttemptAt as number));
+            this.retryTimeoutId = window.setTimeout(() => this.pump(), nextAttemptAt - now);
+        }
+    }
+
+    private async process(item: RedactionJobItem, worker: RedactionWorker) {
+        const job = this.job as RedactionJob;
+        const jobId = job.id;
+        this.activeCount++;
+        this.updateItem(item.id, { status: 'running', nextAttemptAt: undefined });
+
+        try {
+            const result = await worker(job.context, item.url, item.reviewNotes?.length ? item.reviewNotes : undefined);
+            if (this.job?.id === jobId) {
+                this.updateItem(item.id, {
+                    status: 'done', attempts: item.attempts + 1, description: result.description, jsonLd: result.jsonLd,
+                    originalDescription: result.originalDescription || item.originalDescription, error: undefined,
+                });
+            }
+        } catch (e: any) {
+            if (this.job?.id !== jobId) return;
+            if (e instanceof InsufficientCreditsError) {
+                // Not the item's fault: put it back and wait for the user to top up.
+                this.updateItem(item.id, { status: 'pending' });
+                this.pause(e.message);
+            } else {
+                const attempts = item.attempts + 1;
+                const canRetry = attempts < job.maxAttempts && this.job.status !== 'cancelled';
+                this.updateItem(item.id, canRetry
+                    ? { status: 'pending', attempts, error: e.message, nextAttemptAt: Date.now() + REDACTION_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1) }
+                    : { status: 'failed', attempts, error: e.message });
+            }
+        } finally {
+            this.activeCount--;
+            this.pump();
+        }
+    }
+}
+
+// Jobs are a browser-side concern: with the HTTP backend they stay in localStorage.
+const createJobBackend = (kind: StorageBackendKind): KeyValueBackend => {
+    switch (kind) {
+        case 'indexeddb': return new IndexedDbBackend('ottercluster');
+        case 'memory': return new InMemoryBackend();
+        default: return new LocalStorageBackend();
+    }
+};
+// --- End Redaction Job Queue ---
+
+// --- STICKY FOOTER COMPONENT ---
+interface StickyFooterProps {
+    creditCost: number;
+    buttonText: string;
+    onButtonClick: () => void;
+    isButtonDisabled: boolean;
+    buttonLoadingText?: string;
+}
+
+const StickyFooter: React.FC<StickyFooterProps> = ({ creditCost, buttonText, onButtonClick, isButtonDisabled, buttonLoadingText }) => {
+    const isLoading = buttonLoadingText && isButtonDisabled;
+    
+    return (
+        <div className="sticky-action-footer">
+            <div className="footer-content-wrapper">
+                <p className="footer-credit-cost">
+                    Coût de l'action : <strong>{creditCost} crédits</strong>
+                </p>
+                <button onClick={onButtonClick} className="submit-button" disabled={isButtonDisabled}>
+                    {isLoading ? <><span className="spinner"></span> {buttonLoadingText}</> : buttonText}
+                </button>
             </div>
         </div>
     );
 };
+// --- END STICKY FOOTER COMPONENT ---
 
-const MyProjectsPage: React.FC = () => {
-    const [projects, setProjects] = useState<Project[]>([]);
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [projectName, setProjectName] = useState('');
-    const [projectUrl, setProjectUrl] = useState('');
-    const [projectCms, setProjectCms] = useState<CMS | ''>('');
-    const [editingProject, setEditingProject] = useState<Project | null>(null);
-    const [isFormDirty, setIsFormDirty] = useState(false);
-    
-    // FIX: Explicitly pass the generic type `Project` to `useSortableData` to ensure correct type inference for `requestSort`.
-    const { items: sortedProjects, requestSort, sortConfig } = useSortableData<Project>(projects, { key: 'creationDate', direction: 'descending' });
+const App: React.FC = () => {
+    const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+    const [session, setSession] = useState<AuthSession | null>(null);
+    const [isRestoringSession, setIsRestoringSession] = useState(true);
+    const [initialResetToken] = useState(() => new URLSearchParams(window.location.search).get(RESET_TOKEN_QUERY_PARAM));
+    const [invitationToken, setInvitationToken] = useState(() => new URLSearchParams(window.location.search).get(INVITATION_QUERY_PARAM));
+    const [userPlan, setUserPlan] = useState<UserPlan>(DEFAULT_USER_PLAN);
+    const [upgradeReason, setUpgradeReason] = useState<UpgradeReason | null>(null);
+    const [userProfile, setUserProfile] = useState<UserProfileData | null>(null);
+    const [isConcurrencyError, setIsConcurrencyError] = useState(false);
+    const sessionManagerRef = useRef<ActiveSessionManager | null>(null);
+    const appContainerRef = useRef<HTMLDivElement>(null);
+    const [isChatbotOpen, setIsChatbotOpen] = useState(false);
+    const [creditLedger] = useState(() => new CreditLedger(LOCAL_STORAGE_CREDIT_LEDGER, planCreditAllowance(DEFAULT_USER_PLAN)));
+    const [credits, setCredits] = useState<CreditLedgerData>(() => creditLedger.getSnapshot());
+    const [isAiEnabled, setIsAiEnabled] = useState(false);
+    const [redactionQueue] = useState(() => new RedactionJobQueue(createJobBackend(storageBackendKind), LOCAL_STORAGE_REDACTION_JOB));
+    const { projects, currentProject, selectProject, reloadProjects } = useCurrentProject(session?.user.email ?? null);
+    const userRole: UserRole = session?.user.role ?? 'main';
 
-    // Effect to track if the form in the modal has unsaved changes
     useEffect(() => {
-        if (!editingProject) {
-            setIsFormDirty(false);
-            return;
+        if (!sessionManagerRef.current) {
+            sessionManagerRef.current = new ActiveSessionManager(() => {
+                setIsConcurrencyError(true);
+            });
         }
-        const nameChanged = projectName !== editingProject.name;
-        const urlChanged = projectUrl !== editingProject.url;
-        const cmsChanged = projectCms !== (editingProject.cms || '');
-        setIsFormDirty(nameChanged || urlChanged || cmsChanged);
-    }, [projectName, projectUrl, projectCms, editingProject]);
-
+        return () => {
+            sessionManagerRef.current?.releaseSession();
+        };
+    }, []);
 
-    const getSortClassFor = (key: keyof Project) => {
-        if (!sortConfig) {
-            return '';
+     useEffect(() => {
+        if (appContainerRef.current) {
+            if (isConcurrencyError) {
+                appContainerRef.current.classList.add('concurrency-error-active');
+            } else {
+                appContainerRef.current.classList.remove('concurrency-error-active');
+            }
         }
-        return sortConfig.key === key ? sortConfig.direction : '';
-    };
+    }, [isConcurrencyError]);
 
-    const cmsDisplayMap: Record<CMS, string> = {
-        woocommerce: 'Woocommerce',
-        shopify: 'Shopify',
-        prestashop: 'Prestashop',
-        bigcommerce: 'Big Commerce',
-        other: 'Autre (Export CSV)',
-    };
 
+    // The server only enables AI for signed-in API sessions, unless it accepts anonymous calls.
     useEffect(() => {
-        setProjects(loadFromLocalStorage<Project[]>(LOCAL_STORAGE_PROJECTS, []));
+        ai.isEnabled().then(setIsAiEnabled);
+    }, [session]);
+
+    useEffect(() => {
+        authService.restoreSession()
+            .then(setSession)
+            .catch(e => console.error("Error restoring session:", e))
+            .finally(() => setIsRestoringSession(false));
     }, []);
 
-    const saveProjects = useCallback((updatedProjects: Project[]) => {
-        setProjects(updatedProjects);
-        saveToLocalStorage(LOCAL_STORAGE_PROJECTS, updatedProjects);
+    useEffect(() => {
+        setUserPlan(session?.user.plan ?? DEFAULT_USER_PLAN);
+    }, [session]);
+
+    // An invitation link opened by someone who already has an account (for instance a collaborator removed earlier)
+    // is accepted once they are signed in; signing up through the link already used it.
+    useEffect(() => {
+        if (!session || !invitationToken) return;
+        setInvitationToken(null);
+        window.history.replaceState(null, '', window.location.pathname);
+        if (session.user.role !== 'main') return;
+        if (!window.confirm("Rejoindre le compte qui vous a invité ? Vos propres projets resteront inaccessibles tant que vous en serez collaborateur.")) return;
+        authService.acceptInvitation(invitationToken)
+            .then(setSession)
+            .catch(e => alert(e.message || "L'invitation n'a pas pu être acceptée."));
+    }, [session, invitationToken]);
+
+    // An expired or revoked token sends the user back to the login screen; the current page is kept
+    // so they land on it again once signed back in.
+    useEffect(() => {
+        setUnauthorizedHandler(() => setSession(null));
+        return () => setUnauthorizedHandler(null);
     }, []);
 
-    const handleOpenModal = useCallback((project: Project | null = null) => {
-        if (project) {
-            setEditingProject(project);
-            setProjectName(project.name);
-            setProjectUrl(project.url);
-            setProjectCms(project.cms || '');
-        } else {
-            setEditingProject(null);
-            setProjectName('');
-            setProjectUrl('');
-            setProjectCms('');
+    useEffect(() => {
+        if (!session) {
+            setUserProfile(null);
+            return;
         }
-        setIsFormDirty(false); // Reset dirty state on open
-        setIsModalOpen(true);
+        repositories.profile.get().then(profile => {
+            // Local storage holds a single profile, so it is only reused when it belongs to the signed-in account.
+            if (profile && profile.email === session.user.email) {
+                setUserProfile(profile);
+            } else {
+                const defaultProfile: UserProfileData = {
+                    firstName: "",
+                    lastName: "",
+                    email: session.user.email,
+                    language: "fr",
+                    stripeCustomerId: undefined,
+                };
+                setUserProfile(defaultProfile);
+                repositories.profile.save(defaultProfile);
+            }
+        }).catch(e => console.error("Error loading user profile:", e));
+    }, [session]);
+
+
+    const navigateTo = (page: Page) => {
+        setCurrentPage(page);
+        window.scrollTo(0, 0);
+    };
+
+    const handlePageNavigation = useCallback((page: Page) => {
+        navigateTo(page);
     }, []);
 
-    const handleCloseModal = useCallback(() => {
-        if (isFormDirty && !window.confirm("You have unsaved changes that will be lost. Are you sure you want to close?")) {
-            return; // Abort close if form is dirty and user cancels confirmation
-        }
-        setIsModalOpen(false);
-    }, [isFormDirty]);
 
-    const handleSaveProject = useCallback(() => {
-        if (!projectName.trim()) {
-            alert("Le nom du projet est requis.");
-            return;
+    useEffect(() => creditLedger.subscribe(setCredits), [creditLedger]);
+
+    // Read from the session rather than userPlan, which lags one render behind it.
+    useEffect(() => {
+        if (isRestoringSession) return;
+        creditLedger.setAllowance(planCreditAllowance(session?.user.plan ?? DEFAULT_USER_PLAN));
+    }, [creditLedger, session, isRestoringSession]);
+
+    // With the API backend the server debits the credits: the ledger shows its balance, read again after each spend.
+    const syncCreditBalance = useCallback(async () => {
+        if (storageBackendKind !== 'http' || !session) return;
+        try {
+            creditLedger.setBalance(await ai.getCreditBalance());
+        } catch (e) {
+            console.warn('Credit balance unavailable:', e);
         }
+    }, [creditLedger, session]);
 
-        if (editingProject) {
-            const updatedProjects = projects.map(p =>
-                p.id === editingProject.id ? { ...p, name: projectName, url: projectUrl, cms: projectCms ? (projectCms as CMS) : undefined } : p
-            );
-            saveProjects(updatedProjects);
-        } else {
-            const newProject: Project = {
-                id: `proj_${Date.now()}`,
-                name: projectName,
-                url: projectUrl,
-                cms: projectCms ? (projectCms as CMS) : undefined,
-                creationDate: new Date().toISOString(),
-                gscConnected: false,
-                gaConnected: false,
-            };
-            saveProjects([...projects, newProject]);
+    useEffect(() => { syncCreditBalance(); }, [syncCreditBalance]);
+
+    const spendCredits = useCallback<SpendCredits>(async (request, action) => {
+        try {
+            return await runWithCredits(creditLedger, request, action);
+        } catch (e) {
+            if (e instanceof InsufficientCreditsError) {
+                setUpgradeReason({ kind: 'credits', required: e.required, remaining: e.remaining });
+            }
+            throw e;
+        } finally {
+            syncCreditBalance();
         }
-        setIsModalOpen(false); // Close modal directly, bypassing the dirty check
-    }, [editingProject, projects, projectName, projectUrl, projectCms, saveProjects]);
+    }, [creditLedger, syncCreditBalance]);
 
-    const handleDeleteProject = useCallback((projectId: string) => {
-        if (window.confirm("Êtes-vous sûr de vouloir supprimer ce projet ? Cette action est irréversible.")) {
-            const updatedProjects = projects.filter(p => p.id !== projectId);
-            saveProjects(updatedProjects);
+    const handleProfileUpdate = useCallback(async (updatedProfile: UserProfileData) => {
+        setUserProfile(await repositories.profile.save(updatedProfile));
+    }, []);
+
+    const handleSignOut = useCallback(async () => {
+        try {
+            await authService.signOut();
+        } catch (e) {
+            console.error("Error signing out:", e);
         }
-    }, [projects, saveProjects]);
+        setSession(null);
+        setCurrentPage('dashboard');
+        setIsChatbotOpen(false);
+    }, []);
 
-    const handleToggleConnection = useCallback((projectId: string, type: 'gsc' | 'ga') => {
-        const updatedProjects = projects.map(p => {
-            if (p.id === projectId) {
-                if (type === 'gsc') {
-                    return { ...p, gscConnected: !p.gscConnected };
-                }
-                if (type === 'ga') {
-                    return { ...p, gaConnected: !p.gaConnected };
-                }
-            }
-            return p;
-        });
-        saveProjects(updatedProjects);
-    }, [projects, saveProjects]);
+    const closeConcurrencyBanner = () => {
+        setIsConcurrencyError(false);
+    };
+
+    const toggleChatbot = () => setIsChatbotOpen(!isChatbotOpen);
+
+    if (isRestoringSession) {
+        return <div className="auth-screen"><p className="auth-loading">Chargement...</p></div>;
+    }
+
+    if (!session) {
+        return <AuthPage onAuthenticated={setSession} initialResetToken={initialResetToken} initialInvitationToken={invitationToken} />;
+    }
 
     return (
-        <div>
-            <div className="page-header-actions">
-                 <div>
-                    <h2 className="content-title">Mes Projets</h2>
-                    <p className="content-subtitle">Gérez vos projets pour organiser vos fiches produits et analyses.</p>
-                </div>
-                <button className="submit-button" onClick={() => handleOpenModal()}>
-                    Créer un Projet
-                </button>
-            </div>
-            <div className="content-card">
-                 {projects.length > 0 ? (
-                    <div className="table-responsive">
-                        <table className="projects-table">
-                            <thead>
-                                <tr>
-                                    <th onClick={() => requestSort('name')} className={`sortable-header ${getSortClassFor('name')}`}>Nom du Projet</th>
-                                    <th onClick={() => requestSort('url')} className={`sortable-header ${getSortClassFor('url')}`}>URL du Site</th>
-                                    <th onClick={() => requestSort('cms')} className={`sortable-header ${getSortClassFor('cms')}`}>CMS</th>
-                                    <th onClick={() => requestSort('creationDate')} className={`sortable-header ${getSortClassFor('creationDate')}`}>Date de Création</th>
-                                    <th onClick={() => requestSort('gscConnected')} className={`sortable-header ${getSortClassFor('gscConnected')}`}>Search Console</th>
-                                    <th onClick={() => requestSort('gaConnected')} className={`sortable-header ${getSortClassFor('gaConnected')}`}>Analytics</th>
-                                    <th>Actions</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {sortedProjects.map(project => (
-                                    <tr key={project.id}>
-                                        <td>{project.name}</td>
-                                        <td><a href={project.url} target="_blank" rel="noopener noreferrer">{project.url}</a></td>
-                                        <td>{project.cms ? cmsDisplayMap[project.cms] : 'N/A'}</td>
-                                        <td>{new Date(project.creationDate).toLocaleDateString()}</td>
-                                        <td>
-                                            {project.gscConnected ? (
-                                                <span className="connection-status connected">
-                                                    Connecté
-                                                    <button onClick={() => handleToggleConnection(project.id, 'gsc')} className="button-link-disconnect">(Déconnecter)</button>
-                                                </span>
-                                            ) : (
-                                                <button className="button-secondary connect-button" onClick={() => handleToggleConnection(project.id, 'gsc')}>Connecter</button>
-                                            )}
-                                        </td>
-                                        <td>
-                                            {project.gaConnected ? (
-                                                <span className="connection-status connected">
-                                                    Connecté
-                                                    <button onClick={() => handleToggleConnection(project.id, 'ga')} className="button-link-disconnect">(Déconnecter)</button>
-                                                </span>
-                                            ) : (
-                                                <button className="button-secondary connect-button" onClick={() => handleToggleConnection(project.id, 'ga')}>Connecter</button>
-                                            )}
-                                        </td>
-                                        <td className="table-actions-cell">
-                                            <button className="button-link" onClick={() => handleOpenModal(project)}>Modifier</button>
-                                            <button className="button-link-delete" onClick={() => handleDeleteProject(project.id)}>Supprimer</button>
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                ) : (
-                    <div className="empty-state-text">
-                        <p>Aucun projet pour le moment.</p>
-                        <button className="submit-button" style={{marginTop: '16px'}} onClick={() => handleOpenModal()}>Créer votre premier projet</button>
-                    </div>
-                )}
-            </div>
-
-            {isModalOpen && (
-                <div className="modal-overlay" onClick={handleCloseModal}>
-                    <div className="modal-content" onClick={e => e.stopPropagation()}>
-                        <div className="modal-header">
-                            <h3 className="modal-title">{editingProject ? 'Modifier le Projet' : 'Créer un Nouveau Projet'}</h3>
-                            <button className="close-modal-button" onClick={handleCloseModal}>&times;</button>
-                        </div>
-                        <div className="modal-body">
-                            <div className="form-group">
-                                <label htmlFor="project-name" className="form-label">Nom du Projet</label>
-                                <input id="project-name" type="text" className="form-input" value={projectName} onChange={e => setProjectName(e.target.value)} placeholder="Ex: Blog de Recettes" />
-                            </div>
-                            <div className="form-group">
-                                <label htmlFor="project-url" className="form-label">URL du Site (Optionnel)</label>
-                                <input id="project-url" type="text" className="form-input" value={projectUrl} onChange={e => setProjectUrl(e.target.value)} placeholder="Ex: https://www.monsite.com" />
-                            </div>
-                            <div className="form-group">
-                                <label htmlFor="project-cms" className="form-label">CMS (Optionnel)</label>
-                                <select id="project-cms" className="form-select" value={projectCms} onChange={e => setProjectCms(e.target.value as (CMS | ''))}>
-                                    <option value="">Sélectionner un CMS...</option>
-                                    <option value="woocommerce">Woocommerce</option>
-                                    <option value="shopify">Shopify</option>
-                                    <option value="prestashop">Prestashop</option>
-                                    <option value="bigcommerce">Big Commerce</option>
-                                    <option value="other">Autre (Export CSV)</option>
-                                </select>
-                                <p className="form-helper-text">Sera utilisé pour l'intégration automatique des contenus.</p>
-                            </div>
-                        </div>
-                        <div className="modal-footer">
-                            <button className="button-secondary" onClick={handleCloseModal}>Annuler</button>
-                            <button className="submit-button" onClick={handleSaveProject}>Sauvegarder</button>
-                        </div>
-                    </div>
+        <div ref={appContainerRef} className="app-container">
+            {isConcurrencyError && (
+                <div className="concurrency-error-banner" role="alertdialog" aria-labelledby="concurrencyErrorHeading" aria-describedby="concurrencyErrorDesc">
+                    <strong id="concurrencyErrorHeading" style={{display:'block', marginBottom: '5px'}}>Accès Multiple Détecté</strong>
+                    <p id="concurrencyErrorDesc">{CONCURRENCY_ERROR_MESSAGE}</p>
+                    <button onClick={closeConcurrencyBanner} className="close-concurrency-error" aria-label="Fermer l'avertissement">&times;</button>
                 </div>
             )}
+            <Sidebar currentPage={currentPage} navigateTo={handlePageNavigation} userRole={userRole} userPlan={userPlan} />
+            <MainWrapper
+                currentPage={currentPage}
+                navigateTo={navigateTo}
+                userRole={userRole}
+                userPlan={userPlan}
+                userProfile={userProfile}
+                onProfileUpdate={handleProfileUpdate}
+                onSignOut={handleSignOut}
+                userEmail={session.user.email}
+                credits={credits}
+                spendCredits={spendCredits}
+                onUpgradeRequired={setUpgradeReason}
+                isAiEnabled={isAiEnabled}
+                redactionQueue={redactionQueue}
+                projects={projects}
+                currentProject={currentProject}
+                onProjectChange={selectProject}
+                onProjectsChange={reloadProjects}
+            />
+             {upgradeReason && (
+                <UpgradeModal
+                    reason={upgradeReason}
+                    onClose={() => setUpgradeReason(null)}
+                    onUpgrade={() => {
+                        setUpgradeReason(null);
+                        navigateTo('plans-pricing');
+                    }}
+                />
+            )}
+            {isAiEnabled && (
+                <button
+                    className="chatbot-fab"
+                    onClick={toggleChatbot}
+                    aria-label={isChatbotOpen ? "Fermer l'assistant" : "Ouvrir l'assistant"}
+                    title={isChatbotOpen ? "Fermer l'assistant" : "Ouvrir l'assistant"}
+                >
+                    {isChatbotOpen ? 'Fermer' : 'Assistant'}
+                </button>
+            )}
+            {isChatbotOpen && isAiEnabled && (
+                <ChatbotModal
+                    isOpen={isChatbotOpen}
+                    onClose={toggleChatbot}
+                    currentPage={currentPage}
+                    navigateTo={navigateTo}
+                    ai={ai}
+                    spendCredits={spendCredits}
+                    userLanguage={userProfile?.language || 'fr'}
+                />
+            )}
         </div>
     );
 };
 
-// --- SEARCH INTENTIONS PAGE ---
-const SearchIntentionsPage: React.FC<{ navigateTo: (page: Page) => void }> = ({ navigateTo }) => {
-    const [projects, setProjects] = useState<Project[]>([]);
-    const [selectedProjectId, setSelectedProjectId] = useState('');
-    const [currentProjectIntentions, setCurrentProjectIntentions] = useState<SearchIntention[]>([]);
-    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
-
-    // FIX: Explicitly pass the generic type `SearchIntention` to `useSortableData` to ensure correct type inference for `requestSort` when the initial array is empty.
-    const { items: sortedIntentions, requestSort, sortConfig } = useSortableData<SearchIntention>(currentProjectIntentions);
+// --- Auth Page ---
+type AuthMode = 'login' | 'register' | 'forgot' | 'reset';
 
-    useEffect(() => {
-        setProjects(loadFromLocalStorage<Project[]>(LOCAL_STORAGE_PROJECTS, []));
-    }, []);
-    
-    useEffect(() => {
-        if (selectedProjectId) {
-            const intentions = loadFromLocalStorage<SearchIntention[]>(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}${selectedProjectId}`, []);
-            setCurrentProjectIntentions(intentions);
-        } else {
-            setCurrentProjectIntentions([]);
-        }
-    }, [selectedProjectId]);
+const authModeTitles: Record<AuthMode, string> = {
+    login: 'Connexion',
+    register: 'Créer un compte',
+    forgot: 'Mot de passe oublié',
+    reset: 'Nouveau mot de passe',
+};
 
-    const selectedProject = projects.find(p => p.id === selectedProjectId);
+const authSubmitLabels: Record<AuthMode, string> = {
+    login: 'Se connecter',
+    register: 'Créer mon compte',
+    forgot: 'Envoyer le lien de réinitialisation',
+    reset: 'Enregistrer le mot de passe',
+};
 
-    const getSortClassFor = (key: keyof SearchIntention) => {
-        if (!sortConfig) return '';
-        return sortConfig.key === key ? sortConfig.direction : '';
-    };
+interface AuthPageProps {
+    onAuthenticated: (session: AuthSession) => void;
+    initialResetToken: string | null;
+    initialInvitationToken: string | null;
+}
 
-    const parseCsv = (csvText: string): SearchIntention[] => {
-        const lines = csvText.split(/\r?\n/).filter(line => line.trim() !== '');
-        if (lines.length < 2) {
-             setMessage({ text: "Le fichier CSV est vide ou ne contient pas d'en-têtes.", type: 'error' });
-             return [];
-        }
+const AuthPage: React.FC<AuthPageProps> = ({ onAuthenticated, initialResetToken, initialInvitationToken }) => {
+    const [mode, setMode] = useState<AuthMode>(initialResetToken ? 'reset' : initialInvitationToken ? 'register' : 'login');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [resetToken, setResetToken] = useState(initialResetToken || '');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
 
-        const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/"/g, ''));
-        const queryIndex = headers.findIndex(h => h.includes('query') || h.includes('keyword') || h.includes('requête'));
+    const switchMode = useCallback((nextMode: AuthMode) => {
+        setMode(nextMode);
+        setPassword('');
+        setConfirmPassword('');
+        setError('');
+        setSuccessMessage('');
+    }, []);
 
-        if (queryIndex === -1) {
-            setMessage({ text: "Le fichier CSV doit contenir une colonne nommée 'Query', 'Keyword' ou 'Requête'.", type: 'error' });
-            return [];
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccessMessage('');
+        if ((mode === 'register' || mode === 'reset') && password !== confirmPassword) {
+            setError('Les mots de passe ne correspondent pas.');
+            return;
         }
 
-        return lines.slice(1).map(line => {
-            const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-            const intention: SearchIntention = { query: values[queryIndex] || '' };
-            headers.forEach((header, index) => {
-                if (index !== queryIndex) {
-                    intention[header] = values[index] || '';
+        setIsSubmitting(true);
+        try {
+            switch (mode) {
+                case 'login':
+                    onAuthenticated(await authService.login(email, password));
+                    break;
+                case 'register': {
+                    const registeredSession = await authService.register(email, password, initialInvitationToken);
+                    if (initialInvitationToken) window.history.replaceState(null, '', window.location.pathname);
+                    onAuthenticated(registeredSession);
+                    break;
                 }
-            });
-            return intention;
-        }).filter(item => item.query);
-    };
-
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file || !selectedProjectId) return;
-
-        setMessage(null);
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            try {
-                const text = event.target?.result as string;
-                const parsedData = parseCsv(text);
-
-                if (parsedData.length > 0) {
-                    saveToLocalStorage(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}${selectedProjectId}`, parsedData);
-                    setCurrentProjectIntentions(parsedData);
-                    setMessage({ text: `${parsedData.length} intentions de recherche importées avec succès. Les données précédentes ont été remplacées.`, type: 'success' });
+                case 'forgot': {
+                    const localToken = await authService.requestPasswordReset(email);
+                    if (localToken) {
+                        setResetToken(localToken);
+                        switchMode('reset');
+                        setSuccessMessage("Compte local : aucun email n'est envoyé, choisissez directement votre nouveau mot de passe.");
+                    } else {
+                        setSuccessMessage('Si un compte existe pour cette adresse, un lien de réinitialisation vient de vous être envoyé.');
+                    }
+                    break;
                 }
-            } catch (error: any) {
-                setMessage({ text: `Erreur lors de la lecture du fichier: ${error.message}`, type: 'error' });
+                case 'reset':
+                    await authService.resetPassword(resetToken, password);
+                    window.history.replaceState(null, '', window.location.pathname);
+                    switchMode('login');
+                    setSuccessMessage('Mot de passe modifié. Vous pouvez maintenant vous connecter.');
+                    break;
             }
-        };
-        reader.onerror = () => {
-             setMessage({ text: 'Impossible de lire le fichier.', type: 'error' });
-        };
-        reader.readAsText(file);
-        e.target.value = ''; // Reset file input to allow re-upload of the same file
+        } catch (err: any) {
+            setError(err.message || 'Une erreur est survenue. Veuillez réessayer.');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
 
     return (
-        <div>
-            <div className="page-header-actions">
-                <div>
-                    <h2 className="content-title">Intentions de Recherches</h2>
-                    <p className="content-subtitle">Importez et gérez les données d'intention de recherche pour vos projets.</p>
-                </div>
-            </div>
-
-            <div className="content-card">
-                <div className="form-group">
-                    <label htmlFor="project-select-intentions" className="form-label">Sélectionnez un projet</label>
-                    <select id="project-select-intentions" className="form-select" value={selectedProjectId} onChange={(e) => { setSelectedProjectId(e.target.value); setMessage(null); }}>
-                        <option value="">Choisissez un projet...</option>
-                        {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
-                    </select>
-                </div>
-            </div>
-
-            {selectedProject && (
-                <div className="content-card">
-                    <h3 className="output-label">Importer des Données pour "{selectedProject.name}"</h3>
-                    <p className="form-helper-text" style={{ marginBottom: '20px' }}>L'import d'un nouveau fichier CSV écrasera les données existantes pour ce projet.</p>
-                    
-                    <div className="import-sections-grid">
-                        <div className="import-section">
-                            <h4>Google Search Console</h4>
-                            {selectedProject.gscConnected ? (
-                                <div className="form-group">
-                                    <label htmlFor="gsc-upload" className="form-label">Importer un export GSC (CSV)</label>
-                                    <input type="file" id="gsc-upload" className="form-input" accept=".csv" onChange={handleFileChange} />
-                                    <p className="form-helper-text">Exportez les "Requêtes" depuis votre GSC.</p>
-                                </div>
-                            ) : (
-                                <div className="info-banner info-banner-warning">
-                                    Google Search Console n'est pas connecté pour ce projet. <a href="#" onClick={(e) => { e.preventDefault(); navigateTo('my-projects'); }}>Connectez-le depuis la page "Mes Projets"</a>.
-                                </div>
-                            )}
+        <div className="auth-screen">
+            <div className="auth-card">
+                <h1 className="auth-logo">OtterCluster</h1>
+                <h2 className="content-title">{authModeTitles[mode]}</h2>
+                {mode === 'register' && initialInvitationToken && (
+                    <p className="content-subtitle">Vous avez été invité à rejoindre un compte : inscrivez-vous avec l'adresse email qui a reçu l'invitation, ou connectez-vous si elle a déjà un compte.</p>
+                )}
+                <form onSubmit={handleSubmit}>
+                    {mode !== 'reset' && (
+                        <div className="form-group">
+                            <label htmlFor="authEmail" className="form-label">Email</label>
+                            <input type="email" id="authEmail" className="form-input" value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" required />
                         </div>
-                        <div className="import-section">
-                            <h4>AnswerThePublic</h4>
-                            <div className="form-group">
-                                <label htmlFor="atp-upload" className="form-label">Importer un export AnswerThePublic (CSV)</label>
-                                <input type="file" id="atp-upload" className="form-input" accept=".csv" onChange={handleFileChange} />
-                                <p className="form-helper-text">Le fichier doit contenir une colonne "Keyword".</p>
-                            </div>
+                    )}
+                    {mode !== 'forgot' && (
+                        <div className="form-group">
+                            <label htmlFor="authPassword" className="form-label">{mode === 'reset' ? 'Nouveau mot de passe' : 'Mot de passe'}</label>
+                            <input type="password" id="authPassword" className="form-input" value={password} onChange={e => setPassword(e.target.value)} autoComplete={mode === 'login' ? 'current-password' : 'new-password'} required />
+                            {mode !== 'login' && <p className="form-helper-text">Au moins {MIN_PASSWORD_LENGTH} caractères.</p>}
                         </div>
-                    </div>
-                </div>
-            )}
-
-            {message && <div className={`message-banner ${message.type === 'success' ? 'success-message' : 'error-message'}`}>{message.text}</div>}
-
-            {selectedProject && (
-                <div className="content-card">
-                    <h3 className="output-label">Intentions Actuelles ({currentProjectIntentions.length})</h3>
-                    {currentProjectIntentions.length > 0 ? (
-                        <div className="table-responsive">
-                            <table className="data-table">
-                                <thead>
-                                    <tr>
-                                        <th onClick={() => requestSort('query')} className={`sortable-header ${getSortClassFor('query')}`}>Requête</th>
-                                        <th onClick={() => requestSort('clicks')} className={`sortable-header ${getSortClassFor('clicks')}`}>Clics</th>
-                                        <th onClick={() => requestSort('impressions')} className={`sortable-header ${getSortClassFor('impressions')}`}>Impressions</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {sortedIntentions.map((item, index) => (
-                                        <tr key={index}>
-                                            <td>{item.query}</td>
-                                            <td>{item.clicks || 'N/A'}</td>
-                                            <td>{item.impressions || 'N/A'}</td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
+                    )}
+                    {(mode === 'register' || mode === 'reset') && (
+                        <div className="form-group">
+                            <label htmlFor="authConfirmPassword" className="form-label">Confirmer le mot de passe</label>
+                            <input type="password" id="authConfirmPassword" className="form-input" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} autoComplete="new-password" required />
                         </div>
+                    )}
+                    <button type="submit" className="submit-button auth-submit" disabled={isSubmitting}>
+                        {isSubmitting ? <><span className="spinner"></span> Veuillez patienter...</> : authSubmitLabels[mode]}
+                    </button>
+                    {successMessage && <div className="success-message" style={{marginTop: '15px'}}>{successMessage}</div>}
+                    {error && <div className="error-message" style={{marginTop: '15px'}}>{error}</div>}
+                </form>
+                <div className="auth-links">
+                    {mode === 'login' ? (
+                        <>
+                            <button type="button" className="button-link" onClick={() => switchMode('forgot')}>Mot de passe oublié ?</button>
+                            <button type="button" className="button-link" onClick={() => switchMode('register')}>Créer un compte</button>
+                        </>
                     ) : (
-                        <p className="empty-state-text small">Aucune intention de recherche importée pour ce projet.</p>
+                        <button type="button" className="button-link" onClick={() => switchMode('login')}>Retour à la connexion</button>
                     )}
                 </div>
-            )}
+            </div>
         </div>
     );
 };
+// --- End Auth Page ---
 
-// --- E-COMMERCE REDACTION PAGE ---
-interface EcommerceRedactionPageProps {
-    ai: GoogleGenAI;
-}
-interface GeneratedDescription {
-    productUrl: string;
-    description: string;
-    jsonLd: string;
-}
-const EcommerceRedactionPage: React.FC<EcommerceRedactionPageProps> = ({ ai }) => {
-    const [projects, setProjects] = useState<Project[]>([]);
-    const [selectedProjectId, setSelectedProjectId] = useState('');
-    const [siteUrl, setSiteUrl] = useState('');
-    const [targetCustomer, setTargetCustomer] = useState('');
-    const [productUrlsInput, setProductUrlsInput] = useState('');
-    const [siteAnalysis, setSiteAnalysis] = useState<{ mission: string; vision: string; valeurs: string; eeat: string; } | null>(null);
-    const [generatedDescriptions, setGeneratedDescriptions] = useState<GeneratedDescription[]>([]);
-    const [loadingSiteAnalysis, setLoadingSiteAnalysis] = useState(false);
-    const [loadingDescriptions, setLoadingDescriptions] = useState(false);
-    const [generationProgress, setGenerationProgress] = useState('');
-    const [error, setError] = useState<string | null>(null);
-    const [projectIntentions, setProjectIntentions] = useState<SearchIntention[] | null>(null);
-    const [openJsonLd, setOpenJsonLd] = useState<Record<number, boolean>>({});
-
-    const toggleJsonLd = (index: number) => {
-        setOpenJsonLd(prev => ({ ...prev, [index]: !prev[index] }));
-    };
+// --- UpgradeModal Component ---
+type UpgradeReason =
+    | { kind: 'credits'; required: number; remaining: number; }
+    | { kind: 'projects'; limit: number; plan: UserPlan; }
+    | { kind: 'collaborators'; limit: number; plan: UserPlan; }
+    | { kind: 'feature'; feature: PlanFeature; plan: UserPlan; };
 
-    // FIX: Explicitly pass the generic type `GeneratedDescription` to `useSortableData` to ensure correct type inference for `requestSort` when the initial array is empty.
-    const { items: sortedDescriptions, requestSort, sortConfig } = useSortableData<GeneratedDescription>(generatedDescriptions);
-    const getSortClassFor = (key: keyof GeneratedDescription) => {
-        if (!sortConfig) {
-            return '';
-        }
-        return sortConfig.key === key ? sortConfig.direction : '';
-    };
+interface UpgradeModalProps {
+    reason: UpgradeReason;
+    onClose: () => void;
+    onUpgrade: () => void;
+}
 
-    useEffect(() => {
-        setProjects(loadFromLocalStorage<Project[]>(LOCAL_STORAGE_PROJECTS, []));
-    }, []);
+const upgradeModalTitles: Record<UpgradeReason['kind'], string> = {
+    credits: 'Crédits Insuffisants',
+    projects: 'Limite de Projets Atteinte',
+    collaborators: 'Limite de Collaborateurs Atteinte',
+    feature: 'Fonctionnalité Premium',
+};
 
-    useEffect(() => {
-        if (selectedProjectId) {
-            const intentions = loadFromLocalStorage<SearchIntention[]>(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}${selectedProjectId}`, []);
-            setProjectIntentions(intentions.length > 0 ? intentions : null);
-        } else {
-            setProjectIntentions(null);
+const UpgradeModal: React.FC<UpgradeModalProps> = ({ reason, onClose, onUpgrade }) => {
+    const renderReason = () => {
+        switch (reason.kind) {
+            case 'credits':
+                return (
+                    <>
+                        <p>Cette action nécessite <strong>{reason.required} crédits</strong>, mais il ne vous en reste que <strong>{reason.remaining}</strong>.</p>
+                        <p>Passez à un plan supérieur ou rechargez votre compte pour continuer à utiliser les fonctionnalités IA.</p>
+                    </>
+                );
+            case 'projects': {
+                const nextPlan = pricingPlans.find(p => p.limits.maxProjects === null || p.limits.maxProjects > reason.limit);
+                return (
+                    <>
+                        <p>Votre plan <strong>{getPlan(reason.plan).name}</strong> permet de gérer <strong>{reason.limit} projets</strong> au maximum.</p>
+                        {nextPlan && <p>Passez au plan <strong>{nextPlan.name}</strong> pour {nextPlan.limits.maxProjects === null ? 'gérer un nombre illimité de projets' : `gérer jusqu'à ${nextPlan.limits.maxProjects} projets`}.</p>}
+                    </>
+                );
+            }
+            case 'collaborators': {
+                const nextPlan = pricingPlans.find(p => p.limits.maxCollaborators > reason.limit);
+                return (
+                    <>
+                        {reason.limit === 0 ? (
+                            <p>La <strong>gestion des collaborateurs</strong> n'est pas incluse dans votre plan <strong>{getPlan(reason.plan).name}</strong>.</p>
+                        ) : (
+                            <p>Votre plan <strong>{getPlan(reason.plan).name}</strong> permet d'inviter <strong>{reason.limit} collaborateurs</strong> au maximum.</p>
+                        )}
+                        {nextPlan ? (
+                            <p>Passez au plan <strong>{nextPlan.name}</strong> pour inviter jusqu'à {nextPlan.limits.maxCollaborators} collaborateurs.</p>
+                        ) : (
+                            <p>Contactez-nous pour étendre votre équipe au-delà de cette limite.</p>
+                        )}
+                    </>
+                );
+            }
+            case 'feature':
+                return (
+                    <>
+                        <p>La fonctionnalité <strong>{planFeatureLabels[reason.feature]}</strong> n'est pas incluse dans votre plan <strong>{getPlan(reason.plan).name}</strong>.</p>
+                        <p>Cette fonctionnalité est disponible à partir du plan <strong>{getRequiredPlanFor(reason.feature).name}</strong>.</p>
+                    </>
+                );
         }
-    }, [selectedProjectId]);
-
-    const selectedProject = projects.find(p => p.id === selectedProjectId);
-    const autoIntegrationCMS: CMS[] = ['woocommerce', 'shopify', 'prestashop', 'bigcommerce'];
-    const cmsDisplayMap: Record<CMS, string> = {
-        woocommerce: 'Woocommerce',
-        shopify: 'Shopify',
-        prestashop: 'Prestashop',
-        bigcommerce: 'Big Commerce',
-        other: 'Autre (Export CSV)',
     };
 
-    const handleAnalyzeSite = useCallback(async () => {
-        if (!siteUrl.trim()) {
-            setError("Veuillez entrer l'URL du site à analyser.");
-            return;
-        }
-        try { new URL(siteUrl); } catch (_) {
-            setError("Le format de l'URL est invalide.");
-            return;
-        }
-
-        setLoadingSiteAnalysis(true);
-        setError(null);
-        setSiteAnalysis(null);
-
-        try {
-            const prompt = `Analyse le site web à l'URL suivante: ${siteUrl}. Extrais sa mission, sa vision, ses valeurs fondamentales, et une évaluation de son E.E.A.T. (Expertise, Authoritativeness, Trustworthiness). Formatte la réponse comme suit, avec chaque section sur une nouvelle ligne:
-Mission: [Texte de la mission]
-Vision: [Texte de la vision]
-Valeurs: [Texte des valeurs]
-EEAT: [Texte de l'évaluation EEAT]`;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { tools: [{ googleSearch: {} }] },
-            });
-            
-            const text = response.text;
-            const missionMatch = text.match(/Mission:\s*([\s\S]*?)(?=\nVision:|\nValeurs:|\nEEAT:|$)/);
-            const visionMatch = text.match(/Vision:\s*([\s\S]*?)(?=\nMission:|\nValeurs:|\nEEAT:|$)/);
-            const valeursMatch = text.match(/Valeurs:\s*([\s\S]*?)(?=\nMission:|\nVision:|\nEEAT:|$)/);
-            const eeatMatch = text.match(/EEAT:\s*([\s\S]*?)(?=\nMission:|\nVision:|\nValeurs:|$)/);
-
-            const analysisResult = {
-                mission: missionMatch ? missionMatch[1].trim() : "Non trouvée",
-                vision: visionMatch ? visionMatch[1].trim() : "Non trouvée",
-                valeurs: valeursMatch ? valeursMatch[1].trim() : "Non trouvées",
-                eeat: eeatMatch ? eeatMatch[1].trim() : "Non évalué",
-            };
-            setSiteAnalysis(analysisResult);
-
-        } catch (e: any) {
-            setError(`L'analyse du site a échoué: ${e.message}`);
-        } finally {
-            setLoadingSiteAnalysis(false);
-        }
-    }, [ai.models, siteUrl]);
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" style={{ maxWidth: '500px' }} onClick={e => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">{upgradeModalTitles[reason.kind]}</h3>
+                    <button className="close-modal-button" onClick={onClose}>&times;</button>
+                </div>
+                <div className="modal-body">
+                    {renderReason()}
+                </div>
+                <div className="modal-footer">
+                    <button className="button-secondary" onClick={onClose}>Plus Tard</button>
+                    <button className="submit-button" onClick={onUpgrade}>Voir les Plans</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const text = event.target?.result as string;
-                const urls = text.split(/[\r\n]+/).map(line => line.split(',')[0].trim()).filter(Boolean);
-                setProductUrlsInput(urls.join('\n'));
-            };
-            reader.readAsText(file);
-        }
-    }, []);
-    
-    const productUrls = productUrlsInput.split('\n').map(url => url.trim()).filter(url => url.length > 0 && url.startsWith('http')).slice(0, 20);
-    const creditCost = productUrls.length * 10;
+// --- CsvImportModal Component ---
 
-    const handleGenerateDescriptions = useCallback(async () => {
-        if (!siteAnalysis || productUrls.length === 0) {
-            setError("Veuillez d'abord analyser un site et fournir au moins une URL de produit.");
-            return;
-        }
+const CSV_PREVIEW_ROWS = 5;
 
-        setLoadingDescriptions(true);
-        setError(null);
-        setGeneratedDescriptions([]);
-        
-        const results: GeneratedDescription[] = [];
-        const intentionsText = projectIntentions && projectIntentions.length > 0
-            ? `Prends également en compte les intentions de recherche suivantes pour optimiser le contenu (mots-clés, questions) : ${projectIntentions.map(i => i.query).slice(0, 50).join(', ')}.`
-            : '';
 
-        const responseSchema = {
-            type: Type.OBJECT,
-            properties: {
-                descriptionHtml: { type: Type.STRING, description: "La description du produit au format HTML." },
-                jsonLd: { type: Type.STRING, description: "Le script JSON-LD complet pour le produit." }
-            },
-            required: ["descriptionHtml", "jsonLd"]
-        };
+interface CsvImportModalProps {
+    file: File;
+    title: string;
+    fields: CsvColumnField[];
+    guessMapping?: (headers: string[]) => CsvColumnMapping;
+    validateMapping?: (mapping: CsvColumnMapping) => string | null;
+    onConfirm: (table: CsvTable, mapping: CsvColumnMapping) => void | Promise<void>;
+    onCancel: () => void;
+}
 
+// Every CSV upload goes through this preview, so users can fix a wrong encoding, delimiter or column guess before importing.
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ file, title, fields, guessMapping, validateMapping, onConfirm, onCancel }) => {
+    const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+    const [options, setOptions] = useState<CsvParseOptions>({});
+    const [mapping, setMapping] = useState<CsvColumnMapping>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
 
-        for (let i = 0; i < productUrls.length; i++) {
-            const url = productUrls[i];
-            setGenerationProgress(`Génération de la fiche ${i + 1}/${productUrls.length} pour : ${url}`);
-            try {
-                const prompt = `En te basant sur les informations suivantes sur une entreprise :\n- Mission: ${siteAnalysis.mission}\n- Vision: ${siteAnalysis.vision}\n- Valeurs: ${siteAnalysis.valeurs}\n- E.E.A.T: ${siteAnalysis.eeat}\n- Cible client: ${targetCustomer || 'non spécifiée'}\n\n${intentionsText}\n\nAnalyse la page produit à l'URL : ${url}. Extrais les informations essentielles (nom, images, description, marque, prix, devise, disponibilité, etc.).\nEnsuite, effectue deux tâches :\n1. Rédige une fiche produit optimisée SEO en HTML (avec <p>, <ul>, <li>).\n2. Crée un script JSON-LD valide pour un 'Product' rich result, incluant autant de propriétés pertinentes que possible (name, image, description, brand, offers, aggregateRating, etc.). Si une information n'est pas disponible, omets la propriété.\n\nRetourne un objet JSON valide.`;
-                
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: prompt,
-                    config: { 
-                        tools: [{ googleSearch: {} }],
-                        responseMimeType: "application/json",
-                        responseSchema: responseSchema,
-                    },
-                });
+    useEffect(() => {
+        file.arrayBuffer()
+            .then(setBuffer)
+            .catch(() => setError('Impossible de lire le fichier.'));
+    }, [file]);
 
-                const parsedResponse = extractJsonFromResponse(response.text);
-                results.push({ productUrl: url, description: parsedResponse.descriptionHtml, jsonLd: parsedResponse.jsonLd });
-                setGeneratedDescriptions([...results]);
+    const table = React.useMemo(() => (buffer ? parseCsvTable(buffer, options) : null), [buffer, options]);
+    const headersKey = table?.headers.join('\u0000');
 
-            } catch (e: any) {
-                results.push({ productUrl: url, description: `Erreur de génération: ${e.message}`, jsonLd: `{ "error": "${e.message}" }` });
-                setGeneratedDescriptions([...results]);
-            }
+    useEffect(() => {
+        if (table) {
+            setMapping(guessMapping ? guessMapping(table.headers) : guessCsvMapping(table.headers, fields));
         }
-        
-        setGenerationProgress('');
-        setLoadingDescriptions(false);
-    }, [ai.models, siteAnalysis, productUrls, targetCustomer, projectIntentions]);
-
-    const handleExport = useCallback((format: 'csv' | 'shopify' | 'prestashop' | 'woocommerce') => {
-        if (generatedDescriptions.length === 0) return;
-
-        const escapeCsv = (field: string) => `"${(field || '').replace(/"/g, '""')}"`;
-        let csvContent = "";
-        let fileName = "export.csv";
-        let headers: string[];
-
-        const dataRows = generatedDescriptions.map(item => {
-            return [escapeCsv(item.productUrl), escapeCsv(item.description), escapeCsv(item.jsonLd)];
-        });
-
-        switch (format) {
-            case 'shopify':
-                fileName = "shopify_import.csv";
-                headers = ["Product URL", "Body (HTML)", "JSON-LD Script"];
-                break;
-            case 'woocommerce':
-                fileName = "woocommerce_import.csv";
-                headers = ["Product URL", "Description", "JSON-LD Script"];
-                break;
-            case 'prestashop':
-                fileName = "prestashop_import.csv";
-                headers = ["Product URL", "Description", "JSON-LD Script"];
-                break;
-            default:
-                fileName = "fiches_produits.csv";
-                headers = ["Product URL", "Description", "JSON-LD Script"];
-                break;
+        // Only re-guess when the columns change, not when the user edits the mapping.
+    }, [headersKey]);
+
+    const missingField = fields.find(field => field.required && !(mapping[field.key] >= 0));
+    const validationError = !table ? null
+        : table.rows.length === 0 ? 'Le fichier ne contient aucune ligne de données.'
+        : missingField ? `Associez une colonne au champ « ${missingField.label} ».`
+        : validateMapping?.(mapping) ?? null;
+
+    const handleConfirm = async () => {
+        if (!table || validationError) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            await onConfirm(table, mapping);
+        } catch (e: any) {
+            setError(e.message);
+            setIsImporting(false);
         }
+    };
 
-        csvContent = headers.join(',') + '\r\n';
-        dataRows.forEach(row => {
-            csvContent += row.join(',') + '\r\n';
-        });
-
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement("a");
-        const url = URL.createObjectURL(blob);
-        link.setAttribute("href", url);
-        link.setAttribute("download", fileName);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    }, [generatedDescriptions]);
-
-
-    const isGenerationDisabled = loadingDescriptions || loadingSiteAnalysis || !siteAnalysis || productUrls.length === 0;
+    const fieldForColumn = (index: number) => fields.find(field => mapping[field.key] === index);
 
     return (
-        <div className="ecommerce-page-grid">
-            <div className="page-header-actions">
-                <div>
-                    <h2 className="content-title">Rédaction de Fiches Produit E-commerce</h2>
-                    <p className="content-subtitle">Générez des descriptions produits engageantes et alignées avec votre marque.</p>
+        <div className="modal-overlay" onClick={onCancel}>
+            <div className="modal-content csv-import-modal" onClick={e => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">{title}</h3>
+                    <button className="close-modal-button" onClick={onCancel}>&times;</button>
                 </div>
-            </div>
-
-            <div className="content-card">
-                <h3 className="output-label">Étape 1 : Analyser votre site</h3>
-                <div className="form-group">
-                    <label htmlFor="project-select-ecom" className="form-label">Associer à un projet (Optionnel)</label>
-                     <select id="project-select-ecom" className="form-select" value={selectedProjectId} onChange={(e) => setSelectedProjectId(e.target.value)} disabled={loadingSiteAnalysis || loadingDescriptions}>
-                        <option value="">Sélectionner un projet...</option>
-                        {projects.map(project => (
-                            <option key={project.id} value={project.id}>{project.name}</option>
-                        ))}
-                    </select>
-                    {selectedProject && (
+                <div className="modal-body">
+                    {!table ? (
+                        error ? <div className="error-message" role="alert">{error}</div> : <p><span className="spinner"></span> Lecture du fichier...</p>
+                    ) : (
                         <>
-                            {selectedProject.cms && autoIntegrationCMS.includes(selectedProject.cms) ? (
-                                <div className="info-banner info-banner-success" role="status">
-                                    Intégration automatique disponible pour le CMS : <strong>{cmsDisplayMap[selectedProject.cms]}</strong>.
+                            <p className="form-helper-text">{file.name} : {table.rows.length} ligne(s), {table.headers.length} colonne(s).</p>
+                            <div className="csv-import-options">
+                                <div className="form-group">
+                                    <label htmlFor="csv-encoding" className="form-label">Encodage</label>
+                                    <select id="csv-encoding" className="form-select" value={table.encoding} onChange={e => setOptions(prev => ({ ...prev, encoding: e.target.value as CsvEncoding }))}>
+                                        {CSV_ENCODINGS.map(encoding => <option key={encoding} value={encoding}>{csvEncodingLabels[encoding]}</option>)}
+                                    </select>
                                 </div>
-                            ) : (
-                                <div className="info-banner info-banner-warning" role="status">
-                                    Le CMS de ce projet n'est pas configuré pour l'intégration automatique. Un export CSV sera nécessaire.
+                                <div className="form-group">
+                                    <label htmlFor="csv-delimiter" className="form-label">Séparateur</label>
+                                    <select id="csv-delimiter" className="form-select" value={table.delimiter} onChange={e => setOptions(prev => ({ ...prev, delimiter: e.target.value as CsvDelimiter }))}>
+                                        {CSV_DELIMITERS.map(delimiter => <option key={delimiter} value={delimiter}>{csvDelimiterLabels[delimiter]}</option>)}
+                                    </select>
                                 </div>
-                            )}
+                                <label className="csv-import-header-toggle">
+                                    <input type="checkbox" checked={table.hasHeader} onChange={e => setOptions(prev => ({ ...prev, hasHeader: e.target.checked }))} />
+                                    La première ligne contient les en-têtes
+                                </label>
+                            </div>
+
+                            <div className="csv-import-mapping">
+                                {fields.map(field => (
+                                    <div className="form-group" key={field.key}>
+                                        <label htmlFor={`csv-field-${field.key}`} className="form-label">{field.label}{field.required && ' *'}</label>
+                                        <select
+                                            id={`csv-field-${field.key}`}
+                                            className="form-select"
+                                            value={mapping[field.key] ?? -1}
+                                            onChange={e => setMapping(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                                        >
+                                            <option value={-1}>— Ne pas importer —</option>
+                                            {table.headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="table-responsive csv-import-preview">
+                                <table className="data-table">
+                                    <thead>
+                                        <tr>
+                                            {table.headers.map((header, index) => {
+                                                const field = fieldForColumn(index);
+                                                return (
+                                                    <th key={index} className={field ? 'csv-column-mapped' : ''}>
+                                                        {header}
+                                                        {field && <span className="csv-column-field">→ {field.label}</span>}
+                                                    </th>
+                                                );
+                                            })}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {table.rows.slice(0, CSV_PREVIEW_ROWS).map((row, rowIndex) => (
+                                            <tr key={rowIndex}>
+                                                {row.map((cell, index) => <td key={index} className={fieldForColumn(index) ? 'csv-column-mapped' : ''}>{cell}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {(validationError || error) && <div className="error-message" role="alert">{validationError || error}</div>}
                         </>
                     )}
-                     {projectIntentions && projectIntentions.length > 0 && (
-                        <div className="info-banner info-banner-success" role="status">
-                            ✅ {projectIntentions.length} intentions de recherche pour ce projet seront utilisées pour enrichir la rédaction.
-                        </div>
-                    )}
                 </div>
-                <div className="form-group">
-                    <label htmlFor="site-url" className="form-label">URL de la page d'accueil de votre site</label>
-                    <div className="input-with-button">
-                        <input id="site-url" type="url" className="form-input" value={siteUrl} onChange={(e) => setSiteUrl(e.target.value)} placeholder="https://www.votresite.com" disabled={loadingSiteAnalysis || loadingDescriptions} />
-                        <button onClick={handleAnalyzeSite} className="button-secondary" disabled={loadingSiteAnalysis || loadingDescriptions}>
-                             {loadingSiteAnalysis ? <><span className="spinner"></span> Analyse...</> : "Analyser le site"}
-                        </button>
-                    </div>
+                <div className="modal-footer">
+                    <button className="button-secondary" onClick={onCancel}>Annuler</button>
+                    <button className="submit-button" onClick={handleConfirm} disabled={!table || !!validationError || isImporting}>
+                        {isImporting ? <><span className="spinner"></span> Import...</> : 'Importer'}
+                    </button>
                 </div>
-                {siteAnalysis && (
-                    <div className="site-analysis-results">
-                        <h3 className="output-label">Résultats de l'analyse</h3>
-                        <div className="analysis-grid">
-                            <div className="analysis-item"><h4>Mission</h4><p>{siteAnalysis.mission}</p></div>
-                            <div className="analysis-item"><h4>Vision</h4><p>{siteAnalysis.vision}</p></div>
-                            <div className="analysis-item"><h4>Valeurs</h4><p>{siteAnalysis.valeurs}</p></div>
-                            <div className="analysis-item"><h4>E.E.A.T</h4><p>{siteAnalysis.eeat}</p></div>
-                        </div>
-                    </div>
-                )}
             </div>
+        </div>
+    );
+};
+// --- End CsvImportModal Component ---
+
+// --- JsonLdValidationReport Component ---
+const jsonLdSummary = (validation: JsonLdValidation): string => {
+    const errors = validation.issues.filter(issue => issue.severity === 'error').length;
+    const warnings = validation.issues.length - errors;
+    if (errors > 0) return `${errors} erreur(s)${warnings > 0 ? `, ${warnings} avertissement(s)` : ''}`;
+    return warnings > 0 ? `Valide, ${warnings} avertissement(s)` : 'Valide';
+};
 
-            <div className="content-card">
-                 <h3 className="output-label">Étape 2 : Définir la cible et les produits</h3>
-                 <div className="form-group">
-                    <label htmlFor="target-customer" className="form-label">Cible client (Optionnel)</label>
-                    <textarea id="target-customer" className="form-textarea" value={targetCustomer} onChange={(e) => setTargetCustomer(e.target.value)} placeholder="Décrivez votre client idéal : âge, centres d'intérêt, besoins..." disabled={loadingSiteAnalysis || loadingDescriptions}></textarea>
-                 </div>
-                 <div className="form-group urls-input-container">
-                    <label htmlFor="product-urls" className="form-label">URLs des fiches produits (1 par ligne, max 20)</label>
-                    <textarea id="product-urls" className="form-textarea" value={productUrlsInput} onChange={(e) => setProductUrlsInput(e.target.value)} placeholder="https://www.votresite.com/produit-1&#10;https://www.votresite.com/produit-2" disabled={loadingSiteAnalysis || loadingDescriptions}></textarea>
-                    <label htmlFor="csv-upload" className="button-secondary" style={{marginTop: '10px', display: 'inline-block'}}>
-                        <span>Ou charger un fichier CSV</span>
-                        <input type="file" id="csv-upload" accept=".csv" onChange={handleFileChange} style={{display: 'none'}} />
-                    </label>
-                 </div>
+const JsonLdStatusBadge: React.FC<{ validation: JsonLdValidation }> = ({ validation }) => (
+    <span className={`jsonld-status ${validation.valid ? (validation.issues.length > 0 ? 'warning' : 'valid') : 'invalid'}`}>
+        {jsonLdSummary(validation)}
+    </span>
+);
 
-                 <button className="submit-button" onClick={handleGenerateDescriptions} disabled={isGenerationDisabled}>
-                    {loadingDescriptions ? <><span className="spinner"></span> Génération en cours...</> : `Générer les ${productUrls.length} fiches`}
-                </button>
-                 <p className="credit-cost-text">Coût total estimé : {creditCost} crédits</p>
-                 {loadingDescriptions && <p className="generation-progress">{generationProgress}</p>}
-            </div>
+const JsonLdValidationReport: React.FC<{ validation: JsonLdValidation }> = ({ validation }) => (
+    <div className="jsonld-report">
+        <div className="jsonld-report-header">
+            <JsonLdStatusBadge validation={validation} />
+            {!validation.valid && <span className="form-helper-text">Ce balisage n'est pas éligible aux résultats enrichis et ne peut pas être exporté en l'état.</span>}
+        </div>
+        {validation.issues.length > 0 && (
+            <ul className="jsonld-issues">
+                {validation.issues.map((issue, index) => (
+                    <li key={index} className={`jsonld-issue ${issue.severity}`}>
+                        {issue.path && <code>{issue.path}</code>} {issue.message}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+// --- End JsonLdValidationReport Component ---
+
+// --- PromptPreview Component ---
+// The exact prompt that will be sent, to check before spending credits.
+const PromptPreview: React.FC<{ prompt: string; note?: string }> = ({ prompt, note }) => (
+    <details className="prompt-preview">
+        <summary>Prévisualiser le prompt</summary>
+        {note && <p className="form-helper-text">{note}</p>}
+        <pre className="prompt-preview-text">{prompt}</pre>
+    </details>
+);
+// --- End PromptPreview Component ---
+
+// --- RichTextEditor Component ---
+// Small WYSIWYG editor for generated HTML, with a source view for what the toolbar does not cover.
+const richTextCommands: { command: string; value?: string; label: string; title: string }[] = [
+    { command: 'bold', label: 'G', title: 'Gras' },
+    { command: 'italic', label: 'I', title: 'Italique' },
+    { command: 'formatBlock', value: 'p', label: '¶', title: 'Paragraphe' },
+    { command: 'formatBlock', value: 'h3', label: 'T', title: 'Intertitre' },
+    { command: 'insertUnorderedList', label: '•', title: 'Liste à puces' },
+    { command: 'insertOrderedList', label: '1.', title: 'Liste numérotée' },
+    { command: 'removeFormat', label: '✕', title: 'Effacer la mise en forme' },
+];
 
-            {error && <div className="error-message" role="alert">{error}</div>}
+interface RichTextEditorProps {
+    id?: string;
+    value: string;
+    onChange: (html: string) => void;
+    disabled?: boolean;
+}
 
-            {generatedDescriptions.length > 0 && (
-                 <div className="content-card">
-                    <h3 className="output-label">Résultats de la Génération</h3>
-                    <div className="export-buttons">
-                        <button className="button-secondary" onClick={() => handleExport('csv')}>Exporter en CSV</button>
-                        <button className="button-secondary" onClick={() => handleExport('shopify')}>Exporter pour Shopify</button>
-                        <button className="button-secondary" onClick={() => handleExport('prestashop')}>Exporter pour PrestaShop</button>
-                        <button className="button-secondary" onClick={() => handleExport('woocommerce')}>Exporter pour WooCommerce</button>
-                    </div>
-                    <div className="table-responsive">
-                        <table className="data-table ecommerce-results-table">
-                            <thead>
-                                <tr>
-                                    <th onClick={() => requestSort('productUrl')} className={`sortable-header ${getSortClassFor('productUrl')}`}>URL du Produit</th>
-                                    <th onClick={() => requestSort('description')} className={`sortable-header ${getSortClassFor('description')}`}>Description Générée (HTML)</th>
-                                    <th>JSON-LD</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {sortedDescriptions.map((item, index) => (
-                                    <React.Fragment key={index}>
-                                        <tr>
-                                            <td><a href={item.productUrl} target="_blank" rel="noopener noreferrer">{item.productUrl}</a></td>
-                                            <td dangerouslySetInnerHTML={{ __html: item.description }}></td>
-                                            <td>
-                                                <button onClick={() => toggleJsonLd(index)} className="button-secondary" style={{padding: '6px 12px'}}>
-                                                    {openJsonLd[index] ? 'Cacher' : 'Voir'}
-                                                </button>
-                                            </td>
-                                        </tr>
-                                        {openJsonLd[index] && (
-                                            <tr className="json-ld-row">
-                                                <td colSpan={3}>
-                                                    <div className="code-block-container">
-                                                        <pre className="code-block"><code>{item.jsonLd}</code></pre>
-                                                        <button onClick={(e) => handleCopy(item.jsonLd, e)} className="copy-code-button">Copier</button>
-                                                    </div>
-                                                </td>
-                                            </tr>
-                                        )}
-                                    </React.Fragment>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                </div>
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, disabled }) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const [showSource, setShowSource] = useState(false);
+
+    // Only rewritten when the value changes from outside, so that typing keeps the caret in place.
+    useEffect(() => {
+        if (editorRef.current && editorRef.current.innerHTML !== value) {
+            editorRef.current.innerHTML = value;
+        }
+    }, [value, showSource]);
+
+    const runCommand = (command: string, commandValue?: string) => {
+        if (!editorRef.current) return;
+        editorRef.current.focus();
+        document.execCommand(command, false, commandValue);
+        onChange(editorRef.current.innerHTML);
+    };
+
+    return (
+        <div className="rich-text-editor">
+            <div className="rich-text-toolbar" role="toolbar" aria-label="Mise en forme">
+                {richTextCommands.map(item => (
+                    <button
+                        key={`${item.command}-${item.value ?? ''}`}
+                        type="button"
+                        className="rich-text-button"
+                        title={item.title}
+                        aria-label={item.title}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => runCommand(item.command, item.value)}
+                        disabled={disabled || showSource}
+                    >
+                        {item.label}
+                    </button>
+                ))}
+                <button type="button" className="rich-text-button rich-text-source-toggle" onClick={() => setShowSource(prev => !prev)} disabled={disabled}>
+                    {showSource ? 'Éditeur' : 'HTML'}
+                </button>
+            </div>
+            {showSource ? (
+                <textarea id={id} className="form-textarea rich-text-source" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />
+            ) : (
+                <div
+                    id={id}
+                    ref={editorRef}
+                    className="rich-text-content"
+                    contentEditable={!disabled}
+                    suppressContentEditableWarning
+                    onInput={(e) => onChange(e.currentTarget.innerHTML)}
+                />
             )}
         </div>
     );
 };
-
-// --- COMPETITIVE ANALYSIS PAGE ---
-interface CompetitiveAnalysisPageProps {
-    ai: GoogleGenAI;
-}
-
-interface SavedAnalysis {
-    id: string;
-    name: string;
-    date: string;
-    urls: string[];
-    results: any;
+// --- End RichTextEditor Component ---
+
+// --- RevisionHistoryPanel Component ---
+interface RevisionHistoryPanelProps {
+    history: ContentRevisionsState;
+    currentHtml: string; // Revisions with the same content cannot be restored
+    onRestore: (revision: ContentRevision) => void;
+    upgradeReason: UpgradeReason | null; // Set when the plan does not include the history
+    onUpgradeRequired: (reason: UpgradeReason) => void;
 }
-const LOCAL_STORAGE_COMPETITIVE_ANALYSES = 'competitiveAnalyses_v2';
 
-const CompetitorAnalysisDetail: React.FC<{ data: any }> = ({ data }) => (
-    <div className="analysis-results-grid">
-        <div className="analysis-result-card">
-            <h3 className="card-title-small">Positionnement Marketing</h3>
-            <p>{data.positioning}</p>
-        </div>
-        <div className="analysis-result-card">
-            <h3 className="card-title-small">Profondeur du Catalogue</h3>
-            <p>{data.catalogDepth}</p>
-        </div>
-        <div className="analysis-result-card">
-            <h3 className="card-title-small">Meilleures Ventes Estimées</h3>
-            <ul>
-                {data.bestSellers?.map((item: any, index: number) => (
-                    <li key={index}><strong>{item.name}:</strong> {item.reason}</li>
-                ))}
-            </ul>
-        </div>
-        <div className="analysis-result-card">
-            <h3 className="card-title-small">Structure de la Fiche Produit</h3>
-            <h4>Avantages (Bonnes pratiques)</h4>
-            <ul>
-                {data.productPageStructure?.advantages?.map((item: string, index: number) => <li key={index} className="strength">{item}</li>)}
-            </ul>
-            <h4>Inconvénients (Axes d'amélioration)</h4>
-            <ul>
-                {data.productPageStructure?.disadvantages?.map((item: string, index: number) => <li key={index} className="weakness">{item}</li>)}
-            </ul>
-        </div>
-    </div>
-);
+const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({ history, currentHtml, onRestore, upgradeReason, onUpgradeRequired }) => {
+    const { revisions, loading, error } = history;
+    const [compareFrom, setCompareFrom] = useState<number | null>(null);
+    const [compareTo, setCompareTo] = useState<number | null>(null);
+
+    // Compares the two latest versions until the user picks others.
+    const toVersion = compareTo ?? revisions[revisions.length - 1]?.version;
+    const fromVersion = compareFrom ?? revisions[revisions.length - 2]?.version;
+    const diff = React.useMemo(() => {
+        const from = revisions.find(r => r.version === fromVersion);
+        const to = revisions.find(r => r.version === toVersion);
+        return from && to ? htmlDiff(from.html, to.html) : null;
+    }, [revisions, fromVersion, toVersion]);
+
+    if (upgradeReason) {
+        return (
+            <div className="info-banner info-banner-warning" role="status">
+                Chaque version est enregistrée. Passez au plan {getRequiredPlanFor('revision-history').name} pour les comparer, les restaurer et voir qui les a modifiées.{' '}
+                <button className="button-link" onClick={() => onUpgradeRequired(upgradeReason)}>Voir les offres</button>
+            </div>
+        );
+    }
 
+    const versionOptions = [...revisions].reverse().map(r => <option key={r.id} value={r.version}>v{r.version}</option>);
 
-const CompetitiveAnalysisPage: React.FC<CompetitiveAnalysisPageProps> = ({ ai }) => {
-    const [competitorUrls, setCompetitorUrls] = useState<string[]>(['']);
-    const [loading, setLoading] = useState(false);
+    return (
+        <details className="revision-history">
+            <summary>Historique des versions ({revisions.length})</summary>
+            {loading && <p className="form-helper-text">Chargement de l'historique...</p>}
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {revisions.length > 0 && (
+                <div className="table-responsive">
+                    <table className="data-table revision-table">
+                        <thead>
+                            <tr>
+                                <th>Version</th>
+                                <th>Date</th>
+                                <th>Auteur</th>
+                                <th>Origine</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...revisions].reverse().map(revision => (
+                                <tr key={revision.id}>
+                                    <td>v{revision.version}</td>
+                                    <td>{new Date(revision.createdAt).toLocaleString('fr-FR')}</td>
+                                    <td>{reviewAuthorLabel(revision.author)}</td>
+                                    <td>
+                                        {revision.source === 'restore' && revision.restoredFrom
+                                            ? `Restauration de la v${revision.restoredFrom}`
+                                            : revisionSourceLabels[revision.source]}
+                                    </td>
+                                    <td>
+                                        <button className="button-link" onClick={() => onRestore(revision)} disabled={revision.html === currentHtml}>Restaurer</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {revisions.length > 1 && diff !== null && (
+                <div className="revision-compare">
+                    <div className="revision-compare-controls">
+                        <label>
+                            Comparer la{' '}
+                            <select className="form-select" value={fromVersion} onChange={(e) => setCompareFrom(Number(e.target.value))} aria-label="Version de départ">{versionOptions}</select>
+                        </label>
+                        <label>
+                            avec la{' '}
+                            <select className="form-select" value={toVersion} onChange={(e) => setCompareTo(Number(e.target.value))} aria-label="Version d'arrivée">{versionOptions}</select>
+                        </label>
+                    </div>
+                    <div className="revision-diff" dangerouslySetInnerHTML={{ __html: diff }}></div>
+                </div>
+            )}
+        </details>
+    );
+};
+// --- End RevisionHistoryPanel Component ---
+
+// --- SaveResultModal Component ---
+interface SaveResultModalProps {
+    tool: SavedResultTool;
+    urls: string[];
+    results: SavedResultsByTool[SavedResultTool];
+    defaultName: string;
+    defaultProjectId?: string;
+    onSaved: (saved: SavedAnalysis) => void;
+    onClose: () => void;
+}
+
+// Names a tool's results and files them in the archive, under a project when one is chosen.
+const SaveResultModal: React.FC<SaveResultModalProps> = ({ tool, urls, results, defaultName, defaultProjectId, onSaved, onClose }) => {
+    const [name, setName] = useState(defaultName);
+    const [projectId, setProjectId] = useState(defaultProjectId ?? '');
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [results, setResults] = useState<any | null>(null);
-    const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
-    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
-    const [analysisNameToSave, setAnalysisNameToSave] = useState('');
-    const [activeTab, setActiveTab] = useState<string>('synthesis');
 
     useEffect(() => {
-        setSavedAnalyses(loadFromLocalStorage<SavedAnalysis[]>(LOCAL_STORAGE_COMPETITIVE_ANALYSES, []));
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setError(`Impossible de charger les projets : ${e.message}`));
     }, []);
 
-    const handleUrlChange = useCallback((index: number, value: string) => {
-        const newUrls = [...competitorUrls];
-        newUrls[index] = value;
-        setCompetitorUrls(newUrls);
-    }, [competitorUrls]);
-
-    const addUrlInput = useCallback(() => {
-        if (competitorUrls.length < 4) {
-            setCompetitorUrls([...competitorUrls, '']);
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const saved = await repositories.analyses.create({
+                id: `analysis_${Date.now()}`,
+                name: name.trim(),
+                date: new Date().toISOString(),
+                urls,
+                tool,
+                projectId: projectId || undefined,
+                results,
+            });
+            onSaved(saved);
+        } catch (e: any) {
+            setError(`La sauvegarde a échoué : ${e.message}`);
+            setSaving(false);
         }
-    }, [competitorUrls]);
+    };
 
-    const removeUrlInput = useCallback((index: number) => {
-        if (competitorUrls.length > 1) {
-            const newUrls = competitorUrls.filter((_, i) => i !== index);
-            setCompetitorUrls(newUrls);
-        }
-    }, [competitorUrls]);
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">Sauvegarder dans les archives</h3>
+                    <button className="close-modal-button" onClick={onClose}>&times;</button>
+                </div>
+                <div className="modal-body">
+                    <div className="form-group">
+                        <label htmlFor="saved-result-name" className="form-label">Nom ({savedResultToolLabels[tool]})</label>
+                        <input id="saved-result-name" type="text" className="form-input" value={name} onChange={e => setName(e.target.value)} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="saved-result-project" className="form-label">Projet</label>
+                        <select id="saved-result-project" className="form-select" value={projectId} onChange={e => setProjectId(e.target.value)}>
+                            <option value="">Aucun projet</option>
+                            {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+                        </select>
+                    </div>
+                    {error && <div className="error-message" role="alert">{error}</div>}
+                </div>
+                <div className="modal-footer">
+                    <button className="button-secondary" onClick={onClose}>Annuler</button>
+                    <button className="submit-button" onClick={handleSave} disabled={saving || !name.trim()}>
+                        {saving ? <><span className="spinner"></span> Sauvegarde...</> : 'Sauvegarder'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+// --- End SaveResultModal Component ---
 
-    const urlsToAnalyze = competitorUrls.filter(url => url.trim() !== '' && (url.startsWith('http://') || url.startsWith('https://')));
-    const creditCost = urlsToAnalyze.length * 50;
-    const isAnalysisDisabled = loading || urlsToAnalyze.length === 0;
+// --- ChatbotModal Component ---
+interface ChatbotModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    currentPage: Page;
+    navigateTo: (page: Page) => void;
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    userLanguage: string;
+}
 
-    const handleAnalysis = useCallback(async () => {
-        if (urlsToAnalyze.length === 0) {
-            setError("Veuillez entrer au moins une URL de concurrent valide (commençant par http:// ou https://).");
+const ChatbotModal: React.FC<ChatbotModalProps> = ({ isOpen, onClose, currentPage, navigateTo, ai, spendCredits, userLanguage }) => {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [listeningState, setListeningState] = useState<ListeningState>('idle');
+    const [chatbotError, setChatbotError] = useState<string | null>(null);
+    const geminiChatRef = useRef<AiChat | null>(null);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const [textInputValue, setTextInputValue] = useState('');
+
+    const scrollToBottom = useCallback(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, []);
+
+    useEffect(scrollToBottom, [messages]);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setListeningState('idle');
             return;
         }
 
-        setLoading(true);
-        setError(null);
-        setResults(null);
-        setActiveTab('synthesis');
+        if (!geminiChatRef.current && ai) {
+            geminiChatRef.current = ai.createChat(currentPage);
+        } else if (geminiChatRef.current) {
+            geminiChatRef.current = ai.createChat(currentPage);
+        }
 
-        try {
-            const prompt = `
-                En tant qu'expert en stratégie e-commerce, analyse les sites concurrents aux URLs suivantes : ${urlsToAnalyze.join(', ')}.
-                Pour chaque site, fournis une analyse détaillée sur :
-                1. Positionnement: Cible client, arguments de vente uniques, image de marque.
-                2. Profondeur du Catalogue: Estimation du nombre de catégories et de produits, étendue de l'offre.
-                3. Meilleures Ventes: Identification des produits mis en avant et pourquoi ils semblent être des best-sellers.
-                4. Structure de la Fiche Produit: Analyse approfondie de la structure d'une fiche produit type. Identifie ses avantages et ses inconvénients en te basant sur les bonnes pratiques du e-commerce (qualité des images, clarté des descriptions, efficacité du CTA, présence d'avis clients, éléments de réassurance, etc.).
-
-                Ensuite, fournis une Synthèse Stratégique Comparative qui met en lumière :
-                - Les forces et faiblesses communes.
-                - Les stratégies de différenciation de chaque concurrent.
-                - Les opportunités de marché à saisir.
-
-                Ta réponse DOIT être un objet JSON valide et rien d'autre, sans démarqueurs de code markdown comme \`\`\`json. La structure doit être :
-                {
-                  "synthesis": {
-                    "commonStrengths": "Analyse des points forts que les concurrents partagent.",
-                    "differentiationStrategies": "Analyse de ce qui rend chaque concurrent unique.",
-                    "marketOpportunities": "Recommandations d'opportunités basées sur l'analyse."
-                  },
-                  "competitors": [
-                    {
-                      "url": "${urlsToAnalyze[0]}",
-                      "analysis": {
-                        "positioning": "Analyse du positionnement...",
-                        "catalogDepth": "Analyse de la profondeur...",
-                        "bestSellers": [{ "name": "Produit 1", "reason": "Raison..." }],
-                        "productPageStructure": {
-                          "advantages": ["Avantage 1 basé sur les bonnes pratiques...", "Avantage 2..."],
-                          "disadvantages": ["Inconvénient 1 par rapport aux bonnes pratiques...", "Inconvénient 2..."]
-                        }
-                      }
-                    }
-                  ]
-                }
-            `;
+        setMessages([{
+            id: `system-${Date.now()}`,
+            sender: 'system',
+            text: `Assistant pour "${getPageTitle(currentPage)}" activé.`,
+            timestamp: Date.now()
+        }]);
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { tools: [{ googleSearch: {} }] },
-            });
-            
-            const parsedJson = extractJsonFromResponse(response.text);
-            setResults(parsedJson);
+    }, [isOpen, currentPage, ai]);
 
-        } catch (e: any) {
-            setError(`Une erreur est survenue lors de l'analyse. L'IA a peut-être eu du mal à structurer sa réponse. Veuillez réessayer. Détails: ${e.message}`);
-        } finally {
-            setLoading(false);
-        }
-    }, [ai.models, competitorUrls, urlsToAnalyze]);
+    const pageTitlesMap: Record<Page, string> = {
+        'dashboard': 'Dashboard',
+        'my-projects': 'My Projects',
+        'search-intentions': 'Intentions de Recherches',
+        'e-commerce-redaction': "Rédaction Fiche E-commerce",
+        'competitive-analysis': 'Analyse Concurrentielle',
+        'product-page-analysis': 'Analyse Fiche Produit Concurrent',
+        'cro-optimization': 'Optimisation CRO',
+        'faq-generator': "Générer une FAQ",
+        'summary-table-generator': "Générer un Tableau Récapitulatif",
+        'structured-data': "Données Structurées",
+        'prompt-templates': "Modèles de Prompts",
+        'results-archive': "Archives des Résultats",
+        'settings': 'Settings',
+        'my-account-profile': 'My Account Profile',
+        'billing': 'Billing',
+        'plans-pricing': 'Plans et Tarif',
+        'roadmap-dev': 'Roadmap de Développement',
+        'summary': 'Résumé & Personas',
+        'online-help': 'Aide en Ligne',
+        'specs-for-dev': 'Spécifications pour Développeur',
+    };
     
-    const openSaveModal = useCallback(() => {
-        const defaultName = `Analyse - ${new Date().toLocaleDateString('fr-FR')}`;
-        setAnalysisNameToSave(defaultName);
-        setIsSaveModalOpen(true);
-    }, []);
+    const handleAiResponse = useCallback((aiText: string) => {
+        setMessages(prev => [...prev, { id: `ai-${Date.now()}`, sender: 'ai', text: aiText, timestamp: Date.now() }]);
+        setListeningState('idle');
 
-    const confirmSaveAnalysis = useCallback(() => {
-        if (!analysisNameToSave.trim() || !results) return;
-        
-        const newSavedAnalysis: SavedAnalysis = {
-            id: `analysis_${Date.now()}`,
-            name: analysisNameToSave,
-            date: new Date().toISOString(),
-            urls: competitorUrls.filter(url => url.trim() !== ''),
-            results: results,
-        };
+        const navRegex = /navigate to the ([\w\s'-]+) page|navigating to ([\w\s'-]+)/i;
+        const navMatch = aiText.match(navRegex);
 
-        const updatedAnalyses = [...savedAnalyses, newSavedAnalysis];
-        setSavedAnalyses(updatedAnalyses);
-        saveToLocalStorage(LOCAL_STORAGE_COMPETITIVE_ANALYSES, updatedAnalyses);
-        
-        setIsSaveModalOpen(false);
-        setAnalysisNameToSave('');
-    }, [analysisNameToSave, competitorUrls, results, savedAnalyses]);
+        if (navMatch) {
+            const pageNameQuery = (navMatch[1] || navMatch[2]).trim().toLowerCase();
+            const pageEntries = Object.entries(pageTitlesMap) as [Page, string][];
+            const foundPage = pageEntries.find(([_, title]) => title.toLowerCase() === pageNameQuery);
 
-    const viewSavedAnalysis = useCallback((analysis: SavedAnalysis) => {
-        setResults(analysis.results);
-        setCompetitorUrls(analysis.urls.length > 0 ? analysis.urls : ['']);
-        setActiveTab('synthesis');
-        const mainContent = document.querySelector('.main-content');
-        if (mainContent) mainContent.scrollTop = 0;
-    }, []);
+            if (foundPage) {
+                setTimeout(() => navigateTo(foundPage[0]), 1000);
+            } else {
+                 console.warn("Chatbot tried to navigate to an unknown page title:", pageNameQuery);
+            }
+        }
+    }, [navigateTo]);
 
-    const deleteSavedAnalysis = useCallback((analysisId: string) => {
-        if (window.confirm("Êtes-vous sûr de vouloir supprimer cette analyse sauvegardée ?")) {
-            const updatedAnalyses = savedAnalyses.filter(a => a.id !== analysisId);
-            setSavedAnalyses(updatedAnalyses);
-            saveToLocalStorage(LOCAL_STORAGE_COMPETITIVE_ANALYSES, updatedAnalyses);
+    const processUserMessageWithAI = useCallback(async (userText: string) => {
+        if (!geminiChatRef.current) {
+            setChatbotError("Session de chat non initialisée.");
+            setListeningState('idle');
+            return;
+        }
+        setListeningState('processing');
+        try {
+            const chat = geminiChatRef.current;
+            const response = await spendCredits({ amount: CHAT_MESSAGE_COST, label: 'Assistant', page: currentPage }, () => chat.sendMessage(userText));
+            handleAiResponse(response.text);
+        } catch (error: any) {
+            console.error("Error sending message to Gemini:", error);
+            const errText = `Erreur de l'assistant: ${error.message || 'Impossible de répondre.'}`;
+            setMessages(prev => [...prev, { id: `ai-err-${Date.now()}`, sender: 'ai', text: errText, timestamp: Date.now() }]);
+            setListeningState('idle');
+            setChatbotError(errText);
         }
-    }, [savedAnalyses]);
+    }, [handleAiResponse, spendCredits, currentPage]);
+
+    const handleSendTextMessage = useCallback(() => {
+        if (!textInputValue.trim()) return;
+        setMessages(prev => [...prev, { id: `user-${Date.now()}`, sender: 'user', text: textInputValue, timestamp: Date.now() }]);
+        processUserMessageWithAI(textInputValue);
+        setTextInputValue('');
+    }, [textInputValue, processUserMessageWithAI]);
+
+    if (!isOpen) return null;
+
+    let statusText = "Tapez votre message et appuyez sur Envoyer.";
+    if (listeningState === 'processing') {
+        statusText = "Réflexion en cours...";
+    }
 
     return (
-        <div className="page-with-sticky-footer">
-            <div className="page-header-actions">
-                <div>
-                    <h2 className="content-title">Analyse Concurrentielle E-commerce</h2>
-                    <p className="content-subtitle">Analysez jusqu'à 4 concurrents pour obtenir une synthèse stratégique.</p>
+        <div className="chatbot-modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="chatbotTitle">
+            <div className="chatbot-modal-content" onClick={e => e.stopPropagation()}>
+                <div className="chatbot-modal-header">
+                    <h3 id="chatbotTitle" className="chatbot-modal-title">
+                        Assistant OtterCluster
+                    </h3>
+                    <button onClick={onClose} className="chatbot-close-button" aria-label="Fermer l'assistant">&times;</button>
                 </div>
-            </div>
+                <div className="chatbot-messages-container">
+                    {messages.map(msg => (
+                        <div key={msg.id} className={`chatbot-message chatbot-message-${msg.sender}`}>
+                            <p className="chatbot-message-text">{msg.text}</p>
+                            <span className="chatbot-message-timestamp">{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                        </div>
+                    ))}
+                    <div ref={messagesEndRef} />
+                </div>
+                {chatbotError && <p className="chatbot-error-display" role="alert">{chatbotError}</p>}
 
-            <div className="content-card">
-                <div className="form-group">
+                <div className="chatbot-input-area">
+                    <div style={{width: '100%', display: 'flex', gap: '8px', alignItems: 'center'}}>
+                        <input
+                            type="text"
+                            className="chatbot-text-input"
+                            placeholder="Posez votre question..."
+                            value={textInputValue}
+                            onChange={(e) => setTextInputValue(e.target.value)}
+                            onKeyPress={(e) => e.key === 'Enter' && handleSendTextMessage()}
+                            disabled={listeningState === 'processing'}
+                            aria-label="Entrée de texte pour le chat"
+                        />
+                        <button
+                            onClick={handleSendTextMessage}
+                            className="chatbot-send-button submit-button"
+                            disabled={listeningState === 'processing' || !textInputValue.trim()}
+                            aria-label="Envoyer le message texte"
+                        >
+                            Envoyer
+                        </button>
+                    </div>
+                    <p className="chatbot-status-text">
+                        {statusText}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+// --- End ChatbotModal Component ---
+
+
+interface SidebarProps {
+    currentPage: Page;
+    navigateTo: (page: Page) => void;
+    userRole: UserRole;
+    userPlan: UserPlan;
+}
+
+const Sidebar: React.FC<SidebarProps> = ({ currentPage, navigateTo, userPlan }) => {
+    const mainNavItems: NavItem[] = [
+        { id: 'dashboard', label: 'Dashboard', href: '#' },
+        { id: 'my-projects', label: 'My Projects', href: '#' },
+        { id: 'search-intentions', label: 'Intentions de recherches', href: '#' },
+        { id: 'e-commerce-redaction', label: 'Rédaction Fiche E-commerce', href: '#' },
+        { id: 'competitive-analysis', label: 'Analyse Concurrentielle', href: '#' },
+        { id: 'product-page-analysis', label: 'Analyse Fiche Produit', href: '#' },
+        { id: 'cro-optimization', label: 'Optimisation CRO', href: '#' },
+        { id: 'faq-generator', label: "Générer une FAQ", href: '#' },
+        { id: 'summary-table-generator', label: "Générer un Tableau Récapitulatif", href: '#' },
+        { id: 'structured-data', label: "Données Structurées", href: '#' },
+        { id: 'prompt-templates', label: "Modèles de Prompts", href: '#' },
+        { id: 'results-archive', label: "Archives des Résultats", href: '#' },
+    ];
+
+    const accountNavItems: NavItem[] = [
+        { id: 'my-account-profile', label: 'Mon Compte Profil', href: '#' },
+        { id: 'billing', label: 'Billing', href: '#' },
+        { id: 'settings', label: 'Settings', href: '#' }
+    ];
+
+    const helpNavItems: NavItem[] = [
+        { id: 'summary', label: 'Résumé', href: '#' },
+        { id: 'online-help', label: 'Aide en ligne', href: '#' },
+        { id: 'roadmap-dev', label: 'Roadmap Dev', href: '#' },
+        { id: 'specs-for-dev', label: 'Specs pour dev', href: '#' },
+        { id: 'contact-support', label: 'Contact Support', href: '#' },
+    ];
+
+
+    const isPageLocked = useCallback((pageId: string) => {
+        const feature = pageFeatureRequirements[pageId as Page];
+        return !!feature && !hasFeature(userPlan, feature);
+    }, [userPlan]);
+
+    const renderNavItems = useCallback((items: NavItem[]) => (
+        <ul className="nav-list">
+            {items.map(item => (
+                <li key={item.id} className="nav-item">
+                    <a
+                        href={item.href}
+                        className={`nav-link ${currentPage === item.id ? 'active' : ''}`}
+                        onClick={(e) => {
+                            e.preventDefault();
+                            if (item.id === 'contact-support') {
+                                alert("Contact Support (Placeholder)");
+                            } else {
+                                navigateTo(item.id as Page);
+                            }
+                        }}
+                        aria-current={currentPage === item.id ? 'page' : undefined}
+                    >
+                        {item.label}
+                        {isPageLocked(item.id) && <span className="nav-lock-badge" title="Non inclus dans votre plan">PRO</span>}
+                    </a>
+                </li>
+            ))}
+        </ul>
+    ), [currentPage, navigateTo, isPageLocked]);
+
+    return (
+        <aside className="sidebar">
+            <div className="sidebar-logo">
+                <h1>OtterCluster</h1>
+            </div>
+
+            <nav>
+                <div className="nav-section">
+                    <h2 className="nav-section-title">Principal</h2>
+                    {renderNavItems(mainNavItems)}
+                </div>
+
+                <div className="nav-section">
+                    <h2 className="nav-section-title">Mon Compte</h2>
+                     {renderNavItems(accountNavItems)}
+                </div>
+
+                <div className="nav-section">
+                    <h2 className="nav-section-title">Aide & Ressources</h2>
+                    {renderNavItems(helpNavItems)}
+                </div>
+            </nav>
+        </aside>
+    );
+};
+
+interface MainWrapperProps {
+    currentPage: Page;
+    navigateTo: (page: Page) => void;
+    userRole: UserRole;
+    userPlan: UserPlan;
+    userProfile: UserProfileData | null;
+    onProfileUpdate: (profile: UserProfileData) => Promise<void>;
+    onSignOut: () => void;
+    userEmail: string;
+    credits: CreditLedgerData;
+    spendCredits: SpendCredits;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+    isAiEnabled: boolean;
+    redactionQueue: RedactionJobQueue;
+    projects: Project[];
+    currentProject: Project | null;
+    onProjectChange: (projectId: string | null) => void;
+    onProjectsChange: () => void;
+}
+
+const MainWrapper: React.FC<MainWrapperProps> = (props) => {
+    const { currentPage, navigateTo, userRole, userPlan, userProfile, onProfileUpdate, onSignOut, userEmail, credits, spendCredits, onUpgradeRequired, isAiEnabled, redactionQueue, projects, currentProject, onProjectChange, onProjectsChange } = props;
+    const requiredFeature = pageFeatureRequirements[currentPage];
+    const lockedFeature = requiredFeature && !hasFeature(userPlan, requiredFeature) ? requiredFeature : null;
+    // Recorded as the author of reviews and revisions.
+    const currentAuthor = React.useMemo<ReviewAuthor>(() => ({ email: userEmail, role: userRole }), [userEmail, userRole]);
+    // A result re-opened from the archive, handed to its tool's page until the user leaves it.
+    const [openedResult, setOpenedResult] = useState<SavedAnalysis | null>(null);
+
+    useEffect(() => {
+        if (openedResult && currentPage !== openedResult.tool) setOpenedResult(null);
+    }, [currentPage, openedResult]);
+
+    const openSavedResult = useCallback((result: SavedAnalysis) => {
+        if (result.projectId) onProjectChange(result.projectId);
+        setOpenedResult(result);
+        navigateTo(result.tool);
+    }, [navigateTo, onProjectChange]);
+
+    return (
+        <div className="main-wrapper">
+            <Header 
+                currentPage={currentPage} 
+                userRole={userRole} 
+                userProfile={userProfile} 
+                onSignOut={onSignOut} 
+                navigateTo={navigateTo}
+                creditsRemaining={credits.remaining}
+                creditsTotal={credits.total}
+                projects={projects}
+                currentProject={currentProject}
+                onProjectChange={onProjectChange}
+            />
+            <main className="main-content">
+                {lockedFeature ? (
+                    <FeatureLockedCard feature={lockedFeature} userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} />
+                ) : (
+                <>
+                {currentPage === 'dashboard' && <DashboardPage navigateTo={navigateTo} userProfile={userProfile} />}
+                {currentPage === 'my-projects' && <MyProjectsPage userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} navigateTo={navigateTo} currentProject={currentProject} onProjectChange={onProjectChange} onProjectsChange={onProjectsChange} onOpenSavedResult={openSavedResult} credits={credits} />}
+                {currentPage === 'search-intentions' && <SearchIntentionsPage navigateTo={navigateTo} ai={isAiEnabled ? ai : null} spendCredits={spendCredits} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'e-commerce-redaction' && isAiEnabled && <EcommerceRedactionPage ai={ai} spendCredits={spendCredits} redactionQueue={redactionQueue} reviewer={currentAuthor} userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'competitive-analysis' && isAiEnabled && <CompetitiveAnalysisPage ai={ai} spendCredits={spendCredits} savedResult={isSavedResultOf(openedResult, 'competitive-analysis') ? openedResult : undefined} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'product-page-analysis' && isAiEnabled && <ProductPageAnalysisPage ai={ai} spendCredits={spendCredits} savedResult={isSavedResultOf(openedResult, 'product-page-analysis') ? openedResult : undefined} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'cro-optimization' && isAiEnabled && <CroOptimizationPage ai={ai} spendCredits={spendCredits} savedResult={isSavedResultOf(openedResult, 'cro-optimization') ? openedResult : undefined} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'faq-generator' && isAiEnabled && <FaqGeneratorPage ai={ai} spendCredits={spendCredits} author={currentAuthor} userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} savedResult={isSavedResultOf(openedResult, 'faq-generator') ? openedResult : undefined} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'summary-table-generator' && isAiEnabled && <SummaryTableGeneratorPage ai={ai} spendCredits={spendCredits} author={currentAuthor} userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} savedResult={isSavedResultOf(openedResult, 'summary-table-generator') ? openedResult : undefined} currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'structured-data' && <StructuredDataBuilderPage currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'prompt-templates' && <PromptTemplatesPage currentProject={currentProject} onProjectChange={onProjectChange} />}
+                {currentPage === 'results-archive' && <ResultsArchivePage onOpen={openSavedResult} currentProject={currentProject} />}
+                {currentPage === 'settings' && userRole === 'main' && <SettingsPage userPlan={userPlan} onUpgradeRequired={onUpgradeRequired} />}
+                {currentPage === 'my-account-profile' && userProfile && <MyAccountProfilePage userProfile={userProfile} onProfileUpdate={onProfileUpdate} />}
+                {currentPage === 'billing' && <BillingPage navigateTo={navigateTo} credits={credits} userPlan={userPlan} />}
+                {currentPage === 'plans-pricing' && <PlansPricingPage navigateTo={navigateTo} />}
+                {currentPage === 'roadmap-dev' && <RoadmapDevPage />}
+                {currentPage === 'summary' && <SummaryPage />}
+                {currentPage === 'online-help' && <OnlineHelpPage />}
+                {currentPage === 'specs-for-dev' && <SpecsForDevPage />}
+                </>
+                )}
+            </main>
+        </div>
+    );
+};
+
+interface FeatureLockedCardProps {
+    feature: PlanFeature;
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+}
+
+const FeatureLockedCard: React.FC<FeatureLockedCardProps> = ({ feature, userPlan, onUpgradeRequired }) => (
+    <div className="content-card empty-state-text">
+        <h2 className="content-title">{planFeatureLabels[feature]}</h2>
+        <p>Cette fonctionnalité n'est pas incluse dans votre plan <strong>{getPlan(userPlan).name}</strong>. Elle est disponible à partir du plan <strong>{getRequiredPlanFor(feature).name}</strong>.</p>
+        <button className="submit-button" style={{ marginTop: '16px' }} onClick={() => onUpgradeRequired({ kind: 'feature', feature, plan: userPlan })}>
+            Débloquer cette fonctionnalité
+        </button>
+    </div>
+);
+
+interface HeaderProps {
+    currentPage: Page;
+    userRole: UserRole;
+    userProfile: UserProfileData | null;
+    onSignOut: () => void;
+    navigateTo: (page: Page) => void;
+    creditsRemaining: number;
+    creditsTotal: number;
+    projects: Project[];
+}
+
+const Header: React.FC<HeaderProps & CurrentProjectProps> = ({ currentPage, userRole, userProfile, onSignOut, navigateTo, creditsRemaining, creditsTotal, projects, currentProject, onProjectChange }) => {
+    const [dropdownOpen, setDropdownOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    const getGreetingName = useCallback(() => {
+        if (userProfile?.firstName) {
+            return userProfile.firstName;
+        }
+        return userRole === 'main' ? 'Admin' : 'Collaborateur';
+    }, [userProfile, userRole]);
+
+    const getUserInitials = useCallback(() => {
+        if (userProfile?.firstName && userProfile?.lastName) {
+            return `${userProfile.firstName.charAt(0)}${userProfile.lastName.charAt(0)}`.toUpperCase();
+        }
+        if (userProfile?.firstName) {
+            return userProfile.firstName.charAt(0).toUpperCase();
+        }
+        return getGreetingName().charAt(0).toUpperCase();
+    }, [userProfile, getGreetingName]);
+
+    const toggleDropdown = useCallback(() => setDropdownOpen(prev => !prev), []);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setDropdownOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+
+    const isLowOnCredits = creditsTotal > 0 && (creditsRemaining / creditsTotal) < 0.1;
+
+    return (
+        <header className="header">
+            <div className="breadcrumbs">
+                OtterCluster / <span className="current-page">{getPageTitle(currentPage)}</span>
+            </div>
+            <div className="header-right-section">
+                <div className="header-project-switcher">
+                    <label htmlFor="header-project-select">Projet</label>
+                    <select id="header-project-select" className="form-select" value={currentProject?.id ?? ''} onChange={(e) => onProjectChange(e.target.value || null)}>
+                        <option value="">Aucun projet</option>
+                        {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+                    </select>
+                </div>
+                <div 
+                    className={`header-credits-display ${isLowOnCredits ? 'low-credits' : ''}`}
+                    title={`Crédits restants ce mois-ci : ${creditsRemaining} / ${creditsTotal}`}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 1 0 0-16 8 8 0 0 0 0 16Zm.75-13a.75.75 0 0 0-1.5 0v5c0 .414.336.75.75.75h4a.75.75 0 0 0 0-1.5h-3.25V5Z" clipRule="evenodd" />
+                    </svg>
+                    <span>Crédits : <strong>{creditsRemaining}</strong></span>
+                </div>
+                <div className="user-profile-container" ref={dropdownRef}>
+                    <div className="user-profile" onClick={toggleDropdown} role="button" tabIndex={0} aria-expanded={dropdownOpen} aria-haspopup="true" aria-controls="userProfileMenu">
+                        <div className="user-avatar" aria-hidden="true">{getUserInitials()}</div>
+                        <span className="user-name">Bonjour, {getGreetingName()}</span>
+                    </div>
+                    {dropdownOpen && (
+                        <ul id="userProfileMenu" className="user-profile-dropdown" role="menu">
+                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('my-account-profile'); setDropdownOpen(false); }}>Mon Profil</button></li>
+                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('billing'); setDropdownOpen(false); }}>Facturation</button></li>
+                            {userRole === 'main' && (
+                               <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('plans-pricing'); setDropdownOpen(false);}}>Plans et Tarif</button></li>
+                            )}
+                            {userRole === 'main' && (
+                                 <li role="none"><button role="menuitem" className="user-menu-item" onClick={() => { navigateTo('settings'); setDropdownOpen(false); }}>Paramètres</button></li>
+                            )}
+                            <li role="separator"><hr style={{margin: '5px 0', borderColor: '#eee'}} /></li>
+                            <li role="none"><button role="menuitem" className="user-menu-item" onClick={onSignOut}>Déconnexion</button></li>
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </header>
+    );
+};
+
+
+const DashboardPage: React.FC<{ navigateTo: (page: Page) => void; userProfile: UserProfileData | null; }> = ({ navigateTo, userProfile }) => {
+    const [stats, setStats] = useState({ projects: 0 });
+    const greetingName = userProfile?.firstName || 'Utilisateur';
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(projects => setStats({ projects: projects.length }))
+            .catch(e => console.error("Error loading projects:", e));
+    }, []);
+
+    return (
+        <div className="dashboard-page">
+            <div className="dashboard-header">
+                <h2 className="content-title">Bonjour, {greetingName} !</h2>
+                <p className="content-subtitle">Prêt à optimiser votre boutique en ligne aujourd'hui ?</p>
+            </div>
+
+            <div className="dashboard-grid">
+                <div className="stat-card">
+                    <div className="stat-card-icon projects-icon">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12.75V12A2.25 2.25 0 0 1 4.5 9.75h15A2.25 2.25 0 0 1 21.75 12v.75m-8.69-6.44-2.12-2.12a1.5 1.5 0 0 0-1.061-.44H4.5A2.25 2.25 0 0 0 2.25 6v12a2.25 2.25 0 0 0 2.25 2.25h15A2.25 2.25 0 0 0 21.75 18V9a2.25 2.25 0 0 0-2.25-2.25h-5.379a1.5 1.5 0 0 1-1.06-.44Z" />
+                        </svg>
+                    </div>
+                    <div className="stat-card-content">
+                        <p className="stat-card-metric">{stats.projects}</p>
+                        <p className="stat-card-label">Projets Actifs</p>
+                    </div>
+                </div>
+
+                <div className="content-card quick-actions-card">
+                    <h3 className="card-title-small">Actions Rapides</h3>
+                    <div className="quick-actions-buttons">
+                        <button className="submit-button" onClick={() => navigateTo('e-commerce-redaction')}>Rédiger une Fiche Produit</button>
+                        <button className="button-secondary" onClick={() => navigateTo('competitive-analysis')}>Analyser un Concurrent</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- CMS Publishing ---
+type PublishableCms = Exclude<CMS, 'other'>;
+const isPublishableCms = (cms: CMS | undefined): cms is PublishableCms => !!cms && cms !== 'other';
+
+// Publishing goes through the API server, which keeps the CMS credentials out of the browser.
+const isCmsPublishingAvailable = storageBackendKind === 'http';
+const CMS_PUBLISH_BATCH_SIZE = 100;
+
+interface CmsConnectionField {
+    key: string;
+    label: string;
+    placeholder: string;
+    secret?: boolean;
+    optional?: boolean;
+}
+
+const cmsConnectionFields: Record<PublishableCms, CmsConnectionField[]> = {
+    shopify: [
+        { key: 'storeUrl', label: 'URL de la boutique', placeholder: 'https://ma-boutique.myshopify.com' },
+        { key: 'accessToken', label: "Jeton d'accès Admin API", placeholder: 'shpat_...', secret: true },
+    ],
+    woocommerce: [
+        { key: 'storeUrl', label: 'URL du site', placeholder: 'https://www.monsite.com' },
+        { key: 'consumerKey', label: 'Clé client (consumer key)', placeholder: 'ck_...', secret: true },
+        { key: 'consumerSecret', label: 'Secret client (consumer secret)', placeholder: 'cs_...', secret: true },
+    ],
+    prestashop: [
+        { key: 'storeUrl', label: 'URL de la boutique', placeholder: 'https://www.maboutique.com' },
+        { key: 'apiKey', label: 'Clé du Webservice', placeholder: 'Clé de 32 caractères', secret: true },
+        { key: 'languageId', label: 'ID de la langue (Optionnel)', placeholder: '1', optional: true },
+    ],
+    bigcommerce: [
+        { key: 'storeHash', label: 'Store hash', placeholder: 'abc123def' },
+        { key: 'accessToken', label: "Jeton d'accès API", placeholder: 'Jeton du compte API', secret: true },
+        { key: 'apiUrl', label: "URL de l'API (Optionnel)", placeholder: 'https://api.bigcommerce.com', optional: true },
+    ],
+};
+
+interface CmsConnectionInfo {
+    cms: PublishableCms;
+    settings: Record<string, string>;
+    configuredSecrets: string[];
+    updatedAt: string;
+}
+
+interface CmsPublishItem {
+    url: string;
+    handle?: string;
+    productId?: string;
+    sku?: string;
+    descriptionHtml: string;
+    jsonLd: string;
+}
+
+type CmsPublishStatus = 'updated' | 'would-update' | 'unchanged' | 'not-found' | 'not-approved' | 'error';
+
+interface CmsFieldChange {
+    field: 'description' | 'jsonLd';
+    before: string;
+    after: string;
+}
+
+interface CmsPublishResult {
+    url: string;
+    status: CmsPublishStatus;
+    productId?: string;
+    productName?: string;
+    changes: CmsFieldChange[];
+    error?: string;
+}
+
+interface CmsPublishResponse {
+    dryRun: boolean;
+    jsonLdSupported: boolean;
+    results: CmsPublishResult[];
+}
+
+interface CmsProductLookup {
+    url: string;
+    status: 'found' | 'not-found' | 'error';
+    productId?: string;
+    productName?: string;
+    descriptionHtml?: string;
+    error?: string;
+}
+
+const cmsPublishing = {
+    getConnection: (projectId: string) =>
+        apiRequest<CmsConnectionInfo | null>(`/api/projects/${encodeURIComponent(projectId)}/cms`),
+    saveConnection: (projectId: string, cms: PublishableCms, settings: Record<string, string>, secrets: Record<string, string>) =>
+        apiRequest<CmsConnectionInfo>(`/api/projects/${encodeURIComponent(projectId)}/cms`, { method: 'PUT', body: JSON.stringify({ cms, settings, secrets }) }),
+    removeConnection: (projectId: string) =>
+        apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/cms`, { method: 'DELETE' }),
+    testConnection: (projectId: string) =>
+        apiRequest<{ ok: boolean }>(`/api/projects/${encodeURIComponent(projectId)}/cms/test`, { method: 'POST' }),
+    publish: (projectId: string, items: CmsPublishItem[], dryRun: boolean) =>
+        apiRequest<CmsPublishResponse>(`/api/projects/${encodeURIComponent(projectId)}/cms/publish`, { method: 'POST', body: JSON.stringify({ items, dryRun }) }),
+    fetchProducts: (projectId: string, items: Omit<CmsPublishItem, 'descriptionHtml' | 'jsonLd'>[]) =>
+        apiRequest<{ results: CmsProductLookup[] }>(`/api/projects/${encodeURIComponent(projectId)}/cms/products`, { method: 'POST', body: JSON.stringify({ items }) }),
+};
+
+const toCmsPublishItem = (item: GeneratedDescription): CmsPublishItem => ({
+    url: item.productUrl,
+    handle: item.product?.handle,
+    productId: item.product?.productId,
+    sku: item.product?.sku,
+    descriptionHtml: item.description,
+    jsonLd: item.jsonLd,
+});
+
+const cmsPublishStatusLabels: Record<CmsPublishStatus, string> = {
+    'updated': 'Publiée',
+    'would-update': 'Sera modifiée',
+    'unchanged': 'Déjà à jour',
+    'not-found': 'Produit introuvable',
+    'not-approved': 'Non approuvée',
+    'error': 'Erreur',
+};
+
+const cmsFieldLabels: Record<CmsFieldChange['field'], string> = {
+    description: 'Description',
+    jsonLd: 'JSON-LD',
+};
+
+interface DiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// HTML is split at tag boundaries and JSON pretty-printed, so single-line values still diff block by block.
+const splitForDiff = (field: CmsFieldChange['field'], value: string): string[] => {
+    let text = value;
+    if (field === 'jsonLd') {
+        try { text = JSON.stringify(JSON.parse(value), null, 2); } catch (_) { /* keep the raw value */ }
+    } else {
+        text = value.replace(/>\s*</g, '>\n<');
+    }
+    return text.split('\n').filter(line => line.trim().length > 0);
+};
+
+const diffLines = (before: string[], after: string[]): DiffLine[] => {
+    // Longest common subsequence table, filled from the end.
+    const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            lines.push({ kind: 'same', text: before[i] });
+            i++;
+            j++;
+        } else if (i < before.length && (j === after.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({ kind: 'removed', text: before[i++] });
+        } else {
+            lines.push({ kind: 'added', text: after[j++] });
+        }
+    }
+    return lines;
+};
+
+const diffLinePrefixes: Record<DiffLine['kind'], string> = { same: '  ', added: '+ ', removed: '- ' };
+
+const CmsChangeDiff: React.FC<{ change: CmsFieldChange }> = ({ change }) => {
+    const lines = React.useMemo(
+        () => diffLines(splitForDiff(change.field, change.before), splitForDiff(change.field, change.after)),
+        [change]
+    );
+    return (
+        <div className="cms-change">
+            <h4>{cmsFieldLabels[change.field]}{!change.before.trim() && ' (champ vide actuellement)'}</h4>
+            <pre className="cms-diff">
+                {lines.map((line, index) => (
+                    <div key={index} className={`cms-diff-line cms-diff-${line.kind}`}>{diffLinePrefixes[line.kind]}{line.text}</div>
+                ))}
+            </pre>
+        </div>
+    );
+};
+
+const CmsPublishResults: React.FC<{ response: CmsPublishResponse; cmsLabel: string }> = ({ response, cmsLabel }) => {
+    const counts: Partial<Record<CmsPublishStatus, number>> = {};
+    response.results.forEach(result => { counts[result.status] = (counts[result.status] || 0) + 1; });
+    return (
+        <div className="cms-publish-results">
+            <p className="generation-progress">
+                {response.dryRun ? 'Prévisualisation (aucune modification envoyée)' : `Publication sur ${cmsLabel}`} :{' '}
+                {(Object.keys(cmsPublishStatusLabels) as CmsPublishStatus[])
+                    .filter(status => counts[status])
+                    .map(status => `${counts[status]} ${cmsPublishStatusLabels[status].toLowerCase()}`)
+                    .join(' · ')}
+            </p>
+            {!response.jsonLdSupported && (
+                <div className="info-banner info-banner-warning" role="status">
+                    {cmsLabel} ne propose pas de champ pour les données structurées : seule la description est publiée.
+                </div>
+            )}
+            {response.results.map(result => (
+                <div key={result.url} className="cms-publish-result">
+                    <div className="cms-publish-result-header">
+                        <span>
+                            <strong>{result.productName || result.url}</strong>
+                            {result.productId && <span className="cms-publish-product-id"> #{result.productId}</span>}
+                        </span>
+                        <span className={`cms-publish-status cms-publish-status-${result.status}`}>{cmsPublishStatusLabels[result.status]}</span>
+                    </div>
+                    {result.error && <p className="cms-publish-error">{result.error}</p>}
+                    {result.changes.map(change => <CmsChangeDiff key={change.field} change={change} />)}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface CmsConnectionModalProps {
+    project: Project & { cms: PublishableCms };
+    cmsLabel: string;
+    onClose: () => void;
+}
+
+const CmsConnectionModal: React.FC<CmsConnectionModalProps> = ({ project, cmsLabel, onClose }) => {
+    const fields = cmsConnectionFields[project.cms];
+    const [connection, setConnection] = useState<CmsConnectionInfo | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(isCmsPublishingAvailable);
+    const [isSaving, setIsSaving] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isCmsPublishingAvailable) return;
+        cmsPublishing.getConnection(project.id)
+            .then(existing => {
+                // A connection saved for another CMS is ignored until it is replaced.
+                const current = existing && existing.cms === project.cms ? existing : null;
+                setConnection(current);
+                setValues(current ? { ...current.settings } : { storeUrl: project.url });
+            })
+            .catch(e => setError(`Impossible de charger la connexion : ${e.message}`))
+            .finally(() => setIsLoading(false));
+    }, [project]);
+
+    const handleSave = useCallback(async () => {
+        setIsSaving(true);
+        setError(null);
+        setNotice(null);
+        try {
+            const settings: Record<string, string> = {};
+            const secrets: Record<string, string> = {};
+            fields.forEach(field => {
+                const value = (values[field.key] || '').trim();
+                if (value) (field.secret ? secrets : settings)[field.key] = value;
+            });
+            const saved = await cmsPublishing.saveConnection(project.id, project.cms, settings, secrets);
+            setConnection(saved);
+            setValues({ ...saved.settings });
+            await cmsPublishing.testConnection(project.id);
+            setNotice(`Connexion à ${cmsLabel} enregistrée et vérifiée.`);
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [fields, values, project, cmsLabel]);
+
+    const handleRemove = useCallback(async () => {
+        if (!window.confirm(`Supprimer la connexion ${cmsLabel} de ce projet ?`)) return;
+        setError(null);
+        setNotice(null);
+        try {
+            await cmsPublishing.removeConnection(project.id);
+            setConnection(null);
+            setValues({ storeUrl: project.url });
+        } catch (e: any) {
+            setError(`La suppression de la connexion a échoué : ${e.message}`);
+        }
+    }, [project, cmsLabel]);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={e => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">Connexion {cmsLabel} — {project.name}</h3>
+                    <button className="close-modal-button" onClick={onClose}>&times;</button>
+                </div>
+                <div className="modal-body">
+                    {!isCmsPublishingAvailable ? (
+                        <div className="info-banner info-banner-warning" role="status">
+                            La publication directe nécessite le serveur API (STORAGE_BACKEND=http). En attendant, utilisez l'export CSV.
+                        </div>
+                    ) : isLoading ? (
+                        <p><span className="spinner"></span> Chargement...</p>
+                    ) : (
+                        <>
+                            {fields.map(field => {
+                                const isConfigured = field.secret && connection?.configuredSecrets.includes(field.key);
+                                return (
+                                    <div className="form-group" key={field.key}>
+                                        <label htmlFor={`cms-${field.key}`} className="form-label">{field.label}</label>
+                                        <input
+                                            id={`cms-${field.key}`}
+                                            type={field.secret ? 'password' : 'text'}
+                                            className="form-input"
+                                            autoComplete="off"
+                                            value={values[field.key] || ''}
+                                            onChange={e => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                            placeholder={isConfigured ? '•••••••• (inchangé)' : field.placeholder}
+                                        />
+                                    </div>
+                                );
+                            })}
+                            <p className="form-helper-text">Les clés sont chiffrées sur le serveur et ne sont jamais renvoyées au navigateur.</p>
+                            {notice && <div className="info-banner info-banner-success" role="status">{notice}</div>}
+                            {error && <div className="error-message" role="alert">{error}</div>}
+                        </>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    {connection && <button className="button-link-delete" onClick={handleRemove} disabled={isSaving}>Supprimer la connexion</button>}
+                    <button className="button-secondary" onClick={onClose}>Fermer</button>
+                    {isCmsPublishingAvailable && (
+                        <button className="submit-button" onClick={handleSave} disabled={isLoading || isSaving}>
+                            {isSaving ? <><span className="spinner"></span> Vérification...</> : 'Enregistrer et tester'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+// --- End CMS Publishing ---
+
+// --- Project Dashboard ---
+// Health score out of 100: SEO is the share of the project's search demand covered by a rewritten product page,
+// CRO the mean of the latest audit score of each page. A project with only one of them is scored on that one.
+const productPageAnalysisCategories: { key: keyof ProductPageAnalysisResult['analysis']; title: string }[] = [
+    { key: 'pageStructure', title: 'Structure de la Page' },
+    { key: 'designUI', title: 'Design & UI' },
+    { key: 'content', title: 'Contenu' },
+    { key: 'seo', title: 'SEO & Référencement' },
+    { key: 'internalLinking', title: 'Maillage Interne' },
+    { key: 'cro', title: 'Conversion (CRO)' },
+];
+
+const PROJECT_WEAKNESS_EXAMPLES = 3;
+const PROJECT_HEALTH_TREND_POINTS = 12;
+const PROJECT_TIMELINE_LENGTH = 20;
+
+interface ProjectCroScore {
+    url: string;
+    score: number; // 1 to 10
+    date: string; // ISO string date of the saved audit
+}
+
+interface ProjectWeaknessSummary {
+    key: keyof ProductPageAnalysisResult['analysis'];
+    title: string;
+    count: number;
+    examples: string[];
+}
+
+interface RewrittenProductCoverage {
+    url: string;
+    date: string; // ISO string date of its latest revision
+    queries: Set<string>; // Normalized queries the page is written for
+}
+
+interface ProjectHealth {
+    score: number | null;
+    seo: number | null;
+    cro: number | null;
+}
+
+interface ProjectHealthPoint {
+    date: string; // Local day, YYYY-MM-DD
+    score: number;
+}
+
+type ProjectActivityKind = 'generation' | 'result' | 'import';
+
+interface ProjectActivity {
+    date: string; // ISO string date
+    kind: ProjectActivityKind;
+    label: string;
+    detail: string;
+}
+
+const projectActivityKindLabels: Record<ProjectActivityKind, string> = {
+    generation: 'Contenu',
+    result: 'Analyse',
+    import: 'Import',
+};
+
+const byDateAscending = <T extends { date: string },>(items: T[]): T[] => [...items].sort((a, b) => a.date.localeCompare(b.date));
+
+// The latest successful audit of each page wins; the weakest pages come first.
+const latestCroScores = (audits: SavedAnalysis<'cro-optimization'>[]): ProjectCroScore[] => {
+    const byUrl = new Map<string, ProjectCroScore>();
+    byDateAscending(audits).forEach(audit => audit.results.forEach(result => {
+        if (result.data) byUrl.set(normalizeProductUrl(result.url), { url: result.url, score: Number(result.data.overallScore), date: audit.date });
+    }));
+    return [...byUrl.values()].sort((a, b) => a.score - b.score);
+};
+
+// Weaknesses of the latest analysis of each product page, counted by analysis category.
+const summarizeProductPageWeaknesses = (analyses: SavedAnalysis<'product-page-analysis'>[]): ProjectWeaknessSummary[] => {
+    const latest = new Map<string, ProductPageAnalysisResult>();
+    byDateAscending(analyses).forEach(analysis => latest.set(normalizeProductUrl(analysis.urls[0] ?? analysis.id), analysis.results));
+    return productPageAnalysisCategories
+        .map(category => {
+            const weaknesses = [...latest.values()].flatMap(result => result.analysis?.[category.key]?.weaknesses ?? []);
+            return { ...category, count: weaknesses.length, examples: weaknesses.slice(0, PROJECT_WEAKNESS_EXAMPLES) };
+        })
+        .filter(summary => summary.count > 0)
+        .sort((a, b) => b.count - a.count);
+};
+
+// A product description covers the intentions it would be written for, as matched in EcommerceRedactionPage.
+const rewrittenProductCoverage = (generations: ContentRevision[], intentions: SearchIntention[], clusters: KeywordCluster[]): RewrittenProductCoverage[] =>
+    generations
+        .filter(revision => revision.kind === 'product-description')
+        .map(revision => ({
+            url: revision.title,
+            date: revision.createdAt,
+            queries: new Set(matchIntentionsToProduct({ url: revision.title }, intentions, clusters).map(match => normalizeQuery(match.query))),
+        }));
+
+// Share of the search demand (impressions, volume or clicks) covered; intentions without metrics count once.
+const intentionCoverage = (products: RewrittenProductCoverage[], intentions: SearchIntention[]): number | null => {
+    if (intentions.length === 0) return null;
+    const covered = new Set<string>();
+    products.forEach(product => product.queries.forEach(query => covered.add(query)));
+    const weight = (intention: SearchIntention) => intentionWeight(intention) || 1;
+    const total = intentions.reduce((sum, intention) => sum + weight(intention), 0);
+    return intentions.filter(intention => covered.has(normalizeQuery(intention.query))).reduce((sum, intention) => sum + weight(intention), 0) / total;
+};
+
+const projectHealth = (coverage: number | null, croScores: ProjectCroScore[]): ProjectHealth => {
+    const seo = coverage === null ? null : Math.round(coverage * 100);
+    const cro = croScores.length === 0 ? null : Math.round(croScores.reduce((sum, item) => sum + item.score, 0) / croScores.length * 10);
+    const parts = [seo, cro].filter((part): part is number => part !== null);
+    return { score: parts.length > 0 ? Math.round(parts.reduce((sum, part) => sum + part, 0) / parts.length) : null, seo, cro };
+};
+
+const localDay = (date: string): string => {
+    const day = new Date(date);
+    return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
+
+// Replays the dated data day by day: pages rewritten and audits saved up to the end of each day, against
+// today's intentions. A page only counts from its latest revision, the older ones are not loaded.
+const projectHealthTrend = (products: RewrittenProductCoverage[], intentions: SearchIntention[], audits: SavedAnalysis<'cro-optimization'>[]): ProjectHealthPoint[] => {
+    const days = [...new Set([...products, ...audits].map(item => localDay(item.date)))].sort();
+    return days
+        .map(day => {
+            const end = new Date(`${day}T23:59:59.999`).getTime();
+            const until = <T extends { date: string },>(items: T[]) => items.filter(item => new Date(item.date).getTime() <= end);
+            return { date: day, score: projectHealth(intentionCoverage(until(products), intentions), latestCroScores(until(audits))).score };
+        })
+        .filter((point): point is ProjectHealthPoint => point.score !== null)
+        .slice(-PROJECT_HEALTH_TREND_POINTS);
+};
+
+const projectActivities = (generations: ContentRevision[], savedResults: SavedAnalysis[], imports: SearchIntentionImport[]): ProjectActivity[] =>
+    [
+        ...generations.map(revision => ({
+            date: revision.createdAt,
+            kind: 'generation' as const,
+            label: `${revisionDocumentKindLabels[revision.kind]} v${revision.version} (${revisionSourceLabels[revision.source]})`,
+            detail: `${revision.title} · ${reviewAuthorLabel(revision.author)}`,
+        })),
+        ...savedResults.map(result => ({
+            date: result.date,
+            kind: 'result' as const,
+            label: savedResultToolLabels[result.tool],
+            detail: result.name,
+        })),
+        ...imports.map(entry => ({
+            date: entry.date,
+            kind: 'import' as const,
+            label: `Import d'intentions (${entry.source.toUpperCase()})`,
+            detail: `${entry.fileName} · ${entry.added} ajoutée(s), ${entry.updated} mise(s) à jour`,
+        })),
+    ]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, PROJECT_TIMELINE_LENGTH);
+
+const ProjectHealthChart: React.FC<{ points: ProjectHealthPoint[] }> = ({ points }) => {
+    const innerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const innerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (index: number) => CHART_PADDING.left + (points.length > 1 ? index / (points.length - 1) : 0.5) * innerWidth;
+    const y = (score: number) => CHART_PADDING.top + innerHeight - (score / 100) * innerHeight;
+
+    return (
+        <svg className="intention-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="Évolution du score de santé">
+            {[0, 25, 50, 75, 100].map(tick => (
+                <g key={tick}>
+                    <line className="intention-chart-grid" x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} />
+                    <text className="intention-chart-axis" x={CHART_PADDING.left - 6} y={y(tick) + 4} textAnchor="end">{tick}</text>
+                </g>
+            ))}
+            <polyline className="intention-chart-expected" points={points.map((point, index) => `${x(index)},${y(point.score)}`).join(' ')} />
+            {points.map((point, index) => (
+                <g key={point.date}>
+                    <circle className="project-health-point" cx={x(index)} cy={y(point.score)} r={4}>
+                        <title>{`${new Date(`${point.date}T12:00:00`).toLocaleDateString('fr-FR')} : ${point.score} / 100`}</title>
+                    </circle>
+                    {(index === 0 || index === points.length - 1) && (
+                        <text className="intention-chart-axis" x={x(index)} y={CHART_HEIGHT - 8} textAnchor="middle">{new Date(`${point.date}T12:00:00`).toLocaleDateString('fr-FR')}</text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
+// --- End Project Dashboard ---
+
+// --- Project Detail ---
+interface ProjectDetailProps {
+    project: Project;
+    isCurrent: boolean;
+    onMakeCurrent: () => void;
+    onBack: () => void;
+    navigateTo: (page: Page) => void;
+    onOpenSavedResult: (result: SavedAnalysis) => void;
+    credits: CreditLedgerData;
+}
+
+const PROJECT_DETAIL_TOP_INTENTIONS = 10;
+
+// Dashboard of one project: its health score and trend, latest audits and analyses, search intentions,
+// the texts generated for it, credits spent and recent activity.
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, isCurrent, onMakeCurrent, onBack, navigateTo, onOpenSavedResult, credits }) => {
+    const [intentions, setIntentions] = useState<SearchIntention[]>([]);
+    const [clusters, setClusters] = useState<KeywordCluster[]>([]);
+    const [generations, setGenerations] = useState<ContentRevision[]>([]);
+    const [savedResults, setSavedResults] = useState<SavedAnalysis[]>([]);
+    const [imports, setImports] = useState<SearchIntentionImport[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const topIntentions = React.useMemo(
+        () => [...intentions].sort((a, b) => (b.impressions ?? 0) - (a.impressions ?? 0)).slice(0, PROJECT_DETAIL_TOP_INTENTIONS),
+        [intentions]
+    );
+    const croAudits = React.useMemo(() => savedResults.filter((result): result is SavedAnalysis<'cro-optimization'> => isSavedResultOf(result, 'cro-optimization')), [savedResults]);
+    const croScores = React.useMemo(() => latestCroScores(croAudits), [croAudits]);
+    const weaknesses = React.useMemo(
+        () => summarizeProductPageWeaknesses(savedResults.filter((result): result is SavedAnalysis<'product-page-analysis'> => isSavedResultOf(result, 'product-page-analysis'))),
+        [savedResults]
+    );
+    const rewrittenProducts = React.useMemo(() => rewrittenProductCoverage(generations, intentions, clusters), [generations, intentions, clusters]);
+    const coverage = React.useMemo(() => intentionCoverage(rewrittenProducts, intentions), [rewrittenProducts, intentions]);
+    const health = projectHealth(coverage, croScores);
+    const healthTrend = React.useMemo(() => projectHealthTrend(rewrittenProducts, intentions, croAudits), [rewrittenProducts, intentions, croAudits]);
+    const healthChange = healthTrend.length > 1 ? healthTrend[healthTrend.length - 1].score - healthTrend[0].score : null;
+    const activities = React.useMemo(() => projectActivities(generations, savedResults, imports), [generations, savedResults, imports]);
+    const creditsSpent = credits.transactions
+        .filter(transaction => transaction.projectId === project.id && transaction.status === 'committed')
+        .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        Promise.all([
+            repositories.searchIntentions.listForProject(project.id),
+            repositories.keywordClusters.listForProject(project.id),
+            repositories.revisions.listLatestForProject(project.id),
+            repositories.analyses.list(),
+            repositories.searchIntentions.listImports(project.id),
+        ])
+            .then(([projectIntentions, projectClusters, latestRevisions, analyses, intentionImports]) => {
+                if (cancelled) return;
+                setIntentions(projectIntentions);
+                setClusters(projectClusters);
+                setGenerations(latestRevisions);
+                setSavedResults(analyses.filter(analysis => analysis.projectId === project.id).sort((a, b) => b.date.localeCompare(a.date)));
+                setImports(intentionImports);
+            })
+            .catch(e => { if (!cancelled) setError(`Impossible de charger les données du projet : ${e.message}`); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [project.id]);
+
+    // Tools work on the current project, so opening one from here selects this project first.
+    const openTool = (page: Page) => {
+        if (!isCurrent) onMakeCurrent();
+        navigateTo(page);
+    };
+
+    return (
+        <div>
+            <div className="page-header-actions">
+                <div>
+                    <button className="button-link project-detail-back" onClick={onBack}>&larr; Tous les projets</button>
+                    <h2 className="content-title">{project.name}</h2>
+                    <p className="content-subtitle">
+                        {project.url ? <a href={project.url} target="_blank" rel="noopener noreferrer">{project.url}</a> : 'Aucune URL'}
+                        {' · '}Créé le {new Date(project.creationDate).toLocaleDateString('fr-FR')}
+                    </p>
+                </div>
+                {isCurrent
+                    ? <span className="project-current-badge">Projet courant</span>
+                    : <button className="submit-button" onClick={onMakeCurrent}>Définir comme projet courant</button>}
+            </div>
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {loading ? (
+                <div className="content-card"><p><span className="spinner"></span> Chargement du projet...</p></div>
+            ) : (
+                <>
+                    <div className="project-detail-stats">
+                        <div className="project-detail-stat">
+                            <strong>{health.score === null ? 'N/A' : `${health.score} / 100`}</strong>
+                            <span>
+                                Score de santé
+                                {healthChange !== null && healthChange !== 0 && (
+                                    <em className={`project-health-change ${healthChange > 0 ? 'up' : 'down'}`}> {healthChange > 0 ? '+' : ''}{healthChange}</em>
+                                )}
+                            </span>
+                        </div>
+                        <div className="project-detail-stat"><strong>{health.seo === null ? 'N/A' : `${health.seo} %`}</strong><span>Couverture des intentions</span></div>
+                        <div className="project-detail-stat"><strong>{croScores.length > 0 ? `${(health.cro as number) / 10} / 10` : 'N/A'}</strong><span>Score CRO moyen ({croScores.length} page(s))</span></div>
+                        <div className="project-detail-stat"><strong>{rewrittenProducts.length}</strong><span>Fiches produit réécrites</span></div>
+                        <div className="project-detail-stat"><strong>{creditsSpent}</strong><span>Crédits consommés</span></div>
+                    </div>
+
+                    <div className="content-card">
+                        <h3 className="output-label">Évolution du score de santé</h3>
+                        <p className="form-helper-text">
+                            Moyenne de la couverture SEO (part de la demande de recherche couverte par une fiche réécrite) et du dernier score CRO de chaque page audité, sur 100.
+                        </p>
+                        {healthTrend.length > 1 ? (
+                            <ProjectHealthChart points={healthTrend} />
+                        ) : (
+                            <p className="empty-state-text small">Réécrivez des fiches ou sauvegardez des audits CRO sur plusieurs jours pour suivre l'évolution du score.</p>
+                        )}
+                    </div>
+
+                    <div className="project-detail-columns">
+                        <div className="content-card">
+                            <div className="revision-card-header">
+                                <h3 className="output-label">Derniers scores CRO</h3>
+                                <button className="button-secondary" onClick={() => openTool('cro-optimization')}>Lancer un audit</button>
+                            </div>
+                            {croScores.length > 0 ? (
+                                <div className="table-responsive">
+                                    <table className="data-table">
+                                        <thead>
+                                            <tr><th>Page</th><th>Score</th><th>Audit du</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {croScores.map(item => (
+                                                <tr key={item.url}>
+                                                    <td className="results-archive-urls" title={item.url}>{item.url}</td>
+                                                    <td>{item.score} / 10</td>
+                                                    <td>{new Date(item.date).toLocaleDateString('fr-FR')}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <p className="empty-state-text small">Aucun audit CRO sauvegardé dans ce projet.</p>
+                            )}
+                        </div>
+
+                        <div className="content-card">
+                            <div className="revision-card-header">
+                                <h3 className="output-label">Points faibles des fiches produit</h3>
+                                <button className="button-secondary" onClick={() => openTool('product-page-analysis')}>Analyser une fiche</button>
+                            </div>
+                            {weaknesses.length > 0 ? (
+                                <ul className="project-weakness-list">
+                                    {weaknesses.map(summary => (
+                                        <li key={summary.key}>
+                                            <strong>{summary.title} ({summary.count})</strong>
+                                            <ul>{summary.examples.map((example, i) => <li key={i} className="weakness">{example}</li>)}</ul>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="empty-state-text small">Aucune analyse de fiche produit sauvegardée dans ce projet.</p>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="content-card">
+                        <div className="revision-card-header">
+                            <h3 className="output-label">Intentions de recherche</h3>
+                            <button className="button-secondary" onClick={() => openTool('search-intentions')}>Gérer les intentions</button>
+                        </div>
+                        {topIntentions.length > 0 ? (
+                            <div className="table-responsive">
+                                <table className="data-table">
+                                    <thead>
+                                        <tr><th>Requête</th><th>Clics</th><th>Impressions</th><th>Position</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {topIntentions.map((intention, index) => (
+                                            <tr key={index}>
+                                                <td>{intention.query}</td>
+                                                <td>{intention.clicks ?? 'N/A'}</td>
+                                                <td>{intention.impressions ?? 'N/A'}</td>
+                                                <td>{formatPosition(intention.position)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {intentions.length > topIntentions.length && <p className="form-helper-text">Les {topIntentions.length} requêtes ayant le plus d'impressions sur {intentions.length}.</p>}
+                            </div>
+                        ) : (
+                            <p className="empty-state-text small">Aucune intention de recherche importée pour ce projet.</p>
+                        )}
+                    </div>
+
+                    <div className="content-card">
+                        <div className="revision-card-header">
+                            <h3 className="output-label">Contenus générés</h3>
+                            <button className="button-secondary" onClick={() => openTool('e-commerce-redaction')}>Rédiger des fiches</button>
+                        </div>
+                        {generations.length > 0 ? (
+                            <div className="table-responsive">
+                                <table className="data-table">
+                                    <thead>
+                                        <tr><th>Contenu</th><th>Type</th><th>Version</th><th>Dernière modification</th><th>Par</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {generations.map(revision => (
+                                            <tr key={revision.documentKey}>
+                                                <td className="results-archive-urls" title={revision.title}>{revision.title}</td>
+                                                <td>{revisionDocumentKindLabels[revision.kind]}</td>
+                                                <td>v{revision.version} ({revisionSourceLabels[revision.source]})</td>
+                                                <td>{new Date(revision.createdAt).toLocaleString('fr-FR')}</td>
+                                                <td>{reviewAuthorLabel(revision.author)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="empty-state-text small">Aucun contenu généré pour ce projet.</p>
+                        )}
+                    </div>
+
+                    <div className="content-card">
+                        <div className="revision-card-header">
+                            <h3 className="output-label">Analyses et audits sauvegardés</h3>
+                            <button className="button-secondary" onClick={() => navigateTo('results-archive')}>Voir les archives</button>
+                        </div>
+                        {savedResults.length > 0 ? (
+                            <ul className="saved-analyses-list">
+                                {savedResults.map(result => (
+                                    <li key={result.id} className="saved-analysis-item">
+                                        <div className="saved-analysis-info">
+                                            <strong>{result.name}</strong>
+                                            <span>{savedResultToolLabels[result.tool]} · {new Date(result.date).toLocaleDateString('fr-FR')} · {result.urls.length} URL(s)</span>
+                                        </div>
+                                        <div className="saved-analysis-actions">
+                                            <button className="button-secondary" onClick={() => onOpenSavedResult(result)}>Ouvrir</button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="empty-state-text small">Aucun résultat sauvegardé dans ce projet.</p>
+                        )}
+                    </div>
+
+                    <div className="content-card">
+                        <h3 className="output-label">Activité récente</h3>
+                        {activities.length > 0 ? (
+                            <ol className="project-timeline">
+                                {activities.map((activity, index) => (
+                                    <li key={index} className={`project-timeline-item ${activity.kind}`}>
+                                        <span className="project-timeline-date">{new Date(activity.date).toLocaleString('fr-FR')}</span>
+                                        <strong>{projectActivityKindLabels[activity.kind]} · {activity.label}</strong>
+                                        <span className="project-timeline-detail" title={activity.detail}>{activity.detail}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="empty-state-text small">Aucune activité pour ce projet.</p>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+// --- End Project Detail ---
+
+interface MyProjectsPageProps extends CurrentProjectProps {
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+    navigateTo: (page: Page) => void;
+    onProjectsChange: () => void; // Keeps the header's project list up to date.
+    onOpenSavedResult: (result: SavedAnalysis) => void;
+    credits: CreditLedgerData;
+}
+
+const MyProjectsPage: React.FC<MyProjectsPageProps> = ({ userPlan, onUpgradeRequired, navigateTo, currentProject, onProjectChange, onProjectsChange, onOpenSavedResult, credits }) => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [detailProjectId, setDetailProjectId] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [projectName, setProjectName] = useState('');
+    const [projectUrl, setProjectUrl] = useState('');
+    const [projectCms, setProjectCms] = useState<CMS | ''>('');
+    const [editingProject, setEditingProject] = useState<Project | null>(null);
+    const [isFormDirty, setIsFormDirty] = useState(false);
+    const [cmsConnectionProject, setCmsConnectionProject] = useState<(Project & { cms: PublishableCms }) | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    
+    // FIX: Explicitly pass the generic type `Project` to `useSortableData` to ensure correct type inference for `requestSort`.
+    const { items: sortedProjects, requestSort, sortConfig } = useSortableData<Project>(projects, { key: 'creationDate', direction: 'descending' });
+
+    // Effect to track if the form in the modal has unsaved changes
+    useEffect(() => {
+        if (!editingProject) {
+            setIsFormDirty(false);
+            return;
+        }
+        const nameChanged = projectName !== editingProject.name;
+        const urlChanged = projectUrl !== editingProject.url;
+        const cmsChanged = projectCms !== (editingProject.cms || '');
+        setIsFormDirty(nameChanged || urlChanged || cmsChanged);
+    }, [projectName, projectUrl, projectCms, editingProject]);
+
+
+    const getSortClassFor = (key: keyof Project) => {
+        if (!sortConfig) {
+            return '';
+        }
+        return sortConfig.key === key ? sortConfig.direction : '';
+    };
+
+    const cmsDisplayMap: Record<CMS, string> = {
+        woocommerce: 'Woocommerce',
+        shopify: 'Shopify',
+        prestashop: 'Prestashop',
+        bigcommerce: 'Big Commerce',
+        other: 'Autre (Export CSV)',
+    };
+    const { maxProjects } = getPlan(userPlan).limits;
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setError(`Impossible de charger les projets : ${e.message}`));
+    }, []);
+
+    const handleOpenModal = useCallback((project: Project | null = null) => {
+        if (!project) {
+            const limitReason = checkProjectLimit(userPlan, projects.length);
+            if (limitReason) {
+                onUpgradeRequired(limitReason);
+                return;
+            }
+        }
+        if (project) {
+            setEditingProject(project);
+            setProjectName(project.name);
+            setProjectUrl(project.url);
+            setProjectCms(project.cms || '');
+        } else {
+            setEditingProject(null);
+            setProjectName('');
+            setProjectUrl('');
+            setProjectCms('');
+        }
+        setIsFormDirty(false); // Reset dirty state on open
+        setIsModalOpen(true);
+    }, [userPlan, projects.length, onUpgradeRequired]);
+
+    const handleCloseModal = useCallback(() => {
+        if (isFormDirty && !window.confirm("You have unsaved changes that will be lost. Are you sure you want to close?")) {
+            return; // Abort close if form is dirty and user cancels confirmation
+        }
+        setIsModalOpen(false);
+    }, [isFormDirty]);
+
+    const handleSaveProject = useCallback(async () => {
+        if (!projectName.trim()) {
+            alert("Le nom du projet est requis.");
+            return;
+        }
+
+        setError(null);
+        try {
+            if (editingProject) {
+                const updatedProject = await repositories.projects.update({ ...editingProject, name: projectName, url: projectUrl, cms: projectCms ? (projectCms as CMS) : undefined });
+                setProjects(prev => prev.map(p => p.id === editingProject.id ? updatedProject : p));
+                onProjectsChange();
+            } else {
+                const limitReason = checkProjectLimit(userPlan, projects.length);
+                if (limitReason) {
+                    setIsModalOpen(false);
+                    onUpgradeRequired(limitReason);
+                    return;
+                }
+                const newProject: Project = {
+                    id: `proj_${Date.now()}`,
+                    name: projectName,
+                    url: projectUrl,
+                    cms: projectCms ? (projectCms as CMS) : undefined,
+                    creationDate: new Date().toISOString(),
+                    gscConnected: false,
+                    gaConnected: false,
+                };
+                const createdProject = await repositories.projects.create(newProject);
+                setProjects(prev => [...prev, createdProject]);
+                onProjectsChange();
+            }
+            setIsModalOpen(false); // Close modal directly, bypassing the dirty check
+        } catch (e: any) {
+            setError(`La sauvegarde du projet a échoué : ${e.message}`);
+        }
+    }, [editingProject, projects.length, projectName, projectUrl, projectCms, userPlan, onUpgradeRequired, onProjectsChange]);
+
+    const handleDeleteProject = useCallback(async (projectId: string) => {
+        if (window.confirm("Êtes-vous sûr de vouloir supprimer ce projet ? Cette action est irréversible.")) {
+            try {
+                await repositories.projects.remove(projectId);
+                setProjects(prev => prev.filter(p => p.id !== projectId));
+                onProjectsChange();
+            } catch (e: any) {
+                setError(`La suppression du projet a échoué : ${e.message}`);
+            }
+        }
+    }, [onProjectsChange]);
+
+    const handleToggleConnection = useCallback(async (projectId: string, type: 'gsc' | 'ga') => {
+        const project = projects.find(p => p.id === projectId);
+        if (!project) return;
+        const toggledProject = type === 'gsc'
+            ? { ...project, gscConnected: !project.gscConnected }
+            : { ...project, gaConnected: !project.gaConnected };
+        try {
+            const updatedProject = await repositories.projects.update(toggledProject);
+            setProjects(prev => prev.map(p => p.id === projectId ? updatedProject : p));
+            onProjectsChange();
+        } catch (e: any) {
+            setError(`La mise à jour de la connexion a échoué : ${e.message}`);
+        }
+    }, [projects, onProjectsChange]);
+
+    const detailProject = projects.find(p => p.id === detailProjectId);
+    if (detailProject) {
+        return (
+            <ProjectDetail
+                project={detailProject}
+                isCurrent={currentProject?.id === detailProject.id}
+                onMakeCurrent={() => onProjectChange(detailProject.id)}
+                onBack={() => setDetailProjectId(null)}
+                navigateTo={navigateTo}
+                onOpenSavedResult={onOpenSavedResult}
+                credits={credits}
+            />
+        );
+    }
+
+    return (
+        <div>
+            <div className="page-header-actions">
+                 <div>
+                    <h2 className="content-title">Mes Projets</h2>
+                    <p className="content-subtitle">
+                        Gérez vos projets pour organiser vos fiches produits et analyses.
+                        {maxProjects !== null && ` (${projects.length} / ${maxProjects} projets utilisés)`}
+                    </p>
+                </div>
+                <button className="submit-button" onClick={() => handleOpenModal()}>
+                    Créer un Projet
+                </button>
+            </div>
+            {error && <div className="error-message" role="alert">{error}</div>}
+            <div className="content-card">
+                 {projects.length > 0 ? (
+                    <div className="table-responsive">
+                        <table className="projects-table">
+                            <thead>
+                                <tr>
+                                    <th onClick={() => requestSort('name')} className={`sortable-header ${getSortClassFor('name')}`}>Nom du Projet</th>
+                                    <th onClick={() => requestSort('url')} className={`sortable-header ${getSortClassFor('url')}`}>URL du Site</th>
+                                    <th onClick={() => requestSort('cms')} className={`sortable-header ${getSortClassFor('cms')}`}>CMS</th>
+                                    <th onClick={() => requestSort('creationDate')} className={`sortable-header ${getSortClassFor('creationDate')}`}>Date de Création</th>
+                                    <th onClick={() => requestSort('gscConnected')} className={`sortable-header ${getSortClassFor('gscConnected')}`}>Search Console</th>
+                                    <th onClick={() => requestSort('gaConnected')} className={`sortable-header ${getSortClassFor('gaConnected')}`}>Analytics</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedProjects.map(project => (
+                                    <tr key={project.id}>
+                                        <td>
+                                            <button className="button-link project-name-link" onClick={() => setDetailProjectId(project.id)}>{project.name}</button>
+                                            {currentProject?.id === project.id && <span className="project-current-badge">Courant</span>}
+                                        </td>
+                                        <td><a href={project.url} target="_blank" rel="noopener noreferrer">{project.url}</a></td>
+                                        <td>{project.cms ? cmsDisplayMap[project.cms] : 'N/A'}</td>
+                                        <td>{new Date(project.creationDate).toLocaleDateString()}</td>
+                                        <td>
+                                            {project.gscConnected ? (
+                                                <span className="connection-status connected">
+                                                    Connecté
+                                                    <button onClick={() => handleToggleConnection(project.id, 'gsc')} className="button-link-disconnect">(Déconnecter)</button>
+                                                </span>
+                                            ) : (
+                                                <button className="button-secondary connect-button" onClick={() => handleToggleConnection(project.id, 'gsc')}>Connecter</button>
+                                            )}
+                                        </td>
+                                        <td>
+                                            {project.gaConnected ? (
+                                                <span className="connection-status connected">
+                                                    Connecté
+                                                    <button onClick={() => handleToggleConnection(project.id, 'ga')} className="button-link-disconnect">(Déconnecter)</button>
+                                                </span>
+                                            ) : (
+                                                <button className="button-secondary connect-button" onClick={() => handleToggleConnection(project.id, 'ga')}>Connecter</button>
+                                            )}
+                                        </td>
+                                        <td className="table-actions-cell">
+                                            <button className="button-link" onClick={() => setDetailProjectId(project.id)}>Détails</button>
+                                            <button className="button-link" onClick={() => handleOpenModal(project)}>Modifier</button>
+                                            {isPublishableCms(project.cms) && (
+                                                <button className="button-link" onClick={() => setCmsConnectionProject({ ...project, cms: project.cms as PublishableCms })}>Connexion CMS</button>
+                                            )}
+                                            <button className="button-link-delete" onClick={() => handleDeleteProject(project.id)}>Supprimer</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <div className="empty-state-text">
+                        <p>Aucun projet pour le moment.</p>
+                        <button className="submit-button" style={{marginTop: '16px'}} onClick={() => handleOpenModal()}>Créer votre premier projet</button>
+                    </div>
+                )}
+            </div>
+
+            {isModalOpen && (
+                <div className="modal-overlay" onClick={handleCloseModal}>
+                    <div className="modal-content" onClick={e => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h3 className="modal-title">{editingProject ? 'Modifier le Projet' : 'Créer un Nouveau Projet'}</h3>
+                            <button className="close-modal-button" onClick={handleCloseModal}>&times;</button>
+                        </div>
+                        <div className="modal-body">
+                            <div className="form-group">
+                                <label htmlFor="project-name" className="form-label">Nom du Projet</label>
+                                <input id="project-name" type="text" className="form-input" value={projectName} onChange={e => setProjectName(e.target.value)} placeholder="Ex: Blog de Recettes" />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="project-url" className="form-label">URL du Site (Optionnel)</label>
+                                <input id="project-url" type="text" className="form-input" value={projectUrl} onChange={e => setProjectUrl(e.target.value)} placeholder="Ex: https://www.monsite.com" />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="project-cms" className="form-label">CMS (Optionnel)</label>
+                                <select id="project-cms" className="form-select" value={projectCms} onChange={e => setProjectCms(e.target.value as (CMS | ''))}>
+                                    <option value="">Sélectionner un CMS...</option>
+                                    <option value="woocommerce">Woocommerce</option>
+                                    <option value="shopify">Shopify</option>
+                                    <option value="prestashop">Prestashop</option>
+                                    <option value="bigcommerce">Big Commerce</option>
+                                    <option value="other">Autre (Export CSV)</option>
+                                </select>
+                                <p className="form-helper-text">Sera utilisé pour l'intégration automatique des contenus. Les accès à l'API du CMS se configurent ensuite via « Connexion CMS ».</p>
+                            </div>
+                        </div>
+                        <div className="modal-footer">
+                            <button className="button-secondary" onClick={handleCloseModal}>Annuler</button>
+                            <button className="submit-button" onClick={handleSaveProject}>Sauvegarder</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {cmsConnectionProject && (
+                <CmsConnectionModal
+                    project={cmsConnectionProject}
+                    cmsLabel={cmsDisplayMap[cmsConnectionProject.cms]}
+                    onClose={() => setCmsConnectionProject(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// --- SEARCH INTENTIONS PAGE ---
+const searchIntentionCsvFields: CsvColumnField[] = [
+    { key: 'query', label: 'Requête', aliases: ['query', 'requête', 'requete', 'keyword', 'mot-clé', 'mot clé', 'top queries', 'requêtes les plus fréquentes', 'suggestion', 'search term'], required: true },
+    { key: 'clicks', label: 'Clics', aliases: ['clicks', 'clics'] },
+    { key: 'impressions', label: 'Impressions', aliases: ['impressions'] },
+    { key: 'ctr', label: 'CTR', aliases: ['ctr'] },
+    { key: 'position', label: 'Position', aliases: ['position', 'position moyenne'] },
+    { key: 'volume', label: 'Volume de recherche', aliases: ['search volume', 'volume de recherche', 'volume'] },
+];
+
+const intentionSourceLabels: Record<IntentionSource, string> = {
+    gsc: 'Search Console',
+    atp: 'AnswerThePublic',
+    manual: 'Manuel',
+};
+
+const intentionMergeModeLabels: Record<IntentionMergeMode, string> = {
+    upsert: 'Fusionner (ajoute les nouvelles requêtes et met à jour les existantes)',
+    append: 'Ajouter (nouvelles requêtes uniquement)',
+    replace: 'Remplacer toutes les intentions du projet',
+};
+
+const formatImportCounts = (entry: Pick<SearchIntentionImport, 'added' | 'updated' | 'skipped'>): string =>
+    `${entry.added} ajoutée(s), ${entry.updated} mise(s) à jour, ${entry.skipped} doublon(s) ignoré(s)`;
+
+// Mapped columns become typed metrics, the others are kept in `extra` under their normalized header.
+const intentionsFromCsv = (table: CsvTable, mapping: CsvColumnMapping): SearchIntention[] => {
+    const mappedColumns = new Set(Object.values(mapping));
+    return table.rows.map(row => {
+        const raw: Record<string, string> = {};
+        searchIntentionCsvFields.forEach(field => {
+            if (mapping[field.key] >= 0) raw[field.key] = csvCell(row, mapping[field.key]);
+        });
+        const extra: Record<string, string> = {};
+        table.headers.forEach((header, index) => {
+            if (!mappedColumns.has(index)) extra[normalizeCsvHeader(header)] = csvCell(row, index);
+        });
+        return toSearchIntention({ ...raw, extra });
+    }).filter(item => item.query);
+};
+
+const searchIntentTypeLabels: Record<SearchIntentType, string> = {
+    informational: 'Informationnelle',
+    commercial: 'Commerciale',
+    transactional: 'Transactionnelle',
+    navigational: 'Navigationnelle',
+};
+
+const clusteringMethodLabels: Record<ClusteringMethod, string> = {
+    lexical: 'Lexicale (mots en commun)',
+    embeddings: 'Sémantique (embeddings IA)',
+    hybrid: 'Hybride (lexicale + sémantique)',
+};
+
+const CLUSTER_QUERY_PREVIEW = 5;
+
+interface KeywordClustersPanelProps {
+    project: Project;
+    intentions: SearchIntention[];
+    clusters: KeywordCluster[];
+    onClustersChange: (clusters: KeywordCluster[]) => void;
+    ai: AiProxyClient | null; // Semantic methods are unavailable without the AI proxy
+    spendCredits: SpendCredits;
+}
+
+type KeywordClusterRow = KeywordCluster & { size: number; weight: number };
+
+const KeywordClustersPanel: React.FC<KeywordClustersPanelProps> = ({ project, intentions, clusters, onClustersChange, ai, spendCredits }) => {
+    const [catalogueUrls, setCatalogueUrls] = useState<string[]>([]);
+    const [method, setMethod] = useState<ClusteringMethod>('lexical');
+    const [threshold, setThreshold] = useState(defaultClusteringThresholds.lexical);
+    const [isClustering, setIsClustering] = useState(false);
+    const [expandedIds, setExpandedIds] = useState<Set<string>>(() => new Set());
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    useEffect(() => {
+        setMessage(null);
+        setExpandedIds(new Set());
+        repositories.catalogue.listForProject(project.id)
+            .then(catalogue => setCatalogueUrls(catalogue.map(p => p.url)))
+            .catch(e => setMessage({ text: `Impossible de charger le catalogue : ${e.message}`, type: 'error' }));
+    }, [project.id]);
+
+    const embeddingUnits = Math.ceil(intentions.length / EMBEDDING_TEXTS_PER_UNIT);
+    const creditCost = method === 'lexical' ? 0 : embeddingUnits * CREDIT_COSTS.keywordClustering;
+
+    const rows = React.useMemo<KeywordClusterRow[]>(() => {
+        const weights = new Map<string, number>(intentions.map(i => [normalizeQuery(i.query), intentionWeight(i)]));
+        return clusters.map(cluster => ({
+            ...cluster,
+            size: cluster.queries.length,
+            weight: cluster.queries.reduce((sum, query) => sum + (weights.get(normalizeQuery(query)) ?? 0), 0),
+        }));
+    }, [clusters, intentions]);
+
+    const { items: sortedRows, requestSort, sortConfig } = useSortableData<KeywordClusterRow>(rows, { key: 'weight', direction: 'descending' });
+    const getSortClassFor = (key: keyof KeywordClusterRow) => {
+        if (!sortConfig) {
+            return '';
+        }
+        return sortConfig.key === key ? sortConfig.direction : '';
+    };
+
+    const saveClusters = async (next: KeywordCluster[]) => {
+        onClustersChange(next);
+        try {
+            await repositories.keywordClusters.replaceForProject(project.id, next);
+        } catch (e: any) {
+            setMessage({ text: `L'enregistrement des clusters a échoué : ${e.message}`, type: 'error' });
+        }
+    };
+
+    const updateCluster = (id: string, changes: Partial<KeywordCluster>) =>
+        saveClusters(clusters.map(cluster => (cluster.id === id ? { ...cluster, ...changes } : cluster)));
+
+    const handleMethodChange = (next: ClusteringMethod) => {
+        setMethod(next);
+        setThreshold(defaultClusteringThresholds[next]);
+    };
+
+    const handleCluster = async () => {
+        if (intentions.length === 0) return;
+        setIsClustering(true);
+        setMessage(null);
+        try {
+            let embeddings: number[][] | undefined;
+            if (method !== 'lexical' && ai) {
+                const creditRequest: CreditRequest = {
+                    amount: creditCost,
+                    label: `Clustering sémantique (${intentions.length} requêtes)`,
+                    page: 'search-intentions',
+                    projectId: project.id,
+                };
+                embeddings = await spendCredits(creditRequest, () => ai.embedContents(intentions.map(i => i.query.slice(0, 500)), project.id));
+            }
+            const next = carryOverClusterMappings(clusters, clusterIntentions(intentions, { method, threshold, embeddings, brandTerms: brandTermsFor(project) }));
+            await saveClusters(next);
+            setExpandedIds(new Set());
+            setMessage({ text: `${intentions.length} requêtes regroupées en ${next.length} clusters.`, type: 'success' });
+        } catch (e: any) {
+            setMessage({ text: e instanceof InsufficientCreditsError ? e.message : `Le clustering a échoué : ${e.message}`, type: 'error' });
+        } finally {
+            setIsClustering(false);
+        }
+    };
+
+    const toggleExpanded = (id: string) => {
+        setExpandedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const mappedCount = clusters.filter(cluster => cluster.url).length;
+
+    return (
+        <div className="content-card">
+            <h3 className="output-label">Clusters de mots-clés ({clusters.length})</h3>
+            <p className="form-helper-text">
+                Regroupez les intentions du projet par thématique, vérifiez le type d'intention de recherche de chaque cluster et associez-le à la page produit ou catégorie qui doit se positionner dessus. Les fiches produits générées utilisent les requêtes du cluster associé à leur URL.
+            </p>
+            <div className="keyword-cluster-controls">
+                <div className="form-group">
+                    <label htmlFor="clustering-method" className="form-label">Méthode</label>
+                    <select id="clustering-method" className="form-select" value={method} onChange={(e) => handleMethodChange(e.target.value as ClusteringMethod)} disabled={isClustering}>
+                        {(Object.keys(clusteringMethodLabels) as ClusteringMethod[]).map(option => (
+                            <option key={option} value={option} disabled={option !== 'lexical' && !ai}>{clusteringMethodLabels[option]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="clustering-threshold" className="form-label">Similarité minimale : {Math.round(threshold * 100)} %</label>
+                    <input id="clustering-threshold" type="range" min={0.2} max={0.95} step={0.05} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} disabled={isClustering} />
+                    <p className="form-helper-text">Plus la valeur est haute, plus les clusters sont petits et précis.</p>
+                </div>
+                <div className="form-group">
+                    <button className="button-primary" onClick={handleCluster} disabled={isClustering || intentions.length === 0}>
+                        {isClustering ? <><span className="spinner"></span> Regroupement...</> : clusters.length > 0 ? 'Regénérer les clusters' : 'Générer les clusters'}
+                    </button>
+                    {creditCost > 0 && <p className="credit-cost-text">Coût : {creditCost} crédits</p>}
+                </div>
+            </div>
+
+            {message && <div className={`message-banner ${message.type === 'success' ? 'success-message' : 'error-message'}`}>{message.text}</div>}
+
+            {clusters.length > 0 && (
+                <>
+                    <p className="form-helper-text">{mappedCount} cluster(s) sur {clusters.length} associé(s) à une URL. Un nouveau regroupement conserve le nom, l'intention et l'URL des clusters dont la requête principale est inchangée.</p>
+                    <datalist id="keyword-cluster-url-options">
+                        {catalogueUrls.map(url => <option key={url} value={url} />)}
+                    </datalist>
+                    <div className="table-responsive">
+                        <table className="data-table keyword-cluster-table">
+                            <thead>
+                                <tr>
+                                    <th onClick={() => requestSort('label')} className={`sortable-header ${getSortClassFor('label')}`}>Cluster</th>
+                                    <th onClick={() => requestSort('intent')} className={`sortable-header ${getSortClassFor('intent')}`}>Intention</th>
+                                    <th onClick={() => requestSort('size')} className={`sortable-header ${getSortClassFor('size')}`}>Requêtes</th>
+                                    <th onClick={() => requestSort('weight')} className={`sortable-header ${getSortClassFor('weight')}`}>Impressions</th>
+                                    <th onClick={() => requestSort('url')} className={`sortable-header ${getSortClassFor('url')}`}>URL cible</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedRows.map(row => {
+                                    const isExpanded = expandedIds.has(row.id);
+                                    const shownQueries = isExpanded ? row.queries : row.queries.slice(0, CLUSTER_QUERY_PREVIEW);
+                                    return (
+                                        <tr key={row.id}>
+                                            <td>
+                                                <input
+                                                    type="text"
+                                                    className="form-input"
+                                                    defaultValue={row.label}
+                                                    aria-label="Nom du cluster"
+                                                    onBlur={(e) => { if (e.target.value.trim() && e.target.value !== row.label) updateCluster(row.id, { label: e.target.value.trim() }); }}
+                                                />
+                                            </td>
+                                            <td>
+                                                <select className="form-select" value={row.intent} aria-label="Intention de recherche" onChange={(e) => updateCluster(row.id, { intent: e.target.value as SearchIntentType })}>
+                                                    {SEARCH_INTENT_TYPES.map(type => <option key={type} value={type}>{searchIntentTypeLabels[type]}</option>)}
+                                                </select>
+                                            </td>
+                                            <td>
+                                                <ul className="keyword-cluster-queries">
+                                                    {shownQueries.map(query => <li key={query}>{query}</li>)}
+                                                </ul>
+                                                {row.size > CLUSTER_QUERY_PREVIEW && (
+                                                    <button className="button-link" onClick={() => toggleExpanded(row.id)}>
+                                                        {isExpanded ? 'Réduire' : `+ ${row.size - CLUSTER_QUERY_PREVIEW} autre(s)`}
+                                                    </button>
+                                                )}
+                                            </td>
+                                            <td>{row.weight || 'N/A'}</td>
+                                            <td>
+                                                <input
+                                                    type="url"
+                                                    className="form-input"
+                                                    list="keyword-cluster-url-options"
+                                                    defaultValue={row.url ?? ''}
+                                                    placeholder="https://www.votresite.com/categorie"
+                                                    aria-label="URL cible du cluster"
+                                                    onBlur={(e) => { const url = e.target.value.trim() || undefined; if (url !== row.url) updateCluster(row.id, { url }); }}
+                                                />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const formatPercent = (value: number | null | undefined, digits: number = 1): string =>
+    value === null || value === undefined ? 'N/A' : `${(value * 100).toFixed(digits)} %`;
+
+const formatPosition = (value: number | null | undefined): string =>
+    value === null || value === undefined ? 'N/A' : value.toFixed(1);
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+
+// Expected CTR by position: benchmark (dashed), curve used for scoring (line) and the project's own CTR (dots).
+const CtrCurveChart: React.FC<{ curve: CtrCurvePoint[] }> = ({ curve }) => {
+    const innerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const innerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const maxCtr = Math.max(0.05, ...curve.map(point => Math.max(point.benchmark, point.expected, point.observed ?? 0)));
+    const x = (position: number) => CHART_PADDING.left + ((position - 1) / (curve.length - 1)) * innerWidth;
+    const y = (ctr: number) => CHART_PADDING.top + innerHeight - (Math.min(ctr, maxCtr) / maxCtr) * innerHeight;
+    const line = (key: 'benchmark' | 'expected') => curve.map(point => `${x(point.position)},${y(point[key])}`).join(' ');
+    const ticks = [0, 0.25, 0.5, 0.75, 1].map(ratio => ratio * maxCtr);
+
+    return (
+        <svg className="intention-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="CTR attendu selon la position">
+            {ticks.map(tick => (
+                <g key={tick}>
+                    <line className="intention-chart-grid" x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} />
+                    <text className="intention-chart-axis" x={CHART_PADDING.left - 6} y={y(tick) + 4} textAnchor="end">{`${Math.round(tick * 100)} %`}</text>
+                </g>
+            ))}
+            {curve.filter(point => point.position === 1 || point.position % 5 === 0).map(point => (
+                <text key={point.position} className="intention-chart-axis" x={x(point.position)} y={CHART_HEIGHT - 8} textAnchor="middle">{point.position}</text>
+            ))}
+            <polyline className="intention-chart-benchmark" points={line('benchmark')} />
+            <polyline className="intention-chart-expected" points={line('expected')} />
+            {curve.filter(point => point.observed !== null).map(point => (
+                <circle key={point.position} className="intention-chart-observed" cx={x(point.position)} cy={y(point.observed as number)} r={point.impressions >= MIN_CURVE_IMPRESSIONS ? 4 : 2.5}>
+                    <title>{`Position ${point.position} : ${formatPercent(point.observed)} sur ${point.impressions} impressions`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+const PositionDistributionChart: React.FC<{ curve: CtrCurvePoint[] }> = ({ curve }) => {
+    const innerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const innerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const maxImpressions = Math.max(1, ...curve.map(point => point.impressions));
+    const barWidth = innerWidth / curve.length;
+
+    return (
+        <svg className="intention-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label="Impressions par position">
+            <line className="intention-chart-grid" x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={CHART_PADDING.top + innerHeight} y2={CHART_PADDING.top + innerHeight} />
+            <text className="intention-chart-axis" x={CHART_PADDING.left - 6} y={CHART_PADDING.top + 8} textAnchor="end">{maxImpressions}</text>
+            {curve.map((point, index) => {
+                const height = (point.impressions / maxImpressions) * innerHeight;
+                const inRange = point.position >= OPPORTUNITY_POSITIONS.min && point.position <= OPPORTUNITY_POSITIONS.max;
+                return (
+                    <g key={point.position}>
+                        <rect
+                            className={`intention-chart-bar ${inRange ? 'opportunity' : ''}`}
+                            x={CHART_PADDING.left + index * barWidth + 2}
+                            y={CHART_PADDING.top + innerHeight - height}
+                            width={barWidth - 4}
+                            height={height}
+                        >
+                            <title>{`Position ${point.position} : ${point.impressions} impressions`}</title>
+                        </rect>
+                        {(point.position === 1 || point.position % 5 === 0) && (
+                            <text className="intention-chart-axis" x={CHART_PADDING.left + (index + 0.5) * barWidth} y={CHART_HEIGHT - 8} textAnchor="middle">{point.position}</text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+interface IntentionFilters {
+    search: string;
+    source: IntentionSource | '';
+    minPosition: string;
+    maxPosition: string;
+    minImpressions: string;
+    opportunitiesOnly: boolean;
+}
+
+const emptyIntentionFilters: IntentionFilters = { search: '', source: '', minPosition: '', maxPosition: '', minImpressions: '', opportunitiesOnly: false };
+
+const matchesIntentionFilters = (item: AnalyzedIntention, filters: IntentionFilters): boolean => {
+    const search = normalizeQuery(filters.search);
+    if (search && !normalizeQuery(item.query).includes(search)) return false;
+    if (filters.source && !(item.sources ?? []).includes(filters.source)) return false;
+    if (filters.minPosition && (item.position === undefined || item.position < Number(filters.minPosition))) return false;
+    if (filters.maxPosition && (item.position === undefined || item.position > Number(filters.maxPosition))) return false;
+    if (filters.minImpressions && (item.impressions ?? 0) < Number(filters.minImpressions)) return false;
+    if (filters.opportunitiesOnly && item.potentialClicks === 0) return false;
+    return true;
+};
+
+const INTENTION_TABLE_DISPLAY_LIMIT = 500;
+
+const IntentionAnalyticsPanel: React.FC<{ intentions: SearchIntention[]; clusters: KeywordCluster[] }> = ({ intentions, clusters }) => {
+    const [filters, setFilters] = useState<IntentionFilters>(emptyIntentionFilters);
+
+    const curve = React.useMemo(() => expectedCtrCurve(intentions), [intentions]);
+    const analyzed = React.useMemo(() => analyzeIntentions(intentions, curve), [intentions, curve]);
+    const filtered = React.useMemo(() => analyzed.filter(item => matchesIntentionFilters(item, filters)), [analyzed, filters]);
+    const totals = intentionTotals(filtered);
+    const pages = React.useMemo(() => pageOpportunities(analyzed, clusters), [analyzed, clusters]);
+    const hasPositions = analyzed.some(item => item.position !== undefined);
+
+    const { items: sortedIntentions, requestSort, sortConfig } = useSortableData<AnalyzedIntention>(filtered, { key: 'opportunityScore', direction: 'descending' });
+    const getSortClassFor = (key: keyof AnalyzedIntention) => {
+        if (!sortConfig) return '';
+        return sortConfig.key === key ? sortConfig.direction : '';
+    };
+
+    const updateFilter = <K extends keyof IntentionFilters>(key: K, value: IntentionFilters[K]) => setFilters(prev => ({ ...prev, [key]: value }));
+
+    return (
+        <div className="content-card">
+            <h3 className="output-label">Intentions Actuelles ({intentions.length})</h3>
+
+            <div className="intention-stats-grid">
+                <div className="intention-stat"><span className="intention-stat-value">{totals.clicks}</span><span className="intention-stat-label">Clics</span></div>
+                <div className="intention-stat"><span className="intention-stat-value">{totals.impressions}</span><span className="intention-stat-label">Impressions</span></div>
+                <div className="intention-stat"><span className="intention-stat-value">{formatPercent(totals.ctr)}</span><span className="intention-stat-label">CTR moyen</span></div>
+                <div className="intention-stat"><span className="intention-stat-value">{formatPosition(totals.position)}</span><span className="intention-stat-label">Position moyenne</span></div>
+                <div className="intention-stat"><span className="intention-stat-value">+{totals.potentialClicks}</span><span className="intention-stat-label">Clics potentiels</span></div>
+            </div>
+
+            {hasPositions ? (
+                <div className="intention-charts-grid">
+                    <div>
+                        <h4>CTR attendu par position</h4>
+                        <CtrCurveChart curve={curve} />
+                        <p className="form-helper-text">
+                            Pointillés : CTR de référence du marché. Trait plein : courbe retenue, qui utilise le CTR du projet dès qu'une position cumule {MIN_CURVE_IMPRESSIONS} impressions. Points : CTR mesuré du projet.
+                        </p>
+                    </div>
+                    <div>
+                        <h4>Impressions par position</h4>
+                        <PositionDistributionChart curve={curve} />
+                        <p className="form-helper-text">En couleur : positions {OPPORTUNITY_POSITIONS.min} à {OPPORTUNITY_POSITIONS.max}, où une réécriture a le plus d'impact.</p>
+                    </div>
+                </div>
+            ) : (
+                <p className="form-helper-text">Importez un export Search Console avec les colonnes CTR et Position pour afficher les courbes et les scores d'opportunité.</p>
+            )}
+
+            {pages.length > 0 && (
+                <>
+                    <h4>Pages à réécrire en priorité</h4>
+                    <div className="table-responsive">
+                        <table className="data-table">
+                            <thead>
+                                <tr>
+                                    <th>URL cible</th>
+                                    <th>Clusters</th>
+                                    <th>Requêtes en opportunité</th>
+                                    <th>Clics potentiels</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pages.map(page => (
+                                    <tr key={page.url}>
+                                        <td><a href={page.url} target="_blank" rel="noopener noreferrer">{page.url}</a></td>
+                                        <td>{page.clusters.join(', ')}</td>
+                                        <td>{page.queries}</td>
+                                        <td>+{page.potentialClicks}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
+            <div className="intention-filters">
+                <input type="search" className="form-input" placeholder="Filtrer les requêtes..." value={filters.search} onChange={(e) => updateFilter('search', e.target.value)} aria-label="Filtrer les requêtes" />
+                <select className="form-select" value={filters.source} onChange={(e) => updateFilter('source', e.target.value as IntentionSource | '')} aria-label="Source">
+                    <option value="">Toutes les sources</option>
+                    {(Object.keys(intentionSourceLabels) as IntentionSource[]).map(source => <option key={source} value={source}>{intentionSourceLabels[source]}</option>)}
+                </select>
+                <input type="number" className="form-input" min={1} placeholder="Position min." value={filters.minPosition} onChange={(e) => updateFilter('minPosition', e.target.value)} aria-label="Position minimale" />
+                <input type="number" className="form-input" min={1} placeholder="Position max." value={filters.maxPosition} onChange={(e) => updateFilter('maxPosition', e.target.value)} aria-label="Position maximale" />
+                <input type="number" className="form-input" min={0} placeholder="Impressions min." value={filters.minImpressions} onChange={(e) => updateFilter('minImpressions', e.target.value)} aria-label="Impressions minimales" />
+                <label className="intention-filter-toggle">
+                    <input type="checkbox" checked={filters.opportunitiesOnly} onChange={(e) => updateFilter('opportunitiesOnly', e.target.checked)} />
+                    Opportunités uniquement
+                </label>
+                <button className="button-link" onClick={() => setFilters(emptyIntentionFilters)}>Réinitialiser</button>
+            </div>
+
+            <p className="form-helper-text">
+                {filtered.length} requête(s) affichée(s){filtered.length > INTENTION_TABLE_DISPLAY_LIMIT ? ` (les ${INTENTION_TABLE_DISPLAY_LIMIT} premières)` : ''}. Le score d'opportunité estime les clics gagnés si une requête classée entre {OPPORTUNITY_POSITIONS.min} et {OPPORTUNITY_POSITIONS.max} atteignait la position {OPPORTUNITY_TARGET_POSITION} ; 100 correspond à la meilleure opportunité du projet.
+            </p>
+            <div className="table-responsive">
+                <table className="data-table">
+                    <thead>
+                        <tr>
+                            <th onClick={() => requestSort('query')} className={`sortable-header ${getSortClassFor('query')}`}>Requête</th>
+                            <th onClick={() => requestSort('clicks')} className={`sortable-header ${getSortClassFor('clicks')}`}>Clics</th>
+                            <th onClick={() => requestSort('impressions')} className={`sortable-header ${getSortClassFor('impressions')}`}>Impressions</th>
+                            <th onClick={() => requestSort('ctr')} className={`sortable-header ${getSortClassFor('ctr')}`}>CTR</th>
+                            <th onClick={() => requestSort('position')} className={`sortable-header ${getSortClassFor('position')}`}>Position</th>
+                            <th onClick={() => requestSort('ctrGap')} className={`sortable-header ${getSortClassFor('ctrGap')}`}>CTR vs attendu</th>
+                            <th onClick={() => requestSort('opportunityScore')} className={`sortable-header ${getSortClassFor('opportunityScore')}`}>Opportunité</th>
+                            <th>Source</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedIntentions.slice(0, INTENTION_TABLE_DISPLAY_LIMIT).map((item, index) => (
+                            <tr key={index}>
+                                <td>{item.query}</td>
+                                <td>{item.clicks ?? 'N/A'}</td>
+                                <td>{item.impressions ?? 'N/A'}</td>
+                                <td>{formatPercent(intentionCtr(item))}</td>
+                                <td>{formatPosition(item.position)}</td>
+                                <td className={item.ctrGap === undefined ? '' : item.ctrGap < 0 ? 'intention-gap-negative' : 'intention-gap-positive'}>
+                                    {item.ctrGap === undefined ? 'N/A' : `${item.ctrGap >= 0 ? '+' : ''}${(item.ctrGap * 100).toFixed(1)} pts`}
+                                </td>
+                                <td>
+                                    {item.potentialClicks > 0 ? (
+                                        <div className="intention-opportunity">
+                                            <div className="intention-opportunity-bar"><span style={{ width: `${item.opportunityScore}%` }}></span></div>
+                                            <span>{item.opportunityScore} · +{item.potentialClicks} clics</span>
+                                        </div>
+                                    ) : '—'}
+                                </td>
+                                <td>
+                                    {(item.sources ?? []).map(source => (
+                                        <span key={source} className={`intention-source-tag intention-source-${source}`}>{intentionSourceLabels[source]}</span>
+                                    ))}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+interface SearchIntentionsPageProps extends CurrentProjectProps {
+    navigateTo: (page: Page) => void;
+    ai: AiProxyClient | null;
+    spendCredits: SpendCredits;
+}
+
+const SearchIntentionsPage: React.FC<SearchIntentionsPageProps> = ({ navigateTo, ai, spendCredits, currentProject, onProjectChange }) => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const selectedProjectId = currentProject?.id ?? '';
+    const [currentProjectIntentions, setCurrentProjectIntentions] = useState<SearchIntention[]>([]);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+    const [pendingImport, setPendingImport] = useState<{ file: File; source: IntentionSource } | null>(null);
+    const [mergeMode, setMergeMode] = useState<IntentionMergeMode>('upsert');
+    const [imports, setImports] = useState<SearchIntentionImport[]>([]);
+    const [manualQuery, setManualQuery] = useState('');
+    const [keywordClusters, setKeywordClusters] = useState<KeywordCluster[]>([]);
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setMessage({ text: `Impossible de charger les projets : ${e.message}`, type: 'error' }));
+    }, []);
+    
+    useEffect(() => {
+        if (selectedProjectId) {
+            Promise.all([
+                repositories.searchIntentions.listForProject(selectedProjectId),
+                repositories.searchIntentions.listImports(selectedProjectId),
+                repositories.keywordClusters.listForProject(selectedProjectId),
+            ])
+                .then(([intentions, history, clusters]) => {
+                    setCurrentProjectIntentions(intentions);
+                    setImports(history);
+                    setKeywordClusters(clusters);
+                })
+                .catch(e => setMessage({ text: `Impossible de charger les intentions : ${e.message}`, type: 'error' }));
+        } else {
+            setCurrentProjectIntentions([]);
+            setImports([]);
+            setKeywordClusters([]);
+        }
+    }, [selectedProjectId]);
+
+    const selectedProject = projects.find(p => p.id === selectedProjectId);
+
+    const handleFileChange = (source: IntentionSource) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Reset file input to allow re-upload of the same file
+        if (!file || !selectedProjectId) return;
+        setMessage(null);
+        setPendingImport({ file, source });
+    };
+
+    const handleCsvConfirm = async (table: CsvTable, mapping: CsvColumnMapping) => {
+        if (!pendingImport) return;
+        const imported = intentionsFromCsv(table, mapping);
+        if (imported.length === 0) {
+            throw new Error("Aucune requête n'a été trouvée dans la colonne choisie.");
+        }
+        const { intentions, added, updated, skipped } = mergeSearchIntentions(currentProjectIntentions, imported, mergeMode, pendingImport.source);
+        const entry: SearchIntentionImport = {
+            id: `import_${Date.now()}`,
+            date: new Date().toISOString(),
+            source: pendingImport.source,
+            mode: mergeMode,
+            fileName: pendingImport.file.name,
+            added,
+            updated,
+            skipped,
+            previous: currentProjectIntentions,
+        };
+        const history = [entry, ...imports].slice(0, MAX_SEARCH_INTENTION_IMPORTS);
+        await repositories.searchIntentions.replaceForProject(selectedProjectId, intentions);
+        await repositories.searchIntentions.replaceImports(selectedProjectId, history);
+        setCurrentProjectIntentions(intentions);
+        setImports(history);
+        setPendingImport(null);
+        setMessage({ text: `Import terminé : ${formatImportCounts(entry)}. Le projet compte ${intentions.length} intentions de recherche.`, type: 'success' });
+    };
+
+    // Only the latest import can be undone, since each snapshot is the state just before it.
+    const handleUndoImport = async () => {
+        const [latest, ...rest] = imports;
+        if (!latest || !window.confirm(`Annuler l'import « ${latest.fileName} » ? Les intentions reviendront à leur état précédent.`)) return;
+        try {
+            await repositories.searchIntentions.replaceForProject(selectedProjectId, latest.previous);
+            await repositories.searchIntentions.replaceImports(selectedProjectId, rest);
+            setCurrentProjectIntentions(latest.previous);
+            setImports(rest);
+            setMessage({ text: `L'import « ${latest.fileName} » a été annulé.`, type: 'success' });
+        } catch (e: any) {
+            setMessage({ text: `L'annulation de l'import a échoué : ${e.message}`, type: 'error' });
+        }
+    };
+
+    const handleAddManualQuery = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!manualQuery.trim() || !selectedProjectId) return;
+        const { intentions, added } = mergeSearchIntentions(currentProjectIntentions, [{ query: manualQuery.trim() }], 'append', 'manual');
+        if (added === 0) {
+            setMessage({ text: 'Cette requête existe déjà pour ce projet.', type: 'error' });
+            return;
+        }
+        try {
+            await repositories.searchIntentions.replaceForProject(selectedProjectId, intentions);
+            setCurrentProjectIntentions(intentions);
+            setManualQuery('');
+            setMessage(null);
+        } catch (e: any) {
+            setMessage({ text: `L'ajout de la requête a échoué : ${e.message}`, type: 'error' });
+        }
+    };
+
+    return (
+        <div>
+            <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Intentions de Recherches</h2>
+                    <p className="content-subtitle">Importez et gérez les données d'intention de recherche pour vos projets.</p>
+                </div>
+            </div>
+
+            <div className="content-card">
+                <div className="form-group">
+                    <label htmlFor="project-select-intentions" className="form-label">Sélectionnez un projet</label>
+                    <select id="project-select-intentions" className="form-select" value={selectedProjectId} onChange={(e) => { onProjectChange(e.target.value || null); setMessage(null); }}>
+                        <option value="">Choisissez un projet...</option>
+                        {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {selectedProject && (
+                <div className="content-card">
+                    <h3 className="output-label">Importer des Données pour "{selectedProject.name}"</h3>
+                    <div className="form-group">
+                        <label htmlFor="intention-merge-mode" className="form-label">Mode d'import</label>
+                        <select id="intention-merge-mode" className="form-select" value={mergeMode} onChange={(e) => setMergeMode(e.target.value as IntentionMergeMode)}>
+                            {(Object.keys(intentionMergeModeLabels) as IntentionMergeMode[]).map(mode => (
+                                <option key={mode} value={mode}>{intentionMergeModeLabels[mode]}</option>
+                            ))}
+                        </select>
+                        <p className="form-helper-text">Les doublons sont détectés sans tenir compte de la casse, des accents ni des espaces.</p>
+                    </div>
+                    
+                    <div className="import-sections-grid">
+                        <div className="import-section">
+                            <h4>Google Search Console</h4>
+                            {selectedProject.gscConnected ? (
+                                <div className="form-group">
+                                    <label htmlFor="gsc-upload" className="form-label">Importer un export GSC (CSV)</label>
+                                    <input type="file" id="gsc-upload" className="form-input" accept=".csv,.tsv,.txt" onChange={handleFileChange('gsc')} />
+                                    <p className="form-helper-text">Exportez les "Requêtes" depuis votre GSC.</p>
+                                </div>
+                            ) : (
+                                <div className="info-banner info-banner-warning">
+                                    Google Search Console n'est pas connecté pour ce projet. <a href="#" onClick={(e) => { e.preventDefault(); navigateTo('my-projects'); }}>Connectez-le depuis la page "Mes Projets"</a>.
+                                </div>
+                            )}
+                        </div>
+                        <div className="import-section">
+                            <h4>AnswerThePublic</h4>
+                            <div className="form-group">
+                                <label htmlFor="atp-upload" className="form-label">Importer un export AnswerThePublic (CSV)</label>
+                                <input type="file" id="atp-upload" className="form-input" accept=".csv,.tsv,.txt" onChange={handleFileChange('atp')} />
+                                <p className="form-helper-text">Le fichier doit contenir une colonne "Keyword".</p>
+                            </div>
+                        </div>
+                        <div className="import-section">
+                            <h4>Saisie manuelle</h4>
+                            <form className="form-group" onSubmit={handleAddManualQuery}>
+                                <label htmlFor="manual-query" className="form-label">Ajouter une requête</label>
+                                <div className="input-with-button">
+                                    <input id="manual-query" type="text" className="form-input" value={manualQuery} onChange={(e) => setManualQuery(e.target.value)} placeholder="Ex: chaussures de trail femme" />
+                                    <button type="submit" className="button-secondary" disabled={!manualQuery.trim()}>Ajouter</button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+
+                    {imports.length > 0 && (
+                        <>
+                            <h4 className="intention-imports-title">Historique des imports</h4>
+                            <div className="table-responsive">
+                                <table className="data-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Date</th>
+                                            <th>Source</th>
+                                            <th>Fichier</th>
+                                            <th>Mode</th>
+                                            <th>Résultat</th>
+                                            <th>Actions</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {imports.map((entry, index) => (
+                                            <tr key={entry.id}>
+                                                <td>{new Date(entry.date).toLocaleString()}</td>
+                                                <td>{intentionSourceLabels[entry.source]}</td>
+                                                <td>{entry.fileName}</td>
+                                                <td>{intentionMergeModeLabels[entry.mode]}</td>
+                                                <td>{formatImportCounts(entry)}</td>
+                                                <td className="table-actions-cell">
+                                                    {index === 0 && <button className="button-link" onClick={handleUndoImport}>Annuler l'import</button>}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {message && <div className={`message-banner ${message.type === 'success' ? 'success-message' : 'error-message'}`}>{message.text}</div>}
+
+            {selectedProject && (currentProjectIntentions.length > 0 ? (
+                <IntentionAnalyticsPanel intentions={currentProjectIntentions} clusters={keywordClusters} />
+            ) : (
+                <div className="content-card">
+                    <h3 className="output-label">Intentions Actuelles (0)</h3>
+                    <p className="empty-state-text small">Aucune intention de recherche importée pour ce projet.</p>
+                </div>
+            ))}
+
+            {selectedProject && currentProjectIntentions.length > 0 && (
+                <KeywordClustersPanel project={selectedProject} intentions={currentProjectIntentions} clusters={keywordClusters} onClustersChange={setKeywordClusters} ai={ai} spendCredits={spendCredits} />
+            )}
+
+            {pendingImport && (
+                <CsvImportModal
+                    file={pendingImport.file}
+                    title={`Importer des intentions de recherche (${intentionSourceLabels[pendingImport.source]})`}
+                    fields={searchIntentionCsvFields}
+                    onConfirm={handleCsvConfirm}
+                    onCancel={() => setPendingImport(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+
+// --- Product Catalogue ---
+type CatalogueFeedFormat = 'csv' | 'merchant' | 'sitemap';
+
+const catalogueFeedFormatLabels: Record<CatalogueFeedFormat, string> = {
+    csv: 'fichier CSV/TSV',
+    merchant: 'flux Google Merchant Center',
+    sitemap: 'sitemap.xml',
+};
+
+const CATALOGUE_PICKER_DISPLAY_LIMIT = 200;
+
+const childText = (element: Element, localNames: string[]): string | undefined => {
+    for (const name of localNames) {
+        const child = Array.from(element.children).find(c => c.localName === name);
+        const text = child?.textContent?.trim();
+        if (text) return text;
+    }
+    return undefined;
+};
+
+const titleFromProductUrl = (url: string): string | undefined => {
+    try {
+        const slug = new URL(url).pathname.split('/').filter(Boolean).pop();
+        return slug ? decodeURIComponent(slug).replace(/\.html?$/, '').replace(/^\d+-/, '').replace(/[-_]+/g, ' ') : undefined;
+    } catch (_) {
+        return undefined;
+    }
+};
+
+// Merchant Center feeds are RSS 2.0 (<item>) or Atom (<entry>) with product attributes in the g: namespace.
+const parseMerchantXml = (doc: Document): CatalogueProduct[] => {
+    const entries = Array.from(doc.getElementsByTagName('item')).concat(Array.from(doc.getElementsByTagName('entry')));
+    return entries.map(entry => {
+        const link = entry.getElementsByTagName('link')[0];
+        return {
+            url: childText(entry, ['link']) || link?.getAttribute('href') || '',
+            name: childText(entry, ['title']),
+            sku: childText(entry, ['id']),
+            price: childText(entry, ['price']),
+            category: childText(entry, ['product_type', 'google_product_category']),
+        };
+    }).filter(p => p.url.startsWith('http'));
+};
+
+const parseSitemapXml = (doc: Document): CatalogueProduct[] => {
+    if (doc.documentElement.localName === 'sitemapindex') {
+        const count = doc.getElementsByTagName('sitemap').length;
+        throw new Error(`Ce fichier est un index de ${count} sitemaps : importez directement le sitemap des produits (ex. sitemap_products_1.xml).`);
+    }
+    return Array.from(doc.getElementsByTagName('url'))
+        .map(entry => childText(entry, ['loc']) || '')
+        .filter(url => url.startsWith('http'))
+        .map(url => ({ url, name: titleFromProductUrl(url) }));
+};
+
+// XML feeds are either a sitemap.xml or a Merchant Center feed; tabular feeds go through CsvImportModal.
+const parseProductFeedXml = (text: string): { format: CatalogueFeedFormat; products: CatalogueProduct[] } => {
+    const doc = new DOMParser().parseFromString(text.trim(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("Le fichier XML est invalide.");
+    }
+    const root = doc.documentElement.localName;
+    if (root === 'urlset' || root === 'sitemapindex') {
+        return { format: 'sitemap', products: parseSitemapXml(doc) };
+    }
+    return { format: 'merchant', products: parseMerchantXml(doc) };
+};
+
+// Re-importing a feed updates known products in place and keeps the others.
+const mergeCatalogues = (current: CatalogueProduct[], imported: CatalogueProduct[]): CatalogueProduct[] => {
+    const merged = new Map<string, CatalogueProduct>(current.map(p => [normalizeProductUrl(p.url), p]));
+    imported.forEach(product => {
+        const key = normalizeProductUrl(product.url);
+        const existing = merged.get(key);
+        merged.set(key, existing ? { ...existing, ...Object.fromEntries(Object.entries(product).filter(([, value]) => value)) } : product);
+    });
+    return Array.from(merged.values());
+};
+
+// Adds URLs to a one-per-line textarea value, skipping those already listed.
+const appendUrlsToInput = (input: string, urls: string[]): string => {
+    const lines = input.split('\n').map(line => line.trim()).filter(Boolean);
+    return Array.from(new Set<string>([...lines, ...urls])).join('\n');
+};
+
+interface ProductCataloguePickerProps {
+    projectId: string;
+    storeUrl?: string;
+    disabled?: boolean;
+    onAdd: (products: CatalogueProduct[]) => void;
+}
+
+const ProductCataloguePicker: React.FC<ProductCataloguePickerProps> = ({ projectId, storeUrl, disabled, onAdd }) => {
+    const [products, setProducts] = useState<CatalogueProduct[]>([]);
+    const [search, setSearch] = useState('');
+    const [selectedUrls, setSelectedUrls] = useState<Set<string>>(() => new Set());
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [pendingCsvFile, setPendingCsvFile] = useState<File | null>(null);
+
+    useEffect(() => {
+        setIsLoading(true);
+        setSelectedUrls(new Set());
+        setMessage(null);
+        repositories.catalogue.listForProject(projectId)
+            .then(setProducts)
+            .catch(e => setMessage({ text: `Impossible de charger le catalogue : ${e.message}`, type: 'error' }))
+            .finally(() => setIsLoading(false));
+    }, [projectId]);
+
+    const filteredProducts = React.useMemo(() => {
+        const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+        if (terms.length === 0) return products;
+        return products.filter(p => {
+            const haystack = [p.name, p.sku, p.url, p.category].filter(Boolean).join(' ').toLowerCase();
+            return terms.every(term => haystack.includes(term));
+        });
+    }, [products, search]);
+
+    const { items: sortedProducts, requestSort, sortConfig } = useSortableData<CatalogueProduct>(filteredProducts);
+    const getSortClassFor = (key: keyof CatalogueProduct) => {
+        if (!sortConfig) {
+            return '';
+        }
+        return sortConfig.key === key ? sortConfig.direction : '';
+    };
+    const displayedProducts = sortedProducts.slice(0, CATALOGUE_PICKER_DISPLAY_LIMIT);
+    const allDisplayedSelected = displayedProducts.length > 0 && displayedProducts.every(p => selectedUrls.has(p.url));
+
+    const saveImported = useCallback(async (imported: CatalogueProduct[], format: CatalogueFeedFormat) => {
+        if (imported.length === 0) {
+            throw new Error("Aucun produit avec une URL n'a été trouvé dans ce fichier.");
+        }
+        const merged = mergeCatalogues(products, imported);
+        await repositories.catalogue.replaceForProject(projectId, merged);
+        setProducts(merged);
+        setMessage({ text: `${imported.length} produit(s) importé(s) depuis le ${catalogueFeedFormatLabels[format]}. Le catalogue compte ${merged.length} produit(s).`, type: 'success' });
+    }, [products, projectId]);
+
+    const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setMessage(null);
+        try {
+            const { text } = decodeTextFile(await file.arrayBuffer());
+            if (!text.trimStart().startsWith('<')) {
+                setPendingCsvFile(file);
+                return;
+            }
+            const { format, products: imported } = parseProductFeedXml(text);
+            await saveImported(imported, format);
+        } catch (err: any) {
+            setMessage({ text: `L'import du catalogue a échoué : ${err.message}`, type: 'error' });
+        }
+    }, [saveImported]);
+
+    const handleCsvConfirm = useCallback(async (table: CsvTable, mapping: CsvColumnMapping) => {
+        await saveImported(catalogueFromCsv(table, mapping, storeUrl), 'csv');
+        setPendingCsvFile(null);
+    }, [saveImported, storeUrl]);
+
+    const handleClear = useCallback(async () => {
+        if (!window.confirm('Vider le catalogue de ce projet ?')) return;
+        try {
+            await repositories.catalogue.replaceForProject(projectId, []);
+            setProducts([]);
+            setSelectedUrls(new Set());
+            setMessage(null);
+        } catch (e: any) {
+            setMessage({ text: `La suppression du catalogue a échoué : ${e.message}`, type: 'error' });
+        }
+    }, [projectId]);
+
+    const toggleSelected = (url: string) => {
+        setSelectedUrls(prev => {
+            const next = new Set(prev);
+            if (next.has(url)) next.delete(url); else next.add(url);
+            return next;
+        });
+    };
+
+    const toggleAllDisplayed = () => {
+        setSelectedUrls(prev => {
+            const next = new Set(prev);
+            displayedProducts.forEach(p => allDisplayedSelected ? next.delete(p.url) : next.add(p.url));
+            return next;
+        });
+    };
+
+    const handleAdd = () => {
+        onAdd(products.filter(p => selectedUrls.has(p.url)));
+        setSelectedUrls(new Set());
+    };
+
+    return (
+        <div className="catalogue-picker">
+            <div className="catalogue-picker-header">
+                <span className="form-label">Catalogue du projet {!isLoading && `(${products.length} produits)`}</span>
+                <div className="catalogue-picker-actions">
+                    <label htmlFor={`catalogue-import-${projectId}`} className="button-secondary">
+                        <span>Importer un catalogue</span>
+                        <input type="file" id={`catalogue-import-${projectId}`} accept=".csv,.tsv,.txt,.xml" onChange={handleImport} style={{ display: 'none' }} disabled={disabled} />
+                    </label>
+                    {products.length > 0 && <button className="button-link-delete" onClick={handleClear} disabled={disabled}>Vider</button>}
+                </div>
+            </div>
+            <p className="form-helper-text">Export produits Shopify ou WooCommerce (CSV), flux Google Merchant Center (XML ou TSV) ou sitemap.xml. Un nouvel import met à jour les produits existants.</p>
+            {message && <div className={message.type === 'success' ? 'info-banner info-banner-success' : 'error-message'} role={message.type === 'error' ? 'alert' : 'status'}>{message.text}</div>}
+            {isLoading ? (
+                <p><span className="spinner"></span> Chargement du catalogue...</p>
+            ) : products.length > 0 && (
+                <>
+                    <input type="search" className="form-input" value={search} onChange={e => setSearch(e.target.value)} placeholder="Rechercher par nom, SKU, catégorie ou URL..." />
+                    <div className="table-responsive catalogue-picker-table">
+                        <table className="data-table">
+                            <thead>
+                                <tr>
+                                    <th><input type="checkbox" aria-label="Sélectionner les produits affichés" checked={allDisplayedSelected} onChange={toggleAllDisplayed} disabled={disabled} /></th>
+                                    <th onClick={() => requestSort('name')} className={`sortable-header ${getSortClassFor('name')}`}>Produit</th>
+                                    <th onClick={() => requestSort('sku')} className={`sortable-header ${getSortClassFor('sku')}`}>SKU</th>
+                                    <th onClick={() => requestSort('price')} className={`sortable-header ${getSortClassFor('price')}`}>Prix</th>
+                                    <th onClick={() => requestSort('category')} className={`sortable-header ${getSortClassFor('category')}`}>Catégorie</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {displayedProducts.map(product => (
+                                    <tr key={product.url}>
+                                        <td><input type="checkbox" aria-label={`Sélectionner ${product.name || product.url}`} checked={selectedUrls.has(product.url)} onChange={() => toggleSelected(product.url)} disabled={disabled} /></td>
+                                        <td>
+                                            <div>{product.name || '—'}</div>
+                                            <a href={product.url} target="_blank" rel="noopener noreferrer" className="catalogue-picker-url">{product.url}</a>
+                                        </td>
+                                        <td>{product.sku || product.productId || '—'}</td>
+                                        <td>{product.price || '—'}</td>
+                                        <td>{product.category || '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {filteredProducts.length > CATALOGUE_PICKER_DISPLAY_LIMIT && (
+                        <p className="form-helper-text">{CATALOGUE_PICKER_DISPLAY_LIMIT} premiers résultats affichés sur {filteredProducts.length} : affinez la recherche.</p>
+                    )}
+                    <button className="button-secondary" onClick={handleAdd} disabled={disabled || selectedUrls.size === 0}>
+                        Ajouter la sélection ({selectedUrls.size})
+                    </button>
+                </>
+            )}
+            {pendingCsvFile && (
+                <CsvImportModal
+                    file={pendingCsvFile}
+                    title="Importer un catalogue"
+                    fields={catalogueCsvFields}
+                    guessMapping={guessCatalogueMapping}
+                    validateMapping={validateCatalogueMapping}
+                    onConfirm={handleCsvConfirm}
+                    onCancel={() => setPendingCsvFile(null)}
+                />
+            )}
+        </div>
+    );
+};
+// --- End Product Catalogue ---
+
+// --- E-COMMERCE REDACTION PAGE ---
+interface EcommerceRedactionPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    redactionQueue: RedactionJobQueue;
+    reviewer: ReviewAuthor;
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+}
+interface GeneratedDescription {
+    itemId: string;
+    productUrl: string;
+    description: string; // Reviewer's edit when there is one, otherwise the generated HTML
+    generatedDescription: string;
+    originalDescription?: string;
+    jsonLd: string;
+    failed: boolean;
+    review: DescriptionReview;
+    reviewStatus: ReviewStatus; // Status for the current text (see reviewStatusOf), kept apart so the table can sort on it
+    product?: CatalogueProduct;
+    intentions?: string[]; // Queries matched to this product, absent when the project-wide ones were used
+    jsonLdValidation: JsonLdValidation | null; // null for failed generations, which have no markup
+}
+
+const productDescriptionVariables = (context: RedactionContext, url: string): Record<string, string> => {
+    const { siteAnalysis, targetCustomer } = context;
+    const productIntentions = context.intentionsByUrl?.[normalizeProductUrl(url)];
+    const intentionsText = productIntentions
+        ? `Cible en priorité les requêtes de recherche suivantes, sélectionnées pour ce produit (mots-clés, questions) : ${productIntentions.join(', ')}.`
+        : context.intentions.length > 0
+            ? `Prends également en compte les intentions de recherche suivantes pour optimiser le contenu (mots-clés, questions) : ${context.intentions.join(', ')}.`
+            : '';
+    return {
+        url,
+        mission: siteAnalysis.mission,
+        vision: siteAnalysis.vision,
+        valeurs: siteAnalysis.valeurs,
+        eeat: siteAnalysis.eeat,
+        cible: targetCustomer || 'non spécifiée',
+        intentions: intentionsText,
+    };
+};
+
+const productDescriptionPrompt = (context: RedactionContext, url: string, reviewNotes: string[] = []): string =>
+    withReviewNotes(renderPrompt(context.promptTemplate ?? promptTemplates.productDescription.body, productDescriptionVariables(context, url)), reviewNotes);
+
+const generateProductDescription = async (ai: AiProxyClient, spendCredits: SpendCredits, context: RedactionContext, url: string, reviewNotes?: string[]): Promise<RedactionResult> => {
+    const creditRequest: CreditRequest = {
+        amount: CREDIT_COSTS.productDescription,
+        label: `Fiche produit : ${url}`,
+        page: 'e-commerce-redaction',
+        projectId: context.projectId,
+    };
+    const parsedResponse = await spendCredits(creditRequest, () => ai.generateStructured<ProductDescriptionResult>({
+        template: 'productDescription',
+        variables: productDescriptionVariables(context, url),
+        projectId: context.projectId,
+        reviewNotes,
+    }));
+    return { description: parsedResponse.descriptionHtml, jsonLd: parsedResponse.jsonLd, originalDescription: parsedResponse.originalDescription };
+};
+
+const redactionJobStatusLabels: Record<RedactionJobStatus, string> = {
+    running: 'Génération en cours',
+    paused: 'En pause',
+    completed: 'Terminée',
+    cancelled: 'Annulée',
+};
+
+const reviewStatusLabels: Record<ReviewStatus, string> = {
+    'pending': 'À relire',
+    'approved': 'Approuvée',
+    'rejected': 'Rejetée',
+    'needs-rework': 'À retravailler',
+};
+
+// Descriptions whose JSON-LD fails validation cannot be approved until they are regenerated.
+const isApprovable = (item: GeneratedDescription): boolean => !item.failed && !!item.jsonLdValidation?.valid;
+
+interface DescriptionReviewPanelProps {
+    item: GeneratedDescription;
+    author: ReviewAuthor;
+    projectId?: string;
+    cmsProjectId?: string; // Set when the project's CMS connection can return the live description
+    historyUpgradeReason: UpgradeReason | null;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+    onEdit: (html: string | undefined) => void;
+    onDecide: (status: ReviewStatus) => void;
+    onComment: (text: string) => void;
+}
+
+const DescriptionReviewPanel: React.FC<DescriptionReviewPanelProps> = ({ item, author, projectId, cmsProjectId, historyUpgradeReason, onUpgradeRequired, onEdit, onDecide, onComment }) => {
+    const documentKey = revisionDocumentKey('product-description', item.productUrl);
+    const history = useContentRevisions(documentKey);
+    const [draft, setDraft] = useState(item.description);
+    const [comment, setComment] = useState('');
+    const [cmsProduct, setCmsProduct] = useState<CmsProductLookup | null>(null);
+    const [loadingCms, setLoadingCms] = useState(false);
+    const [cmsError, setCmsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDraft(item.description);
+    }, [item.description]);
+
+    const isDirty = draft !== item.description;
+    const isEdited = !item.failed && item.description !== item.generatedDescription;
+
+    const handleLoadFromCms = async () => {
+        if (!cmsProjectId) return;
+        setLoadingCms(true);
+        setCmsError(null);
+        try {
+            const { descriptionHtml, jsonLd, ...productRef } = toCmsPublishItem(item);
+            const { results } = await cmsPublishing.fetchProducts(cmsProjectId, [productRef]);
+            setCmsProduct(results[0] ?? null);
+        } catch (e: any) {
+            setCmsError(`Impossible de charger la fiche depuis le CMS : ${e.message}`);
+        } finally {
+            setLoadingCms(false);
+        }
+    };
+
+    const handleAddComment = () => {
+        const text = comment.trim();
+        if (!text) return;
+        onComment(text);
+        setComment('');
+    };
+
+    // undefined goes back to the generated text.
+    const saveDescription = (html: string | undefined, source: RevisionSource, restoredFrom?: number) => {
+        onEdit(html);
+        history.record({
+            documentKey, kind: 'product-description', title: item.productUrl, html: html ?? item.generatedDescription,
+            jsonLd: item.jsonLd, source, restoredFrom, author, projectId,
+        });
+    };
+
+    return (
+        <div className="review-panel">
+            <div className="review-columns">
+                <div className="review-column">
+                    <h4 className="card-title-small">Contenu actuel</h4>
+                    {cmsProduct?.status === 'found' ? (
+                        <>
+                            <p className="form-helper-text">Description publiée sur le CMS{cmsProduct.productName ? ` pour « ${cmsProduct.productName} »` : ''}.</p>
+                            <div className="review-original" dangerouslySetInnerHTML={{ __html: cmsProduct.descriptionHtml || '' }}></div>
+                        </>
+                    ) : item.originalDescription ? (
+                        <>
+                            <p className="form-helper-text">Description relevée sur la page produit lors de la génération.</p>
+                            <div className="review-original review-original-text">{item.originalDescription}</div>
+                        </>
+                    ) : (
+                        <p className="form-helper-text">Aucune description n'a été relevée sur la page produit.</p>
+                    )}
+                    {cmsProduct && cmsProduct.status !== 'found' && (
+                        <div className="info-banner info-banner-warning" role="status">
+                            {cmsProduct.status === 'not-found' ? 'Produit introuvable dans le CMS.' : cmsProduct.error}
+                        </div>
+                    )}
+                    {cmsError && <div className="error-message" role="alert">{cmsError}</div>}
+                    {cmsProjectId && (
+                        <button className="button-secondary" onClick={handleLoadFromCms} disabled={loadingCms}>
+                            {loadingCms ? <><span className="spinner"></span> Chargement...</> : 'Charger depuis le CMS'}
+                        </button>
+                    )}
+                </div>
+                <div className="review-column">
+                    <h4 className="card-title-small">Description générée{isEdited ? ' (modifiée)' : ''}</h4>
+                    <RichTextEditor id={`review-editor-${item.itemId}`} value={draft} onChange={setDraft} />
+                    <div className="redaction-job-actions">
+                        <button className="button-secondary" onClick={() => saveDescription(draft, 'edit')} disabled={!isDirty}>Enregistrer les modifications</button>
+                        {isDirty && <button className="button-link" onClick={() => setDraft(item.description)}>Annuler</button>}
+                        {isEdited && !isDirty && <button className="button-link" onClick={() => saveDescription(undefined, 'restore')}>Revenir à la version générée</button>}
+                    </div>
+                </div>
+            </div>
+            <div className="review-decision">
+                <span className={`review-status-badge review-status-${item.reviewStatus}`}>{reviewStatusLabels[item.reviewStatus]}</span>
+                {item.reviewStatus !== 'pending' && item.review.decidedBy && item.review.decidedAt && (
+                    <span className="form-helper-text">par {reviewAuthorLabel(item.review.decidedBy)} le {new Date(item.review.decidedAt).toLocaleString('fr-FR')}</span>
+                )}
+                <div className="redaction-job-actions">
+                    <button className="submit-button" onClick={() => onDecide('approved')} disabled={!isApprovable(item) || isDirty}>Approuver</button>
+                    <button className="button-secondary" onClick={() => onDecide('needs-rework')}>À retravailler</button>
+                    <button className="button-secondary" onClick={() => onDecide('rejected')}>Rejeter</button>
+                </div>
+                {isDirty && <p className="form-helper-text">Enregistrez vos modifications avant d'approuver la fiche.</p>}
+                {!isApprovable(item) && <p className="form-helper-text">Le JSON-LD de cette fiche est invalide : regénérez-la avant de l'approuver.</p>}
+            </div>
+            <div className="review-comments">
+                <h4 className="card-title-small">Commentaires ({item.review.comments.length})</h4>
+                {item.review.comments.length > 0 && (
+                    <ul className="review-comment-list">
+                        {item.review.comments.map(c => (
+                            <li key={c.id}>
+                                <div className="review-comment-meta">{reviewAuthorLabel(c.author)} · {new Date(c.createdAt).toLocaleString('fr-FR')}</div>
+                                <p>{c.text}</p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <textarea className="form-textarea" value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Ajouter un commentaire. Les commentaires sont transmis à l'IA quand la fiche est regénérée."></textarea>
+                <button className="button-secondary" onClick={handleAddComment} disabled={!comment.trim()}>Commenter</button>
+            </div>
+            <div className="review-history">
+                <RevisionHistoryPanel
+                    history={history}
+                    currentHtml={item.description}
+                    onRestore={(revision) => saveDescription(revision.html, 'restore', revision.version)}
+                    upgradeReason={historyUpgradeReason}
+                    onUpgradeRequired={onUpgradeRequired}
+                />
+            </div>
+        </div>
+    );
+};
+
+type ReviewFilter = ReviewStatus | 'all';
+
+const EcommerceRedactionPage: React.FC<EcommerceRedactionPageProps> = ({ ai, spendCredits, redactionQueue, reviewer, userPlan, onUpgradeRequired, currentProject, onProjectChange }) => {
+    const [job, setJob] = useState<RedactionJob | null>(() => redactionQueue.getSnapshot());
+    const [projects, setProjects] = useState<Project[]>([]);
+    // A job that is still running keeps the project it was started with.
+    const selectedProjectId = (job?.status === 'running' || job?.status === 'paused' ? job.context.projectId : currentProject?.id) || '';
+    const [siteUrl, setSiteUrl] = useState('');
+    const [targetCustomer, setTargetCustomer] = useState(() => job?.context.targetCustomer || '');
+    const [productUrlsInput, setProductUrlsInput] = useState('');
+    const [siteAnalysis, setSiteAnalysis] = useState<RedactionContext['siteAnalysis'] | null>(() => job?.context.siteAnalysis || null);
+    const [concurrency, setConcurrency] = useState(() => job?.concurrency || DEFAULT_REDACTION_CONCURRENCY);
+    const [catalogue, setCatalogue] = useState<CatalogueProduct[]>([]);
+    const [pendingCsvFile, setPendingCsvFile] = useState<File | null>(null);
+    const [exportNotice, setExportNotice] = useState<string | null>(null);
+    const [loadingSiteAnalysis, setLoadingSiteAnalysis] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [projectIntentions, setProjectIntentions] = useState<SearchIntention[] | null>(null);
+    const [keywordClusters, setKeywordClusters] = useState<KeywordCluster[]>([]);
+    const [openJsonLd, setOpenJsonLd] = useState<Record<string, boolean>>({});
+    const [cmsConnection, setCmsConnection] = useState<CmsConnectionInfo | null>(null);
+    const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+    const [openReview, setOpenReview] = useState<Record<string, boolean>>({});
+    const [reviews, setReviews] = useState<Record<string, DescriptionReview>>({});
+    const [publishResponse, setPublishResponse] = useState<CmsPublishResponse | null>(null);
+    const [isPublishing, setIsPublishing] = useState(false);
+    const promptTemplate = usePromptTemplates(selectedProjectId || undefined);
+
+    const toggleJsonLd = (itemId: string) => {
+        setOpenJsonLd(prev => ({ ...prev, [itemId]: !prev[itemId] }));
+    };
+
+    useEffect(() => redactionQueue.subscribe(setJob), [redactionQueue]);
+
+    // The stored job finishes loading after the first render when the page is opened right after a reload.
+    useEffect(() => {
+        redactionQueue.whenReady().then(() => {
+            const restoredJob = redactionQueue.getSnapshot();
+            if (restoredJob) {
+                setJob(restoredJob);
+                setSiteAnalysis(current => current || restoredJob.context.siteAnalysis);
+            }
+        });
+    }, [redactionQueue]);
+
+    // The URLs of a job do not change while it runs, so its reviews are loaded once per job.
+    const jobDocumentKeys = React.useMemo(
+        () => Array.from(new Set((job?.items ?? []).map(item => revisionDocumentKey('product-description', item.url)))),
+        [job?.id]
+    );
+
+    useEffect(() => {
+        if (jobDocumentKeys.length === 0) return;
+        let cancelled = false;
+        repositories.reviews.listForDocuments(jobDocumentKeys)
+            .then(loaded => { if (!cancelled) setReviews(Object.fromEntries(loaded.map(review => [review.documentKey, review]))); })
+            .catch(e => setError(`Impossible de charger les relectures : ${e.message}`));
+        return () => { cancelled = true; };
+    }, [jobDocumentKeys]);
+
+    const storeReviews = (updated: DescriptionReview[]) => {
+        setReviews(prev => ({ ...prev, ...Object.fromEntries(updated.map(review => [review.documentKey, review])) }));
+    };
+
+    const generatedDescriptions = React.useMemo<GeneratedDescription[]>(() => (job?.items ?? [])
+        .filter(item => item.status === 'done' || item.status === 'failed')
+        .map(item => {
+            const intentions = job?.context.intentionsByUrl?.[normalizeProductUrl(item.url)];
+            const documentKey = revisionDocumentKey('product-description', item.url);
+            const review = reviews[documentKey] ?? emptyReview(documentKey);
+            const common = { itemId: item.id, productUrl: item.url, product: item.product, intentions, review, originalDescription: item.originalDescription };
+            if (item.status === 'failed') {
+                const errorText = `Erreur de génération: ${item.error}`;
+                return { ...common, reviewStatus: reviewStatusOf(review, errorText), description: errorText, generatedDescription: errorText, jsonLd: '', failed: true, jsonLdValidation: null };
+            }
+            const jsonLdValidation = validateJsonLd(item.jsonLd || '', 'Product');
+            const generatedDescription = item.description || '';
+            const description = item.editedDescription ?? generatedDescription;
+            return {
+                ...common, reviewStatus: reviewStatusOf(review, description), description, generatedDescription,
+                jsonLd: formatJsonLd(item.jsonLd || '', jsonLdValidation), failed: false, jsonLdValidation,
+            };
+        }),
+    [job, reviews]);
+
+    const jobCounts = React.useMemo(() => {
+        const counts: Record<RedactionItemStatus, number> = { pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+        job?.items.forEach(item => { counts[item.status]++; });
+        return counts;
+    }, [job]);
+    const retryingCount = job?.items.filter(item => item.status === 'pending' && item.attempts > 0).length ?? 0;
+    const isJobActive = job?.status === 'running' || job?.status === 'paused';
+    const jobProgress = job && job.items.length > 0 ? ((jobCounts.done + jobCounts.failed) / job.items.length) * 100 : 0;
+
+    // Each generation is also saved in the product's revision history, including those finished after leaving the page.
+    const redactionWorker = useCallback<RedactionWorker>(async (context, url, reviewNotes) => {
+        const result = await generateProductDescription(ai, spendCredits, context, url, reviewNotes);
+        repositories.revisions.add({
+            documentKey: revisionDocumentKey('product-description', url), kind: 'product-description', title: url,
+            html: result.description, jsonLd: result.jsonLd, source: 'generation', author: reviewer, projectId: context.projectId,
+        }).catch(e => console.error(`Revision of ${url} not saved:`, e));
+        return result;
+    }, [ai, spendCredits, reviewer]);
+    const historyUpgradeReason = checkFeatureAccess(userPlan, 'revision-history');
+
+    // FIX: Explicitly pass the generic type `GeneratedDescription` to `useSortableData` to ensure correct type inference for `requestSort` when the initial array is empty.
+    const { items: sortedDescriptions, requestSort, sortConfig } = useSortableData<GeneratedDescription>(generatedDescriptions);
+    const getSortClassFor = (key: keyof GeneratedDescription) => {
+        if (!sortConfig) {
+            return '';
+        }
+        return sortConfig.key === key ? sortConfig.direction : '';
+    };
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setError(`Impossible de charger les projets : ${e.message}`));
+    }, []);
+
+    useEffect(() => {
+        if (selectedProjectId) {
+            Promise.all([
+                repositories.searchIntentions.listForProject(selectedProjectId),
+                repositories.keywordClusters.listForProject(selectedProjectId),
+            ])
+                .then(([intentions, clusters]) => {
+                    setProjectIntentions(intentions.length > 0 ? intentions : null);
+                    setKeywordClusters(clusters);
+                })
+                .catch(e => setError(`Impossible de charger les intentions de recherche : ${e.message}`));
+        } else {
+            setProjectIntentions(null);
+            setKeywordClusters([]);
+        }
+    }, [selectedProjectId]);
+
+    const selectedProject = projects.find(p => p.id === selectedProjectId);
+    const autoIntegrationCMS: CMS[] = ['woocommerce', 'shopify', 'prestashop', 'bigcommerce'];
+    const cmsDisplayMap: Record<CMS, string> = {
+        woocommerce: 'Woocommerce',
+        shopify: 'Shopify',
+        prestashop: 'Prestashop',
+        bigcommerce: 'Big Commerce',
+        other: 'Autre (Export CSV)',
+    };
+    const publishableCms = isCmsPublishingAvailable && isPublishableCms(selectedProject?.cms) ? selectedProject.cms as PublishableCms : null;
+    const canPublish = !!publishableCms && cmsConnection?.cms === publishableCms;
+    // Only approved descriptions reach the exports and CMS publishing.
+    const approvedDescriptions = generatedDescriptions.filter(item => item.reviewStatus === 'approved' && isApprovable(item));
+    const approvablePending = generatedDescriptions.filter(item => item.reviewStatus === 'pending' && isApprovable(item));
+    const reworkItems = generatedDescriptions.filter(item => item.reviewStatus === 'needs-rework');
+    const reviewCounts = React.useMemo(() => {
+        const counts: Record<ReviewFilter, number> = { 'all': generatedDescriptions.length, 'pending': 0, 'approved': 0, 'rejected': 0, 'needs-rework': 0 };
+        generatedDescriptions.forEach(item => { counts[item.reviewStatus]++; });
+        return counts;
+    }, [generatedDescriptions]);
+    const visibleDescriptions = reviewFilter === 'all' ? sortedDescriptions : sortedDescriptions.filter(item => item.reviewStatus === reviewFilter);
+
+    useEffect(() => {
+        setCmsConnection(null);
+        setPublishResponse(null);
+        if (!publishableCms || !selectedProjectId) return;
+        cmsPublishing.getConnection(selectedProjectId)
+            .then(setCmsConnection)
+            .catch(e => setError(`Impossible de charger la connexion CMS : ${e.message}`));
+    }, [selectedProjectId, publishableCms]);
+
+    const toggleReview = (itemId: string) => {
+        setOpenReview(prev => ({ ...prev, [itemId]: !prev[itemId] }));
+    };
+
+    // The decision is recorded with the text it was taken on, which is the text CMS publishing accepts.
+    const handleDecide = async (items: GeneratedDescription[], status: ReviewStatus) => {
+        try {
+            storeReviews(await repositories.reviews.decide(items.map(item => ({ documentKey: item.review.documentKey, html: item.description })), status, reviewer));
+        } catch (e: any) {
+            setError(`La relecture n'a pas pu être enregistrée : ${e.message}`);
+        }
+    };
+
+    const handleComment = async (item: GeneratedDescription, text: string) => {
+        try {
+            const comment = await repositories.reviews.addComment(item.review.documentKey, reviewer, text);
+            storeReviews([{ ...item.review, comments: [...item.review.comments, comment] }]);
+        } catch (e: any) {
+            setError(`Le commentaire n'a pas pu être enregistré : ${e.message}`);
+        }
+    };
+
+    const handleRegenerateRework = () => {
+        const cost = reworkItems.length * CREDIT_COSTS.productDescription;
+        if (!window.confirm(`Regénérer ${reworkItems.length} fiche(s) en tenant compte des commentaires ? Coût estimé : ${cost} crédits.`)) return;
+        setError(null);
+        const reviewNotes = Object.fromEntries(reworkItems.map(item => [item.itemId, item.review.comments.map(comment => comment.text)]));
+        redactionQueue.regenerate(reworkItems.map(item => item.itemId), redactionWorker, reviewNotes);
+    };
+
+    const handleAnalyzeSite = useCallback(async () => {
+        if (!siteUrl.trim()) {
+            setError("Veuillez entrer l'URL du site à analyser.");
+            return;
+        }
+        try { new URL(siteUrl); } catch (_) {
+            setError("Le format de l'URL est invalide.");
+            return;
+        }
+
+        setLoadingSiteAnalysis(true);
+        setError(null);
+        setSiteAnalysis(null);
+
+        try {
+            const creditRequest: CreditRequest = {
+                amount: CREDIT_COSTS.siteAnalysis,
+                label: `Analyse du site : ${siteUrl}`,
+                page: 'e-commerce-redaction',
+                projectId: selectedProjectId || undefined,
+            };
+            const analysisResult: SiteAnalysis = await spendCredits(creditRequest, () => ai.generateStructured({
+                template: 'siteAnalysis',
+                variables: { url: siteUrl },
+                projectId: selectedProjectId || undefined,
+            }));
+            setSiteAnalysis(analysisResult);
+
+        } catch (e: any) {
+            setError(e instanceof InsufficientCreditsError ? e.message : `L'analyse du site a échoué: ${e.message}`);
+        } finally {
+            setLoadingSiteAnalysis(false);
+        }
+    }, [ai, spendCredits, siteUrl, selectedProjectId]);
+
+    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        setPendingCsvFile(e.target.files?.[0] ?? null);
+        e.target.value = '';
+    }, []);
+
+    const handleCsvConfirm = useCallback((table: CsvTable, mapping: CsvColumnMapping) => {
+        const products = catalogueFromCsv(table, mapping, siteUrl || selectedProject?.url);
+        if (products.length === 0) {
+            throw new Error("Aucune URL de produit n'a été trouvée dans la colonne choisie.");
+        }
+        setCatalogue(products);
+        setProductUrlsInput(products.map(p => p.url).join('\n'));
+        setPendingCsvFile(null);
+    }, [siteUrl, selectedProject]);
+    
+    const allProductUrls = Array.from(new Set<string>(productUrlsInput.split('\n').map(url => url.trim()).filter(url => url.length > 0 && url.startsWith('http'))));
+    const productUrls = allProductUrls.slice(0, MAX_REDACTION_URLS);
+    const creditCost = productUrls.length * CREDIT_COSTS.productDescription;
+    const catalogueByUrl = React.useMemo(() => new Map<string, CatalogueProduct>(catalogue.map(p => [normalizeProductUrl(p.url), p])), [catalogue]);
+    const identifiedCount = catalogue.filter(p => p.handle || p.productId || p.sku).length;
+
+    const handleAddFromCatalogue = useCallback((products: CatalogueProduct[]) => {
+        setCatalogue(prev => mergeCatalogues(prev, products));
+        setProductUrlsInput(prev => appendUrlsToInput(prev, products.map(p => p.url)));
+    }, []);
+
+    const buildRedactionContext = useCallback((products: CatalogueProduct[]): RedactionContext => ({
+        siteAnalysis,
+        targetCustomer,
+        intentions: intentionsForPrompt(projectIntentions ?? [], keywordClusters),
+        intentionsByUrl: intentionsByProduct(products, projectIntentions ?? [], keywordClusters),
+        projectId: selectedProjectId || undefined,
+        promptTemplate: promptTemplate('productDescription'),
+    }), [siteAnalysis, targetCustomer, projectIntentions, keywordClusters, selectedProjectId, promptTemplate]);
+
+    const promptPreview = React.useMemo(() => {
+        if (!siteAnalysis || productUrls.length === 0) return null;
+        const product = catalogueByUrl.get(normalizeProductUrl(productUrls[0])) || { url: productUrls[0] };
+        return productDescriptionPrompt(buildRedactionContext([product]), product.url);
+    }, [siteAnalysis, productUrls[0], catalogueByUrl, buildRedactionContext]);
+
+    const handleGenerateDescriptions = useCallback(() => {
+        if (!siteAnalysis || productUrls.length === 0) {
+            setError("Veuillez d'abord analyser un site et fournir au moins une URL de produit.");
+            return;
+        }
+
+        setError(null);
+        setOpenJsonLd({});
+        try {
+            redactionQueue.clear();
+            const products = productUrls.map(url => catalogueByUrl.get(normalizeProductUrl(url)) || { url });
+            redactionQueue.start(products, buildRedactionContext(products), concurrency, redactionWorker);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    }, [redactionQueue, redactionWorker, siteAnalysis, productUrls, catalogueByUrl, buildRedactionContext, concurrency]);
+
+    const handleExport = useCallback((format: ExportFormat) => {
+        if (generatedDescriptions.length === 0) return;
+        if (approvedDescriptions.length === 0) {
+            setExportNotice(null);
+            setError("Aucune fiche approuvée à exporter. Relisez les fiches et approuvez celles à importer dans votre CMS.");
+            return;
+        }
+
+        const { content, exported, skipped, invalid, importNote } = buildCmsExport(format, approvedDescriptions);
+        const unapproved = generatedDescriptions.length - approvedDescriptions.length;
+        const invalidText = (invalid > 0 ? ` ${invalid} fiche(s) bloquée(s) : JSON-LD invalide, à corriger ou regénérer.` : '')
+            + (unapproved > 0 ? ` ${unapproved} fiche(s) non approuvée(s) non exportée(s).` : '');
+        if (exported === 0) {
+            setExportNotice(null);
+            setError(invalid > 0 && skipped === 0
+                ? `Aucune fiche exportable.${invalidText}`
+                : `Aucune fiche exportable : les produits n'ont pas été retrouvés dans le catalogue. Chargez l'export produits de votre CMS à l'étape 2.${invalidText}`);
+            return;
+        }
+        downloadTextFile(content, cmsExporters[format].fileName);
+        setExportNotice((skipped > 0
+            ? `${exported} fiche(s) exportée(s). ${skipped} fiche(s) ignorée(s) : génération en échec ou produit introuvable dans le catalogue (handle, ID ou SKU manquant).`
+            : `${exported} fiche(s) exportée(s).`) + invalidText + (importNote ? ` ${importNote}` : ''));
+    }, [generatedDescriptions, approvedDescriptions]);
+
+    // Only approved descriptions are sent; a dry run returns the same diffs without writing to the CMS.
+    const handlePublish = useCallback(async (dryRun: boolean) => {
+        if (!selectedProject || !publishableCms) return;
+        if (approvedDescriptions.length === 0) {
+            setError('Approuvez au moins une fiche à publier.');
+            return;
+        }
+        if (!dryRun && !window.confirm(`Publier ${approvedDescriptions.length} fiche(s) sur ${cmsDisplayMap[publishableCms]} ? Les descriptions actuelles des produits seront remplacées.`)) {
+            return;
+        }
+
+        setIsPublishing(true);
+        setError(null);
+        setPublishResponse(null);
+        try {
+            const results: CmsPublishResult[] = [];
+            let jsonLdSupported = true;
+            for (let i = 0; i < approvedDescriptions.length; i += CMS_PUBLISH_BATCH_SIZE) {
+                const batch = approvedDescriptions.slice(i, i + CMS_PUBLISH_BATCH_SIZE).map(toCmsPublishItem);
+                const response = await cmsPublishing.publish(selectedProject.id, batch, dryRun);
+                results.push(...response.results);
+                jsonLdSupported = response.jsonLdSupported;
+            }
+            setPublishResponse({ dryRun, jsonLdSupported, results });
+        } catch (e: any) {
+            setError(`La publication a échoué : ${e.message}`);
+        } finally {
+            setIsPublishing(false);
+        }
+    }, [selectedProject, publishableCms, approvedDescriptions]);
+
+
+    const isGenerationDisabled = isJobActive || loadingSiteAnalysis || !siteAnalysis || productUrls.length === 0;
+
+    // A project's CMS decides which import format is offered; without a project every format is available.
+    const projectExportFormat = selectedProject?.cms ? cmsExportFormats[selectedProject.cms] : undefined;
+    const exportFormats: ExportFormat[] = !selectedProject
+        ? ['csv', 'shopify', 'prestashop', 'woocommerce']
+        : projectExportFormat ? [projectExportFormat, 'csv'] : ['csv'];
+
+    return (
+        <div className="ecommerce-page-grid">
+            <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Rédaction de Fiches Produit E-commerce</h2>
+                    <p className="content-subtitle">Générez des descriptions produits engageantes et alignées avec votre marque.</p>
+                </div>
+            </div>
+
+            <div className="content-card">
+                <h3 className="output-label">Étape 1 : Analyser votre site</h3>
+                <div className="form-group">
+                    <label htmlFor="project-select-ecom" className="form-label">Associer à un projet (Optionnel)</label>
+                     <select id="project-select-ecom" className="form-select" value={selectedProjectId} onChange={(e) => onProjectChange(e.target.value || null)} disabled={loadingSiteAnalysis || isJobActive}>
+                        <option value="">Sélectionner un projet...</option>
+                        {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                        ))}
+                    </select>
+                    {selectedProject && (
+                        <>
+                            {selectedProject.cms && autoIntegrationCMS.includes(selectedProject.cms) ? (
+                                <div className="info-banner info-banner-success" role="status">
+                                    Intégration automatique disponible pour le CMS : <strong>{cmsDisplayMap[selectedProject.cms]}</strong>.
+                                </div>
+                            ) : (
+                                <div className="info-banner info-banner-warning" role="status">
+                                    Le CMS de ce projet n'est pas configuré pour l'intégration automatique. Un export CSV sera nécessaire.
+                                </div>
+                            )}
+                        </>
+                    )}
+                     {projectIntentions && projectIntentions.length > 0 && (
+                        <div className="info-banner info-banner-success" role="status">
+                            ✅ {projectIntentions.length} intentions de recherche pour ce projet seront utilisées pour enrichir la rédaction.
+                            {` Chaque fiche cible jusqu'à ${MAX_PRODUCT_INTENTIONS} requêtes choisies selon le nom, l'URL et la catégorie du produit${keywordClusters.some(c => c.url) ? ', en commençant par celles du cluster associé à son URL' : ''}.`}
+                        </div>
+                    )}
+                </div>
+                <div className="form-group">
+                    <label htmlFor="site-url" className="form-label">URL de la page d'accueil de votre site</label>
+                    <div className="input-with-button">
+                        <input id="site-url" type="url" className="form-input" value={siteUrl} onChange={(e) => setSiteUrl(e.target.value)} placeholder="https://www.votresite.com" disabled={loadingSiteAnalysis || isJobActive} />
+                        <button onClick={handleAnalyzeSite} className="button-secondary" disabled={loadingSiteAnalysis || isJobActive}>
+                             {loadingSiteAnalysis ? <><span className="spinner"></span> Analyse...</> : "Analyser le site"}
+                        </button>
+                    </div>
+                    <p className="credit-cost-text">Coût de l'analyse : {CREDIT_COSTS.siteAnalysis} crédits</p>
+                </div>
+                {siteAnalysis && (
+                    <div className="site-analysis-results">
+                        <h3 className="output-label">Résultats de l'analyse</h3>
+                        <div className="analysis-grid">
+                            <div className="analysis-item"><h4>Mission</h4><p>{siteAnalysis.mission}</p></div>
+                            <div className="analysis-item"><h4>Vision</h4><p>{siteAnalysis.vision}</p></div>
+                            <div className="analysis-item"><h4>Valeurs</h4><p>{siteAnalysis.valeurs}</p></div>
+                            <div className="analysis-item"><h4>E.E.A.T</h4><p>{siteAnalysis.eeat}</p></div>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="content-card">
+                 <h3 className="output-label">Étape 2 : Définir la cible et les produits</h3>
+                 <div className="form-group">
+                    <label htmlFor="target-customer" className="form-label">Cible client (Optionnel)</label>
+                    <textarea id="target-customer" className="form-textarea" value={targetCustomer} onChange={(e) => setTargetCustomer(e.target.value)} placeholder="Décrivez votre client idéal : âge, centres d'intérêt, besoins..." disabled={loadingSiteAnalysis || isJobActive}></textarea>
+                 </div>
+                 {selectedProjectId && (
+                    <div className="form-group">
+                        <ProductCataloguePicker projectId={selectedProjectId} storeUrl={siteUrl || selectedProject?.url} disabled={isJobActive} onAdd={handleAddFromCatalogue} />
+                    </div>
+                 )}
+                 <div className="form-group urls-input-container">
+                    <label htmlFor="product-urls" className="form-label">URLs des fiches produits (1 par ligne, max {MAX_REDACTION_URLS})</label>
+                    <textarea id="product-urls" className="form-textarea" value={productUrlsInput} onChange={(e) => setProductUrlsInput(e.target.value)} placeholder="https://www.votresite.com/produit-1&#10;https://www.votresite.com/produit-2" disabled={loadingSiteAnalysis || isJobActive}></textarea>
+                    <label htmlFor="csv-upload" className="button-secondary" style={{marginTop: '10px', display: 'inline-block'}}>
+                        <span>Ou charger un fichier CSV</span>
+                        <input type="file" id="csv-upload" accept=".csv,.tsv,.txt" onChange={handleFileChange} style={{display: 'none'}} />
+                    </label>
+                    <p className="form-helper-text">Une liste d'URLs, ou l'export produits de votre CMS (Shopify, WooCommerce, PrestaShop) pour que les exports retrouvent chaque produit par son handle, ID ou SKU.</p>
+                    {catalogue.length > 0 && (
+                        <div className={`info-banner ${identifiedCount > 0 ? 'info-banner-success' : 'info-banner-warning'}`} role="status">
+                            {catalogue.length} produit(s) chargé(s) depuis le catalogue, dont {identifiedCount} avec un identifiant CMS (handle, ID ou SKU).
+                        </div>
+                    )}
+                    {allProductUrls.length > MAX_REDACTION_URLS && (
+                        <p className="form-helper-text">Seules les {MAX_REDACTION_URLS} premières URLs sur {allProductUrls.length} seront traitées.</p>
+                    )}
+                 </div>
+                 <div className="form-group">
+                    <label htmlFor="redaction-concurrency" className="form-label">Fiches générées en parallèle</label>
+                    <select id="redaction-concurrency" className="form-select" value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isJobActive}>
+                        {REDACTION_CONCURRENCY_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                 </div>
+                 {promptPreview && !isJobActive && (
+                    <PromptPreview prompt={promptPreview} note={productUrls.length > 1 ? `Prompt de la première fiche ; les ${productUrls.length - 1} autres utilisent le même modèle avec leur URL et leurs intentions.` : undefined} />
+                 )}
+
+                 <button className="submit-button" onClick={handleGenerateDescriptions} disabled={isGenerationDisabled}>
+                    {job?.status === 'running' ? <><span className="spinner"></span> Génération en cours...</> : `Générer les ${productUrls.length} fiches`}
+                </button>
+                 <p className="credit-cost-text">Coût total estimé : {creditCost} crédits</p>
+                 {job && (
+                    <div className="redaction-job-status">
+                        <div className="progress-bar-container">
+                            <div className="progress-bar" style={{ width: `${jobProgress}%` }}></div>
+                        </div>
+                        <p className="generation-progress">
+                            {redactionJobStatusLabels[job.status]} : {jobCounts.done} / {job.items.length} fiches générées
+                            {jobCounts.running > 0 && ` · ${jobCounts.running} en cours`}
+                            {jobCounts.failed > 0 && ` · ${jobCounts.failed} en échec`}
+                            {retryingCount > 0 && ` · ${retryingCount} en attente de nouvel essai`}
+                            {jobCounts.cancelled > 0 && ` · ${jobCounts.cancelled} annulée(s)`}
+                        </p>
+                        {job.status === 'paused' && job.pauseReason && (
+                            <div className="info-banner info-banner-warning" role="status">{job.pauseReason}</div>
+                        )}
+                        <div className="redaction-job-actions">
+                            {job.status === 'running' && (
+                                <button className="button-secondary" onClick={() => redactionQueue.pause()}>Mettre en pause</button>
+                            )}
+                            {job.status === 'paused' && (
+                                <button className="button-secondary" onClick={() => redactionQueue.resume(redactionWorker)}>Reprendre</button>
+                            )}
+                            {isJobActive && (
+                                <button className="button-secondary" onClick={() => redactionQueue.cancel()}>Annuler</button>
+                            )}
+                            {!isJobActive && (jobCounts.failed > 0 || jobCounts.cancelled > 0) && (
+                                <button className="button-secondary" onClick={() => redactionQueue.retryFailed(redactionWorker)}>Relancer les fiches non générées</button>
+                            )}
+                            {!isJobActive && (
+                                <button className="button-link" onClick={() => redactionQueue.clear()}>Effacer les résultats</button>
+                            )}
+                        </div>
+                    </div>
+                 )}
+            </div>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            {generatedDescriptions.length > 0 && (
+                 <div className="content-card">
+                    <h3 className="output-label">Résultats de la Génération</h3>
+                    <div className="export-buttons">
+                        {exportFormats.map(format => (
+                            <button key={format} className={format === projectExportFormat ? 'submit-button' : 'button-secondary'} onClick={() => handleExport(format)}>
+                                {cmsExporters[format].label}
+                            </button>
+                        ))}
+                    </div>
+                    {exportNotice && <div className="info-banner info-banner-success" role="status">{exportNotice}</div>}
+                    {publishableCms && (
+                        <div className="cms-publish-panel">
+                            {canPublish ? (
+                                <>
+                                    <p className="form-helper-text">
+                                        Seules les fiches approuvées sont envoyées : prévisualisez les modifications avant de les publier sur {cmsDisplayMap[publishableCms]}.
+                                        Les produits sont retrouvés par l'identifiant du catalogue chargé à l'étape 2, ou à défaut par leur URL.
+                                    </p>
+                                    <div className="redaction-job-actions">
+                                        <button className="button-secondary" onClick={() => handlePublish(true)} disabled={isPublishing || isJobActive || approvedDescriptions.length === 0}>
+                                            Prévisualiser (dry-run)
+                                        </button>
+                                        <button className="submit-button" onClick={() => handlePublish(false)} disabled={isPublishing || isJobActive || approvedDescriptions.length === 0}>
+                                            {isPublishing ? <><span className="spinner"></span> Envoi...</> : `Publier ${approvedDescriptions.length} fiche(s) sur ${cmsDisplayMap[publishableCms]}`}
+                                        </button>
+                                    </div>
+                                    {publishResponse && <CmsPublishResults response={publishResponse} cmsLabel={cmsDisplayMap[publishableCms]} />}
+                                </>
+                            ) : (
+                                <div className="info-banner info-banner-warning" role="status">
+                                    Configurez l'accès à l'API {cmsDisplayMap[publishableCms]} dans Mes Projets (« Connexion CMS ») pour publier directement les fiches.
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="review-toolbar">
+                        <div className="review-filter-tabs" role="tablist" aria-label="Filtrer par statut de relecture">
+                            {(['all', 'pending', 'approved', 'needs-rework', 'rejected'] as ReviewFilter[]).map(filter => (
+                                <button
+                                    key={filter}
+                                    role="tab"
+                                    aria-selected={reviewFilter === filter}
+                                    className={`review-filter-tab ${reviewFilter === filter ? 'active' : ''}`}
+                                    onClick={() => setReviewFilter(filter)}
+                                >
+                                    {filter === 'all' ? 'Toutes' : reviewStatusLabels[filter]} ({reviewCounts[filter]})
+                                </button>
+                            ))}
+                        </div>
+                        <div className="redaction-job-actions">
+                            <button className="button-secondary" onClick={() => handleDecide(approvablePending, 'approved')} disabled={approvablePending.length === 0}>
+                                Approuver les {approvablePending.length} fiche(s) valides à relire
+                            </button>
+                            {reworkItems.length > 0 && (
+                                <button className="button-secondary" onClick={handleRegenerateRework} disabled={isJobActive}>
+                                    Regénérer les {reworkItems.length} fiche(s) à retravailler
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <div className="table-responsive">
+                        <table className="data-table ecommerce-results-table">
+                            <thead>
+                                <tr>
+                                    <th onClick={() => requestSort('productUrl')} className={`sortable-header ${getSortClassFor('productUrl')}`}>URL du Produit</th>
+                                    <th onClick={() => requestSort('description')} className={`sortable-header ${getSortClassFor('description')}`}>Description Générée (HTML)</th>
+                                    <th>JSON-LD</th>
+                                    <th onClick={() => requestSort('reviewStatus')} className={`sortable-header ${getSortClassFor('reviewStatus')}`}>Relecture</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleDescriptions.map(item => (
+                                    <React.Fragment key={item.itemId}>
+                                        <tr>
+                                            <td>
+                                                <a href={item.productUrl} target="_blank" rel="noopener noreferrer">{item.productUrl}</a>
+                                                {(job?.context.intentions.length ?? 0) > 0 && (
+                                                    <div className="redaction-intentions">
+                                                        <span className="redaction-intentions-label">{item.intentions ? 'Requêtes ciblées :' : 'Aucune requête propre au produit, requêtes générales du projet utilisées.'}</span>
+                                                        {item.intentions?.map(query => <span key={query} className="redaction-intention-tag">{query}</span>)}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td dangerouslySetInnerHTML={{ __html: item.description }}></td>
+                                            <td>
+                                                {item.jsonLdValidation && (
+                                                    <>
+                                                        <JsonLdStatusBadge validation={item.jsonLdValidation} />
+                                                        <button onClick={() => toggleJsonLd(item.itemId)} className="button-secondary" style={{padding: '6px 12px'}}>
+                                                            {openJsonLd[item.itemId] ? 'Cacher' : 'Voir'}
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </td>
+                                            <td>
+                                                {!item.failed && (
+                                                    <>
+                                                        <span className={`review-status-badge review-status-${item.reviewStatus}`}>{reviewStatusLabels[item.reviewStatus]}</span>
+                                                        {item.review.comments.length > 0 && <span className="review-comment-count">{item.review.comments.length} commentaire(s)</span>}
+                                                        <button onClick={() => toggleReview(item.itemId)} className="button-secondary" style={{padding: '6px 12px'}}>
+                                                            {openReview[item.itemId] ? 'Fermer' : 'Relire'}
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {openReview[item.itemId] && !item.failed && (
+                                            <tr className="review-row">
+                                                <td colSpan={4}>
+                                                    <DescriptionReviewPanel
+                                                        item={item}
+                                                        author={reviewer}
+                                                        projectId={job?.context.projectId}
+                                                        cmsProjectId={canPublish ? selectedProject.id : undefined}
+                                                        historyUpgradeReason={historyUpgradeReason}
+                                                        onUpgradeRequired={onUpgradeRequired}
+                                                        onEdit={(html) => redactionQueue.editDescription(item.itemId, html)}
+                                                        onDecide={(status) => handleDecide([item], status)}
+                                                        onComment={(text) => handleComment(item, text)}
+                                                    />
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {openJsonLd[item.itemId] && item.jsonLdValidation && (
+                                            <tr className="json-ld-row">
+                                                <td colSpan={4}>
+                                                    <JsonLdValidationReport validation={item.jsonLdValidation} />
+                                                    <div className="code-block-container">
+                                                        <pre className="code-block"><code>{item.jsonLd}</code></pre>
+                                                        <button onClick={(e) => handleCopy(item.jsonLd, e)} className="copy-code-button" disabled={!item.jsonLdValidation.valid}>Copier</button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {pendingCsvFile && (
+                <CsvImportModal
+                    file={pendingCsvFile}
+                    title="Importer des URLs de produits"
+                    fields={catalogueCsvFields}
+                    guessMapping={guessCatalogueMapping}
+                    validateMapping={validateCatalogueMapping}
+                    onConfirm={handleCsvConfirm}
+                    onCancel={() => setPendingCsvFile(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// --- COMPETITIVE ANALYSIS PAGE ---
+interface CompetitiveAnalysisPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    savedResult?: SavedAnalysis<'competitive-analysis'>; // Re-opened from the results archive.
+}
+
+const CompetitorAnalysisDetail: React.FC<{ data: CompetitorAnalysis }> = ({ data }) => (
+    <div className="analysis-results-grid">
+        <div className="analysis-result-card">
+            <h3 className="card-title-small">Positionnement Marketing</h3>
+            <p>{data.positioning}</p>
+        </div>
+        <div className="analysis-result-card">
+            <h3 className="card-title-small">Profondeur du Catalogue</h3>
+            <p>{data.catalogDepth}</p>
+        </div>
+        <div className="analysis-result-card">
+            <h3 className="card-title-small">Meilleures Ventes Estimées</h3>
+            <ul>
+                {data.bestSellers.map((item, index) => (
+                    <li key={index}><strong>{item.name}:</strong> {item.reason}</li>
+                ))}
+            </ul>
+        </div>
+        <div className="analysis-result-card">
+            <h3 className="card-title-small">Structure de la Fiche Produit</h3>
+            <h4>Avantages (Bonnes pratiques)</h4>
+            <ul>
+                {data.productPageStructure.advantages.map((item, index) => <li key={index} className="strength">{item}</li>)}
+            </ul>
+            <h4>Inconvénients (Axes d'amélioration)</h4>
+            <ul>
+                {data.productPageStructure.disadvantages.map((item, index) => <li key={index} className="weakness">{item}</li>)}
+            </ul>
+        </div>
+    </div>
+);
+
+
+const CompetitiveAnalysisPage: React.FC<CompetitiveAnalysisPageProps> = ({ ai, spendCredits, savedResult, currentProject }) => {
+    const [competitorUrls, setCompetitorUrls] = useState<string[]>(['']);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [results, setResults] = useState<CompetitiveAnalysisResult | null>(null);
+    const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis<'competitive-analysis'>[]>([]);
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [activeTab, setActiveTab] = useState<string>('synthesis');
+
+    useEffect(() => {
+        repositories.analyses.list()
+            .then(items => setSavedAnalyses(items.filter((item): item is SavedAnalysis<'competitive-analysis'> => isSavedResultOf(item, 'competitive-analysis'))))
+            .catch(e => setError(`Impossible de charger les analyses sauvegardées : ${e.message}`));
+    }, []);
+
+    const handleUrlChange = useCallback((index: number, value: string) => {
+        const newUrls = [...competitorUrls];
+        newUrls[index] = value;
+        setCompetitorUrls(newUrls);
+    }, [competitorUrls]);
+
+    const addUrlInput = useCallback(() => {
+        if (competitorUrls.length < 4) {
+            setCompetitorUrls([...competitorUrls, '']);
+        }
+    }, [competitorUrls]);
+
+    const removeUrlInput = useCallback((index: number) => {
+        if (competitorUrls.length > 1) {
+            const newUrls = competitorUrls.filter((_, i) => i !== index);
+            setCompetitorUrls(newUrls);
+        }
+    }, [competitorUrls]);
+
+    const urlsToAnalyze = competitorUrls.filter(url => url.trim() !== '' && (url.startsWith('http://') || url.startsWith('https://')));
+    const creditCost = urlsToAnalyze.length * CREDIT_COSTS.competitorAnalysis;
+    const isAnalysisDisabled = loading || urlsToAnalyze.length === 0;
+    const promptTemplate = usePromptTemplates(currentProject?.id);
+    const projectAnalyses = currentProject ? savedAnalyses.filter(analysis => analysis.projectId === currentProject.id) : savedAnalyses;
+    const prompt = renderPrompt(promptTemplate('competitorAnalysis'), { urls: urlsToAnalyze.join(', ') });
+
+    const handleAnalysis = useCallback(async () => {
+        if (urlsToAnalyze.length === 0) {
+            setError("Veuillez entrer au moins une URL de concurrent valide (commençant par http:// ou https://).");
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        setResults(null);
+        setActiveTab('synthesis');
+
+        try {
+            const creditRequest: CreditRequest = {
+                amount: creditCost,
+                label: `Analyse concurrentielle (${urlsToAnalyze.length} URL(s))`,
+                page: 'competitive-analysis',
+                projectId: currentProject?.id,
+            };
+            const analysis: CompetitiveAnalysisResult = await spendCredits(creditRequest, () => ai.generateStructured({
+                template: 'competitorAnalysis',
+                variables: { urls: urlsToAnalyze.join(', ') },
+                projectId: currentProject?.id,
+            }));
+            setResults(analysis);
+
+        } catch (e: any) {
+            if (e instanceof InsufficientCreditsError) {
+                setError(e.message);
+            } else {
+                setError(`Une erreur est survenue lors de l'analyse. L'IA a peut-être eu du mal à structurer sa réponse. Veuillez réessayer. Détails: ${e.message}`);
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [ai, spendCredits, competitorUrls, urlsToAnalyze, creditCost, currentProject]);
+    
+    const handleAnalysisSaved = useCallback((saved: SavedAnalysis) => {
+        if (isSavedResultOf(saved, 'competitive-analysis')) setSavedAnalyses(prev => [...prev, saved]);
+        setIsSaveModalOpen(false);
+    }, []);
+
+    const viewSavedAnalysis = useCallback((analysis: SavedAnalysis<'competitive-analysis'>) => {
+        setResults(analysis.results);
+        setCompetitorUrls(analysis.urls.length > 0 ? analysis.urls : ['']);
+        setActiveTab('synthesis');
+        const mainContent = document.querySelector('.main-content');
+        if (mainContent) mainContent.scrollTop = 0;
+    }, []);
+
+    useEffect(() => {
+        if (savedResult) viewSavedAnalysis(savedResult);
+    }, [savedResult, viewSavedAnalysis]);
+
+    const deleteSavedAnalysis = useCallback(async (analysisId: string) => {
+        if (window.confirm("Êtes-vous sûr de vouloir supprimer cette analyse sauvegardée ?")) {
+            try {
+                await repositories.analyses.remove(analysisId);
+                setSavedAnalyses(prev => prev.filter(a => a.id !== analysisId));
+            } catch (e: any) {
+                setError(`La suppression de l'analyse a échoué : ${e.message}`);
+            }
+        }
+    }, []);
+
+    return (
+        <div className="page-with-sticky-footer">
+            <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Analyse Concurrentielle E-commerce</h2>
+                    <p className="content-subtitle">Analysez jusqu'à 4 concurrents pour obtenir une synthèse stratégique.</p>
+                </div>
+            </div>
+
+            <div className="content-card">
+                <div className="form-group">
                     <label className="form-label">URLs des concurrents (4 maximum)</label>
                     <div className="multi-url-inputs">
                         {competitorUrls.map((url, index) => (
@@ -2023,791 +6412,1734 @@ const CompetitiveAnalysisPage: React.FC<CompetitiveAnalysisPageProps> = ({ ai })
                             </div>
                         ))}
                     </div>
-                    {competitorUrls.length < 4 && (
-                        <button onClick={addUrlInput} className="button-link" style={{ marginTop: '12px', paddingLeft: 0 }}>+ Ajouter une URL</button>
-                    )}
+                    {competitorUrls.length < 4 && (
+                        <button onClick={addUrlInput} className="button-link" style={{ marginTop: '12px', paddingLeft: 0 }}>+ Ajouter une URL</button>
+                    )}
+                </div>
+                {urlsToAnalyze.length > 0 && <PromptPreview prompt={prompt} />}
+            </div>
+            
+            <div className="content-card">
+                 <h3 className="output-label">Analyses Sauvegardées{currentProject ? ` : ${currentProject.name}` : ''}</h3>
+                 {projectAnalyses.length > 0 ? (
+                    <ul className="saved-analyses-list">
+                        {projectAnalyses.map(analysis => (
+                            <li key={analysis.id} className="saved-analysis-item">
+                                <div className="saved-analysis-info">
+                                    <strong>{analysis.name}</strong>
+                                    <span>({new Date(analysis.date).toLocaleDateString()}) - {analysis.urls.length} URL(s)</span>
+                                </div>
+                                <div className="saved-analysis-actions">
+                                    <button className="button-secondary" onClick={() => viewSavedAnalysis(analysis)}>Voir</button>
+                                    <button className="button-link-delete" onClick={() => deleteSavedAnalysis(analysis.id)}>Supprimer</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                 ) : (
+                    <p className="empty-state-text small">Aucune analyse sauvegardée pour le moment.</p>
+                 )}
+            </div>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            {loading && (
+                <div className="content-card loader-container" style={{ textAlign: 'center', marginTop: '24px' }}>
+                    <div className="spinner" style={{ width: '3rem', height: '3rem', borderWidth: '4px', margin: '0 auto 16px', borderTopColor: 'var(--primary-blue)' }}></div>
+                    <p className="content-subtitle">Analyse des sites concurrents... Ce processus peut prendre une à deux minutes.</p>
+                </div>
+            )}
+            
+            {results && (
+                <div className="content-card" style={{marginTop: "24px"}}>
+                    <div className="results-header">
+                        <h3 className="output-label" style={{border: 'none', padding: 0, margin: 0}}>Résultats de l'Analyse</h3>
+                        <button className="submit-button" onClick={() => setIsSaveModalOpen(true)}>Sauvegarder l'Analyse</button>
+                    </div>
+                    
+                    <div className="analysis-tabs">
+                        <button className={`tab-button ${activeTab === 'synthesis' ? 'active' : ''}`} onClick={() => setActiveTab('synthesis')}>
+                            Synthèse Stratégique
+                        </button>
+                        {results.competitors?.map((comp, index) => (
+                             <button key={index} className={`tab-button ${activeTab === comp.url ? 'active' : ''}`} onClick={() => setActiveTab(comp.url)}>
+                                Concurrent {index + 1}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="analysis-tab-content">
+                        {activeTab === 'synthesis' && results.synthesis && (
+                            <div className="synthesis-grid">
+                                <div className="analysis-result-card">
+                                    <h3 className="card-title-small">Forces et Faiblesses Communes</h3>
+                                    <p>{results.synthesis.commonStrengths}</p>
+                                </div>
+                                <div className="analysis-result-card">
+                                    <h3 className="card-title-small">Stratégies de Différenciation</h3>
+                                    <p>{results.synthesis.differentiationStrategies}</p>
+                                </div>
+                                <div className="analysis-result-card">
+                                    <h3 className="card-title-small">Opportunités de Marché</h3>
+                                    <p>{results.synthesis.marketOpportunities}</p>
+                                </div>
+                            </div>
+                        )}
+                        {results.competitors?.map((comp, index) => (
+                            activeTab === comp.url && <CompetitorAnalysisDetail key={index} data={comp.analysis} />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {isSaveModalOpen && results && (
+                <SaveResultModal
+                    tool="competitive-analysis"
+                    urls={competitorUrls.filter(url => url.trim() !== '')}
+                    results={results}
+                    defaultName={`Analyse - ${new Date().toLocaleDateString('fr-FR')}`}
+                    defaultProjectId={currentProject?.id}
+                    onSaved={handleAnalysisSaved}
+                    onClose={() => setIsSaveModalOpen(false)}
+                />
+            )}
+            <StickyFooter
+                creditCost={creditCost}
+                buttonText="Lancer l'Analyse"
+                onButtonClick={handleAnalysis}
+                isButtonDisabled={isAnalysisDisabled}
+                buttonLoadingText="Analyse en cours..."
+            />
+        </div>
+    );
+};
+
+// --- PRODUCT PAGE ANALYSIS PAGE ---
+interface ProductPageAnalysisPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    savedResult?: SavedAnalysis<'product-page-analysis'>;
+}
+
+const ProductPageAnalysisPage: React.FC<ProductPageAnalysisPageProps> = ({ ai, spendCredits, savedResult, currentProject }) => {
+    const [productUrl, setProductUrl] = useState('');
+    const promptTemplate = usePromptTemplates(currentProject?.id);
+    const prompt = renderPrompt(promptTemplate('productPageAnalysis'), { url: productUrl });
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [results, setResults] = useState<ProductPageAnalysisResult | null>(null);
+    const [analyzedUrl, setAnalyzedUrl] = useState('');
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+    const [editableMetaTitle, setEditableMetaTitle] = useState('');
+
+    useEffect(() => {
+        if (!savedResult) return;
+        setProductUrl(savedResult.urls[0] ?? '');
+        setAnalyzedUrl(savedResult.urls[0] ?? '');
+        setResults(savedResult.results);
+        setError(null);
+    }, [savedResult]);
+
+    useEffect(() => {
+        if (results?.optimizationSuggestions.metaTitle.suggested) {
+            setEditableMetaTitle(results.optimizationSuggestions.metaTitle.suggested);
+        } else {
+            setEditableMetaTitle('');
+        }
+    }, [results]);
+
+    const handleAnalysis = useCallback(async () => {
+        if (!productUrl.trim() || !productUrl.startsWith('http')) {
+            setError("Veuillez entrer une URL de fiche produit valide.");
+            return;
+        }
+        setLoading(true);
+        setError(null);
+        setResults(null);
+        setSavedMessage(null);
+
+        try {
+            const creditRequest: CreditRequest = {
+                amount: CREDIT_COSTS.productPageAnalysis,
+                label: `Analyse fiche produit : ${productUrl}`,
+                page: 'product-page-analysis',
+                projectId: currentProject?.id,
+            };
+            const analysis: ProductPageAnalysisResult = await spendCredits(creditRequest, () => ai.generateStructured({
+                template: 'productPageAnalysis',
+                variables: { url: productUrl },
+                projectId: currentProject?.id,
+            }));
+            setResults(analysis);
+            setAnalyzedUrl(productUrl.trim());
+
+        } catch (e: any) {
+            if (e instanceof InsufficientCreditsError) {
+                setError(e.message);
+            } else {
+                setError(`Une erreur est survenue lors de l'analyse. L'IA a peut-être eu du mal à structurer sa réponse. Veuillez réessayer. Détails: ${e.message}`);
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [ai, spendCredits, productUrl, currentProject]);
+
+    return (
+        <div className="page-with-sticky-footer">
+            <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Analyse de Fiche Produit Concurrent</h2>
+                    <p className="content-subtitle">Auditez une fiche produit spécifique pour identifier ses forces et faiblesses.</p>
+                </div>
+            </div>
+            <div className="content-card">
+                <div className="form-group">
+                    <label htmlFor="product-url-analysis" className="form-label">URL de la fiche produit concurrente</label>
+                    <input
+                        id="product-url-analysis"
+                        type="url"
+                        className="form-input"
+                        value={productUrl}
+                        onChange={(e) => setProductUrl(e.target.value)}
+                        placeholder="https://www.site-concurrent.com/produit-exemple"
+                        disabled={loading}
+                    />
+                </div>
+                {productUrl.trim() && <PromptPreview prompt={prompt} />}
+            </div>
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+            
+            {loading && (
+                <div className="content-card loader-container" style={{ textAlign: 'center', marginTop: '24px' }}>
+                    <div className="spinner" style={{ width: '3rem', height: '3rem', borderWidth: '4px', margin: '0 auto 16px', borderTopColor: 'var(--primary-blue)' }}></div>
+                    <p className="content-subtitle">Analyse de la fiche produit... Ce processus peut prendre un moment.</p>
+                </div>
+            )}
+
+            {results && (
+                <div className="content-card" style={{marginTop: "24px"}}>
+                    <div className="results-header">
+                        <h3 className="output-label" style={{border: 'none', padding: 0, margin: 0}}>Résultats de l'Analyse</h3>
+                        <button className="submit-button" onClick={() => setIsSaveModalOpen(true)}>Sauvegarder l'Analyse</button>
+                    </div>
+                    {savedMessage && <div className="success-message">{savedMessage}</div>}
+                    <div className="product-analysis-grid">
+                        <div className="analysis-result-card">
+                            <h3 className="card-title-small">Structure de la Page</h3>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.pageStructure.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.pageStructure.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                        <div className="analysis-result-card">
+                            <h3 className="card-title-small">Design & UI</h3>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.designUI.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.designUI.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                        <div className="analysis-result-card">
+                            <h3 className="card-title-small">Analyse du Contenu</h3>
+                            <div className="content-analysis-details">
+                                <p><strong>Nombre de mots :</strong> {results.analysis.content.wordCount}</p>
+                                <p><strong>Densité & Nature :</strong> {results.analysis.content.densityAndNature}</p>
+                            </div>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.content.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.content.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                        <div className="analysis-result-card">
+                            <h3 className="card-title-small">Analyse SEO & Référencement</h3>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.seo.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.seo.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                         <div className="analysis-result-card">
+                            <h3 className="card-title-small">Maillage Interne</h3>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.internalLinking.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.internalLinking.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                         <div className="analysis-result-card">
+                            <h3 className="card-title-small">Optimisation de la Conversion (CRO)</h3>
+                            <h4>Points Forts</h4>
+                            <ul>{results.analysis.cro.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Points Faibles</h4>
+                            <ul>{results.analysis.cro.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                         <div className="analysis-result-card">
+                            <h3 className="card-title-small">Synthèse</h3>
+                             <h4>Avantages Clés</h4>
+                            <ul>{results.summary.advantages.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            <h4>Inconvénients Majeurs</h4>
+                            <ul>{results.summary.disadvantages.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                        </div>
+                    </div>
+
+                    <div className="meta-suggestions-section">
+                        <h3 className="card-title-small" style={{borderBottom: 'none', marginBottom: '24px'}}>Suggestions d'Optimisation Meta</h3>
+                        <div className="suggestion-grid">
+                            <div className="suggestion-item">
+                                <h4>Meta Titre</h4>
+                                <p className="current-meta"><strong>Actuel :</strong> {results.optimizationSuggestions.metaTitle.current}</p>
+                                <div className="editable-meta-container">
+                                    <label htmlFor="suggested-meta-title-input" className="form-label">Suggéré (modifiable)</label>
+                                    <div style={{ position: 'relative' }}>
+                                        <input
+                                            id="suggested-meta-title-input"
+                                            type="text"
+                                            className="form-input suggested-meta-input"
+                                            value={editableMetaTitle}
+                                            onChange={(e) => setEditableMetaTitle(e.target.value)}
+                                        />
+                                        <span className={`char-counter ${editableMetaTitle.length > 60 ? 'limit-exceeded' : ''}`}>
+                                            {editableMetaTitle.length} / 60
+                                        </span>
+                                    </div>
+                                </div>
+                                <p className="reasoning">{results.optimizationSuggestions.metaTitle.reasoning}</p>
+                            </div>
+                            <div className="suggestion-item">
+                                <h4>Meta Description</h4>
+                                <p className="current-meta"><strong>Actuel :</strong> {results.optimizationSuggestions.metaDescription.current}</p>
+                                <p className="suggested-meta"><strong>Suggéré :</strong> {results.optimizationSuggestions.metaDescription.suggested}</p>
+                                <p className="reasoning">{results.optimizationSuggestions.metaDescription.reasoning}</p>
+                            </div>
+                        </div>
+                    </div>
+
+                </div>
+            )}
+
+            {isSaveModalOpen && results && (
+                <SaveResultModal
+                    tool="product-page-analysis"
+                    urls={analyzedUrl ? [analyzedUrl] : []}
+                    results={results}
+                    defaultName={`Fiche produit - ${analyzedUrl}`}
+                    defaultProjectId={currentProject?.id}
+                    onSaved={(saved) => { setIsSaveModalOpen(false); setSavedMessage(`Analyse sauvegardée dans les archives sous « ${saved.name} ».`); }}
+                    onClose={() => setIsSaveModalOpen(false)}
+                />
+            )}
+
+            <StickyFooter
+                creditCost={CREDIT_COSTS.productPageAnalysis}
+                buttonText="Lancer l'Analyse"
+                onButtonClick={handleAnalysis}
+                isButtonDisabled={loading || !productUrl.trim()}
+                buttonLoadingText="Analyse en cours..."
+            />
+
+        </div>
+    );
+};
+
+
+// --- CRO OPTIMIZATION PAGE ---
+interface CroOptimizationPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    savedResult?: SavedAnalysis<'cro-optimization'>;
+}
+
+
+const CroAuditDetail: React.FC<{ auditData: CroAuditResult }> = ({ auditData }) => {
+    return (
+        <div className="product-analysis-grid" style={{ marginTop: '24px' }}>
+            {croAuditCategories.map(category => {
+                const data = auditData.detailedAudit[category.key];
+
+                return (
+                    <div key={category.key} className="analysis-result-card">
+                        <div className="cro-card-header">
+                           <h3 className="card-title-small">{category.title}</h3>
+                           <div className="cro-card-score">{data.score}</div>
+                        </div>
+                        
+                        {data.strengths.length > 0 && (
+                            <>
+                                <h4>Points Forts</h4>
+                                <ul>{data.strengths.map((item, i) => <li key={i} className="strength">{item}</li>)}</ul>
+                            </>
+                        )}
+                        {data.weaknesses.length > 0 && (
+                             <>
+                                <h4>Points Faibles</h4>
+                                <ul>{data.weaknesses.map((item, i) => <li key={i} className="weakness">{item}</li>)}</ul>
+                            </>
+                        )}
+                        {data.recommendations.length > 0 && (
+                             <>
+                                <h4>Recommandations</h4>
+                                <ul className="recommendation-list-items">{data.recommendations.map((item, i) => <li key={i}>{item}</li>)}</ul>
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+
+const croUrlCsvFields: CsvColumnField[] = [
+    { key: 'url', label: 'URL du produit', aliases: catalogueColumnAliases.url, required: true },
+];
+
+// Without a recognised header the first column is used, as for a plain list of URLs.
+const guessCroUrlMapping = (headers: string[]): CsvColumnMapping => {
+    const mapping = guessCsvMapping(headers, croUrlCsvFields);
+    return mapping.url >= 0 ? mapping : { url: 0 };
+};
+
+const CroOptimizationPage: React.FC<CroOptimizationPageProps> = ({ ai, spendCredits, savedResult, currentProject, onProjectChange }) => {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const selectedProjectId = currentProject?.id ?? '';
+    const [productUrlsInput, setProductUrlsInput] = useState('');
+    const [pendingCsvFile, setPendingCsvFile] = useState<File | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [results, setResults] = useState<CroResult[]>([]);
+    const [generationProgress, setGenerationProgress] = useState('');
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+    const urlsToAnalyze = productUrlsInput.split('\n').map(url => url.trim()).filter(url => url.length > 0 && url.startsWith('http'));
+    const creditCost = urlsToAnalyze.length * CREDIT_COSTS.croAudit;
+    const promptTemplate = usePromptTemplates(selectedProjectId || undefined);
+    const selectedProject = projects.find(p => p.id === selectedProjectId);
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setError(`Impossible de charger les projets : ${e.message}`));
+    }, []);
+
+    useEffect(() => {
+        if (!savedResult) return;
+        setResults(savedResult.results);
+        setProductUrlsInput(savedResult.urls.join('\n'));
+        setError(null);
+    }, [savedResult]);
+
+    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        setPendingCsvFile(e.target.files?.[0] ?? null);
+        e.target.value = ''; // Reset file input
+    }, []);
+
+    const handleCsvConfirm = useCallback((table: CsvTable, mapping: CsvColumnMapping) => {
+        const urls = table.rows.map(row => csvCell(row, mapping.url)).filter(url => url.startsWith('http'));
+        if (urls.length === 0) {
+            throw new Error("Aucune URL n'a été trouvée dans la colonne choisie.");
+        }
+        setProductUrlsInput(Array.from(new Set(urls)).join('\n'));
+        setPendingCsvFile(null);
+    }, []);
+
+    const handleExport = useCallback(() => {
+        if (results.length === 0) return;
+
+        const escapeCsv = (field: string | number | undefined) => `"${(field?.toString() || '').replace(/"/g, '""')}"`;
+        const headers = ["URL", "Overall Score", "Summary", "Audit Category", "Category Score", "Strengths", "Weaknesses", "Recommendations"];
+        
+        let csvContent = headers.join(',') + '\r\n';
+
+        results.forEach(result => {
+            const { url, data } = result;
+            if (data) {
+                croAuditCategories.forEach(category => {
+                    const auditItem = data.detailedAudit[category.key];
+                    const row = [
+                        escapeCsv(url),
+                        escapeCsv(data.overallScore),
+                        escapeCsv(data.summary),
+                        escapeCsv(category.title),
+                        escapeCsv(auditItem.score),
+                        escapeCsv(auditItem.strengths.join('\n')),
+                        escapeCsv(auditItem.weaknesses.join('\n')),
+                        escapeCsv(auditItem.recommendations.join('\n'))
+                    ];
+                    csvContent += row.join(',') + '\r\n';
+                });
+            } else {
+                 const row = [
+                    escapeCsv(url),
+                    escapeCsv('Erreur'),
+                    escapeCsv(result.error),
+                    "", "", "", "", ""
+                ];
+                csvContent += row.join(',') + '\r\n';
+            }
+        });
+        
+        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement("a");
+        const blobUrl = URL.createObjectURL(blob);
+        link.setAttribute("href", blobUrl);
+        link.setAttribute("download", "cro_audit_export_detailed.csv");
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    }, [results]);
+
+    const handleAnalysis = useCallback(async () => {
+        if (urlsToAnalyze.length === 0) {
+            setError("Veuillez entrer au moins une URL de fiche produit valide.");
+            return;
+        }
+        setLoading(true);
+        setError(null);
+        setResults([]);
+        setSavedMessage(null);
+        const currentResults: CroResult[] = [];
+
+        try {
+            for (let i = 0; i < urlsToAnalyze.length; i++) {
+                const url = urlsToAnalyze[i];
+                setGenerationProgress(`Analyse ${i + 1}/${urlsToAnalyze.length} : ${url}`);
+
+                try {
+                    const creditRequest: CreditRequest = {
+                        amount: CREDIT_COSTS.croAudit,
+                        label: `Audit CRO : ${url}`,
+                        page: 'cro-optimization',
+                        projectId: selectedProjectId || undefined,
+                    };
+                    const audit: CroAuditResult = await spendCredits(creditRequest, () => ai.generateStructured({
+                        template: 'croAudit',
+                        variables: { url },
+                        projectId: selectedProjectId || undefined,
+                    }));
+                    currentResults.push({ url, data: audit });
+                    setResults([...currentResults]);
+                } catch (e: any) {
+                    if (e instanceof InsufficientCreditsError) {
+                        setError(e.message);
+                        break;
+                    }
+                    currentResults.push({ url, data: null, error: `Analyse échouée: ${e.message}` });
+                    setResults([...currentResults]);
+                }
+            }
+
+        } catch (e: any) {
+            setError(`Une erreur majeure est survenue pendant le processus de bulk. Détails: ${e.message}`);
+        } finally {
+            setLoading(false);
+            setGenerationProgress('');
+        }
+    }, [ai, spendCredits, urlsToAnalyze, selectedProjectId]);
+    
+    return (
+        <div>
+            <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Optimisation de la Conversion (CRO)</h2>
+                    <p className="content-subtitle">Recevez des recommandations d'experts pour améliorer vos fiches produits, en masse.</p>
+                </div>
+            </div>
+             <div className="content-card">
+                <div className="form-group">
+                    <label htmlFor="project-select-cro" className="form-label">Choisir des produits dans le catalogue d'un projet (Optionnel)</label>
+                    <select id="project-select-cro" className="form-select" value={selectedProjectId} onChange={(e) => onProjectChange(e.target.value || null)} disabled={loading}>
+                        <option value="">Sélectionner un projet...</option>
+                        {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                        ))}
+                    </select>
+                </div>
+                {selectedProjectId && (
+                    <div className="form-group">
+                        <ProductCataloguePicker
+                            projectId={selectedProjectId}
+                            storeUrl={selectedProject?.url}
+                            disabled={loading}
+                            onAdd={(products) => setProductUrlsInput(prev => appendUrlsToInput(prev, products.map(p => p.url)))}
+                        />
+                    </div>
+                )}
+                <div className="form-group">
+                    <label htmlFor="product-urls-cro" className="form-label">URLs des fiches produits (1 par ligne)</label>
+                    <textarea 
+                        id="product-urls-cro" 
+                        className="form-textarea" 
+                        value={productUrlsInput} 
+                        onChange={(e) => setProductUrlsInput(e.target.value)} 
+                        placeholder="https://www.votresite.com/produit-1&#10;https://www.votresite.com/produit-2" 
+                        disabled={loading}
+                        style={{ minHeight: '150px' }}
+                    ></textarea>
+                    <label htmlFor="csv-upload-cro" className="button-secondary" style={{marginTop: '10px', display: 'inline-block'}}>
+                        <span>Ou charger un fichier CSV</span>
+                        <input type="file" id="csv-upload-cro" accept=".csv,.tsv,.txt" onChange={handleFileChange} style={{display: 'none'}} />
+                    </label>
                 </div>
+                {urlsToAnalyze.length > 0 && (
+                    <PromptPreview
+                        prompt={renderPrompt(promptTemplate('croAudit'), { url: urlsToAnalyze[0] })}
+                        note={urlsToAnalyze.length > 1 ? `Prompt de la première URL ; les ${urlsToAnalyze.length - 1} autres utilisent le même modèle.` : undefined}
+                    />
+                )}
+                 <button onClick={handleAnalysis} className="submit-button" disabled={loading || urlsToAnalyze.length === 0}>
+                    {loading ? <><span className="spinner"></span> Audit en cours...</> : `Lancer l'audit (${urlsToAnalyze.length} URLs)`}
+                </button>
+                 <p className="credit-cost-text">Coût total estimé : {creditCost} crédits</p>
+                 {loading && <p className="generation-progress" style={{textAlign: 'center', marginTop: '12px'}}>{generationProgress}</p>}
             </div>
             
-            <div className="content-card">
-                 <h3 className="output-label">Analyses Sauvegardées</h3>
-                 {savedAnalyses.length > 0 ? (
-                    <ul className="saved-analyses-list">
-                        {savedAnalyses.map(analysis => (
-                            <li key={analysis.id} className="saved-analysis-item">
-                                <div className="saved-analysis-info">
-                                    <strong>{analysis.name}</strong>
-                                    <span>({new Date(analysis.date).toLocaleDateString()}) - {analysis.urls.length} URL(s)</span>
-                                </div>
-                                <div className="saved-analysis-actions">
-                                    <button className="button-secondary" onClick={() => viewSavedAnalysis(analysis)}>Voir</button>
-                                    <button className="button-link-delete" onClick={() => deleteSavedAnalysis(analysis.id)}>Supprimer</button>
-                                </div>
-                            </li>
-                        ))}
-                    </ul>
-                 ) : (
-                    <p className="empty-state-text small">Aucune analyse sauvegardée pour le moment.</p>
-                 )}
-            </div>
-
             {error && <div className="error-message" role="alert">{error}</div>}
 
-            {loading && (
-                <div className="content-card loader-container" style={{ textAlign: 'center', marginTop: '24px' }}>
-                    <div className="spinner" style={{ width: '3rem', height: '3rem', borderWidth: '4px', margin: '0 auto 16px', borderTopColor: 'var(--primary-blue)' }}></div>
-                    <p className="content-subtitle">Analyse des sites concurrents... Ce processus peut prendre une à deux minutes.</p>
-                </div>
+            {pendingCsvFile && (
+                <CsvImportModal
+                    file={pendingCsvFile}
+                    title="Importer des URLs de produits"
+                    fields={croUrlCsvFields}
+                    guessMapping={guessCroUrlMapping}
+                    onConfirm={handleCsvConfirm}
+                    onCancel={() => setPendingCsvFile(null)}
+                />
             )}
             
-            {results && (
-                <div className="content-card" style={{marginTop: "24px"}}>
-                    <div className="results-header">
-                        <h3 className="output-label" style={{border: 'none', padding: 0, margin: 0}}>Résultats de l'Analyse</h3>
-                        <button className="submit-button" onClick={openSaveModal}>Sauvegarder l'Analyse</button>
-                    </div>
-                    
-                    <div className="analysis-tabs">
-                        <button className={`tab-button ${activeTab === 'synthesis' ? 'active' : ''}`} onClick={() => setActiveTab('synthesis')}>
-                            Synthèse Stratégique
-                        </button>
-                        {results.competitors?.map((comp: any, index: number) => (
-                             <button key={index} className={`tab-button ${activeTab === comp.url ? 'active' : ''}`} onClick={() => setActiveTab(comp.url)}>
-                                Concurrent {index + 1}
+            {results.length > 0 && (
+                <div className="cro-results-container">
+                    <div className="page-header-actions" style={{marginBottom: 0}}>
+                        <h3 className="output-label" style={{border: 'none', padding: 0, margin: 0}}>Résultats de l'Audit ({results.length} / {urlsToAnalyze.length} terminées)</h3>
+                        <div className="results-header-actions">
+                            <button className="button-secondary" onClick={() => setIsSaveModalOpen(true)} disabled={loading}>Sauvegarder l'Audit</button>
+                            <button className="submit-button" onClick={handleExport}>
+                                Exporter en CSV
                             </button>
-                        ))}
+                        </div>
                     </div>
-
-                    <div className="analysis-tab-content">
-                        {activeTab === 'synthesis' && results.synthesis && (
-                            <div className="synthesis-grid">
-                                <div className="analysis-result-card">
-                                    <h3 className="card-title-small">Forces et Faiblesses Communes</h3>
-                                    <p>{results.synthesis.commonStrengths}</p>
-                                </div>
-                                <div className="analysis-result-card">
-                                    <h3 className="card-title-small">Stratégies de Différenciation</h3>
-                                    <p>{results.synthesis.differentiationStrategies}</p>
-                                </div>
-                                <div className="analysis-result-card">
-                                    <h3 className="card-title-small">Opportunités de Marché</h3>
-                                    <p>{results.synthesis.marketOpportunities}</p>
+                    {savedMessage && <div className="success-message">{savedMessage}</div>}
+                    
+                    {results.map((result, index) => (
+                        <div key={index} className="content-card cro-result-item">
+                            <details open>
+                                <summary className="cro-result-summary-header">
+                                    <div className="cro-summary-url">
+                                        <a href={result.url} target="_blank" rel="noopener noreferrer" title={result.url}>{result.url}</a>
+                                    </div>
+                                    <div className="cro-summary-score">
+                                        <strong>Score Global :</strong> {result.data ? `${result.data.overallScore} / 10` : <span style={{ color: 'var(--error-text)'}}>Erreur</span>}
+                                    </div>
+                                </summary>
+                                <div className="cro-result-details">
+                                     <p className="cro-result-main-summary">
+                                        <strong>Résumé de l'audit :</strong> {result.data ? result.data.summary : result.error}
+                                     </p>
+                                     {result.data ? 
+                                        <CroAuditDetail auditData={result.data} />
+                                        : <p style={{ color: 'var(--error-text)'}}>L'analyse détaillée n'a pas pu être générée.</p>
+                                     }
                                 </div>
-                            </div>
-                        )}
-                        {results.competitors?.map((comp: any, index: number) => (
-                            activeTab === comp.url && <CompetitorAnalysisDetail key={index} data={comp.analysis} />
-                        ))}
-                    </div>
+                            </details>
+                        </div>
+                    ))}
                 </div>
             )}
 
             {isSaveModalOpen && (
-                 <div className="modal-overlay" onClick={() => setIsSaveModalOpen(false)}>
-                    <div className="modal-content" onClick={e => e.stopPropagation()}>
-                        <div className="modal-header">
-                            <h3 className="modal-title">Sauvegarder l'Analyse</h3>
-                            <button className="close-modal-button" onClick={() => setIsSaveModalOpen(false)}>&times;</button>
+                <SaveResultModal
+                    tool="cro-optimization"
+                    urls={results.map(result => result.url)}
+                    results={results}
+                    defaultName={`Audit CRO - ${new Date().toLocaleDateString('fr-FR')}`}
+                    defaultProjectId={selectedProjectId || undefined}
+                    onSaved={(saved) => { setIsSaveModalOpen(false); setSavedMessage(`Audit sauvegardé dans les archives sous « ${saved.name} ».`); }}
+                    onClose={() => setIsSaveModalOpen(false)}
+                />
+            )}
+        </div>
+    );
+};
+
+// --- FAQ GENERATOR PAGE ---
+interface FaqGeneratorPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    author: ReviewAuthor;
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+    savedResult?: SavedAnalysis<'faq-generator'>;
+}
+
+type FaqItem = FaqResult['faqItems'][number];
+
+const LOCAL_STORAGE_LAST_FAQ_DOCUMENT = 'semanticAppLastFaqDocument';
+
+// Revisions store the FAQ as HTML, one heading per question followed by its answer.
+const faqItemsToHtml = (items: FaqItem[]): string =>
+    items.map(item => `<h3>${escapeHtml(item.question)}</h3><p>${escapeHtml(item.answer)}</p>`).join('');
+
+const faqItemsFromHtml = (html: string): FaqItem[] => {
+    const items: FaqItem[] = [];
+    Array.from(new DOMParser().parseFromString(html, 'text/html').body.children).forEach(element => {
+        const text = element.textContent?.trim() ?? '';
+        if (!text) return;
+        if (/^H[1-6]$/.test(element.tagName)) {
+            items.push({ question: text, answer: '' });
+        } else if (items.length > 0) {
+            const last = items[items.length - 1];
+            last.answer = last.answer ? `${last.answer}\n${text}` : text;
+        }
+    });
+    return items;
+};
+
+// Rebuilt after a manual edit so that the markup keeps matching the visible questions and answers.
+const faqPageJsonLd = (items: FaqItem[]): string => JSON.stringify({
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: items.map(item => ({ '@type': 'Question', name: item.question, acceptedAnswer: { '@type': 'Answer', text: item.answer } })),
+}, null, 2);
+
+const FaqGeneratorPage: React.FC<FaqGeneratorPageProps> = ({ ai, spendCredits, author, userPlan, onUpgradeRequired, savedResult, currentProject }) => {
+    const [method, setMethod] = useState<'topic' | 'url'>('topic');
+    const [topic, setTopic] = useState('');
+    const [externalUrl, setExternalUrl] = useState('');
+    const projectId = currentProject?.id;
+    const promptTemplate = usePromptTemplates(projectId);
+    const prompt = method === 'topic'
+        ? renderPrompt(promptTemplate('faqFromTopic'), { sujet: topic })
+        : renderPrompt(promptTemplate('faqFromUrl'), { url: externalUrl });
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [documentSubject, setDocumentSubject] = useState<string | null>(() => loadFromLocalStorage<string | null>(LOCAL_STORAGE_LAST_FAQ_DOCUMENT, null));
+    const documentKey = documentSubject ? revisionDocumentKey('faq', documentSubject) : null;
+    const history = useContentRevisions(documentKey);
+    const [content, setContent] = useState<RevisionContent | null>(null);
+    const [draft, setDraft] = useState<string | null>(null);
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+    const faq = React.useMemo(() => (content ? faqItemsFromHtml(content.html) : null), [content]);
+    const generatedJsonLd = content?.jsonLd || null;
+    const jsonLdValidation = React.useMemo(() => (generatedJsonLd ? validateJsonLd(generatedJsonLd, 'FAQPage') : null), [generatedJsonLd]);
+    const latestRevision = history.revisions[history.revisions.length - 1];
+
+    // Coming back to the page shows the latest version of the last FAQ.
+    useEffect(() => {
+        if (latestRevision) setContent(current => current ?? { html: latestRevision.html, jsonLd: latestRevision.jsonLd });
+    }, [latestRevision]);
+
+    // An archived FAQ is shown as saved; its document keeps the revision history.
+    useEffect(() => {
+        if (!savedResult) return;
+        const { subject, html, jsonLd } = savedResult.results;
+        const isUrl = /^https?:\/\//.test(subject);
+        setMethod(isUrl ? 'url' : 'topic');
+        if (isUrl) setExternalUrl(subject); else setTopic(subject);
+        setContent({ html, jsonLd });
+        setDraft(null);
+        setError(null);
+        setDocumentSubject(subject);
+        saveToLocalStorage(LOCAL_STORAGE_LAST_FAQ_DOCUMENT, subject);
+    }, [savedResult]);
+
+    const saveRevision = useCallback((next: RevisionContent, source: RevisionSource, restoredFrom?: number) => {
+        if (!documentSubject || !documentKey) return;
+        setContent(next);
+        history.record({ documentKey, kind: 'faq', title: documentSubject, ...next, source, restoredFrom, author, projectId });
+    }, [documentSubject, documentKey, history.record, author, projectId]);
+
+    const handleSaveEdit = () => {
+        const items = faqItemsFromHtml(draft ?? '');
+        if (items.length === 0) {
+            setError('La FAQ doit contenir au moins une question (en intertitre) suivie de sa réponse.');
+            return;
+        }
+        setError(null);
+        saveRevision({ html: faqItemsToHtml(items), jsonLd: faqPageJsonLd(items) }, 'edit');
+        setDraft(null);
+    };
+
+    const handleGenerateFaq = useCallback(async () => {
+        if (method === 'topic') {
+            if (!topic.trim()) {
+                setError("Veuillez entrer un sujet pour générer la FAQ.");
+                return;
+            }
+        } else { // method === 'url'
+            if (!externalUrl.trim()) {
+                setError("Veuillez entrer une URL valide.");
+                return;
+            }
+            try { new URL(externalUrl); } catch (_) {
+                setError("Le format de l'URL est invalide.");
+                return;
+            }
+        }
+
+        setLoading(true);
+        setError(null);
+        setContent(null);
+        setDraft(null);
+        setSavedMessage(null);
+
+        try {
+            const creditRequest: CreditRequest = {
+                amount: CREDIT_COSTS.faqGeneration,
+                label: method === 'topic' ? `FAQ : ${topic}` : `FAQ : ${externalUrl}`,
+                page: 'faq-generator',
+                projectId,
+            };
+            const parsedResponse: FaqResult = await spendCredits(creditRequest, () => ai.generateStructured({
+                template: method === 'topic' ? 'faqFromTopic' : 'faqFromUrl',
+                variables: method === 'topic' ? { sujet: topic } : { url: externalUrl },
+                projectId,
+            }));
+            const subject = method === 'topic' ? topic.trim() : externalUrl.trim();
+            const generated: RevisionContent = { html: faqItemsToHtml(parsedResponse.faqItems), jsonLd: parsedResponse.jsonLd };
+            setContent(generated);
+            await history.record({ documentKey: revisionDocumentKey('faq', subject), kind: 'faq', title: subject, ...generated, source: 'generation', author, projectId });
+            setDocumentSubject(subject);
+            saveToLocalStorage(LOCAL_STORAGE_LAST_FAQ_DOCUMENT, subject);
+
+        } catch (e: any) {
+            if (e instanceof InsufficientCreditsError) {
+                setError(e.message);
+            } else {
+                setError(`Une erreur est survenue lors de la génération : ${e.message}. Veuillez vérifier votre saisie ou l'URL.`);
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, [ai, spendCredits, method, topic, externalUrl, history.record, author, projectId]);
+    
+    const isButtonDisabled = loading || (method === 'topic' && !topic.trim()) || (method === 'url' && !externalUrl.trim());
+
+    return (
+        <div>
+             <div className="page-header-actions">
+                <div>
+                    <h2 className="content-title">Générateur de FAQ</h2>
+                    <p className="content-subtitle">Créez rapidement une section FAQ pertinente pour un sujet ou une page web.</p>
+                </div>
+            </div>
+            <div className="content-card">
+                 <div className="form-group">
+                    <label className="form-label">Choisir la source du contenu</label>
+                    <div className="method-selector">
+                        <label className={method === 'topic' ? 'active' : ''}>
+                            <input type="radio" name="method-faq" value="topic" checked={method === 'topic'} onChange={() => setMethod('topic')} />
+                            <span>À partir d'un sujet</span>
+                        </label>
+                        <label className={method === 'url' ? 'active' : ''}>
+                            <input type="radio" name="method-faq" value="url" checked={method === 'url'} onChange={() => setMethod('url')} />
+                            <span>À partir d'une URL</span>
+                        </label>
+                    </div>
+                </div>
+
+                <div className="method-content">
+                    {method === 'topic' ? (
+                        <div className="form-group">
+                            <label htmlFor="faq-topic" className="form-label">Sujet de la FAQ</label>
+                            <input id="faq-topic" type="text" className="form-input" value={topic} onChange={e => setTopic(e.target.value)} placeholder="Ex: Voyage au Japon" disabled={loading} />
                         </div>
-                        <div className="modal-body">
-                            <div className="form-group">
-                                <label htmlFor="analysis-name" className="form-label">Nom de l'analyse</label>
-                                <input id="analysis-name" type="text" className="form-input" value={analysisNameToSave} onChange={e => setAnalysisNameToSave(e.target.value)} />
-                            </div>
+                    ) : (
+                        <div className="form-group">
+                            <label htmlFor="url-input-faq" className="form-label">Entrer l'URL de la page à analyser</label>
+                            <input id="url-input-faq" type="text" className="form-input" value={externalUrl} onChange={e => setExternalUrl(e.target.value)} placeholder="https://www.exemple.com/article" disabled={loading} />
                         </div>
-                        <div className="modal-footer">
-                            <button className="button-secondary" onClick={() => setIsSaveModalOpen(false)}>Annuler</button>
-                            <button className="submit-button" onClick={confirmSaveAnalysis}>Sauvegarder</button>
+                    )}
+                </div>
+                {!isButtonDisabled && <PromptPreview prompt={prompt} />}
+
+                <button className="submit-button" onClick={handleGenerateFaq} disabled={isButtonDisabled}>
+                    {loading ? <><span className="spinner"></span> Génération...</> : "Générer la FAQ"}
+                </button>
+                 <p className="credit-cost-text">Coût de la génération : {CREDIT_COSTS.faqGeneration} crédits</p>
+            </div>
+            {error && <div className="error-message" role="alert">{error}</div>}
+            {faq && content && (
+                <div className="content-card" style={{marginTop: '24px'}}>
+                     <div className="revision-card-header">
+                        <h3 className="output-label">FAQ Générée{documentSubject ? ` : ${documentSubject}` : ''}</h3>
+                        {draft === null && (
+                            <div className="results-header-actions">
+                                <button className="button-secondary" onClick={() => setDraft(content.html)}>Modifier</button>
+                                {documentSubject && <button className="button-secondary" onClick={() => setIsSaveModalOpen(true)}>Sauvegarder</button>}
+                            </div>
+                        )}
+                     </div>
+                     {savedMessage && <div className="success-message">{savedMessage}</div>}
+                     {draft !== null ? (
+                        <>
+                            <p className="form-helper-text">Chaque question est un intertitre suivi de sa réponse. Le JSON-LD est mis à jour à l'enregistrement.</p>
+                            <RichTextEditor id="faq-editor" value={draft} onChange={setDraft} />
+                            <div className="redaction-job-actions">
+                                <button className="submit-button" onClick={handleSaveEdit} disabled={draft === content.html}>Enregistrer</button>
+                                <button className="button-link" onClick={() => setDraft(null)}>Annuler</button>
+                            </div>
+                        </>
+                     ) : (
+                        <div className="faq-accordion">
+                            {faq.map((item, index) => (
+                                <details key={index} className="faq-item">
+                                    <summary className="faq-question">{item.question}</summary>
+                                    <div className="faq-answer">
+                                        <p>{item.answer}</p>
+                                    </div>
+                                </details>
+                            ))}
                         </div>
+                     )}
+                     <RevisionHistoryPanel
+                        history={history}
+                        currentHtml={content.html}
+                        onRestore={(revision) => saveRevision({ html: revision.html, jsonLd: revision.jsonLd }, 'restore', revision.version)}
+                        upgradeReason={checkFeatureAccess(userPlan, 'revision-history')}
+                        onUpgradeRequired={onUpgradeRequired}
+                     />
+                </div>
+            )}
+             {generatedJsonLd && jsonLdValidation && (
+                <div className="content-card" style={{marginTop: '24px'}}>
+                    <h3 className="output-label">JSON-LD pour Rich Results (FAQPage)</h3>
+                    <JsonLdValidationReport validation={jsonLdValidation} />
+                    <div className="code-block-container">
+                        <pre className="code-block"><code>{formatJsonLd(generatedJsonLd, jsonLdValidation)}</code></pre>
+                        <button onClick={(e) => handleCopy(formatJsonLd(generatedJsonLd, jsonLdValidation), e)} className="copy-code-button" disabled={!jsonLdValidation.valid}>Copier</button>
                     </div>
+                    <p className="form-helper-text">Intégrez ce script dans la balise &lt;head&gt; de votre page pour que Google puisse afficher des résultats enrichis.</p>
                 </div>
             )}
-            <StickyFooter
-                creditCost={creditCost}
-                buttonText="Lancer l'Analyse"
-                onButtonClick={handleAnalysis}
-                isButtonDisabled={isAnalysisDisabled}
-                buttonLoadingText="Analyse en cours..."
-            />
+            {isSaveModalOpen && content && documentSubject && (
+                <SaveResultModal
+                    tool="faq-generator"
+                    urls={/^https?:\/\//.test(documentSubject) ? [documentSubject] : []}
+                    results={{ subject: documentSubject, html: content.html, jsonLd: content.jsonLd }}
+                    defaultName={`FAQ - ${documentSubject}`}
+                    defaultProjectId={projectId}
+                    onSaved={(saved) => { setIsSaveModalOpen(false); setSavedMessage(`FAQ sauvegardée dans les archives sous « ${saved.name} ».`); }}
+                    onClose={() => setIsSaveModalOpen(false)}
+                />
+            )}
         </div>
     );
 };
 
-// --- PRODUCT PAGE ANALYSIS PAGE ---
-interface ProductPageAnalysisPageProps {
-    ai: GoogleGenAI;
+// --- SUMMARY TABLE GENERATOR PAGE ---
+interface SummaryTableGeneratorPageProps extends CurrentProjectProps {
+    ai: AiProxyClient;
+    spendCredits: SpendCredits;
+    author: ReviewAuthor;
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+    savedResult?: SavedAnalysis<'summary-table-generator'>;
 }
 
-const ProductPageAnalysisPage: React.FC<ProductPageAnalysisPageProps> = ({ ai }) => {
-    const [productUrl, setProductUrl] = useState('');
+const LOCAL_STORAGE_LAST_SUMMARY_TABLE_DOCUMENT = 'semanticAppLastSummaryTableDocument';
+
+const SummaryTableGeneratorPage: React.FC<SummaryTableGeneratorPageProps> = ({ ai, spendCredits, author, userPlan, onUpgradeRequired, savedResult, currentProject }) => {
+    const [externalUrl, setExternalUrl] = useState('');
+    const projectId = currentProject?.id;
+    const promptTemplate = usePromptTemplates(projectId);
+    const prompt = renderPrompt(promptTemplate('summaryTable'), { url: externalUrl });
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [results, setResults] = useState<any | null>(null);
-    const [editableMetaTitle, setEditableMetaTitle] = useState('');
+    const [documentUrl, setDocumentUrl] = useState<string | null>(() => loadFromLocalStorage<string | null>(LOCAL_STORAGE_LAST_SUMMARY_TABLE_DOCUMENT, null));
+    const documentKey = documentUrl ? revisionDocumentKey('summary-table', documentUrl) : null;
+    const history = useContentRevisions(documentKey);
+    const [content, setContent] = useState<RevisionContent | null>(null);
+    const [draft, setDraft] = useState<string | null>(null);
+    const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+    const generatedTableHtml = content?.html || null;
+    const generatedJsonLd = content?.jsonLd || null;
+    const jsonLdValidation = React.useMemo(() => (generatedJsonLd ? validateJsonLd(generatedJsonLd, 'Article') : null), [generatedJsonLd]);
+    const latestRevision = history.revisions[history.revisions.length - 1];
 
+    // Coming back to the page shows the latest version of the last table.
     useEffect(() => {
-        if (results?.optimizationSuggestions?.metaTitle?.suggested) {
-            setEditableMetaTitle(results.optimizationSuggestions.metaTitle.suggested);
-        } else {
-            setEditableMetaTitle('');
-        }
-    }, [results]);
+        if (latestRevision) setContent(current => current ?? { html: latestRevision.html, jsonLd: latestRevision.jsonLd });
+    }, [latestRevision]);
 
-    const handleAnalysis = useCallback(async () => {
-        if (!productUrl.trim() || !productUrl.startsWith('http')) {
-            setError("Veuillez entrer une URL de fiche produit valide.");
+    useEffect(() => {
+        if (!savedResult) return;
+        const { subject, html, jsonLd } = savedResult.results;
+        setExternalUrl(subject);
+        setContent({ html, jsonLd });
+        setDraft(null);
+        setError(null);
+        setDocumentUrl(subject);
+        saveToLocalStorage(LOCAL_STORAGE_LAST_SUMMARY_TABLE_DOCUMENT, subject);
+    }, [savedResult]);
+
+    const saveRevision = useCallback((next: RevisionContent, source: RevisionSource, restoredFrom?: number) => {
+        if (!documentUrl || !documentKey) return;
+        setContent(next);
+        history.record({ documentKey, kind: 'summary-table', title: documentUrl, ...next, source, restoredFrom, author, projectId });
+    }, [documentUrl, documentKey, history.record, author, projectId]);
+
+    const handleGenerate = useCallback(async () => {
+        if (!externalUrl.trim()) {
+            setError("Veuillez entrer une URL valide.");
+            return;
+        }
+        try {
+            new URL(externalUrl);
+        } catch (_) {
+            setError("Le format de l'URL est invalide.");
             return;
         }
+
         setLoading(true);
         setError(null);
-        setResults(null);
+        setContent(null);
+        setDraft(null);
+        setSavedMessage(null);
 
         try {
-            const prompt = `
-                En tant qu'expert en e-commerce, SEO et UX, analyse en profondeur la fiche produit à l'URL suivante : ${productUrl}.
-                Base ton évaluation sur les meilleures pratiques de l'industrie, en t'inspirant notamment des recommandations de Google (https://developers.google.com/search/docs/specialty/ecommerce?hl=fr) et de Microsoft Bing.
-
-                Ta réponse DOIT être un objet JSON valide et rien d'autre, sans démarqueurs de code markdown comme \`\`\`json. La structure doit être :
-                {
-                  "analysis": {
-                    "pageStructure": { "strengths": ["..."], "weaknesses": ["..."] },
-                    "designUI": { "strengths": ["..."], "weaknesses": ["..."] },
-                    "content": {
-                        "wordCount": "Environ X mots",
-                        "densityAndNature": "Analyse de la densité sémantique...",
-                        "strengths": ["..."],
-                        "weaknesses": ["..."]
-                    },
-                    "seo": {
-                      "strengths": ["Point fort SEO (ex: 'Bonne utilisation des données structurées Product')..."],
-                      "weaknesses": ["Point faible SEO (ex: 'Aucun identifiant GTIN trouvé')..."]
-                    },
-                    "internalLinking": { "strengths": ["..."], "weaknesses": ["..."] },
-                    "cro": { "strengths": ["..."], "weaknesses": ["..."] }
-                  },
-                  "summary": { "advantages": ["..."], "disadvantages": ["..."] },
-                  "optimizationSuggestions": {
-                    "metaTitle": {
-                      "current": "Le titre meta actuel.",
-                      "suggested": "Une suggestion de titre meta optimisé (environ 60 caractères).",
-                      "reasoning": "Explication des améliorations."
-                    },
-                    "metaDescription": {
-                      "current": "La meta description actuelle.",
-                      "suggested": "Une suggestion de meta description optimisée (environ 155 caractères).",
-                      "reasoning": "Explication des améliorations."
-                    }
-                  }
-                }
-            `;
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { tools: [{ googleSearch: {} }] },
-            });
-
-            const parsedJson = extractJsonFromResponse(response.text);
-            setResults(parsedJson);
+            
+            const creditRequest: CreditRequest = {
+                amount: CREDIT_COSTS.summaryTable,
+                label: `Tableau récapitulatif : ${externalUrl}`,
+                page: 'summary-table-generator',
+                projectId,
+            };
+            const parsedResponse: SummaryTableResult = await spendCredits(creditRequest, () => ai.generateStructured({
+                template: 'summaryTable',
+                variables: { url: externalUrl },
+                projectId,
+            }));
+            const url = externalUrl.trim();
+            const generated: RevisionContent = { html: parsedResponse.tableHtml, jsonLd: parsedResponse.jsonLd };
+            setContent(generated);
+            await history.record({ documentKey: revisionDocumentKey('summary-table', url), kind: 'summary-table', title: url, ...generated, source: 'generation', author, projectId });
+            setDocumentUrl(url);
+            saveToLocalStorage(LOCAL_STORAGE_LAST_SUMMARY_TABLE_DOCUMENT, url);
 
         } catch (e: any) {
-            setError(`Une erreur est survenue lors de l'analyse. L'IA a peut-être eu du mal à structurer sa réponse. Veuillez réessayer. Détails: ${e.message}`);
+            setError(`Une erreur est survenue: ${e.message}`);
         } finally {
             setLoading(false);
         }
-    }, [ai.models, productUrl]);
+    }, [ai, spendCredits, externalUrl, history.record, author, projectId]);
+    
+    const isButtonDisabled = loading || !externalUrl.trim();
 
     return (
-        <div className="page-with-sticky-footer">
+        <div>
             <div className="page-header-actions">
                 <div>
-                    <h2 className="content-title">Analyse de Fiche Produit Concurrent</h2>
-                    <p className="content-subtitle">Auditez une fiche produit spécifique pour identifier ses forces et faiblesses.</p>
+                    <h2 className="content-title">Générer un Tableau Récapitulatif</h2>
+                    <p className="content-subtitle">Créez un tableau de synthèse à partir d'une URL externe.</p>
                 </div>
             </div>
+
             <div className="content-card">
-                <div className="form-group">
-                    <label htmlFor="product-url-analysis" className="form-label">URL de la fiche produit concurrente</label>
-                    <input
-                        id="product-url-analysis"
-                        type="url"
-                        className="form-input"
-                        value={productUrl}
-                        onChange={(e) => setProductUrl(e.target.value)}
-                        placeholder="https://www.site-concurrent.com/produit-exemple"
-                        disabled={loading}
-                    />
+                <div className="method-content">
+                    <div className="form-group">
+                        <label htmlFor="url-input" className="form-label">Entrer l'URL de la page à analyser</label>
+                        <input id="url-input" type="text" className="form-input" value={externalUrl} onChange={e => setExternalUrl(e.target.value)} placeholder="https://www.exemple.com/article" disabled={loading} />
+                    </div>
                 </div>
+                {!isButtonDisabled && <PromptPreview prompt={prompt} />}
+
+                 <button className="submit-button" onClick={handleGenerate} disabled={isButtonDisabled}>
+                    {loading ? <><span className="spinner"></span> Génération en cours...</> : "Générer le Tableau"}
+                </button>
+                 <p className="credit-cost-text">Coût de la génération : {CREDIT_COSTS.summaryTable} crédits</p>
             </div>
 
             {error && <div className="error-message" role="alert">{error}</div>}
-            
-            {loading && (
-                <div className="content-card loader-container" style={{ textAlign: 'center', marginTop: '24px' }}>
-                    <div className="spinner" style={{ width: '3rem', height: '3rem', borderWidth: '4px', margin: '0 auto 16px', borderTopColor: 'var(--primary-blue)' }}></div>
-                    <p className="content-subtitle">Analyse de la fiche produit... Ce processus peut prendre un moment.</p>
-                </div>
-            )}
 
-            {results && (
-                <div className="content-card" style={{marginTop: "24px"}}>
-                    <h3 className="output-label">Résultats de l'Analyse</h3>
-                    <div className="product-analysis-grid">
-                        <div className="analysis-result-card">
-                            <h3 className="card-title-small">Structure de la Page</h3>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.pageStructure?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.pageStructure?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                        <div className="analysis-result-card">
-                            <h3 className="card-title-small">Design & UI</h3>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.designUI?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.designUI?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                        <div className="analysis-result-card">
-                            <h3 className="card-title-small">Analyse du Contenu</h3>
-                            <div className="content-analysis-details">
-                                <p><strong>Nombre de mots :</strong> {results.analysis?.content?.wordCount}</p>
-                                <p><strong>Densité & Nature :</strong> {results.analysis?.content?.densityAndNature}</p>
+            {generatedTableHtml && (
+                <div className="content-card" style={{marginTop: '24px'}}>
+                     <div className="revision-card-header">
+                        <h3 className="output-label">Tableau Généré{documentUrl ? ` : ${documentUrl}` : ''}</h3>
+                        {draft === null && (
+                            <div className="results-header-actions">
+                                <button className="button-secondary" onClick={() => setDraft(generatedTableHtml)}>Modifier</button>
+                                {documentUrl && <button className="button-secondary" onClick={() => setIsSaveModalOpen(true)}>Sauvegarder</button>}
                             </div>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.content?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.content?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                        <div className="analysis-result-card">
-                            <h3 className="card-title-small">Analyse SEO & Référencement</h3>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.seo?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.seo?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                         <div className="analysis-result-card">
-                            <h3 className="card-title-small">Maillage Interne</h3>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.internalLinking?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.internalLinking?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                         <div className="analysis-result-card">
-                            <h3 className="card-title-small">Optimisation de la Conversion (CRO)</h3>
-                            <h4>Points Forts</h4>
-                            <ul>{results.analysis?.cro?.strengths?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Points Faibles</h4>
-                            <ul>{results.analysis?.cro?.weaknesses?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                         <div className="analysis-result-card">
-                            <h3 className="card-title-small">Synthèse</h3>
-                             <h4>Avantages Clés</h4>
-                            <ul>{results.summary?.advantages?.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            <h4>Inconvénients Majeurs</h4>
-                            <ul>{results.summary?.disadvantages?.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                        </div>
-                    </div>
-
-                    {results.optimizationSuggestions && (
-                        <div className="meta-suggestions-section">
-                            <h3 className="card-title-small" style={{borderBottom: 'none', marginBottom: '24px'}}>Suggestions d'Optimisation Meta</h3>
-                            <div className="suggestion-grid">
-                                <div className="suggestion-item">
-                                    <h4>Meta Titre</h4>
-                                    <p className="current-meta"><strong>Actuel :</strong> {results.optimizationSuggestions.metaTitle.current}</p>
-                                    <div className="editable-meta-container">
-                                        <label htmlFor="suggested-meta-title-input" className="form-label">Suggéré (modifiable)</label>
-                                        <div style={{ position: 'relative' }}>
-                                            <input
-                                                id="suggested-meta-title-input"
-                                                type="text"
-                                                className="form-input suggested-meta-input"
-                                                value={editableMetaTitle}
-                                                onChange={(e) => setEditableMetaTitle(e.target.value)}
-                                            />
-                                            <span className={`char-counter ${editableMetaTitle.length > 60 ? 'limit-exceeded' : ''}`}>
-                                                {editableMetaTitle.length} / 60
-                                            </span>
-                                        </div>
-                                    </div>
-                                    <p className="reasoning">{results.optimizationSuggestions.metaTitle.reasoning}</p>
-                                </div>
-                                <div className="suggestion-item">
-                                    <h4>Meta Description</h4>
-                                    <p className="current-meta"><strong>Actuel :</strong> {results.optimizationSuggestions.metaDescription.current}</p>
-                                    <p className="suggested-meta"><strong>Suggéré :</strong> {results.optimizationSuggestions.metaDescription.suggested}</p>
-                                    <p className="reasoning">{results.optimizationSuggestions.metaDescription.reasoning}</p>
-                                </div>
+                        )}
+                     </div>
+                     {savedMessage && <div className="success-message">{savedMessage}</div>}
+                     {draft !== null ? (
+                        <>
+                            <RichTextEditor id="summary-table-editor" value={draft} onChange={setDraft} />
+                            <div className="redaction-job-actions">
+                                <button className="submit-button" onClick={() => { saveRevision({ html: draft, jsonLd: content?.jsonLd }, 'edit'); setDraft(null); }} disabled={draft === generatedTableHtml || !draft.trim()}>Enregistrer</button>
+                                <button className="button-link" onClick={() => setDraft(null)}>Annuler</button>
                             </div>
-                        </div>
-                    )}
-
+                        </>
+                     ) : (
+                        <div className="generated-summary-table" dangerouslySetInnerHTML={{ __html: generatedTableHtml }}></div>
+                     )}
+                     <RevisionHistoryPanel
+                        history={history}
+                        currentHtml={generatedTableHtml}
+                        onRestore={(revision) => saveRevision({ html: revision.html, jsonLd: revision.jsonLd ?? content?.jsonLd }, 'restore', revision.version)}
+                        upgradeReason={checkFeatureAccess(userPlan, 'revision-history')}
+                        onUpgradeRequired={onUpgradeRequired}
+                     />
                 </div>
             )}
-
-            <StickyFooter
-                creditCost={30}
-                buttonText="Lancer l'Analyse"
-                onButtonClick={handleAnalysis}
-                isButtonDisabled={loading || !productUrl.trim()}
-                buttonLoadingText="Analyse en cours..."
-            />
-
-        </div>
-    );
-};
-
-
-// --- CRO OPTIMIZATION PAGE ---
-interface CroOptimizationPageProps {
-    ai: GoogleGenAI;
-}
-
-interface CroResult {
-    url: string;
-    data: any; // The JSON response from the API
-}
-
-const CroAuditDetail: React.FC<{ auditData: any }> = ({ auditData }) => {
-    if (!auditData || !auditData.detailedAudit) {
-        return <p>Données d'audit détaillées non disponibles.</p>;
-    }
-
-    const auditCategories = [
-        { key: 'valueProposition', title: 'Proposition de Valeur & Clarté' },
-        { key: 'visualsAndMedia', title: 'Visuels & Médias' },
-        { key: 'productDescription', title: 'Description & Contenu' },
-        { key: 'callToAction', title: 'Appel à l\'Action (CTA)' },
-        { key: 'trustAndReassurance', title: 'Confiance & Réassurance' },
-    ];
-
-    return (
-        <div className="product-analysis-grid" style={{ marginTop: '24px' }}>
-            {auditCategories.map(category => {
-                const data = auditData.detailedAudit[category.key];
-                if (!data) return null;
-
-                return (
-                    <div key={category.key} className="analysis-result-card">
-                        <div className="cro-card-header">
-                           <h3 className="card-title-small">{category.title}</h3>
-                           <div className="cro-card-score">{data.score}</div>
-                        </div>
-                        
-                        {data.strengths?.length > 0 && (
-                            <>
-                                <h4>Points Forts</h4>
-                                <ul>{data.strengths.map((item: string, i: number) => <li key={i} className="strength">{item}</li>)}</ul>
-                            </>
-                        )}
-                        {data.weaknesses?.length > 0 && (
-                             <>
-                                <h4>Points Faibles</h4>
-                                <ul>{data.weaknesses.map((item: string, i: number) => <li key={i} className="weakness">{item}</li>)}</ul>
-                            </>
-                        )}
-                        {data.recommendations?.length > 0 && (
-                             <>
-                                <h4>Recommandations</h4>
-                                <ul className="recommendation-list-items">{data.recommendations.map((item: string, i: number) => <li key={i}>{item}</li>)}</ul>
-                            </>
-                        )}
+            {generatedJsonLd && jsonLdValidation && (
+                <div className="content-card" style={{marginTop: '24px'}}>
+                    <h3 className="output-label">JSON-LD pour Rich Results (Article)</h3>
+                    <JsonLdValidationReport validation={jsonLdValidation} />
+                    <div className="code-block-container">
+                        <pre className="code-block"><code>{formatJsonLd(generatedJsonLd, jsonLdValidation)}</code></pre>
+                         <button onClick={(e) => handleCopy(formatJsonLd(generatedJsonLd, jsonLdValidation), e)} className="copy-code-button" disabled={!jsonLdValidation.valid}>Copier</button>
                     </div>
-                );
-            })}
-        </div>
-    );
-};
-
-
-const CroOptimizationPage: React.FC<CroOptimizationPageProps> = ({ ai }) => {
-    const [productUrlsInput, setProductUrlsInput] = useState('');
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [results, setResults] = useState<CroResult[]>([]);
-    const [generationProgress, setGenerationProgress] = useState('');
-
-    const urlsToAnalyze = productUrlsInput.split('\n').map(url => url.trim()).filter(url => url.length > 0 && url.startsWith('http'));
-    const creditCost = urlsToAnalyze.length * 40;
-
-    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const text = event.target?.result as string;
-                const urls = text.split(/[\r\n]+/).map(line => line.split(',')[0].trim()).filter(Boolean);
-                setProductUrlsInput(urls.join('\n'));
-            };
-            reader.readAsText(file);
-             e.target.value = ''; // Reset file input
-        }
-    }, []);
-
-    const handleExport = useCallback(() => {
-        if (results.length === 0) return;
-
-        const escapeCsv = (field: string | number | undefined) => `"${(field?.toString() || '').replace(/"/g, '""')}"`;
-        const headers = ["URL", "Overall Score", "Summary", "Audit Category", "Category Score", "Strengths", "Weaknesses", "Recommendations"];
-        
-        let csvContent = headers.join(',') + '\r\n';
-
-        results.forEach(result => {
-            const { url, data } = result;
-            if (data && data.detailedAudit) {
-                const auditCategories = [
-                    { key: 'valueProposition', title: 'Proposition de Valeur & Clarté' },
-                    { key: 'visualsAndMedia', title: 'Visuels & Médias' },
-                    { key: 'productDescription', title: 'Description & Contenu' },
-                    { key: 'callToAction', title: 'Appel à l\'Action (CTA)' },
-                    { key: 'trustAndReassurance', title: 'Confiance & Réassurance' },
-                ];
-
-                auditCategories.forEach(category => {
-                    const auditItem = data.detailedAudit[category.key];
-                    if (auditItem) {
-                        const row = [
-                            escapeCsv(url),
-                            escapeCsv(data.overallScore),
-                            escapeCsv(data.summary),
-                            escapeCsv(category.title),
-                            escapeCsv(auditItem.score),
-                            escapeCsv(auditItem.strengths?.join('\n')),
-                            escapeCsv(auditItem.weaknesses?.join('\n')),
-                            escapeCsv(auditItem.recommendations?.join('\n'))
-                        ];
-                        csvContent += row.join(',') + '\r\n';
-                    }
-                });
-            } else {
-                 const row = [
-                    escapeCsv(url),
-                    escapeCsv(data?.overallScore),
-                    escapeCsv(data?.summary || 'No detailed audit available.'),
-                    "", "", "", "", ""
-                ];
-                csvContent += row.join(',') + '\r\n';
-            }
-        });
-        
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement("a");
-        const blobUrl = URL.createObjectURL(blob);
-        link.setAttribute("href", blobUrl);
-        link.setAttribute("download", "cro_audit_export_detailed.csv");
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    }, [results]);
+                    <p className="form-helper-text">Intégrez ce script dans la balise &lt;head&gt; de votre page pour que Google puisse afficher des résultats enrichis.</p>
+                </div>
+            )}
+            {isSaveModalOpen && content && documentUrl && (
+                <SaveResultModal
+                    tool="summary-table-generator"
+                    urls={[documentUrl]}
+                    results={{ subject: documentUrl, html: content.html, jsonLd: content.jsonLd }}
+                    defaultName={`Tableau - ${documentUrl}`}
+                    defaultProjectId={projectId}
+                    onSaved={(saved) => { setIsSaveModalOpen(false); setSavedMessage(`Tableau sauvegardé dans les archives sous « ${saved.name} ».`); }}
+                    onClose={() => setIsSaveModalOpen(false)}
+                />
+            )}
+        </div>
+    );
+};
 
-    const handleAnalysis = useCallback(async () => {
-        if (urlsToAnalyze.length === 0) {
-            setError("Veuillez entrer au moins une URL de fiche produit valide.");
-            return;
-        }
-        setLoading(true);
-        setError(null);
-        setResults([]);
-        const currentResults: CroResult[] = [];
+// --- RESULTS ARCHIVE PAGE ---
+interface ResultsArchivePageProps extends Pick<CurrentProjectProps, 'currentProject'> {
+    onOpen: (result: SavedAnalysis) => void; // Shows the result again on its tool's page.
+}
 
-        try {
-            const promptTemplate = `
-                En tant qu'expert en CRO (Conversion Rate Optimization) spécialisé en e-commerce, audite la fiche produit à l'URL suivante: %%URL%%.
-                Fournis une analyse approfondie et structurée. Ta réponse DOIT être un objet JSON valide et rien d'autre.
-                L'objet JSON doit avoir la structure suivante :
-                {
-                  "overallScore": "Un score global de 1 à 10, basé sur le potentiel de conversion de la page.",
-                  "summary": "Un résumé concis des 2-3 points les plus critiques à améliorer pour augmenter les conversions.",
-                  "detailedAudit": {
-                    "valueProposition": {
-                      "score": "Score de 1 à 10",
-                      "strengths": ["Liste des points forts, ex: Titre clair et orienté bénéfice."],
-                      "weaknesses": ["Liste des points faibles, ex: Les bénéfices clés ne sont pas visibles au-dessus de la ligne de flottaison."],
-                      "recommendations": ["Liste des actions concrètes à mettre en place."]
-                    },
-                    "visualsAndMedia": {
-                      "score": "Score de 1 à 10",
-                      "strengths": ["ex: Images haute résolution, zoom fonctionnel."],
-                      "weaknesses": ["ex: Manque de vidéo produit, pas d'images en contexte."],
-                      "recommendations": ["ex: Ajouter une vidéo de démonstration de 30 secondes."]
-                    },
-                    "productDescription": {
-                      "score": "Score de 1 à 10",
-                      "strengths": ["ex: Texte facile à lire, utilise des listes à puces."],
-                      "weaknesses": ["ex: Le ton n'est pas assez persuasif."],
-                      "recommendations": ["ex: Réécrire le premier paragraphe pour créer un lien émotionnel."]
-                    },
-                    "callToAction": {
-                      "score": "Score de 1 à 10",
-                      "strengths": ["ex: Couleur contrastante, texte clair."],
-                      "weaknesses": ["ex: Le bouton est placé trop bas sur la page mobile."],
-                      "recommendations": ["ex: Rendre le bouton d'ajout au panier 'sticky' sur mobile."]
-                    },
-                    "trustAndReassurance": {
-                      "score": "Score de 1 à 10",
-                      "strengths": ["ex: Avis clients visibles."],
-                      "weaknesses": ["ex: Manque de badges de sécurité, politique de retour peu claire."],
-                      "recommendations": ["ex: Afficher les logos des modes de paiement et un badge SSL près du CTA."]
-                    }
-                  }
-                }
-            `;
+interface SavedResultFilters {
+    search: string;
+    tool: SavedResultTool | '';
+    projectId: string; // '' for every project, 'none' for results saved without one.
+    dateFrom: string;
+    dateTo: string;
+}
 
-            for (let i = 0; i < urlsToAnalyze.length; i++) {
-                const url = urlsToAnalyze[i];
-                setGenerationProgress(`Analyse ${i + 1}/${urlsToAnalyze.length} : ${url}`);
-                const prompt = promptTemplate.replace('%%URL%%', url);
-                
-                try {
-                     const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash',
-                        contents: prompt,
-                        config: { tools: [{ googleSearch: {} }] },
-                    });
-                    
-                    const parsedJson = extractJsonFromResponse(response.text);
-                    currentResults.push({ url, data: parsedJson });
-                    setResults([...currentResults]);
-                } catch (e: any) {
-                    currentResults.push({ url, data: { error: true, summary: `Analyse échouée: ${e.message}`, overallScore: 'Erreur' }});
-                    setResults([...currentResults]);
-                }
-            }
+const emptySavedResultFilters: SavedResultFilters = { search: '', tool: '', projectId: '', dateFrom: '', dateTo: '' };
+
+// Most recent first; the dates are days in the user's time zone, both ends included.
+const filterSavedResults = (items: SavedAnalysis[], filters: SavedResultFilters): SavedAnalysis[] => {
+    const search = filters.search.trim().toLowerCase();
+    const from = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : -Infinity;
+    const to = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : Infinity;
+    return items
+        .filter(item => !search || item.name.toLowerCase().includes(search) || item.urls.some(url => url.toLowerCase().includes(search)))
+        .filter(item => !filters.tool || item.tool === filters.tool)
+        .filter(item => !filters.projectId || (filters.projectId === 'none' ? !item.projectId : item.projectId === filters.projectId))
+        .filter(item => {
+            const time = new Date(item.date).getTime();
+            return time >= from && time <= to;
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+const ResultsArchivePage: React.FC<ResultsArchivePageProps> = ({ onOpen, currentProject }) => {
+    const [items, setItems] = useState<SavedAnalysis[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [filters, setFilters] = useState<SavedResultFilters>(() => ({ ...emptySavedResultFilters, projectId: currentProject?.id ?? '' }));
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const filtered = React.useMemo(() => filterSavedResults(items, filters), [items, filters]);
+    const projectNames = React.useMemo(() => new Map(projects.map(project => [project.id, project.name])), [projects]);
 
+    useEffect(() => {
+        Promise.all([repositories.analyses.list(), repositories.projects.list()])
+            .then(([savedItems, projectList]) => {
+                setItems(savedItems);
+                setProjects(projectList);
+            })
+            .catch(e => setError(`Impossible de charger les archives : ${e.message}`))
+            .finally(() => setLoading(false));
+    }, []);
+
+    const updateFilter = <K extends keyof SavedResultFilters>(key: K, value: SavedResultFilters[K]) => setFilters(prev => ({ ...prev, [key]: value }));
+
+    const handleRename = async () => {
+        const item = renaming && items.find(existing => existing.id === renaming.id);
+        if (!item || !renaming.name.trim()) return;
+        try {
+            const updated = await repositories.analyses.update({ ...item, name: renaming.name.trim() });
+            setItems(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+            setRenaming(null);
         } catch (e: any) {
-            setError(`Une erreur majeure est survenue pendant le processus de bulk. Détails: ${e.message}`);
-        } finally {
-            setLoading(false);
-            setGenerationProgress('');
+            setError(`Le renommage a échoué : ${e.message}`);
         }
-    }, [ai.models, urlsToAnalyze]);
-    
+    };
+
+    const handleDelete = async (item: SavedAnalysis) => {
+        if (!window.confirm(`Supprimer « ${item.name} » des archives ?`)) return;
+        try {
+            await repositories.analyses.remove(item.id);
+            setItems(prev => prev.filter(existing => existing.id !== item.id));
+        } catch (e: any) {
+            setError(`La suppression a échoué : ${e.message}`);
+        }
+    };
+
     return (
         <div>
             <div className="page-header-actions">
                 <div>
-                    <h2 className="content-title">Optimisation de la Conversion (CRO)</h2>
-                    <p className="content-subtitle">Recevez des recommandations d'experts pour améliorer vos fiches produits, en masse.</p>
+                    <h2 className="content-title">Archives des Résultats</h2>
+                    <p className="content-subtitle">Retrouvez les analyses, audits et contenus sauvegardés depuis chaque outil IA.</p>
                 </div>
             </div>
-             <div className="content-card">
-                <div className="form-group">
-                    <label htmlFor="product-urls-cro" className="form-label">URLs des fiches produits (1 par ligne)</label>
-                    <textarea 
-                        id="product-urls-cro" 
-                        className="form-textarea" 
-                        value={productUrlsInput} 
-                        onChange={(e) => setProductUrlsInput(e.target.value)} 
-                        placeholder="https://www.votresite.com/produit-1&#10;https://www.votresite.com/produit-2" 
-                        disabled={loading}
-                        style={{ minHeight: '150px' }}
-                    ></textarea>
-                    <label htmlFor="csv-upload-cro" className="button-secondary" style={{marginTop: '10px', display: 'inline-block'}}>
-                        <span>Ou charger un fichier CSV</span>
-                        <input type="file" id="csv-upload-cro" accept=".csv" onChange={handleFileChange} style={{display: 'none'}} />
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            <div className="content-card">
+                <div className="intention-filters">
+                    <input type="search" className="form-input" placeholder="Rechercher un nom ou une URL..." value={filters.search} onChange={(e) => updateFilter('search', e.target.value)} aria-label="Rechercher" />
+                    <select className="form-select" value={filters.tool} onChange={(e) => updateFilter('tool', e.target.value as SavedResultTool | '')} aria-label="Outil">
+                        <option value="">Tous les outils</option>
+                        {(Object.keys(savedResultToolLabels) as SavedResultTool[]).map(tool => <option key={tool} value={tool}>{savedResultToolLabels[tool]}</option>)}
+                    </select>
+                    <select className="form-select" value={filters.projectId} onChange={(e) => updateFilter('projectId', e.target.value)} aria-label="Projet">
+                        <option value="">Tous les projets</option>
+                        <option value="none">Sans projet</option>
+                        {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+                    </select>
+                    <label className="intention-filter-toggle">
+                        Du
+                        <input type="date" className="form-input" value={filters.dateFrom} onChange={(e) => updateFilter('dateFrom', e.target.value)} />
+                    </label>
+                    <label className="intention-filter-toggle">
+                        au
+                        <input type="date" className="form-input" value={filters.dateTo} onChange={(e) => updateFilter('dateTo', e.target.value)} />
                     </label>
+                    <button className="button-link" onClick={() => setFilters(emptySavedResultFilters)}>Réinitialiser</button>
                 </div>
-                 <button onClick={handleAnalysis} className="submit-button" disabled={loading || urlsToAnalyze.length === 0}>
-                    {loading ? <><span className="spinner"></span> Audit en cours...</> : `Lancer l'audit (${urlsToAnalyze.length} URLs)`}
-                </button>
-                 <p className="credit-cost-text">Coût total estimé : {creditCost} crédits</p>
-                 {loading && <p className="generation-progress" style={{textAlign: 'center', marginTop: '12px'}}>{generationProgress}</p>}
-            </div>
-            
-            {error && <div className="error-message" role="alert">{error}</div>}
-            
-            {results.length > 0 && (
-                <div className="cro-results-container">
-                    <div className="page-header-actions" style={{marginBottom: 0}}>
-                        <h3 className="output-label" style={{border: 'none', padding: 0, margin: 0}}>Résultats de l'Audit ({results.length} / {urlsToAnalyze.length} terminées)</h3>
-                        <button className="submit-button" onClick={handleExport}>
-                            Exporter en CSV
-                        </button>
-                    </div>
-                    
-                    {results.map((result, index) => (
-                        <div key={index} className="content-card cro-result-item">
-                            <details open>
-                                <summary className="cro-result-summary-header">
-                                    <div className="cro-summary-url">
-                                        <a href={result.url} target="_blank" rel="noopener noreferrer" title={result.url}>{result.url}</a>
-                                    </div>
-                                    <div className="cro-summary-score">
-                                        <strong>Score Global :</strong> {result.data.error ? <span style={{ color: 'var(--error-text)'}}>Erreur</span> : `${result.data.overallScore || 'N/A'}`}
-                                    </div>
-                                </summary>
-                                <div className="cro-result-details">
-                                     <p className="cro-result-main-summary">
-                                        <strong>Résumé de l'audit :</strong> {result.data.summary}
-                                     </p>
-                                     {result.data.error ? 
-                                        <p style={{ color: 'var(--error-text)'}}>L'analyse détaillée n'a pas pu être générée.</p> 
-                                        : <CroAuditDetail auditData={result.data} />
-                                     }
-                                </div>
-                            </details>
+
+                {loading ? (
+                    <p><span className="spinner"></span> Chargement des archives...</p>
+                ) : items.length === 0 ? (
+                    <p className="empty-state-text small">Aucun résultat sauvegardé pour le moment. Utilisez le bouton « Sauvegarder » d'un outil IA après une analyse ou une génération.</p>
+                ) : (
+                    <>
+                        <p className="form-helper-text">{filtered.length} résultat(s) sur {items.length}.</p>
+                        <div className="table-responsive">
+                            <table className="data-table results-archive-table">
+                                <thead>
+                                    <tr>
+                                        <th>Nom</th>
+                                        <th>Outil</th>
+                                        <th>Projet</th>
+                                        <th>Date</th>
+                                        <th>URLs</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {filtered.map(item => (
+                                        <tr key={item.id}>
+                                            <td>
+                                                {renaming?.id === item.id ? (
+                                                    <div className="input-with-button">
+                                                        <input
+                                                            type="text"
+                                                            className="form-input"
+                                                            value={renaming.name}
+                                                            onChange={(e) => setRenaming({ id: item.id, name: e.target.value })}
+                                                            onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setRenaming(null); }}
+                                                            aria-label="Nouveau nom"
+                                                            autoFocus
+                                                        />
+                                                        <button className="button-secondary" onClick={handleRename} disabled={!renaming.name.trim()}>OK</button>
+                                                    </div>
+                                                ) : (
+                                                    <strong>{item.name}</strong>
+                                                )}
+                                            </td>
+                                            <td><span className="results-archive-tool">{savedResultToolLabels[item.tool]}</span></td>
+                                            <td>{item.projectId ? projectNames.get(item.projectId) ?? 'Projet supprimé' : '—'}</td>
+                                            <td>{new Date(item.date).toLocaleDateString('fr-FR')}</td>
+                                            <td className="results-archive-urls" title={item.urls.join('\n')}>
+                                                {item.urls.length === 0 ? '—' : item.urls.length === 1 ? item.urls[0] : `${item.urls[0]} (+${item.urls.length - 1})`}
+                                            </td>
+                                            <td className="results-archive-actions">
+                                                <button className="button-secondary" onClick={() => onOpen(item)}>Ouvrir</button>
+                                                <button className="button-link" onClick={() => setRenaming({ id: item.id, name: item.name })}>Renommer</button>
+                                                <button className="button-link-delete" onClick={() => handleDelete(item)}>Supprimer</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
                         </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- STRUCTURED DATA BUILDER PAGE ---
+const returnPolicyCategoryLabels: Record<string, string> = {
+    MerchantReturnFiniteReturnWindow: 'Retours acceptés pendant un délai limité',
+    MerchantReturnUnlimitedWindow: 'Retours acceptés sans limite de délai',
+    MerchantReturnNotPermitted: 'Retours non acceptés',
+};
+const returnMethodLabels: Record<string, string> = {
+    ReturnByMail: 'Par courrier',
+    ReturnInStore: 'En magasin',
+    ReturnAtKiosk: 'En borne / point relais',
+};
+const returnFeesLabels: Record<string, string> = {
+    FreeReturn: 'Retour gratuit',
+    ReturnShippingFees: 'Frais de retour fixes',
+    ReturnFeesCustomerResponsibility: 'À la charge du client',
+};
+const availabilityLabels: Record<string, string> = {
+    InStock: 'En stock',
+    OutOfStock: 'Rupture de stock',
+    PreOrder: 'Précommande',
+    BackOrder: 'En réapprovisionnement',
+    Discontinued: 'Arrêté',
+};
+
+interface StructuredDataFieldsProps<T> {
+    value: T;
+    onChange: (patch: Partial<T>) => void;
+}
+
+const BreadcrumbFields: React.FC<StructuredDataFieldsProps<BreadcrumbForm>> = ({ value, onChange }) => {
+    const updateItem = (index: number, patch: Partial<BreadcrumbForm['items'][number]>) =>
+        onChange({ items: value.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+    const moveItem = (index: number, offset: number) => {
+        const items = [...value.items];
+        [items[index], items[index + offset]] = [items[index + offset], items[index]];
+        onChange({ items });
+    };
+    return (
+        <div className="form-group">
+            <label className="form-label">Niveaux du fil d'Ariane (de la page d'accueil à la page courante)</label>
+            {value.items.map((item, index) => (
+                <div key={index} className="structured-data-row">
+                    <span className="structured-data-position">{index + 1}</span>
+                    <input type="text" className="form-input" placeholder="Nom" value={item.name} onChange={(e) => updateItem(index, { name: e.target.value })} aria-label={`Nom du niveau ${index + 1}`} />
+                    <input type="text" className="form-input" placeholder={index === value.items.length - 1 ? 'URL (facultative pour la page courante)' : 'URL'} value={item.url} onChange={(e) => updateItem(index, { url: e.target.value })} aria-label={`URL du niveau ${index + 1}`} />
+                    <button className="button-link" onClick={() => moveItem(index, -1)} disabled={index === 0} aria-label="Monter">↑</button>
+                    <button className="button-link" onClick={() => moveItem(index, 1)} disabled={index === value.items.length - 1} aria-label="Descendre">↓</button>
+                    <button className="button-link-delete" onClick={() => onChange({ items: value.items.filter((_, i) => i !== index) })} disabled={value.items.length === 1}>Supprimer</button>
+                </div>
+            ))}
+            <button className="button-secondary" onClick={() => onChange({ items: [...value.items, { name: '', url: '' }] })}>Ajouter un niveau</button>
+        </div>
+    );
+};
+
+const OrganizationFields: React.FC<StructuredDataFieldsProps<OrganizationForm>> = ({ value, onChange }) => (
+    <>
+        <div className="structured-data-grid">
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-type">Type</label>
+                <select id="sd-org-type" className="form-select" value={value.type} onChange={(e) => onChange({ type: e.target.value as OrganizationForm['type'] })}>
+                    <option value="OnlineStore">Boutique en ligne (OnlineStore)</option>
+                    <option value="Organization">Organisation (Organization)</option>
+                </select>
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-name">Nom</label>
+                <input id="sd-org-name" type="text" className="form-input" value={value.name} onChange={(e) => onChange({ name: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-url">URL du site</label>
+                <input id="sd-org-url" type="text" className="form-input" placeholder="https://www.exemple.com" value={value.url} onChange={(e) => onChange({ url: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-logo">URL du logo</label>
+                <input id="sd-org-logo" type="text" className="form-input" value={value.logo} onChange={(e) => onChange({ logo: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-email">Email</label>
+                <input id="sd-org-email" type="email" className="form-input" value={value.email} onChange={(e) => onChange({ email: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-phone">Téléphone</label>
+                <input id="sd-org-phone" type="text" className="form-input" placeholder="+33 1 23 45 67 89" value={value.telephone} onChange={(e) => onChange({ telephone: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-street">Adresse</label>
+                <input id="sd-org-street" type="text" className="form-input" value={value.streetAddress} onChange={(e) => onChange({ streetAddress: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-postal">Code postal</label>
+                <input id="sd-org-postal" type="text" className="form-input" value={value.postalCode} onChange={(e) => onChange({ postalCode: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-city">Ville</label>
+                <input id="sd-org-city" type="text" className="form-input" value={value.addressLocality} onChange={(e) => onChange({ addressLocality: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-org-country">Pays (code ISO)</label>
+                <input id="sd-org-country" type="text" className="form-input" maxLength={2} value={value.addressCountry} onChange={(e) => onChange({ addressCountry: e.target.value })} />
+            </div>
+        </div>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-org-description">Description</label>
+            <textarea id="sd-org-description" className="form-textarea" rows={3} value={value.description} onChange={(e) => onChange({ description: e.target.value })} />
+        </div>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-org-sameas">Profils sociaux et pages officielles (1 URL par ligne)</label>
+            <textarea id="sd-org-sameas" className="form-textarea" rows={3} value={value.sameAs} onChange={(e) => onChange({ sameAs: e.target.value })} />
+        </div>
+        <label className="structured-data-toggle">
+            <input type="checkbox" checked={value.includeReturnPolicy} onChange={(e) => onChange({ includeReturnPolicy: e.target.checked })} />
+            Inclure la politique de retour de la boutique
+        </label>
+    </>
+);
+
+const ItemListFields: React.FC<StructuredDataFieldsProps<ItemListForm>> = ({ value, onChange }) => (
+    <>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-list-name">Nom de la catégorie</label>
+            <input id="sd-list-name" type="text" className="form-input" placeholder="Ex: Chaussures de running" value={value.name} onChange={(e) => onChange({ name: e.target.value })} />
+        </div>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-list-urls">URLs des fiches produits, dans l'ordre d'affichage de la catégorie (1 par ligne)</label>
+            <textarea id="sd-list-urls" className="form-textarea" rows={6} value={value.urls} onChange={(e) => onChange({ urls: e.target.value })} />
+        </div>
+    </>
+);
+
+const ProductGroupFields: React.FC<StructuredDataFieldsProps<ProductGroupForm>> = ({ value, onChange }) => {
+    const updateVariant = (index: number, patch: Partial<ProductVariantForm>) =>
+        onChange({ variants: value.variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)) });
+    const toggleVariesBy = (property: string) =>
+        onChange({ variesBy: value.variesBy.includes(property) ? value.variesBy.filter(p => p !== property) : [...value.variesBy, property] });
+    const variantOptions = PRODUCT_VARIES_BY_OPTIONS.filter(option => value.variesBy.includes(option.property));
+    return (
+        <>
+            <div className="structured-data-grid">
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-group-name">Nom du produit</label>
+                    <input id="sd-group-name" type="text" className="form-input" value={value.name} onChange={(e) => onChange({ name: e.target.value })} />
+                </div>
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-group-id">Identifiant du groupe (productGroupID)</label>
+                    <input id="sd-group-id" type="text" className="form-input" placeholder="Ex: SKU parent" value={value.productGroupID} onChange={(e) => onChange({ productGroupID: e.target.value })} />
+                </div>
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-group-url">URL de la fiche</label>
+                    <input id="sd-group-url" type="text" className="form-input" value={value.url} onChange={(e) => onChange({ url: e.target.value })} />
+                </div>
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-group-brand">Marque</label>
+                    <input id="sd-group-brand" type="text" className="form-input" value={value.brand} onChange={(e) => onChange({ brand: e.target.value })} />
+                </div>
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-group-currency">Devise</label>
+                    <input id="sd-group-currency" type="text" className="form-input" maxLength={3} value={value.currency} onChange={(e) => onChange({ currency: e.target.value })} />
+                </div>
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-group-description">Description</label>
+                <textarea id="sd-group-description" className="form-textarea" rows={3} value={value.description} onChange={(e) => onChange({ description: e.target.value })} />
+            </div>
+            <div className="form-group">
+                <span className="form-label">Les variantes diffèrent par</span>
+                <div className="structured-data-options">
+                    {PRODUCT_VARIES_BY_OPTIONS.map(option => (
+                        <label key={option.property} className="structured-data-toggle">
+                            <input type="checkbox" checked={value.variesBy.includes(option.property)} onChange={() => toggleVariesBy(option.property)} />
+                            {option.label}
+                        </label>
                     ))}
                 </div>
+            </div>
+            <div className="table-responsive">
+                <table className="data-table structured-data-variants">
+                    <thead>
+                        <tr>
+                            <th>Nom</th>
+                            <th>SKU</th>
+                            {variantOptions.map(option => <th key={option.property}>{option.label}</th>)}
+                            <th>Prix</th>
+                            <th>Disponibilité</th>
+                            <th>URL</th>
+                            <th>Image</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {value.variants.map((variant, index) => (
+                            <tr key={index}>
+                                <td><input type="text" className="form-input" value={variant.name} onChange={(e) => updateVariant(index, { name: e.target.value })} aria-label="Nom de la variante" /></td>
+                                <td><input type="text" className="form-input" value={variant.sku} onChange={(e) => updateVariant(index, { sku: e.target.value })} aria-label="SKU" /></td>
+                                {variantOptions.map(option => (
+                                    <td key={option.property}><input type="text" className="form-input" value={variant[option.property]} onChange={(e) => updateVariant(index, { [option.property]: e.target.value })} aria-label={option.label} /></td>
+                                ))}
+                                <td><input type="text" className="form-input" placeholder="39.90" value={variant.price} onChange={(e) => updateVariant(index, { price: e.target.value })} aria-label="Prix" /></td>
+                                <td>
+                                    <select className="form-select" value={variant.availability} onChange={(e) => updateVariant(index, { availability: e.target.value })} aria-label="Disponibilité">
+                                        {Object.entries(availabilityLabels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                                    </select>
+                                </td>
+                                <td><input type="text" className="form-input" value={variant.url} onChange={(e) => updateVariant(index, { url: e.target.value })} aria-label="URL de la variante" /></td>
+                                <td><input type="text" className="form-input" value={variant.image} onChange={(e) => updateVariant(index, { image: e.target.value })} aria-label="URL de l'image" /></td>
+                                <td><button className="button-link-delete" onClick={() => onChange({ variants: value.variants.filter((_, i) => i !== index) })} disabled={value.variants.length === 1}>Supprimer</button></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="structured-data-options">
+                <button className="button-secondary" onClick={() => onChange({ variants: [...value.variants, emptyProductVariant()] })}>Ajouter une variante</button>
+                <label className="structured-data-toggle">
+                    <input type="checkbox" checked={value.includeShipping} onChange={(e) => onChange({ includeShipping: e.target.checked })} />
+                    Inclure les conditions de livraison dans les offres
+                </label>
+                <label className="structured-data-toggle">
+                    <input type="checkbox" checked={value.includeReturnPolicy} onChange={(e) => onChange({ includeReturnPolicy: e.target.checked })} />
+                    Inclure la politique de retour dans les offres
+                </label>
+            </div>
+        </>
+    );
+};
+
+const ReturnPolicyFields: React.FC<StructuredDataFieldsProps<ReturnPolicyForm>> = ({ value, onChange }) => {
+    const acceptsReturns = value.returnPolicyCategory !== 'MerchantReturnNotPermitted';
+    return (
+        <div className="structured-data-grid">
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-return-category">Politique</label>
+                <select id="sd-return-category" className="form-select" value={value.returnPolicyCategory} onChange={(e) => onChange({ returnPolicyCategory: e.target.value })}>
+                    {Object.entries(returnPolicyCategoryLabels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+            </div>
+            <div className="form-group">
+                <label className="form-label" htmlFor="sd-return-country">Pays concerné (code ISO)</label>
+                <input id="sd-return-country" type="text" className="form-input" maxLength={2} value={value.applicableCountry} onChange={(e) => onChange({ applicableCountry: e.target.value })} />
+            </div>
+            {value.returnPolicyCategory === 'MerchantReturnFiniteReturnWindow' && (
+                <div className="form-group">
+                    <label className="form-label" htmlFor="sd-return-days">Délai de retour (jours)</label>
+                    <input id="sd-return-days" type="number" min={0} className="form-input" value={value.merchantReturnDays} onChange={(e) => onChange({ merchantReturnDays: e.target.value })} />
+                </div>
+            )}
+            {acceptsReturns && (
+                <>
+                    <div className="form-group">
+                        <label className="form-label" htmlFor="sd-return-method">Mode de retour</label>
+                        <select id="sd-return-method" className="form-select" value={value.returnMethod} onChange={(e) => onChange({ returnMethod: e.target.value })}>
+                            {Object.entries(returnMethodLabels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label" htmlFor="sd-return-fees">Frais de retour</label>
+                        <select id="sd-return-fees" className="form-select" value={value.returnFees} onChange={(e) => onChange({ returnFees: e.target.value })}>
+                            {Object.entries(returnFeesLabels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                    </div>
+                </>
+            )}
+            {acceptsReturns && value.returnFees === 'ReturnShippingFees' && (
+                <>
+                    <div className="form-group">
+                        <label className="form-label" htmlFor="sd-return-amount">Montant des frais</label>
+                        <input id="sd-return-amount" type="text" className="form-input" placeholder="4.90" value={value.returnShippingFeesAmount} onChange={(e) => onChange({ returnShippingFeesAmount: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label" htmlFor="sd-return-currency">Devise</label>
+                        <input id="sd-return-currency" type="text" className="form-input" maxLength={3} value={value.currency} onChange={(e) => onChange({ currency: e.target.value })} />
+                    </div>
+                </>
             )}
         </div>
     );
 };
 
-// --- FAQ GENERATOR PAGE ---
-interface FaqGeneratorPageProps {
-    ai: GoogleGenAI;
-}
-const FaqGeneratorPage: React.FC<FaqGeneratorPageProps> = ({ ai }) => {
-    const [method, setMethod] = useState<'topic' | 'url'>('topic');
-    const [topic, setTopic] = useState('');
-    const [externalUrl, setExternalUrl] = useState('');
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [faq, setFaq] = useState<{ question: string; answer: string; }[] | null>(null);
-    const [generatedJsonLd, setGeneratedJsonLd] = useState<string | null>(null);
+const ShippingFields: React.FC<StructuredDataFieldsProps<ShippingDetailsForm>> = ({ value, onChange }) => (
+    <div className="structured-data-grid">
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-shipping-rate">Frais de livraison (0 si gratuite)</label>
+            <input id="sd-shipping-rate" type="text" className="form-input" value={value.shippingRate} onChange={(e) => onChange({ shippingRate: e.target.value })} />
+        </div>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-shipping-currency">Devise</label>
+            <input id="sd-shipping-currency" type="text" className="form-input" maxLength={3} value={value.currency} onChange={(e) => onChange({ currency: e.target.value })} />
+        </div>
+        <div className="form-group">
+            <label className="form-label" htmlFor="sd-shipping-country">Pays de livraison (code ISO)</label>
+            <input id="sd-shipping-country" type="text" className="form-input" maxLength={2} value={value.addressCountry} onChange={(e) => onChange({ addressCountry: e.target.value })} />
+        </div>
+        <div className="form-group">
+            <label className="form-label">Préparation (jours min. / max.)</label>
+            <div className="structured-data-range">
+                <input type="number" min={0} className="form-input" value={value.handlingMin} onChange={(e) => onChange({ handlingMin: e.target.value })} aria-label="Préparation minimale" />
+                <input type="number" min={0} className="form-input" value={value.handlingMax} onChange={(e) => onChange({ handlingMax: e.target.value })} aria-label="Préparation maximale" />
+            </div>
+        </div>
+        <div className="form-group">
+            <label className="form-label">Acheminement (jours min. / max.)</label>
+            <div className="structured-data-range">
+                <input type="number" min={0} className="form-input" value={value.transitMin} onChange={(e) => onChange({ transitMin: e.target.value })} aria-label="Acheminement minimal" />
+                <input type="number" min={0} className="form-input" value={value.transitMax} onChange={(e) => onChange({ transitMax: e.target.value })} aria-label="Acheminement maximal" />
+            </div>
+        </div>
+    </div>
+);
 
-    const handleGenerateFaq = useCallback(async () => {
-        let prompt: string;
-        let config: any = {};
-        
-        const responseSchema = {
-            type: Type.OBJECT,
-            properties: {
-                faqItems: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            question: { type: Type.STRING },
-                            answer: { type: Type.STRING },
-                        },
-                        required: ["question", "answer"],
-                    }
-                },
-                jsonLd: {
-                    type: Type.STRING,
-                    description: 'A string containing the complete JSON-LD for an FAQPage.'
-                }
-            },
-            required: ["faqItems", "jsonLd"]
-        };
+const StructuredDataBuilderPage: React.FC<CurrentProjectProps> = ({ currentProject, onProjectChange }) => {
+    const [kind, setKind] = useState<StructuredDataKind>('BreadcrumbList');
+    const [forms, setForms] = useState<StructuredDataForms>(defaultStructuredDataForms);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const selectedProjectId = currentProject?.id ?? '';
+    const [existingMarkup, setExistingMarkup] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const selectedProject = projects.find(p => p.id === selectedProjectId);
 
-        if (method === 'topic') {
-            if (!topic.trim()) {
-                setError("Veuillez entrer un sujet pour générer la FAQ.");
-                return;
-            }
-            prompt = `Generate a list of 5 frequently asked questions (FAQ) about the topic "${topic}". For each question, provide a concise and helpful answer. Also generate a valid JSON-LD script for an FAQPage rich result based on these questions and answers. The response must be a valid JSON object.`;
-            config = {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema
-            };
-        } else { // method === 'url'
-            if (!externalUrl.trim()) {
-                setError("Veuillez entrer une URL valide.");
-                return;
-            }
-            try { new URL(externalUrl); } catch (_) {
-                setError("Le format de l'URL est invalide.");
-                return;
-            }
-            prompt = `Analyze the content of the page at the URL ${externalUrl}. Based on this content, generate a list of 5 frequently asked questions (FAQ) with concise and helpful answers. Also generate a valid JSON-LD script for an FAQPage rich result based on these questions and answers. The response must be a valid JSON object.`;
-            config = { 
-                tools: [{ googleSearch: {} }],
-                responseMimeType: "application/json",
-                responseSchema: responseSchema
-            };
-        }
+    useEffect(() => {
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setError(`Impossible de charger les projets : ${e.message}`));
+    }, []);
 
-        setLoading(true);
-        setError(null);
-        setFaq(null);
-        setGeneratedJsonLd(null);
+    const updateForm = useCallback(<K extends keyof StructuredDataForms>(key: K, patch: Partial<StructuredDataForms[K]>) => {
+        setForms(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+    }, []);
 
-        try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: config,
-            });
-            const parsedResponse = extractJsonFromResponse(response.text);
-            setFaq(parsedResponse.faqItems);
-            setGeneratedJsonLd(parsedResponse.jsonLd);
+    // The current project's name and URL pre-fill the fields that are still empty.
+    useEffect(() => {
+        if (!currentProject) return;
+        setForms(prev => ({
+            ...prev,
+            organization: { ...prev.organization, name: prev.organization.name || currentProject.name, url: prev.organization.url || currentProject.url },
+            breadcrumb: { items: prev.breadcrumb.items.map((item, index) => (index === 0 && !item.url ? { ...item, url: currentProject.url } : item)) },
+        }));
+    }, [currentProject]);
+
+    const handleAddFromCatalogue = useCallback((products: CatalogueProduct[]) => {
+        if (kind === 'ItemList') {
+            setForms(prev => ({
+                ...prev,
+                itemList: { name: prev.itemList.name || products.find(p => p.category)?.category || '', urls: appendUrlsToInput(prev.itemList.urls, products.map(p => p.url)) },
+            }));
+            return;
+        }
+        setForms(prev => {
+            const isBlankVariant = (variant: ProductVariantForm) => !variant.name && !variant.sku && !variant.url && !variant.price;
+            const added = products.map(product => ({ ...emptyProductVariant(), name: product.name || '', sku: product.sku || '', url: product.url, price: jsonLdPrice(product.price) }));
+            return {
+                ...prev,
+                productGroup: {
+                    ...prev.productGroup,
+                    name: prev.productGroup.name || products[0]?.name || '',
+                    url: prev.productGroup.url || products[0]?.url || '',
+                    variants: [...prev.productGroup.variants.filter(variant => !isBlankVariant(variant)), ...added],
+                },
+            };
+        });
+    }, [kind]);
 
+    const output = React.useMemo(() => {
+        const generated = buildStructuredData(kind, forms);
+        if (!existingMarkup.trim()) {
+            return { data: { '@context': 'https://schema.org', ...generated }, mergeNotice: null, mergeError: null };
+        }
+        try {
+            const { data, updated } = mergeJsonLdMarkup(parseJsonLdText(existingMarkup), generated);
+            const mergeNotice = updated
+                ? `L'élément « ${kind} » existant a été mis à jour ; ses autres propriétés sont conservées.`
+                : `L'élément « ${kind} » a été ajouté au balisage existant.`;
+            return { data, mergeNotice, mergeError: null };
         } catch (e: any) {
-            setError(`Une erreur est survenue lors de la génération : ${e.message}. Veuillez vérifier votre saisie ou l'URL.`);
-        } finally {
-            setLoading(false);
+            return { data: null, mergeNotice: null, mergeError: `Le balisage existant n'est pas un JSON-LD valide : ${e.message}` };
         }
-    }, [ai.models, method, topic, externalUrl]);
-    
-    const isButtonDisabled = loading || (method === 'topic' && !topic.trim()) || (method === 'url' && !externalUrl.trim());
+    }, [kind, forms, existingMarkup]);
+
+    const markup = output.data ? JSON.stringify(output.data, null, 2) : '';
+    const validation = React.useMemo(() => (output.data ? validateJsonLd(output.data, kind) : null), [output.data, kind]);
+    const scriptTag = `<script type="application/ld+json">\n${markup}\n</script>`;
+    const showCataloguePicker = selectedProjectId && (kind === 'ItemList' || kind === 'ProductGroup');
+    const sharesReturnPolicy = (kind === 'Organization' && forms.organization.includeReturnPolicy) || (kind === 'ProductGroup' && forms.productGroup.includeReturnPolicy);
+    const sharesShipping = kind === 'ProductGroup' && forms.productGroup.includeShipping;
 
     return (
         <div>
-             <div className="page-header-actions">
+            <div className="page-header-actions">
                 <div>
-                    <h2 className="content-title">Générateur de FAQ</h2>
-                    <p className="content-subtitle">Créez rapidement une section FAQ pertinente pour un sujet ou une page web.</p>
+                    <h2 className="content-title">Données Structurées</h2>
+                    <p className="content-subtitle">Composez le JSON-LD de vos pages catégorie, produits à variantes, fil d'Ariane et boutique, sans écrire de code.</p>
                 </div>
             </div>
+
             <div className="content-card">
-                 <div className="form-group">
-                    <label className="form-label">Choisir la source du contenu</label>
-                    <div className="method-selector">
-                        <label className={method === 'topic' ? 'active' : ''}>
-                            <input type="radio" name="method-faq" value="topic" checked={method === 'topic'} onChange={() => setMethod('topic')} />
-                            <span>À partir d'un sujet</span>
-                        </label>
-                        <label className={method === 'url' ? 'active' : ''}>
-                            <input type="radio" name="method-faq" value="url" checked={method === 'url'} onChange={() => setMethod('url')} />
-                            <span>À partir d'une URL</span>
-                        </label>
+                <div className="structured-data-grid">
+                    <div className="form-group">
+                        <label htmlFor="sd-kind" className="form-label">Type de données structurées</label>
+                        <select id="sd-kind" className="form-select" value={kind} onChange={(e) => setKind(e.target.value as StructuredDataKind)}>
+                            {(Object.keys(structuredDataKindLabels) as StructuredDataKind[]).map(key => <option key={key} value={key}>{structuredDataKindLabels[key]}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="project-select-structured-data" className="form-label">Pré-remplir depuis un projet (Optionnel)</label>
+                        <select id="project-select-structured-data" className="form-select" value={selectedProjectId} onChange={(e) => onProjectChange(e.target.value || null)}>
+                            <option value="">Sélectionner un projet...</option>
+                            {projects.map(project => (
+                                <option key={project.id} value={project.id}>{project.name}</option>
+                            ))}
+                        </select>
                     </div>
                 </div>
+                {showCataloguePicker && (
+                    <div className="form-group">
+                        <ProductCataloguePicker projectId={selectedProjectId} storeUrl={selectedProject?.url} onAdd={handleAddFromCatalogue} />
+                    </div>
+                )}
 
-                <div className="method-content">
-                    {method === 'topic' ? (
-                        <div className="form-group">
-                            <label htmlFor="faq-topic" className="form-label">Sujet de la FAQ</label>
-                            <input id="faq-topic" type="text" className="form-input" value={topic} onChange={e => setTopic(e.target.value)} placeholder="Ex: Voyage au Japon" disabled={loading} />
-                        </div>
-                    ) : (
-                        <div className="form-group">
-                            <label htmlFor="url-input-faq" className="form-label">Entrer l'URL de la page à analyser</label>
-                            <input id="url-input-faq" type="text" className="form-input" value={externalUrl} onChange={e => setExternalUrl(e.target.value)} placeholder="https://www.exemple.com/article" disabled={loading} />
-                        </div>
-                    )}
-                </div>
-
-                <button className="submit-button" onClick={handleGenerateFaq} disabled={isButtonDisabled}>
-                    {loading ? <><span className="spinner"></span> Génération...</> : "Générer la FAQ"}
-                </button>
-                 <p className="credit-cost-text">Coût de la génération : 20 crédits</p>
+                {kind === 'BreadcrumbList' && <BreadcrumbFields value={forms.breadcrumb} onChange={(patch) => updateForm('breadcrumb', patch)} />}
+                {kind === 'Organization' && <OrganizationFields value={forms.organization} onChange={(patch) => updateForm('organization', patch)} />}
+                {kind === 'ItemList' && <ItemListFields value={forms.itemList} onChange={(patch) => updateForm('itemList', patch)} />}
+                {kind === 'ProductGroup' && <ProductGroupFields value={forms.productGroup} onChange={(patch) => updateForm('productGroup', patch)} />}
+                {(kind === 'MerchantReturnPolicy' || sharesReturnPolicy) && (
+                    <div className="structured-data-subsection">
+                        {kind !== 'MerchantReturnPolicy' && <h4 className="output-label">Politique de retour</h4>}
+                        <ReturnPolicyFields value={forms.returnPolicy} onChange={(patch) => updateForm('returnPolicy', patch)} />
+                    </div>
+                )}
+                {(kind === 'OfferShippingDetails' || sharesShipping) && (
+                    <div className="structured-data-subsection">
+                        {kind !== 'OfferShippingDetails' && <h4 className="output-label">Livraison</h4>}
+                        <ShippingFields value={forms.shipping} onChange={(patch) => updateForm('shipping', patch)} />
+                    </div>
+                )}
             </div>
-            {error && <div className="error-message" role="alert">{error}</div>}
-            {faq && (
-                <div className="content-card" style={{marginTop: '24px'}}>
-                     <h3 className="output-label">FAQ Générée :</h3>
-                     <div className="faq-accordion">
-                        {faq.map((item, index) => (
-                            <details key={index} className="faq-item">
-                                <summary className="faq-question">{item.question}</summary>
-                                <div className="faq-answer">
-                                    <p>{item.answer}</p>
-                                </div>
-                            </details>
-                        ))}
-                     </div>
+
+            <div className="content-card" style={{marginTop: '24px'}}>
+                <div className="form-group">
+                    <label htmlFor="sd-existing" className="form-label">Fusionner avec le balisage existant de la page (Optionnel)</label>
+                    <textarea id="sd-existing" className="form-textarea" rows={5} placeholder='<script type="application/ld+json">{ ... }</script>' value={existingMarkup} onChange={(e) => setExistingMarkup(e.target.value)} />
+                    <p className="form-helper-text">Collez le JSON-LD déjà présent sur la page : l'élément généré y est ajouté, ou remplace l'élément du même type et de la même URL, et le tout est regroupé dans un seul « @graph ».</p>
                 </div>
-            )}
-             {generatedJsonLd && (
+                {output.mergeNotice && <div className="info-banner info-banner-success" role="status">{output.mergeNotice}</div>}
+            </div>
+
+            {(error || output.mergeError) && <div className="error-message" role="alert">{error || output.mergeError}</div>}
+
+            {validation && (
                 <div className="content-card" style={{marginTop: '24px'}}>
-                    <h3 className="output-label">JSON-LD pour Rich Results (FAQPage)</h3>
+                    <h3 className="output-label">JSON-LD généré ({kind})</h3>
+                    <JsonLdValidationReport validation={validation} />
+                    <div className="export-buttons">
+                        <button className="button-secondary" onClick={(e) => handleCopy(scriptTag, e)} disabled={!validation.valid}>Copier la balise &lt;script&gt;</button>
+                        <button className="button-secondary" onClick={() => downloadTextFile(markup, `${kind.toLowerCase()}.jsonld`, 'application/ld+json;charset=utf-8;')} disabled={!validation.valid}>Télécharger (.jsonld)</button>
+                    </div>
                     <div className="code-block-container">
-                        <pre className="code-block"><code>{generatedJsonLd}</code></pre>
-                        <button onClick={(e) => handleCopy(generatedJsonLd, e)} className="copy-code-button">Copier</button>
+                        <pre className="code-block"><code>{markup}</code></pre>
+                        <button onClick={(e) => handleCopy(markup, e)} className="copy-code-button" disabled={!validation.valid}>Copier</button>
                     </div>
                     <p className="form-helper-text">Intégrez ce script dans la balise &lt;head&gt; de votre page pour que Google puisse afficher des résultats enrichis.</p>
                 </div>
@@ -2816,123 +8148,312 @@ const FaqGeneratorPage: React.FC<FaqGeneratorPageProps> = ({ ai }) => {
     );
 };
 
-// --- SUMMARY TABLE GENERATOR PAGE ---
-interface SummaryTableGeneratorPageProps {
-    ai: GoogleGenAI;
-}
-const SummaryTableGeneratorPage: React.FC<SummaryTableGeneratorPageProps> = ({ ai }) => {
-    const [externalUrl, setExternalUrl] = useState('');
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [generatedTableHtml, setGeneratedTableHtml] = useState<string | null>(null);
-    const [generatedJsonLd, setGeneratedJsonLd] = useState<string | null>(null);
+// --- PROMPT TEMPLATES PAGE ---
+const parseWordList = (text: string): string[] =>
+    [...new Set(text.split(/[\n,;]/).map(word => word.trim()).filter(Boolean))];
+
+// One "terme : définition" entry per line; the definition is optional.
+const parseGlossary = (text: string): GlossaryEntry[] => text.split('\n').map(line => {
+    const separator = line.indexOf(':');
+    return separator < 0
+        ? { term: line.trim(), definition: '' }
+        : { term: line.slice(0, separator).trim(), definition: line.slice(separator + 1).trim() };
+}).filter(entry => entry.term);
+
+const formatGlossary = (glossary: GlossaryEntry[]): string =>
+    glossary.map(entry => (entry.definition ? `${entry.term} : ${entry.definition}` : entry.term)).join('\n');
+
+const formatPromptVersionDate = (version: PromptTemplateVersion): string =>
+    version.createdAt ? new Date(version.createdAt).toLocaleString('fr-FR') : '—';
+
+const PromptTemplatesPage: React.FC<CurrentProjectProps> = ({ currentProject, onProjectChange }) => {
+    const [library, setLibrary] = useState<PromptLibrary>({});
+    const [templateId, setTemplateId] = useState<PromptTemplateId>('productDescription');
+    const [viewedVersion, setViewedVersion] = useState<number | null>(null); // null shows the active version
+    const [draft, setDraft] = useState('');
+    const [note, setNote] = useState('');
+    const [previewValues, setPreviewValues] = useState<Record<string, string>>({});
+    const [projects, setProjects] = useState<Project[]>([]);
+    const selectedProjectId = currentProject?.id ?? '';
+    const [brandVoice, setBrandVoice] = useState<BrandVoice>(emptyBrandVoice);
+    const [forbiddenWordsText, setForbiddenWordsText] = useState('');
+    const [glossaryText, setGlossaryText] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
 
-    const handleGenerate = useCallback(async () => {
-        if (!externalUrl.trim()) {
-            setError("Veuillez entrer une URL valide.");
+    const definition = promptTemplates[templateId];
+    const versions = promptTemplateVersions(templateId, library);
+    const activeVersion = activePromptVersion(templateId, library);
+    const shownVersion = versions.find(v => v.version === viewedVersion) ?? activeVersion;
+    const unknownVariables = unknownPromptVariables(templateId, draft);
+    const editedBrandVoice: BrandVoice = { ...brandVoice, forbiddenWords: parseWordList(forbiddenWordsText), glossary: parseGlossary(glossaryText) };
+
+    useEffect(() => {
+        repositories.promptLibrary.get()
+            .then(setLibrary)
+            .catch(e => setMessage({ text: `Impossible de charger les modèles : ${e.message}`, type: 'error' }));
+        repositories.projects.list()
+            .then(setProjects)
+            .catch(e => setMessage({ text: `Impossible de charger les projets : ${e.message}`, type: 'error' }));
+    }, []);
+
+    useEffect(() => {
+        setDraft(shownVersion.body);
+    }, [templateId, shownVersion.version, shownVersion.body]);
+
+    useEffect(() => {
+        const applyBrandVoice = (loaded: BrandVoice) => {
+            setBrandVoice(loaded);
+            setForbiddenWordsText(loaded.forbiddenWords.join('\n'));
+            setGlossaryText(formatGlossary(loaded.glossary));
+        };
+        applyBrandVoice(emptyBrandVoice());
+        if (!selectedProjectId) return;
+        let cancelled = false;
+        repositories.brandVoices.getForProject(selectedProjectId)
+            .then(loaded => { if (!cancelled && loaded) applyBrandVoice({ ...emptyBrandVoice(), ...loaded }); })
+            .catch(e => setMessage({ text: `Impossible de charger la voix de marque : ${e.message}`, type: 'error' }));
+        return () => { cancelled = true; };
+    }, [selectedProjectId]);
+
+    const saveLibrary = useCallback(async (next: PromptLibrary, successText: string) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            await repositories.promptLibrary.save(next);
+            setLibrary(next);
+            setViewedVersion(null);
+            setMessage({ text: successText, type: 'success' });
+        } catch (e: any) {
+            setMessage({ text: `L'enregistrement du modèle a échoué : ${e.message}`, type: 'error' });
+        } finally {
+            setSaving(false);
+        }
+    }, []);
+
+    const handleSaveVersion = useCallback(async () => {
+        if (!draft.trim() || draft.trim() === shownVersion.body.trim()) {
+            setMessage({ text: "Modifiez le modèle avant d'enregistrer une nouvelle version.", type: 'error' });
             return;
         }
-        try {
-            new URL(externalUrl);
-        } catch (_) {
-            setError("Le format de l'URL est invalide.");
+        if (unknownVariables.length > 0) {
+            setMessage({ text: `Variables inconnues : ${unknownVariables.map(name => `{{${name}}}`).join(', ')}. Elles seraient remplacées par un texte vide.`, type: 'error' });
             return;
         }
-
-        setLoading(true);
-        setError(null);
-        setGeneratedTableHtml(null);
-        setGeneratedJsonLd(null);
-
+        const next = addPromptTemplateVersion(library, templateId, draft.trim(), note.trim());
+        await saveLibrary(next, `Version ${next[templateId]!.activeVersion} enregistrée et activée pour « ${definition.label} ».`);
+        setNote('');
+    }, [draft, shownVersion, unknownVariables, library, templateId, note, definition, saveLibrary]);
+
+    const handleActivate = useCallback((version: number) => {
+        saveLibrary(setActivePromptVersion(library, templateId, version), `Version ${version} activée pour « ${definition.label} ».`);
+    }, [library, templateId, definition, saveLibrary]);
+
+    const handleSaveBrandVoice = useCallback(async () => {
+        if (!selectedProjectId) return;
+        setSaving(true);
+        setMessage(null);
         try {
-            const prompt = `
-                Tu es un expert en analyse de contenu et en SEO. Analyse le contenu de la page web à l'URL suivante: ${externalUrl}.
-                Ta mission est de générer deux choses :
-                1. Un tableau récapitulatif HTML qui est à la fois un résumé et un complément au contenu. Ce tableau doit avoir les en-têtes: "Thème Principal", "Points Clés", et "Informations Complémentaires / Actions".
-                2. Un script JSON-LD valide pour un 'Article' rich result, basé sur le contenu de la page. Le JSON-LD doit inclure @context, @type, headline, image, author, publisher, datePublished, dateModified, et description. Extrais ces informations de la page.
-
-                Le résultat doit être UNIQUEMENT un objet JSON valide.
-            `;
-            
-            const responseSchema = {
-                type: Type.OBJECT,
-                properties: {
-                    tableHtml: { type: Type.STRING, description: "Le tableau récapitulatif au format HTML." },
-                    jsonLd: { type: Type.STRING, description: "Le script JSON-LD complet pour un Article." }
-                },
-                required: ["tableHtml", "jsonLd"]
-            };
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: { 
-                    tools: [{ googleSearch: {} }],
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
-                },
-            });
-            const parsedResponse = extractJsonFromResponse(response.text);
-            setGeneratedTableHtml(parsedResponse.tableHtml);
-            setGeneratedJsonLd(parsedResponse.jsonLd);
-
+            await repositories.brandVoices.saveForProject(selectedProjectId, editedBrandVoice);
+            setMessage({ text: 'Voix de marque du projet enregistrée.', type: 'success' });
         } catch (e: any) {
-            setError(`Une erreur est survenue: ${e.message}`);
+            setMessage({ text: `L'enregistrement de la voix de marque a échoué : ${e.message}`, type: 'error' });
         } finally {
-            setLoading(false);
+            setSaving(false);
         }
-    }, [ai.models, externalUrl]);
-    
-    const isButtonDisabled = loading || !externalUrl.trim();
+    }, [selectedProjectId, editedBrandVoice]);
+
+    const handlePinVersion = useCallback((id: PromptTemplateId, value: string) => {
+        setBrandVoice(prev => {
+            const pinnedVersions = { ...prev.pinnedVersions };
+            if (value) pinnedVersions[id] = Number(value);
+            else delete pinnedVersions[id];
+            return { ...prev, pinnedVersions };
+        });
+    }, []);
+
+    const preview = renderPrompt(
+        withBrandVoice(templateId, draft, selectedProjectId ? editedBrandVoice : null),
+        Object.fromEntries(definition.variables.map(variable => [variable.name, previewValues[variable.name] ?? variable.example]))
+    );
 
     return (
         <div>
             <div className="page-header-actions">
                 <div>
-                    <h2 className="content-title">Générer un Tableau Récapitulatif</h2>
-                    <p className="content-subtitle">Créez un tableau de synthèse à partir d'une URL externe.</p>
+                    <h2 className="content-title">Modèles de Prompts</h2>
+                    <p className="content-subtitle">Adaptez les consignes envoyées à l'IA par chaque outil, gardez l'historique de vos versions et définissez la voix de marque de chaque projet.</p>
                 </div>
             </div>
 
+            {message && <div className={message.type === 'success' ? 'info-banner info-banner-success' : 'error-message'} role={message.type === 'error' ? 'alert' : 'status'}>{message.text}</div>}
+
             <div className="content-card">
-                <div className="method-content">
-                    <div className="form-group">
-                        <label htmlFor="url-input" className="form-label">Entrer l'URL de la page à analyser</label>
-                        <input id="url-input" type="text" className="form-input" value={externalUrl} onChange={e => setExternalUrl(e.target.value)} placeholder="https://www.exemple.com/article" disabled={loading} />
-                    </div>
+                <div className="form-group">
+                    <label htmlFor="prompt-template-select" className="form-label">Modèle</label>
+                    <select id="prompt-template-select" className="form-select" value={templateId} onChange={(e) => { setTemplateId(e.target.value as PromptTemplateId); setViewedVersion(null); setMessage(null); }}>
+                        {promptTemplateIds.map(id => <option key={id} value={id}>{promptTemplates[id].label}</option>)}
+                    </select>
+                    <p className="form-helper-text">
+                        {definition.usesBrandVoice
+                            ? "La voix de marque du projet est ajoutée à la fin de ce modèle."
+                            : "Modèle d'analyse : la voix de marque du projet ne s'y applique pas."}
+                    </p>
+                </div>
+                <div className="form-group">
+                    <span className="form-label">Variables disponibles</span>
+                    <ul className="prompt-template-variables">
+                        {definition.variables.map(variable => (
+                            <li key={variable.name}><code>{`{{${variable.name}}}`}</code> {variable.label}</li>
+                        ))}
+                    </ul>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="prompt-template-body" className="form-label">
+                        Texte de la version {shownVersion.version}{shownVersion.version === activeVersion.version ? ' (active)' : ''}
+                    </label>
+                    <textarea id="prompt-template-body" className="form-textarea prompt-template-body" rows={14} value={draft} onChange={(e) => setDraft(e.target.value)} disabled={saving} />
+                    {unknownVariables.length > 0 && (
+                        <div className="info-banner info-banner-warning" role="status">
+                            Variables inconnues pour ce modèle : {unknownVariables.map(name => `{{${name}}}`).join(', ')}.
+                        </div>
+                    )}
+                </div>
+                <div className="form-group">
+                    <label htmlFor="prompt-template-note" className="form-label">Note de version (Optionnel)</label>
+                    <input id="prompt-template-note" type="text" className="form-input" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Ex. : ton plus direct, ajout des contraintes de longueur" disabled={saving} />
+                </div>
+                <div className="export-buttons">
+                    <button className="submit-button" onClick={handleSaveVersion} disabled={saving}>Enregistrer une nouvelle version</button>
+                    {draft !== shownVersion.body && <button className="button-secondary" onClick={() => setDraft(shownVersion.body)} disabled={saving}>Annuler les modifications</button>}
                 </div>
-
-                 <button className="submit-button" onClick={handleGenerate} disabled={isButtonDisabled}>
-                    {loading ? <><span className="spinner"></span> Génération en cours...</> : "Générer le Tableau"}
-                </button>
-                 <p className="credit-cost-text">Coût de la génération : 20 crédits</p>
             </div>
 
-            {error && <div className="error-message" role="alert">{error}</div>}
+            <div className="content-card" style={{marginTop: '24px'}}>
+                <h3 className="output-label">Versions</h3>
+                <table className="data-table">
+                    <thead>
+                        <tr>
+                            <th>Version</th>
+                            <th>Note</th>
+                            <th>Date</th>
+                            <th>Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...versions].reverse().map(version => (
+                            <tr key={version.version}>
+                                <td>v{version.version}{version.version === activeVersion.version && <strong> · active</strong>}</td>
+                                <td>{version.note || '—'}</td>
+                                <td>{formatPromptVersionDate(version)}</td>
+                                <td>
+                                    <button className="button-link" onClick={() => setViewedVersion(version.version)} disabled={version.version === shownVersion.version}>Afficher</button>
+                                    {version.version !== activeVersion.version && (
+                                        <button className="button-link" onClick={() => handleActivate(version.version)} disabled={saving}>
+                                            {version.version === BUILT_IN_PROMPT_VERSION ? "Revenir à l'origine" : 'Activer'}
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
 
-            {generatedTableHtml && (
-                <div className="content-card" style={{marginTop: '24px'}}>
-                     <h3 className="output-label">Tableau Généré :</h3>
-                     <div className="generated-summary-table" dangerouslySetInnerHTML={{ __html: generatedTableHtml }}></div>
+            <div className="content-card" style={{marginTop: '24px'}}>
+                <h3 className="output-label">Voix de marque du projet</h3>
+                <div className="form-group">
+                    <label htmlFor="project-select-prompts" className="form-label">Projet</label>
+                    <select id="project-select-prompts" className="form-select" value={selectedProjectId} onChange={(e) => { onProjectChange(e.target.value || null); setMessage(null); }}>
+                        <option value="">Sélectionner un projet...</option>
+                        {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                        ))}
+                    </select>
+                    <p className="form-helper-text">Appliquée aux fiches produits, FAQ et tableaux récapitulatifs générés pour ce projet.</p>
                 </div>
-            )}
-            {generatedJsonLd && (
-                <div className="content-card" style={{marginTop: '24px'}}>
-                    <h3 className="output-label">JSON-LD pour Rich Results (Article)</h3>
-                    <div className="code-block-container">
-                        <pre className="code-block"><code>{generatedJsonLd}</code></pre>
-                         <button onClick={(e) => handleCopy(generatedJsonLd, e)} className="copy-code-button">Copier</button>
-                    </div>
-                    <p className="form-helper-text">Intégrez ce script dans la balise &lt;head&gt; de votre page pour que Google puisse afficher des résultats enrichis.</p>
+                {selectedProjectId && (
+                    <>
+                        <div className="prompt-templates-grid">
+                            <div className="form-group">
+                                <label htmlFor="brand-voice-tone" className="form-label">Ton</label>
+                                <input id="brand-voice-tone" type="text" className="form-input" value={brandVoice.tone} onChange={(e) => setBrandVoice(prev => ({ ...prev, tone: e.target.value }))} placeholder="Ex. : chaleureux et expert, tutoiement" />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="brand-voice-length" className="form-label">Longueur des textes</label>
+                                <select id="brand-voice-length" className="form-select" value={brandVoice.length} onChange={(e) => setBrandVoice(prev => ({ ...prev, length: e.target.value as BrandVoiceLength }))}>
+                                    {(Object.keys(brandVoiceLengthLabels) as BrandVoiceLength[]).map(length => <option key={length} value={length}>{brandVoiceLengthLabels[length]}</option>)}
+                                </select>
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="brand-voice-forbidden" className="form-label">Mots interdits (1 par ligne ou séparés par des virgules)</label>
+                                <textarea id="brand-voice-forbidden" className="form-textarea" rows={5} value={forbiddenWordsText} onChange={(e) => setForbiddenWordsText(e.target.value)} placeholder="pas cher&#10;low-cost" />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="brand-voice-glossary" className="form-label">Glossaire de la marque (« terme : définition », 1 par ligne)</label>
+                                <textarea id="brand-voice-glossary" className="form-textarea" rows={5} value={glossaryText} onChange={(e) => setGlossaryText(e.target.value)} placeholder="Trek : notre gamme de sacs de randonnée à la journée" />
+                            </div>
+                        </div>
+                        <div className="form-group">
+                            <span className="form-label">Versions utilisées par ce projet</span>
+                            <table className="data-table">
+                                <tbody>
+                                    {promptTemplateIds.map(id => (
+                                        <tr key={id}>
+                                            <td>{promptTemplates[id].label}</td>
+                                            <td>
+                                                <select className="form-select" aria-label={`Version de « ${promptTemplates[id].label} »`} value={brandVoice.pinnedVersions[id] ?? ''} onChange={(e) => handlePinVersion(id, e.target.value)}>
+                                                    <option value="">Version active (v{activePromptVersion(id, library).version})</option>
+                                                    {promptTemplateVersions(id, library).map(version => (
+                                                        <option key={version.version} value={version.version}>v{version.version}{version.note ? ` · ${version.note}` : ''}</option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <button className="submit-button" onClick={handleSaveBrandVoice} disabled={saving}>Enregistrer la voix de marque</button>
+                    </>
+                )}
+            </div>
+
+            <div className="content-card" style={{marginTop: '24px'}}>
+                <h3 className="output-label">Aperçu du prompt</h3>
+                <p className="form-helper-text">
+                    Texte en cours d'édition{selectedProjectId && definition.usesBrandVoice ? ', avec la voix de marque du projet' : ''}, rempli avec les valeurs ci-dessous. L'aperçu ne consomme aucun crédit.
+                </p>
+                <div className="prompt-templates-grid">
+                    {definition.variables.map(variable => (
+                        <div className="form-group" key={variable.name}>
+                            <label htmlFor={`prompt-variable-${variable.name}`} className="form-label">{variable.label}</label>
+                            <input
+                                id={`prompt-variable-${variable.name}`}
+                                type="text"
+                                className="form-input"
+                                value={previewValues[variable.name] ?? variable.example}
+                                onChange={(e) => setPreviewValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                            />
+                        </div>
+                    ))}
                 </div>
-            )}
+                <pre className="prompt-preview-text">{preview}</pre>
+            </div>
         </div>
     );
 };
 
-const SettingsPage: React.FC = () => {
+interface SettingsPageProps {
+    userPlan: UserPlan;
+    onUpgradeRequired: (reason: UpgradeReason) => void;
+}
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ userPlan, onUpgradeRequired }) => {
+    const { maxCollaborators } = getPlan(userPlan).limits;
     const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
     const [newCollaboratorEmail, setNewCollaboratorEmail] = useState('');
+    const [lastInvitation, setLastInvitation] = useState<{ email: string; url: string } | null>(null);
     const [error, setError] = useState('');
     // FIX: Explicitly pass the generic type `Collaborator` to `useSortableData` to ensure correct type inference for `requestSort` when the initial array is empty.
     const { items: sortedCollaborators, requestSort, sortConfig } = useSortableData<Collaborator>(collaborators);
@@ -2945,21 +8466,20 @@ const SettingsPage: React.FC = () => {
     };
 
     useEffect(() => {
-        setCollaborators(loadFromLocalStorage<Collaborator[]>(LOCAL_STORAGE_COLLABORATORS, []));
+        repositories.collaborators.list()
+            .then(setCollaborators)
+            .catch(e => setError(`Impossible de charger les collaborateurs : ${e.message}`));
     }, []);
 
-    const saveCollaborators = useCallback((updatedCollaborators: Collaborator[]) => {
-        setCollaborators(updatedCollaborators);
-        saveToLocalStorage(LOCAL_STORAGE_COLLABORATORS, updatedCollaborators);
-    }, []);
-
-    const handleAddCollaborator = useCallback(() => {
+    const handleAddCollaborator = useCallback(async () => {
         if (!newCollaboratorEmail.trim() || !/\S+@\S+\.\S+/.test(newCollaboratorEmail)) {
             setError("Veuillez entrer une adresse email valide.");
             return;
         }
-        if (collaborators.length >= MAX_COLLABORATORS) {
-            setError(`Vous ne pouvez pas ajouter plus de ${MAX_COLLABORATORS} collaborateurs.`);
+        const limitReason = checkCollaboratorLimit(userPlan, collaborators.length);
+        if (limitReason) {
+            setError(maxCollaborators > 0 ? `Vous ne pouvez pas ajouter plus de ${maxCollaborators} collaborateurs.` : "Votre plan n'inclut pas la gestion des collaborateurs.");
+            onUpgradeRequired(limitReason);
             return;
         }
         if (collaborators.some(c => c.email === newCollaboratorEmail.trim())) {
@@ -2975,17 +8495,27 @@ const SettingsPage: React.FC = () => {
             lastActivityMock: new Date().toISOString(),
         };
 
-        saveCollaborators([...collaborators, newCollaborator]);
-        setNewCollaboratorEmail('');
-        setError('');
-    }, [collaborators, newCollaboratorEmail, saveCollaborators]);
+        try {
+            const createdCollaborator = await repositories.collaborators.create(newCollaborator);
+            setCollaborators(prev => [...prev, createdCollaborator]);
+            setLastInvitation(createdCollaborator.invitationUrl ? { email: createdCollaborator.email, url: createdCollaborator.invitationUrl } : null);
+            setNewCollaboratorEmail('');
+            setError('');
+        } catch (e: any) {
+            setError(`L'invitation a échoué : ${e.message}`);
+        }
+    }, [collaborators, newCollaboratorEmail, userPlan, maxCollaborators, onUpgradeRequired]);
 
-    const handleDeleteCollaborator = useCallback((collaboratorId: string) => {
+    const handleDeleteCollaborator = useCallback(async (collaboratorId: string) => {
         if (window.confirm("Êtes-vous sûr de vouloir supprimer ce collaborateur ?")) {
-            const updatedCollaborators = collaborators.filter(c => c.id !== collaboratorId);
-            saveCollaborators(updatedCollaborators);
+            try {
+                await repositories.collaborators.remove(collaboratorId);
+                setCollaborators(prev => prev.filter(c => c.id !== collaboratorId));
+            } catch (e: any) {
+                setError(`La suppression du collaborateur a échoué : ${e.message}`);
+            }
         }
-    }, [collaborators, saveCollaborators]);
+    }, []);
 
     return (
         <div>
@@ -2997,7 +8527,14 @@ const SettingsPage: React.FC = () => {
             </div>
             <div className="content-card">
                 <h3 className="output-label">Gestion des Collaborateurs</h3>
-                <p>Invitez des membres de votre équipe à collaborer sur vos projets. Vous pouvez ajouter jusqu'à {MAX_COLLABORATORS} collaborateurs.</p>
+                {maxCollaborators > 0 ? (
+                    <p>Invitez des membres de votre équipe à collaborer sur vos projets. Vous pouvez ajouter jusqu'à {maxCollaborators} collaborateurs.</p>
+                ) : (
+                    <div className="info-banner info-banner-warning" style={{ marginBottom: '16px' }}>
+                        La gestion des collaborateurs est disponible à partir du plan <strong>{pricingPlans.find(p => p.limits.maxCollaborators > 0)?.name}</strong>.{' '}
+                        <a href="#" onClick={(e) => { e.preventDefault(); onUpgradeRequired({ kind: 'collaborators', limit: maxCollaborators, plan: userPlan }); }}>En savoir plus</a>
+                    </div>
+                )}
                 <div className="form-group">
                     <label htmlFor="new-collaborator-email" className="form-label">Email du collaborateur à inviter</label>
                     <div className="input-with-button">
@@ -3008,11 +8545,16 @@ const SettingsPage: React.FC = () => {
                             value={newCollaboratorEmail}
                             onChange={(e) => setNewCollaboratorEmail(e.target.value)}
                             placeholder="nom@exemple.com"
-                            disabled={collaborators.length >= MAX_COLLABORATORS}
+                            disabled={maxCollaborators === 0}
                         />
-                        <button onClick={handleAddCollaborator} className="submit-button" disabled={collaborators.length >= MAX_COLLABORATORS}>Inviter</button>
+                        <button onClick={handleAddCollaborator} className="submit-button" disabled={maxCollaborators === 0}>Inviter</button>
                     </div>
                     {error && <p className="error-message" style={{marginTop: '8px', marginBottom: 0}}>{error}</p>}
+                    {lastInvitation && (
+                        <div className="success-message" style={{marginTop: '8px'}}>
+                            Envoyez ce lien d'invitation à {lastInvitation.email}, il ne sera plus affiché : <code>{lastInvitation.url}</code>
+                        </div>
+                    )}
                 </div>
 
                 <div className="table-responsive" style={{marginTop: '24px'}}>
@@ -3052,12 +8594,13 @@ const SettingsPage: React.FC = () => {
 
 interface MyAccountProfilePageProps {
     userProfile: UserProfileData;
-    onProfileUpdate: (profile: UserProfileData) => void;
+    onProfileUpdate: (profile: UserProfileData) => Promise<void>;
 }
 
 const MyAccountProfilePage: React.FC<MyAccountProfilePageProps> = ({ userProfile, onProfileUpdate }) => {
     const [formData, setFormData] = useState<UserProfileData>(userProfile);
     const [successMessage, setSuccessMessage] = useState('');
+    const [errorMessage, setErrorMessage] = useState('');
 
     useEffect(() => {
         setFormData(userProfile);
@@ -3068,11 +8611,16 @@ const MyAccountProfilePage: React.FC<MyAccountProfilePageProps> = ({ userProfile
         setFormData(prev => ({ ...prev, [name]: value }));
     }, []);
 
-    const handleSubmit = useCallback((e: React.FormEvent) => {
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
         e.preventDefault();
-        onProfileUpdate(formData);
-        setSuccessMessage('Profil mis à jour avec succès !');
-        setTimeout(() => setSuccessMessage(''), 3000);
+        setErrorMessage('');
+        try {
+            await onProfileUpdate(formData);
+            setSuccessMessage('Profil mis à jour avec succès !');
+            setTimeout(() => setSuccessMessage(''), 3000);
+        } catch (err: any) {
+            setErrorMessage(`La mise à jour du profil a échoué : ${err.message}`);
+        }
     }, [formData, onProfileUpdate]);
 
     return (
@@ -3108,6 +8656,7 @@ const MyAccountProfilePage: React.FC<MyAccountProfilePageProps> = ({ userProfile
                     </div>
                     <button type="submit" className="submit-button">Sauvegarder les modifications</button>
                     {successMessage && <div className="success-message" style={{marginTop: '15px'}}>{successMessage}</div>}
+                    {errorMessage && <div className="error-message" style={{marginTop: '15px'}}>{errorMessage}</div>}
                 </form>
             </div>
         </div>
@@ -3122,16 +8671,29 @@ interface BillingHistoryItem {
     invoiceUrl: string;
 }
 
-const BillingPage: React.FC<{ navigateTo: (page: Page) => void }> = ({ navigateTo }) => {
-    const currentUserPlan = pricingPlans.find(p => p.id === 'pro')!;
+const creditTransactionStatusLabels: Record<CreditTransactionStatus, string> = {
+    reserved: 'En cours',
+    committed: 'Débité',
+    refunded: 'Remboursé',
+};
+
+const BillingPage: React.FC<{ navigateTo: (page: Page) => void; credits: CreditLedgerData; userPlan: UserPlan; }> = ({ navigateTo, credits, userPlan }) => {
+    const currentUserPlan = getPlan(userPlan);
     const nextBillingDate = new Date();
     nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-    const creditsUsed = 150;
-    const creditsTotal = currentUserPlan.credits as number;
+    const creditsUsed = credits.total - credits.remaining;
+    const creditsTotal = credits.total;
+    const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        repositories.projects.list()
+            .then(projects => setProjectNames(Object.fromEntries(projects.map(p => [p.id, p.name]))))
+            .catch(e => console.error("Error loading projects:", e));
+    }, []);
 
     const [billingHistory] = useState<BillingHistoryItem[]>([
-        { id: 1, date: new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString(), description: 'Abonnement Plan Pro', amount: currentUserPlan.monthlyPrice, invoiceUrl: '#' },
-        { id: 2, date: new Date(new Date().setMonth(new Date().getMonth() - 2)).toISOString(), description: 'Abonnement Plan Pro', amount: currentUserPlan.monthlyPrice, invoiceUrl: '#' },
+        { id: 1, date: new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString(), description: `Abonnement Plan ${currentUserPlan.name}`, amount: currentUserPlan.monthlyPrice, invoiceUrl: '#' },
+        { id: 2, date: new Date(new Date().setMonth(new Date().getMonth() - 2)).toISOString(), description: `Abonnement Plan ${currentUserPlan.name}`, amount: currentUserPlan.monthlyPrice, invoiceUrl: '#' },
     ]);
 
     // FIX: Explicitly pass the generic type `BillingHistoryItem` to `useSortableData` to ensure correct type inference for `requestSort`.
@@ -3144,6 +8706,15 @@ const BillingPage: React.FC<{ navigateTo: (page: Page) => void }> = ({ navigateT
         return sortConfig.key === key ? sortConfig.direction : '';
     };
 
+    const { items: sortedTransactions, requestSort: requestTransactionSort, sortConfig: transactionSortConfig } = useSortableData<CreditTransaction>(credits.transactions, { key: 'timestamp', direction: 'descending' });
+
+    const getTransactionSortClassFor = (key: keyof CreditTransaction) => {
+        if (!transactionSortConfig) {
+            return '';
+        }
+        return transactionSortConfig.key === key ? transactionSortConfig.direction : '';
+    };
+
     return (
         <div>
             <div className="page-header-actions">
@@ -3186,6 +8757,39 @@ const BillingPage: React.FC<{ navigateTo: (page: Page) => void }> = ({ navigateT
                         </button>
                      </div>
                 </div>
+            </div>
+            <div className="content-card" style={{ marginTop: '24px' }}>
+                <h3>Historique des Crédits</h3>
+                {sortedTransactions.length > 0 ? (
+                    <div className="table-responsive">
+                        <table className="data-table">
+                            <thead>
+                                <tr>
+                                    <th onClick={() => requestTransactionSort('timestamp')} className={`sortable-header ${getTransactionSortClassFor('timestamp')}`}>Date</th>
+                                    <th onClick={() => requestTransactionSort('label')} className={`sortable-header ${getTransactionSortClassFor('label')}`}>Action</th>
+                                    <th onClick={() => requestTransactionSort('page')} className={`sortable-header ${getTransactionSortClassFor('page')}`}>Page</th>
+                                    <th onClick={() => requestTransactionSort('projectId')} className={`sortable-header ${getTransactionSortClassFor('projectId')}`}>Projet</th>
+                                    <th onClick={() => requestTransactionSort('amount')} className={`sortable-header ${getTransactionSortClassFor('amount')}`}>Crédits</th>
+                                    <th onClick={() => requestTransactionSort('status')} className={`sortable-header ${getTransactionSortClassFor('status')}`}>Statut</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedTransactions.map(transaction => (
+                                    <tr key={transaction.id}>
+                                        <td>{new Date(transaction.timestamp).toLocaleString('fr-FR')}</td>
+                                        <td>{transaction.label}</td>
+                                        <td>{transaction.page ? getPageTitle(transaction.page) : '—'}</td>
+                                        <td>{transaction.projectId ? (projectNames[transaction.projectId] || 'Projet supprimé') : '—'}</td>
+                                        <td>{transaction.status === 'refunded' ? 0 : -transaction.amount}</td>
+                                        <td><span className={`credit-status credit-status-${transaction.status}`}>{creditTransactionStatusLabels[transaction.status]}</span></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="empty-state-text small">Aucune action IA n'a encore consommé de crédits.</p>
+                )}
             </div>
              <div className="content-card" style={{ marginTop: '24px' }}>
                 <h3>Gestion de l'abonnement</h3>
@@ -3299,6 +8903,8 @@ const SpecsForDevPage: React.FC = () => {
     name VARCHAR(255) NOT NULL,
     date TIMESTAMPTZ NOT NULL,
     urls TEXT[],
+    tool VARCHAR(50) NOT NULL DEFAULT 'competitive-analysis',
+    project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
     results JSONB NOT NULL
 );`}
                 </code></pre>
@@ -3308,8 +8914,12 @@ const SpecsForDevPage: React.FC = () => {
 
                 <h4>Authentification</h4>
                 <ul>
-                    <li><code>POST /api/auth/register</code>: Crée un nouvel utilisateur. Corps: {'{ email, password }'}.</li>
-                    <li><code>POST /api/auth/login</code>: Authentifie un utilisateur. Corps: {'{ email, password }'}. Retourne un JWT.</li>
+                    <li><code>POST /api/auth/register</code>: Crée un nouvel utilisateur. Corps: {'{ email, password, invitationToken? }'}. Avec le jeton d'un lien d'invitation, l'adresse invitée rejoint le compte qui l'a invitée avec le rôle <code>collaborator</code> (400 si le jeton est invalide, déjà utilisé ou émis pour une autre adresse) ; sans jeton, un compte principal est créé, au plan <code>starter</code>.</li>
+                    <li><code>POST /api/auth/accept-invitation</code>: Fait rejoindre à l'utilisateur authentifié, compte principal, le compte qui l'a invité (par exemple un collaborateur révoqué puis réinvité). Corps: {'{ invitationToken }'}. Retourne un nouveau JWT et l'utilisateur. 400 si le jeton est invalide, déjà utilisé ou émis pour une autre adresse ; 409 si l'utilisateur est déjà collaborateur ou a lui-même des collaborateurs. Ses propres projets restent enregistrés mais inaccessibles tant qu'il est collaborateur.</li>
+                    <li><code>POST /api/auth/login</code>: Authentifie un utilisateur. Corps: {'{ email, password }'}. Retourne un JWT et {'{ user: { id, email, role, plan } }'}, où <code>plan</code> est le plan du compte principal (<code>starter</code>, <code>pro</code> ou <code>entreprise</code>).</li>
+                    <li><code>GET /api/auth/me</code>: Retourne l'utilisateur de la session courante (rôle compris).</li>
+                    <li><code>POST /api/auth/forgot-password</code>: Envoie un lien de réinitialisation. Corps: {'{ email }'}. Répond toujours 204.</li>
+                    <li><code>POST /api/auth/reset-password</code>: Change le mot de passe. Corps: {'{ token, password }'}. Le lien expire au bout d'une heure.</li>
                 </ul>
 
                 <h4>Profil Utilisateur (`/api/profile`)</h4>
@@ -3321,16 +8931,74 @@ const SpecsForDevPage: React.FC = () => {
                 <h4>Projets (`/api/projects`)</h4>
                 <ul>
                     <li><code>GET /</code>: Liste tous les projets de l'utilisateur authentifié.</li>
-                    <li><code>POST /</code>: Crée un nouveau projet.</li>
+                    <li><code>POST /</code>: Crée un nouveau projet. 403 quand le compte a déjà le nombre de projets permis par son plan.</li>
                     <li><code>PUT /:id</code>: Met à jour un projet spécifique.</li>
                     <li><code>DELETE /:id</code>: Supprime un projet spécifique.</li>
+                    <li><code>GET /:id/intentions</code>: Liste les intentions de recherche importées pour le projet : {'{ query, clicks?, impressions?, ctr?, position?, volume?, sources?, extra? }'}. Les métriques sont numériques (<code>ctr</code> entre 0 et 1) ; les autres colonnes CSV sont conservées dans <code>extra</code>.</li>
+                    <li><code>PUT /:id/intentions</code>: Remplace les intentions de recherche du projet.</li>
+                    <li><code>GET /:id/intentions/imports</code>: Liste les 5 derniers imports d'intentions (le plus récent en premier), chacun avec l'état des intentions avant l'import pour permettre l'annulation.</li>
+                    <li><code>PUT /:id/intentions/imports</code>: Remplace l'historique des imports d'intentions du projet.</li>
+                    <li><code>GET /:id/clusters</code>: Liste les clusters de mots-clés du projet : {'{ id, label, intent, queries, url? }'}, où <code>intent</code> vaut <code>informational</code>, <code>commercial</code>, <code>transactional</code> ou <code>navigational</code>.</li>
+                    <li><code>PUT /:id/clusters</code>: Remplace les clusters de mots-clés du projet (calculés côté client).</li>
+                    <li><code>GET /:id/catalogue</code>: Liste les produits du catalogue du projet ({'{ url, name?, sku?, price?, category?, handle?, productId? }'}).</li>
+                    <li><code>PUT /:id/catalogue</code>: Remplace le catalogue du projet (20 000 produits max).</li>
+                    <li><code>GET /:id/brand-voice</code>: Voix de marque du projet, ou <code>null</code> : {'{ tone, length, forbiddenWords, glossary: [{ term, definition }], pinnedVersions }'}, où <code>length</code> vaut <code>default</code>, <code>short</code>, <code>medium</code> ou <code>long</code> et <code>pinnedVersions</code> associe un modèle de prompt à la version imposée pour ce projet.</li>
+                    <li><code>PUT /:id/brand-voice</code>: Remplace la voix de marque du projet.</li>
+                </ul>
+
+                <h4>Publication CMS (`/api/projects/:id/cms`)</h4>
+                <ul>
+                    <li><code>GET /</code>: Retourne la connexion CMS du projet (paramètres non sensibles uniquement) ou <code>null</code>.</li>
+                    <li><code>PUT /</code>: Enregistre la connexion. Corps: {'{ cms, settings, secrets }'} ; les secrets laissés vides conservent les valeurs existantes. 400 si <code>storeUrl</code> ou <code>apiUrl</code> n'est pas en https ou désigne une adresse privée, locale ou de lien local ; le contrôle est refait avant chaque appel au CMS, qui ne suit pas les redirections et abandonne après 15 secondes.</li>
+                    <li><code>DELETE /</code>: Supprime la connexion.</li>
+                    <li><code>POST /test</code>: Vérifie les accès auprès de l'API du CMS.</li>
+                    <li><code>POST /products</code>: Retourne le contenu actuel des produits, affiché à côté des descriptions générées pendant la relecture. Corps: {'{ items: [{ url, handle?, productId?, sku? }] }'} (100 produits max). Retourne {'{ results: [{ url, status, productId?, productName?, descriptionHtml?, error? }] }'}, où <code>status</code> vaut <code>found</code>, <code>not-found</code> ou <code>error</code>.</li>
+                    <li><code>POST /publish</code>: Pousse descriptions et JSON-LD vers les produits correspondants (Shopify, WooCommerce, PrestaShop, BigCommerce). Corps: {'{ items: [{ url, handle?, productId?, sku?, descriptionHtml, jsonLd }], dryRun }'} (100 produits max). Retourne par produit son statut et les champs modifiés (avant/après) ; avec <code>dryRun</code> rien n'est écrit. Une fiche dont la relecture n'est pas approuvée, ou dont la description diffère du texte approuvé, n'est pas publiée et revient avec le statut <code>not-approved</code>.</li>
+                </ul>
+
+                <h4>Collaborateurs (`/api/collaborators`)</h4>
+                <ul>
+                    <li><code>GET /</code>: Liste les collaborateurs invités par l'utilisateur authentifié.</li>
+                    <li><code>POST /</code>: Invite un nouveau collaborateur. Corps: {'{ email }'}. La réponse contient, une seule fois, l'<code>invitationUrl</code> à transmettre au collaborateur pour qu'il s'inscrive. 403 quand le compte a déjà le nombre de collaborateurs permis par son plan.</li>
+                    <li><code>DELETE /:id</code>: Révoque un collaborateur. S'il a déjà créé son compte, celui-ci est détaché et devient un compte principal vide, au plan de son inscription (<code>starter</code>), qui peut accepter une nouvelle invitation avec <code>POST /api/auth/accept-invitation</code> ; l'accès aux données du compte est coupé immédiatement, le rôle et le compte étant relus à chaque requête plutôt que pris dans le JWT.</li>
                 </ul>
 
-                 <h4>Analyses Concurrentielles (`/api/analyses`)</h4>
+                 <h4>Archives des résultats (`/api/analyses`)</h4>
                  <ul>
-                    <li><code>GET /</code>: Liste toutes les analyses sauvegardées pour l'utilisateur.</li>
-                    <li><code>POST /</code>: Sauvegarde une nouvelle analyse.</li>
-                    <li><code>DELETE /:id</code>: Supprime une analyse sauvegardée.</li>
+                    <li><code>GET /</code>: Liste les résultats sauvegardés de tous les outils IA : {'[{ id, name, date, urls, tool, projectId?, results }]'}, où <code>tool</code> vaut <code>competitive-analysis</code>, <code>product-page-analysis</code>, <code>cro-optimization</code>, <code>faq-generator</code> ou <code>summary-table-generator</code>. Pour la FAQ et le tableau récapitulatif, <code>results</code> vaut {'{ subject, html, jsonLd? }'} ; pour l'audit CRO, la liste {'[{ url, data, error? }]'} ; sinon la réponse de l'IA telle quelle.</li>
+                    <li><code>POST /</code>: Sauvegarde un résultat. Corps: {'{ name, urls, tool, projectId?, results }'} (<code>tool</code> vaut <code>competitive-analysis</code> par défaut).</li>
+                    <li><code>PUT /:id</code>: Renomme un résultat ou le rattache à un autre projet ; son outil ne change pas.</li>
+                    <li><code>DELETE /:id</code>: Supprime un résultat sauvegardé.</li>
+                </ul>
+
+                <h4>Modèles de prompts (`/api/prompts`)</h4>
+                <ul>
+                    <li><code>GET /</code>: Bibliothèque de prompts du compte, partagée avec ses collaborateurs : {'{ [modèle]: { activeVersion, versions: [{ version, body, note, createdAt }] } }'}. Les modèles sans version enregistrée utilisent le texte intégré (version 1) de l'application.</li>
+                    <li><code>PUT /</code>: Remplace la bibliothèque (50 versions max par modèle).</li>
+                </ul>
+
+                <h4>Historique des contenus générés (`/api/revisions`)</h4>
+                <ul>
+                    <li><code>GET /?document=:key</code>: Versions d'un document, de la plus ancienne à la plus récente : {'[{ id, documentKey, kind, title, version, html, jsonLd?, source, restoredFrom?, author: { email, role }, projectId?, createdAt }]'}. La clé est <code>kind:url-normalisée</code>, avec <code>kind</code> valant <code>product-description</code>, <code>faq</code> ou <code>summary-table</code> (pour une FAQ sur un sujet, le sujet en minuscules remplace l'URL).</li>
+                    <li><code>GET /?project=:id</code>: Dernière version de chaque document du projet, de la plus récente à la plus ancienne (un document appartient au projet de sa dernière version).</li>
+                    <li><code>POST /</code>: Enregistre une nouvelle version. Corps: {'{ documentKey, kind, title, html, jsonLd?, source, restoredFrom?, projectId? }'}, où <code>source</code> vaut <code>generation</code>, <code>edit</code> ou <code>restore</code>. Le numéro de version est attribué par le serveur et l'auteur est l'utilisateur authentifié (compte principal ou collaborateur). Seules les 100 dernières versions d'un document sont conservées. Deux enregistrements simultanés reçoivent des numéros distincts ; 409 si le numéro n'a pas pu être attribué après plusieurs essais.</li>
+                </ul>
+
+                <h4>Relecture des fiches produit (`/api/reviews`)</h4>
+                <ul>
+                    <li><code>POST /lookup</code>: Relectures des documents demandés. Corps: {'{ documentKeys }'} (1000 clés max, même format que l'historique). Réponse: {'[{ documentKey, status, reviewedHtml?, decidedBy?: { email, role }, decidedAt?, comments: [{ id, author, text, createdAt }] }]'} ; les documents sans décision ni commentaire sont absents.</li>
+                    <li><code>PUT /</code>: Enregistre la même décision pour plusieurs fiches. Corps: {'{ status, items: [{ documentKey, html }] }'}, où <code>status</code> vaut <code>pending</code>, <code>approved</code>, <code>rejected</code> ou <code>needs-rework</code> et <code>html</code> est le texte relu. Une fiche modifiée ou regénérée depuis la décision redevient à relire. Retourne les relectures mises à jour.</li>
+                    <li><code>POST /comments</code>: Ajoute un commentaire. Corps: {'{ documentKey, text }'}. Les relectures et commentaires sont conservés quand les résultats d'une génération sont effacés.</li>
+                </ul>
+
+                <h4>IA (`/api/ai`)</h4>
+                <ul>
+                    <li><code>GET /status</code>: Indique si l'IA est disponible pour l'appelant et quel fournisseur de modèles est actif. Réponse: {'{ enabled, provider }'} (<code>gemini</code> ou <code>mock</code>, choisi par <code>AI_PROVIDER</code>) ; <code>enabled</code> est faux sans session tant que <code>AI_ALLOW_ANONYMOUS</code> n'est pas activé.</li>
+                    <li><code>GET /credits</code>: Solde de crédits du compte pour le mois en cours. Réponse: {'{ total, remaining, transactions: [{ id, action, projectId?, amount, status, createdAt }] }'}, où <code>total</code> est l'allocation mensuelle du plan du compte (250 en Starter, 2000 en Pro, 5000 en Entreprise) et <code>transactions</code> les 500 derniers débits du compte, collaborateurs compris, du plus récent au plus ancien (<code>action</code> vaut une action facturée ou <code>chat</code>, <code>status</code> vaut <code>committed</code> ou <code>refunded</code>). Avec le stockage <code>http</code>, l'application affiche ce solde et cet historique, relus après chaque action payante.</li>
+                    <li><code>POST /generate</code>: Génère le résultat d'un modèle de prompt. Corps: {'{ template, variables, projectId?, reviewNotes? }'}. Le serveur rend la version active du modèle pour le compte (ou celle épinglée par le projet) avec la voix de marque du projet ; <code>variables</code> n'accepte que les variables déclarées par le modèle et <code>reviewNotes</code> ne s'applique qu'aux fiches produit. Le modèle détermine l'action facturée (l'analyse concurrentielle est facturée par URL), enregistrée avec le projet, le schéma de réponse et l'usage de Google Search ; le modèle d'IA est celui de l'action (réglable avec <code>AI_MODELS</code>). 403 si le plan du compte n'inclut pas l'Analyse SEO Avancée, requise par l'analyse concurrentielle et l'analyse de fiche produit ; 402 si le solde est insuffisant. La réponse est vérifiée (JSON valide et conforme au schéma) et redemandée une fois sans surcoût ; 502 si elle reste invalide, avec remboursement des crédits.</li>
+                    <li><code>POST /chat</code>: Tour de conversation de l'assistant. Corps: {'{ page?, history, message }'}, où <code>history</code> liste au plus 100 tours précédents {'{ role, parts: [{ text }] }'} (<code>role</code> valant <code>user</code> ou <code>model</code>) et où le message et l'historique totalisent au plus 100 000 caractères. Les instructions de l'assistant sont fixées par le serveur selon la page (<code>shared/chatbot.ts</code>). Coûte 1 crédit par message.</li>
+                    <li><code>POST /embed</code>: Calcule les embeddings de 1 à 2000 requêtes pour le clustering sémantique. Corps: {'{ texts, projectId? }'}. Réponse: {'{ embeddings }'} dans le même ordre. Coûte 5 crédits par tranche de 500 textes entamée.</li>
+                    <li>Toutes les routes IA sont limitées par utilisateur (429 au-delà de <code>AI_RATE_LIMIT_PER_MINUTE</code>).</li>
                 </ul>
 
                 <h3>5. Considérations de Sécurité</h3>
@@ -3339,12 +9007,14 @@ const SpecsForDevPage: React.FC = () => {
                     <li><strong>Hashing des Mots de Passe :</strong> Utiliser un algorithme de hashing robuste comme `bcrypt` pour stocker les mots de passe.</li>
                     <li><strong>CORS :</strong> Configurer CORS pour n'autoriser que les requêtes provenant du domaine de l'application frontend.</li>
                     <li><strong>Variables d'Environnement :</strong> Utiliser un fichier `.env` pour stocker les informations sensibles (URL de la base de données, secret JWT, etc.).</li>
+                    <li><strong>Clé Gemini :</strong> La clé <code>GEMINI_API_KEY</code> reste sur le serveur et n'est jamais incluse dans le bundle du navigateur ; tous les appels passent par <code>/api/ai</code>.</li>
+                    <li><strong>Accès CMS :</strong> Les clés d'API des boutiques sont chiffrées en base (AES-256-GCM, <code>CMS_CREDENTIALS_SECRET</code>) et ne sont jamais renvoyées au client.</li>
                 </ul>
 
                  <h3>6. Tâches pour le Frontend</h3>
                 <p>Une fois l'API prête, le développeur frontend devra :</p>
                 <ol>
-                    <li>Remplacer tous les appels à `localStorage` par des requêtes `fetch` vers les nouveaux endpoints de l'API.</li>
+                    <li>Compiler l'application avec <code>STORAGE_BACKEND=http</code> (et <code>API_BASE_URL</code> si l'API est servie sur un autre domaine) : la couche de repositories bascule alors de `localStorage` vers les endpoints de l'API.</li>
                     <li>Implémenter un flux d'authentification (login/logout) et gérer le stockage sécurisé du JWT.</li>
                     <li>Ajouter des états de chargement (`loading`) et de gestion des erreurs (`error`) pour tous les appels API.</li>
                     <li>Transmettre le token JWT dans les en-têtes `Authorization` pour les requêtes protégées.</li>
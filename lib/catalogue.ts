@@ -0,0 +1,81 @@
+import { normalizeProductUrl } from '../shared/documentKeys';
+import { csvCell, guessCsvMapping, normalizeCsvHeader, type CsvColumnField, type CsvColumnMapping, type CsvTable } from './csv';
+
+// A product imported into a project's catalogue, with the identifiers each CMS importer matches on.
+export interface CatalogueProduct {
+    url: string;
+    name?: string;
+    handle?: string; // Shopify
+    productId?: string; // WooCommerce and PrestaShop
+    sku?: string; // WooCommerce SKU, PrestaShop "Reference #", Merchant Center offer id
+    price?: string;
+    category?: string;
+}
+export const LOCAL_STORAGE_CATALOGUE_PREFIX = 'semanticAppCatalogue_';
+
+export const catalogueColumnAliases: Record<keyof CatalogueProduct, string[]> = {
+    url: ['url', 'product url', 'url du produit', 'permalink', 'lien', 'link'],
+    name: ['title', 'name', 'nom', 'product name', 'nom du produit'],
+    handle: ['handle'],
+    productId: ['id', 'product id', 'id produit', 'product_id'],
+    sku: ['sku', 'variant sku', 'reference', 'reference #', 'référence', 'référence #'],
+    price: ['price', 'variant price', 'regular price', 'prix', 'tarif normal', 'price tax excluded', 'prix ht', 'prix ttc'],
+    category: ['category', 'categories', 'catégorie', 'catégories', 'product category', 'type', 'product type', 'product_type', 'google_product_category'],
+};
+
+export const shopifyHandleFromUrl = (url: string): string | undefined => url.match(/\/products\/([^/?#]+)/)?.[1];
+
+export const catalogueCsvFields: CsvColumnField[] = [
+    { key: 'url', label: 'URL du produit', aliases: catalogueColumnAliases.url },
+    { key: 'name', label: 'Nom', aliases: catalogueColumnAliases.name },
+    { key: 'handle', label: 'Handle (Shopify)', aliases: catalogueColumnAliases.handle },
+    { key: 'productId', label: 'ID produit', aliases: catalogueColumnAliases.productId },
+    { key: 'sku', label: 'SKU / Référence', aliases: catalogueColumnAliases.sku },
+    { key: 'price', label: 'Prix', aliases: catalogueColumnAliases.price },
+    { key: 'category', label: 'Catégorie', aliases: catalogueColumnAliases.category },
+];
+
+export const guessCatalogueMapping = (headers: string[]): CsvColumnMapping => {
+    const mapping = guessCsvMapping(headers, catalogueCsvFields);
+    // The Merchant Center "id" column is the offer id, which merchants usually set to the SKU.
+    const normalized = headers.map(normalizeCsvHeader);
+    if (['id', 'title', 'link'].every(h => normalized.includes(h)) && mapping.sku < 0) {
+        return { ...mapping, sku: mapping.productId, productId: -1 };
+    }
+    // A headerless file is taken as a plain list of URLs.
+    if (mapping.url < 0 && mapping.handle < 0 && headers.length > 0 && headers[0].startsWith('Colonne ')) {
+        return { ...mapping, url: 0 };
+    }
+    return mapping;
+};
+
+export const validateCatalogueMapping = (mapping: CsvColumnMapping): string | null =>
+    mapping.url >= 0 || mapping.handle >= 0 ? null : 'Associez la colonne des URLs produits (ou celle du handle pour un export Shopify).';
+
+// Shopify exports have no URL column, so URLs are rebuilt from the handle and the store URL.
+export const catalogueFromCsv = (table: CsvTable, mapping: CsvColumnMapping, storeUrl?: string): CatalogueProduct[] => {
+    let storeOrigin = '';
+    try { storeOrigin = storeUrl ? new URL(storeUrl).origin : ''; } catch (_) { /* invalid store URL */ }
+
+    const products = new Map<string, CatalogueProduct>();
+    table.rows.forEach(row => {
+        const value = (key: keyof CatalogueProduct) => csvCell(row, mapping[key]) || undefined;
+        const handle = value('handle');
+        const url = value('url') || (handle && storeOrigin ? `${storeOrigin}/products/${handle}` : undefined);
+        if (!url || !url.startsWith('http')) return;
+
+        // Shopify exports one row per variant or image; only the first row of a product carries its title.
+        const key = normalizeProductUrl(url);
+        const existing = products.get(key);
+        products.set(key, {
+            url,
+            name: existing?.name || value('name'),
+            handle: existing?.handle || handle,
+            productId: existing?.productId || value('productId'),
+            sku: existing?.sku || value('sku'),
+            price: existing?.price || value('price'),
+            category: existing?.category || value('category'),
+        });
+    });
+    return Array.from(products.values());
+};
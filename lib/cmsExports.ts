@@ -0,0 +1,115 @@
+import { shopifyHandleFromUrl, type CatalogueProduct } from './catalogue';
+import type { JsonLdValidation } from './jsonLd';
+import type { CMS } from './models';
+
+// Exports of the generated descriptions in the product CSV import format of each CMS.
+export type ExportFormat = 'csv' | 'shopify' | 'woocommerce' | 'prestashop';
+
+// What the exports read of a generated description.
+export interface ExportableDescription {
+    productUrl: string;
+    description: string;
+    jsonLd: string;
+    failed: boolean;
+    product?: CatalogueProduct;
+    jsonLdValidation: JsonLdValidation | null; // null for failed generations, which have no markup
+}
+
+interface CmsExporter {
+    label: string;
+    fileName: string;
+    delimiter: ',' | ';';
+    headers: string[];
+    includesJsonLd: boolean; // Rows with invalid markup are left out of these exports
+    // Returns null when the CMS could not match the row to an existing product.
+    toRow: (item: ExportableDescription) => string[] | null;
+    // Import option the exported rows rely on, shown with the download.
+    importNote?: (items: ExportableDescription[]) => string | null;
+}
+
+
+export const cmsExporters: Record<ExportFormat, CmsExporter> = {
+    csv: {
+        label: 'Exporter en CSV',
+        fileName: 'fiches_produits.csv',
+        delimiter: ',',
+        headers: ['Product URL', 'Description', 'JSON-LD Script'],
+        includesJsonLd: true,
+        toRow: (item) => [item.productUrl, item.description, item.jsonLd],
+    },
+    // Product CSV import with "Overwrite products with matching handles": columns left out are not modified.
+    shopify: {
+        label: 'Exporter pour Shopify',
+        fileName: 'shopify_products.csv',
+        delimiter: ',',
+        headers: ['Handle', 'Body (HTML)', 'Metafield: custom.json_ld [multi_line_text_field]'],
+        includesJsonLd: true,
+        toRow: (item) => {
+            const handle = item.product?.handle || shopifyHandleFromUrl(item.productUrl);
+            return handle ? [handle, item.description, item.jsonLd] : null;
+        },
+    },
+    // Built-in WooCommerce product importer with "Update existing products": rows are matched on ID, then SKU.
+    woocommerce: {
+        label: 'Exporter pour WooCommerce',
+        fileName: 'woocommerce_products.csv',
+        delimiter: ',',
+        headers: ['ID', 'SKU', 'Description', 'Meta: _ottercluster_json_ld'],
+        includesJsonLd: true,
+        toRow: (item) => item.product?.productId || item.product?.sku
+            ? [item.product.productId || '', item.product.sku || '', item.description, item.jsonLd]
+            : null,
+    },
+    // PrestaShop "Catalogue > Import" for products, semicolon separated. It has no field for JSON-LD.
+    // Rows are matched on ID, then on the reference only with "Use product reference as key": without that
+    // option a row with an empty ID creates a new product.
+    prestashop: {
+        label: 'Exporter pour PrestaShop',
+        fileName: 'prestashop_products.csv',
+        delimiter: ';',
+        headers: ['ID', 'Reference #', 'Description'],
+        includesJsonLd: false,
+        toRow: (item) => item.product?.productId || item.product?.sku
+            ? [item.product.productId || '', item.product.sku || '', item.description]
+            : null,
+        importNote: (items) => items.some(item => !item.product?.productId)
+            ? "Certaines fiches n'ont que leur référence : lors de l'import dans PrestaShop, cochez « Utiliser la référence produit comme clé », sinon elles seront créées comme nouveaux produits."
+            : null,
+    },
+};
+
+export const cmsExportFormats: Partial<Record<CMS, ExportFormat>> = {
+    shopify: 'shopify',
+    woocommerce: 'woocommerce',
+    prestashop: 'prestashop',
+};
+
+// Failed generations are never sent to a CMS: importing them would overwrite real descriptions with error text.
+export const buildCmsExport = (format: ExportFormat, items: ExportableDescription[]): { content: string; exported: number; skipped: number; invalid: number; importNote: string | null } => {
+    const exporter = cmsExporters[format];
+    const escapeCsv = (field: string) => `"${(field || '').replace(/"/g, '""')}"`;
+    const isInvalid = (item: ExportableDescription) => exporter.includesJsonLd && item.jsonLdValidation !== null && !item.jsonLdValidation.valid;
+    const invalid = items.filter(isInvalid).length;
+    const exportedItems: ExportableDescription[] = [];
+    const exportedRows: string[][] = [];
+    items
+        .filter(item => (format === 'csv' || !item.failed) && !isInvalid(item))
+        .forEach(item => {
+            const row = exporter.toRow(item);
+            if (row) {
+                exportedItems.push(item);
+                exportedRows.push(row);
+            }
+        });
+
+    const content = [exporter.headers, ...exportedRows]
+        .map(row => row.map(escapeCsv).join(exporter.delimiter))
+        .join('\r\n') + '\r\n';
+    return {
+        content,
+        exported: exportedRows.length,
+        skipped: items.length - exportedRows.length - invalid,
+        invalid,
+        importNote: exporter.importNote?.(exportedItems) ?? null,
+    };
+};
@@ -0,0 +1,168 @@
+// CSV import: parsing (RFC 4180, delimiter and encoding detection) and mapping of columns to fields.
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvTable {
+    headers: string[]; // "Colonne N" placeholders when the file has no header row.
+    rows: string[][]; // Every row has exactly headers.length cells.
+    delimiter: CsvDelimiter;
+    encoding: CsvEncoding;
+    hasHeader: boolean;
+}
+
+export interface CsvParseOptions {
+    delimiter?: CsvDelimiter;
+    encoding?: CsvEncoding;
+    hasHeader?: boolean;
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+export const CSV_ENCODINGS: CsvEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+const CSV_DETECTION_SAMPLE_LENGTH = 64 * 1024;
+
+export const csvDelimiterLabels: Record<CsvDelimiter, string> = {
+    ',': 'Virgule (,)',
+    ';': 'Point-virgule (;)',
+    '\t': 'Tabulation',
+    '|': 'Barre verticale (|)',
+};
+
+export const csvEncodingLabels: Record<CsvEncoding, string> = {
+    'utf-8': 'UTF-8',
+    'utf-16le': 'UTF-16 LE',
+    'utf-16be': 'UTF-16 BE',
+    'windows-1252': 'Windows-1252 (Excel)',
+};
+
+// RFC 4180: fields may be quoted, quoted fields may contain delimiters, line breaks and "" escapes.
+// Quotes that do not open a field are kept as literal characters, as spreadsheets do.
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): string[][] => {
+    const input = text.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let fieldStarted = false;
+
+    const endField = () => {
+        row.push(field);
+        field = '';
+        fieldStarted = false;
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && !fieldStarted) {
+            inQuotes = true;
+            fieldStarted = true;
+        } else if (char === delimiter) {
+            endField();
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endField();
+            rows.push(row);
+            row = [];
+        } else {
+            field += char;
+            fieldStarted = true;
+        }
+    }
+    if (fieldStarted || row.length > 0) {
+        endField();
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Picks the delimiter that splits the first rows into the most consistent number of columns.
+export const detectCsvDelimiter = (text: string): CsvDelimiter => {
+    const sample = text.slice(0, CSV_DETECTION_SAMPLE_LENGTH);
+    let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+    CSV_DELIMITERS.forEach(delimiter => {
+        const rows = parseCsv(sample, delimiter).slice(0, 20);
+        const columns = rows[0]?.length ?? 0;
+        if (columns < 2) return;
+        const consistentRows = rows.filter(r => r.length === columns).length;
+        const score = (consistentRows / rows.length) * 100 + Math.min(columns, 50);
+        if (score > best.score) best = { delimiter, score };
+    });
+    return best.delimiter;
+};
+
+// Honours a byte order mark, then falls back to Windows-1252 (Excel's "CSV" on Windows) when the bytes are not valid UTF-8.
+export const decodeTextFile = (buffer: ArrayBuffer, encoding?: CsvEncoding): { text: string; encoding: CsvEncoding } => {
+    const bytes = new Uint8Array(buffer);
+    if (!encoding) {
+        if (bytes[0] === 0xFF && bytes[1] === 0xFE) encoding = 'utf-16le';
+        else if (bytes[0] === 0xFE && bytes[1] === 0xFF) encoding = 'utf-16be';
+        else {
+            try {
+                return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+            } catch (_) {
+                encoding = 'windows-1252';
+            }
+        }
+    }
+    return { text: new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, ''), encoding };
+};
+
+export const parseCsvTable = (buffer: ArrayBuffer, options: CsvParseOptions = {}): CsvTable => {
+    const { text, encoding } = decodeTextFile(buffer, options.encoding);
+    const delimiter = options.delimiter ?? detectCsvDelimiter(text);
+    const rows = parseCsv(text, delimiter);
+    const columnCount = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    // A first row starting with a URL is data (plain URL lists have no header).
+    const hasHeader = options.hasHeader ?? !/^https?:\/\//i.test(rows[0]?.[0]?.trim() ?? '');
+    const pad = (r: string[]) => Array.from({ length: columnCount }, (_, i) => r[i] ?? '');
+    const headers = hasHeader && rows.length > 0
+        ? pad(rows[0]).map((h, i) => h.trim() || `Colonne ${i + 1}`)
+        : Array.from({ length: columnCount }, (_, i) => `Colonne ${i + 1}`);
+    return { headers, rows: (hasHeader ? rows.slice(1) : rows).map(pad), delimiter, encoding, hasHeader };
+};
+
+export const normalizeCsvHeader = (header: string): string => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Exact alias matches win over partial ones; short aliases such as "id" or "url" only match exactly.
+export const findCsvColumn = (headers: string[], aliases: string[], usedColumns: Set<number> = new Set()): number => {
+    const normalized = headers.map(normalizeCsvHeader);
+    const available = (index: number) => index >= 0 && !usedColumns.has(index);
+    for (const alias of aliases) {
+        const index = normalized.indexOf(alias);
+        if (available(index)) return index;
+    }
+    for (const alias of aliases.filter(a => a.length > 3)) {
+        const index = normalized.findIndex((h, i) => available(i) && h.includes(alias));
+        if (index >= 0) return index;
+    }
+    return -1;
+};
+
+export interface CsvColumnField {
+    key: string;
+    label: string;
+    aliases: string[]; // Lower-case header names recognised for this field.
+    required?: boolean;
+}
+
+export type CsvColumnMapping = Record<string, number>; // Field key to column index, -1 when the field is not imported.
+
+export const guessCsvMapping = (headers: string[], fields: CsvColumnField[]): CsvColumnMapping => {
+    const usedColumns = new Set<number>();
+    return Object.fromEntries(fields.map(field => {
+        const index = findCsvColumn(headers, field.aliases, usedColumns);
+        if (index >= 0) usedColumns.add(index);
+        return [field.key, index];
+    }));
+};
+
+export const csvCell = (row: string[], index: number | undefined): string =>
+    index !== undefined && index >= 0 ? (row[index] ?? '').trim() : '';
@@ -0,0 +1,342 @@
+// Checks generated markup against the schema.org types we produce and Google's rich result rules:
+// errors make the markup ineligible (and block its export), warnings only cost rich result features.
+type JsonLdRichResultType = 'Product' | 'FAQPage' | 'Article' | 'BreadcrumbList' | 'Organization' | 'ItemList' | 'ProductGroup' | 'MerchantReturnPolicy' | 'OfferShippingDetails';
+type JsonLdIssueSeverity = 'error' | 'warning';
+
+interface JsonLdIssue {
+    severity: JsonLdIssueSeverity;
+    path: string; // e.g. "Product.offers[0].price"
+    message: string;
+}
+
+export interface JsonLdValidation {
+    valid: boolean; // No errors
+    data: unknown; // Parsed markup, null when it is not valid JSON
+    types: string[]; // Top-level @type values
+    issues: JsonLdIssue[];
+}
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting'];
+const ORGANIZATION_TYPES = ['Organization', 'OnlineStore', 'OnlineBusiness', 'Corporation', 'Store'];
+const RETURN_POLICY_CATEGORY_VALUES = ['MerchantReturnFiniteReturnWindow', 'MerchantReturnNotPermitted', 'MerchantReturnUnlimitedWindow', 'MerchantReturnUnspecified'];
+const RETURN_METHOD_VALUES = ['ReturnByMail', 'ReturnInStore', 'ReturnAtKiosk'];
+const RETURN_FEES_VALUES = ['FreeReturn', 'ReturnFeesCustomerResponsibility', 'ReturnShippingFees', 'OriginalShippingFees', 'RestockingFees'];
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const ITEM_AVAILABILITY_VALUES = ['InStock', 'OutOfStock', 'PreOrder', 'PreSale', 'BackOrder', 'Discontinued', 'InStoreOnly', 'OnlineOnly', 'LimitedAvailability', 'SoldOut', 'MadeToOrder'];
+const ITEM_CONDITION_VALUES = ['NewCondition', 'UsedCondition', 'RefurbishedCondition', 'DamagedCondition'];
+const JSON_LD_PRICE_PATTERN = /^\d+(\.\d+)?$/;
+const JSON_LD_CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const JSON_LD_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const MAX_ARTICLE_HEADLINE_LENGTH = 110;
+
+export const jsonLdTypesOf = (node: any): string[] => {
+    const type = node?.['@type'];
+    return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string').map(t => t.replace(/^https?:\/\/schema\.org\//, ''));
+};
+
+export const asJsonLdList = (value: unknown): any[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+const isBlankJsonLdValue = (value: unknown): boolean =>
+    value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+// Enumeration members are full schema.org URLs; the bare name is tolerated by Google but flagged.
+const checkJsonLdEnum = (issues: JsonLdIssue[], path: string, value: unknown, allowed: string[]) => {
+    if (isBlankJsonLdValue(value)) return;
+    const text = String(value);
+    const name = text.replace(/^https?:\/\/schema\.org\//, '');
+    if (typeof value !== 'string' || !allowed.includes(name)) {
+        issues.push({ severity: 'error', path, message: `Valeur « ${text} » invalide. Valeurs acceptées : ${allowed.map(v => `https://schema.org/${v}`).join(', ')}.` });
+    } else if (name === text) {
+        issues.push({ severity: 'warning', path, message: `Utilisez l'URL complète « https://schema.org/${name} ».` });
+    }
+};
+
+const checkJsonLdDate = (issues: JsonLdIssue[], path: string, value: unknown) => {
+    if (!isBlankJsonLdValue(value) && !(typeof value === 'string' && JSON_LD_DATE_PATTERN.test(value))) {
+        issues.push({ severity: 'error', path, message: `Date « ${String(value)} » invalide : utilisez le format ISO 8601 (AAAA-MM-JJ ou AAAA-MM-JJThh:mm:ss+01:00).` });
+    }
+};
+
+const requireJsonLdProperty = (issues: JsonLdIssue[], node: any, path: string, property: string, severity: JsonLdIssueSeverity = 'error') => {
+    if (isBlankJsonLdValue(node?.[property])) {
+        issues.push({ severity, path: `${path}.${property}`, message: severity === 'error' ? 'Propriété obligatoire manquante.' : 'Propriété recommandée manquante.' });
+    }
+};
+
+const validateJsonLdPrice = (issues: JsonLdIssue[], path: string, value: unknown) => {
+    if (isBlankJsonLdValue(value)) return;
+    if (!JSON_LD_PRICE_PATTERN.test(String(value).trim())) {
+        issues.push({ severity: 'error', path, message: `Prix « ${String(value)} » invalide : nombre sans symbole monétaire ni séparateur de milliers, avec un point décimal (ex. 39.90).` });
+    }
+};
+
+const validateJsonLdOffer = (issues: JsonLdIssue[], offer: any, path: string) => {
+    const types = jsonLdTypesOf(offer);
+    if (types.includes('AggregateOffer')) {
+        requireJsonLdProperty(issues, offer, path, 'lowPrice');
+        validateJsonLdPrice(issues, `${path}.lowPrice`, offer.lowPrice);
+        validateJsonLdPrice(issues, `${path}.highPrice`, offer.highPrice);
+        requireJsonLdProperty(issues, offer, path, 'offerCount', 'warning');
+    } else {
+        if (!types.includes('Offer')) {
+            issues.push({ severity: 'warning', path: `${path}.@type`, message: "Une offre doit être de type « Offer » ou « AggregateOffer »." });
+        }
+        if (isBlankJsonLdValue(offer?.price) && isBlankJsonLdValue(offer?.priceSpecification)) {
+            issues.push({ severity: 'error', path: `${path}.price`, message: 'Propriété obligatoire manquante.' });
+        }
+        validateJsonLdPrice(issues, `${path}.price`, offer?.price);
+        requireJsonLdProperty(issues, offer, path, 'availability', 'warning');
+        requireJsonLdProperty(issues, offer, path, 'url', 'warning');
+    }
+    if (isBlankJsonLdValue(offer?.priceCurrency) && isBlankJsonLdValue(offer?.priceSpecification)) {
+        issues.push({ severity: 'error', path: `${path}.priceCurrency`, message: 'Propriété obligatoire manquante.' });
+    } else if (!isBlankJsonLdValue(offer?.priceCurrency) && !JSON_LD_CURRENCY_PATTERN.test(String(offer.priceCurrency))) {
+        issues.push({ severity: 'error', path: `${path}.priceCurrency`, message: `Devise « ${String(offer.priceCurrency)} » invalide : code ISO 4217 en majuscules attendu (ex. EUR).` });
+    }
+    checkJsonLdEnum(issues, `${path}.availability`, offer?.availability, ITEM_AVAILABILITY_VALUES);
+    checkJsonLdEnum(issues, `${path}.itemCondition`, offer?.itemCondition, ITEM_CONDITION_VALUES);
+    checkJsonLdDate(issues, `${path}.priceValidUntil`, offer?.priceValidUntil);
+    asJsonLdList(offer?.shippingDetails).forEach((details, index) => validateJsonLdShippingDetails(issues, details, `${path}.shippingDetails${Array.isArray(offer.shippingDetails) ? `[${index}]` : ''}`));
+    asJsonLdList(offer?.hasMerchantReturnPolicy).forEach(policy => validateJsonLdReturnPolicy(issues, policy, `${path}.hasMerchantReturnPolicy`));
+};
+
+const checkJsonLdCountry = (issues: JsonLdIssue[], path: string, value: unknown) => {
+    asJsonLdList(value).forEach(country => {
+        const code = typeof country === 'string' ? country : country?.addressCountry ?? country?.name;
+        if (typeof code !== 'string' || !COUNTRY_CODE_PATTERN.test(code)) {
+            issues.push({ severity: 'error', path, message: `Pays « ${String(code)} » invalide : code ISO 3166-1 alpha-2 attendu (ex. FR).` });
+        }
+    });
+};
+
+const checkJsonLdInteger = (issues: JsonLdIssue[], path: string, value: unknown) => {
+    if (!isBlankJsonLdValue(value) && !/^\d+$/.test(String(value))) {
+        issues.push({ severity: 'error', path, message: `Valeur « ${String(value)} » invalide : nombre entier positif attendu.` });
+    }
+};
+
+const validateJsonLdReturnPolicy = (issues: JsonLdIssue[], policy: any, path: string) => {
+    requireJsonLdProperty(issues, policy, path, 'applicableCountry');
+    checkJsonLdCountry(issues, `${path}.applicableCountry`, policy?.applicableCountry);
+    requireJsonLdProperty(issues, policy, path, 'returnPolicyCategory');
+    checkJsonLdEnum(issues, `${path}.returnPolicyCategory`, policy?.returnPolicyCategory, RETURN_POLICY_CATEGORY_VALUES);
+    if (String(policy?.returnPolicyCategory ?? '').endsWith('MerchantReturnFiniteReturnWindow')) {
+        requireJsonLdProperty(issues, policy, path, 'merchantReturnDays');
+    }
+    checkJsonLdInteger(issues, `${path}.merchantReturnDays`, policy?.merchantReturnDays);
+    checkJsonLdEnum(issues, `${path}.returnMethod`, policy?.returnMethod, RETURN_METHOD_VALUES);
+    checkJsonLdEnum(issues, `${path}.returnFees`, policy?.returnFees, RETURN_FEES_VALUES);
+    if (String(policy?.returnFees ?? '').endsWith('ReturnShippingFees')) {
+        requireJsonLdProperty(issues, policy, path, 'returnShippingFeesAmount');
+    }
+};
+
+const validateJsonLdMonetaryAmount = (issues: JsonLdIssue[], amount: any, path: string) => {
+    requireJsonLdProperty(issues, amount, path, 'value');
+    validateJsonLdPrice(issues, `${path}.value`, amount?.value);
+    requireJsonLdProperty(issues, amount, path, 'currency');
+    if (!isBlankJsonLdValue(amount?.currency) && !JSON_LD_CURRENCY_PATTERN.test(String(amount.currency))) {
+        issues.push({ severity: 'error', path: `${path}.currency`, message: `Devise « ${String(amount.currency)} » invalide : code ISO 4217 en majuscules attendu (ex. EUR).` });
+    }
+};
+
+const validateJsonLdShippingDetails = (issues: JsonLdIssue[], details: any, path: string) => {
+    requireJsonLdProperty(issues, details, path, 'shippingRate');
+    if (details?.shippingRate) validateJsonLdMonetaryAmount(issues, details.shippingRate, `${path}.shippingRate`);
+    requireJsonLdProperty(issues, details, path, 'shippingDestination');
+    asJsonLdList(details?.shippingDestination).forEach(destination => checkJsonLdCountry(issues, `${path}.shippingDestination.addressCountry`, destination?.addressCountry));
+    requireJsonLdProperty(issues, details, path, 'deliveryTime', 'warning');
+    ['handlingTime', 'transitTime'].forEach(property => {
+        const range = details?.deliveryTime?.[property];
+        if (!range) return;
+        checkJsonLdInteger(issues, `${path}.deliveryTime.${property}.minValue`, range.minValue);
+        checkJsonLdInteger(issues, `${path}.deliveryTime.${property}.maxValue`, range.maxValue);
+        if (Number(range.minValue) > Number(range.maxValue)) {
+            issues.push({ severity: 'error', path: `${path}.deliveryTime.${property}`, message: '« minValue » ne peut pas dépasser « maxValue ».' });
+        }
+    });
+};
+
+// BreadcrumbList and ItemList share ListItem entries; breadcrumbs need a name on each step and a URL on all but the last.
+const validateJsonLdListItems = (issues: JsonLdIssue[], list: any, path: string, kind: 'breadcrumb' | 'list') => {
+    const items = asJsonLdList(list.itemListElement);
+    if (items.length === 0) {
+        issues.push({ severity: 'error', path: `${path}.itemListElement`, message: 'Au moins un élément (« ListItem ») est obligatoire.' });
+    }
+    items.forEach((item, index) => {
+        const itemPath = `${path}.itemListElement[${index}]`;
+        if (isBlankJsonLdValue(item?.position)) {
+            issues.push({ severity: 'error', path: `${itemPath}.position`, message: 'Propriété obligatoire manquante.' });
+        } else if (Number(item.position) !== index + 1) {
+            issues.push({ severity: 'warning', path: `${itemPath}.position`, message: `Position ${item.position} inattendue : les positions doivent se suivre à partir de 1.` });
+        }
+        if (kind === 'breadcrumb') {
+            if (isBlankJsonLdValue(item?.name) && isBlankJsonLdValue(item?.item?.name)) {
+                issues.push({ severity: 'error', path: `${itemPath}.name`, message: 'Propriété obligatoire manquante.' });
+            }
+            if (index < items.length - 1 && isBlankJsonLdValue(item?.item)) {
+                issues.push({ severity: 'error', path: `${itemPath}.item`, message: "L'URL est obligatoire pour tous les niveaux sauf le dernier." });
+            }
+        } else if (isBlankJsonLdValue(item?.url) && isBlankJsonLdValue(item?.item)) {
+            issues.push({ severity: 'error', path: `${itemPath}.url`, message: "« url » ou « item » est obligatoire." });
+        }
+    });
+};
+
+const validateJsonLdOrganization = (issues: JsonLdIssue[], organization: any, path: string) => {
+    requireJsonLdProperty(issues, organization, path, 'name');
+    ['url', 'logo'].forEach(property => requireJsonLdProperty(issues, organization, path, property, 'warning'));
+    asJsonLdList(organization.sameAs).forEach(link => {
+        if (typeof link !== 'string' || !/^https?:\/\//.test(link)) {
+            issues.push({ severity: 'error', path: `${path}.sameAs`, message: `« ${String(link)} » n'est pas une URL.` });
+        }
+    });
+    asJsonLdList(organization.address).filter(address => typeof address === 'object').forEach(address => {
+        requireJsonLdProperty(issues, address, `${path}.address`, 'addressCountry', 'warning');
+        if (!isBlankJsonLdValue(address.addressCountry)) checkJsonLdCountry(issues, `${path}.address.addressCountry`, address.addressCountry);
+    });
+    asJsonLdList(organization.hasMerchantReturnPolicy).forEach(policy => validateJsonLdReturnPolicy(issues, policy, `${path}.hasMerchantReturnPolicy`));
+};
+
+const validateJsonLdProductGroup = (issues: JsonLdIssue[], group: any, path: string) => {
+    requireJsonLdProperty(issues, group, path, 'name');
+    ['productGroupID', 'variesBy'].forEach(property => requireJsonLdProperty(issues, group, path, property, 'warning'));
+    const variants = asJsonLdList(group.hasVariant);
+    if (variants.length === 0) {
+        issues.push({ severity: 'error', path: `${path}.hasVariant`, message: 'Au moins une variante (« Product ») est obligatoire.' });
+    }
+    variants.forEach((variant, index) => {
+        if (!variant || typeof variant !== 'object' || Array.isArray(variant)) {
+            issues.push({ severity: 'error', path: `${path}.hasVariant[${index}]`, message: 'Chaque variante doit être un objet « Product ».' });
+            return;
+        }
+        validateJsonLdProduct(issues, variant, `${path}.hasVariant[${index}]`);
+    });
+};
+
+const validateJsonLdProduct = (issues: JsonLdIssue[], product: any, path: string) => {
+    requireJsonLdProperty(issues, product, path, 'name');
+    if (['offers', 'review', 'aggregateRating'].every(property => isBlankJsonLdValue(product[property]))) {
+        issues.push({ severity: 'error', path, message: "Au moins une des propriétés « offers », « review » ou « aggregateRating » est obligatoire." });
+    }
+    ['image', 'description', 'brand', 'sku'].forEach(property => requireJsonLdProperty(issues, product, path, property, 'warning'));
+    if (['gtin', 'gtin8', 'gtin12', 'gtin13', 'gtin14', 'mpn'].every(property => isBlankJsonLdValue(product[property]))) {
+        issues.push({ severity: 'warning', path, message: "Ajoutez un identifiant produit (« gtin » ou « mpn ») pour les fiches marchandes." });
+    }
+    if (typeof product.brand === 'string') {
+        issues.push({ severity: 'warning', path: `${path}.brand`, message: "La marque doit être un objet { \"@type\": \"Brand\", \"name\": ... }." });
+    }
+    asJsonLdList(product.offers).forEach((offer, index) => validateJsonLdOffer(issues, offer, `${path}.offers${Array.isArray(product.offers) ? `[${index}]` : ''}`));
+    asJsonLdList(product.aggregateRating).forEach(rating => {
+        requireJsonLdProperty(issues, rating, `${path}.aggregateRating`, 'ratingValue');
+        if (isBlankJsonLdValue(rating?.reviewCount) && isBlankJsonLdValue(rating?.ratingCount)) {
+            issues.push({ severity: 'error', path: `${path}.aggregateRating`, message: "« ratingCount » ou « reviewCount » est obligatoire." });
+        }
+    });
+};
+
+const validateJsonLdFaqPage = (issues: JsonLdIssue[], page: any, path: string) => {
+    const questions = asJsonLdList(page.mainEntity);
+    if (questions.length === 0) {
+        issues.push({ severity: 'error', path: `${path}.mainEntity`, message: 'Au moins une question (« Question ») est obligatoire.' });
+    }
+    questions.forEach((question, index) => {
+        const questionPath = `${path}.mainEntity[${index}]`;
+        if (!jsonLdTypesOf(question).includes('Question')) {
+            issues.push({ severity: 'error', path: `${questionPath}.@type`, message: "Chaque élément doit être de type « Question »." });
+        }
+        requireJsonLdProperty(issues, question, questionPath, 'name');
+        const answer = asJsonLdList(question?.acceptedAnswer)[0];
+        if (!answer) {
+            issues.push({ severity: 'error', path: `${questionPath}.acceptedAnswer`, message: 'Propriété obligatoire manquante.' });
+        } else {
+            if (!jsonLdTypesOf(answer).includes('Answer')) {
+                issues.push({ severity: 'error', path: `${questionPath}.acceptedAnswer.@type`, message: "La réponse doit être de type « Answer »." });
+            }
+            requireJsonLdProperty(issues, answer, `${questionPath}.acceptedAnswer`, 'text');
+        }
+    });
+};
+
+const validateJsonLdArticle = (issues: JsonLdIssue[], article: any, path: string) => {
+    ['headline', 'image', 'author', 'datePublished', 'dateModified', 'publisher'].forEach(property => requireJsonLdProperty(issues, article, path, property, 'warning'));
+    if (typeof article.headline === 'string' && article.headline.length > MAX_ARTICLE_HEADLINE_LENGTH) {
+        issues.push({ severity: 'warning', path: `${path}.headline`, message: `Titre trop long (${article.headline.length} caractères) : Google peut le tronquer au-delà de ${MAX_ARTICLE_HEADLINE_LENGTH}.` });
+    }
+    asJsonLdList(article.author).forEach((author, index) => {
+        if (typeof author === 'string') {
+            issues.push({ severity: 'warning', path: `${path}.author`, message: "L'auteur doit être un objet « Person » ou « Organization » avec un « name »." });
+        } else {
+            requireJsonLdProperty(issues, author, `${path}.author${Array.isArray(article.author) ? `[${index}]` : ''}`, 'name');
+        }
+    });
+    checkJsonLdDate(issues, `${path}.datePublished`, article.datePublished);
+    checkJsonLdDate(issues, `${path}.dateModified`, article.dateModified);
+};
+
+// Accepts a bare object, an array, an @graph, or the same wrapped in a <script> tag or a Markdown code fence.
+export const parseJsonLdText = (text: string): unknown => {
+    const cleaned = text.trim()
+        .replace(/^```(?:json|json-ld)?\s*([\s\S]*?)\s*```$/, '$1')
+        .replace(/^<script[^>]*>([\s\S]*?)<\/script>$/i, '$1');
+    return JSON.parse(cleaned);
+};
+
+export const validateJsonLd = (markup: unknown, expectedType?: JsonLdRichResultType): JsonLdValidation => {
+    const issues: JsonLdIssue[] = [];
+    let data: unknown = null;
+    try {
+        data = typeof markup === 'string' ? parseJsonLdText(markup) : markup;
+    } catch (e: any) {
+        return { valid: false, data: null, types: [], issues: [{ severity: 'error', path: '', message: `JSON invalide : ${e.message}` }] };
+    }
+    if (data === null || typeof data !== 'object') {
+        return { valid: false, data, types: [], issues: [{ severity: 'error', path: '', message: 'Le JSON-LD doit être un objet ou une liste d\'objets.' }] };
+    }
+
+    const roots = asJsonLdList(data);
+    const nodes = roots.flatMap(root => (Array.isArray(root?.['@graph']) ? root['@graph'] : [root]));
+    roots.forEach((root, index) => {
+        const context = root?.['@context'];
+        const contextUrl = typeof context === 'string' ? context : typeof context?.['@vocab'] === 'string' ? context['@vocab'] : '';
+        if (!/^https?:\/\/schema\.org\/?$/.test(contextUrl)) {
+            issues.push({ severity: 'error', path: roots.length > 1 ? `[${index}].@context` : '@context', message: "« @context » doit valoir « https://schema.org »." });
+        }
+    });
+
+    const types = nodes.flatMap(jsonLdTypesOf);
+    nodes.forEach((node, index) => {
+        const nodeTypes = jsonLdTypesOf(node);
+        const path = nodeTypes[0] ?? `[${index}]`;
+        if (nodeTypes.length === 0) {
+            issues.push({ severity: 'error', path: `${path}.@type`, message: 'Propriété obligatoire manquante.' });
+        } else if (nodeTypes.includes('Product')) {
+            validateJsonLdProduct(issues, node, path);
+        } else if (nodeTypes.includes('FAQPage')) {
+            validateJsonLdFaqPage(issues, node, path);
+        } else if (nodeTypes.some(type => ARTICLE_TYPES.includes(type))) {
+            validateJsonLdArticle(issues, node, path);
+        } else if (nodeTypes.includes('BreadcrumbList')) {
+            validateJsonLdListItems(issues, node, path, 'breadcrumb');
+        } else if (nodeTypes.includes('ItemList')) {
+            validateJsonLdListItems(issues, node, path, 'list');
+        } else if (nodeTypes.includes('ProductGroup')) {
+            validateJsonLdProductGroup(issues, node, path);
+        } else if (nodeTypes.some(type => ORGANIZATION_TYPES.includes(type))) {
+            validateJsonLdOrganization(issues, node, path);
+        } else if (nodeTypes.includes('MerchantReturnPolicy')) {
+            validateJsonLdReturnPolicy(issues, node, path);
+        } else if (nodeTypes.includes('OfferShippingDetails')) {
+            validateJsonLdShippingDetails(issues, node, path);
+        }
+    });
+    const expectedTypes = expectedType === 'Article' ? ARTICLE_TYPES : expectedType === 'Organization' ? ORGANIZATION_TYPES : expectedType ? [expectedType] : [];
+    if (expectedType && !types.some(type => expectedTypes.includes(type))) {
+        issues.push({ severity: 'error', path: '@type', message: `Aucun élément de type « ${expectedType} » : le résultat enrichi attendu ne peut pas être affiché.` });
+    }
+    return { valid: !issues.some(issue => issue.severity === 'error'), data, types, issues };
+};
+
+// Markup that parses is re-indented for display and copy; anything else is returned as is.
+export const formatJsonLd = (markup: string, validation: JsonLdValidation): string =>
+    validation.data !== null ? JSON.stringify(validation.data, null, 2) : markup;
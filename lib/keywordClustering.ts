@@ -0,0 +1,170 @@
+import type { Project } from './models';
+import { normalizeQuery, type SearchIntention } from './searchIntentions';
+
+// Groups a project's search queries into topics and detects their search intent.
+export type SearchIntentType = 'informational' | 'commercial' | 'transactional' | 'navigational';
+export type ClusteringMethod = 'lexical' | 'embeddings' | 'hybrid';
+
+export const SEARCH_INTENT_TYPES: SearchIntentType[] = ['transactional', 'commercial', 'informational', 'navigational'];
+
+export interface KeywordCluster {
+    id: string;
+    label: string;
+    intent: SearchIntentType;
+    queries: string[]; // Ordered by weight, the first one is the cluster's head query
+    url?: string; // Product or category page targeting the cluster
+}
+export const LOCAL_STORAGE_KEYWORD_CLUSTERS_PREFIX = 'semanticAppKeywordClusters_';
+
+export const defaultClusteringThresholds: Record<ClusteringMethod, number> = {
+    lexical: 0.5,
+    embeddings: 0.8,
+    hybrid: 0.65,
+};
+
+const CLUSTER_STOPWORDS = new Set([
+    'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'd', 'l', 'au', 'aux', 'et', 'ou', 'en', 'pour', 'par', 'sur', 'avec', 'sans',
+    'a', 'ce', 'ces', 'cet', 'cette', 'est', 'que', 'qui', 'mon', 'ma', 'mes', 'son', 'sa', 'ses', 'votre', 'vos', 'notre', 'nos',
+    'the', 'of', 'for', 'and', 'to', 'in', 'on', 'with', 'is', 'are', 'an', 'my', 'your',
+]);
+
+// Matched against the normalized query (lower-case, no accents), in the order of SEARCH_INTENT_TYPES.
+const searchIntentPatterns: Record<SearchIntentType, RegExp> = {
+    transactional: /\b(acheter|achat|prix|pas cher|promo|promotion|soldes?|commander|commande|livraison|vente|tarifs?|buy|price|cheap|discount|deals?|order|shop)\b/,
+    commercial: /\b(meilleure?s?|avis|comparatif|comparaison|comparer|vs|versus|top|test|classement|best|reviews?|alternatives?)\b/,
+    informational: /\b(comment|pourquoi|quand|quel|quelle|quels|quelles|qu est ce|definition|guide|tuto|tutoriel|astuces?|idees?|how|what|why|when|which)\b/,
+    navigational: /\b(login|connexion|se connecter|contact|service client|site officiel|magasins?|horaires|adresse)\b/,
+};
+
+export const intentionWeight = (intention: SearchIntention): number =>
+    intention.impressions || intention.volume || intention.clicks || 0;
+
+// Light stemming: plurals are folded so "robe rouge" and "robes rouges" share their tokens.
+export const queryTokens = (query: string): string[] =>
+    normalizeQuery(query)
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !CLUSTER_STOPWORDS.has(token))
+        .map(token => (token.length > 3 && /[sx]$/.test(token) ? token.slice(0, -1) : token));
+
+const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(token => { if (b.has(token)) shared++; });
+    return shared / (a.size + b.size - shared);
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Brand terms (e.g. the project name) make a query navigational whatever its other modifiers.
+export const detectSearchIntent = (query: string, brandTerms: string[] = []): SearchIntentType => {
+    const normalized = normalizeQuery(query).replace(/[^a-z0-9]+/g, ' ');
+    if (brandTerms.some(term => term && ` ${normalized} `.includes(` ${term} `))) return 'navigational';
+    const match = SEARCH_INTENT_TYPES.find(type => searchIntentPatterns[type].test(normalized));
+    // Queries without a modifier are mostly product or category searches on an e-commerce site.
+    return match ?? 'commercial';
+};
+
+export const brandTermsFor = (project: Project | undefined): string[] =>
+    project ? [normalizeQuery(project.name).replace(/[^a-z0-9]+/g, ' ').trim()].filter(term => term.length > 2) : [];
+
+// Keeps the head query's words that appear in at least half of the cluster's queries.
+const clusterLabel = (queries: string[]): string => {
+    const tokenSets = queries.map(query => new Set(queryTokens(query)));
+    const words = normalizeQuery(queries[0]).split(/[^a-z0-9]+/).filter(Boolean);
+    const shared = words.filter(word => {
+        const [token] = queryTokens(word);
+        return token && tokenSets.filter(set => set.has(token)).length * 2 >= queries.length;
+    });
+    return shared.length > 0 ? shared.join(' ') : queries[0];
+};
+
+interface ClusteringOptions {
+    method: ClusteringMethod;
+    threshold: number;
+    embeddings?: number[][]; // Aligned with the intentions, required unless the method is lexical
+    brandTerms?: string[];
+}
+
+// Leader clustering: queries are visited by decreasing weight and join the most similar existing
+// cluster head when the similarity reaches the threshold, otherwise they start a new cluster.
+export const clusterIntentions = (intentions: SearchIntention[], options: ClusteringOptions): KeywordCluster[] => {
+    const items = intentions
+        .map((intention, index) => ({ intention, weight: intentionWeight(intention), tokens: new Set(queryTokens(intention.query)), embedding: options.embeddings?.[index] }))
+        .sort((a, b) => b.weight - a.weight);
+    const similarity = (a: typeof items[number], b: typeof items[number]): number => {
+        const lexical = jaccardSimilarity(a.tokens, b.tokens);
+        if (options.method === 'lexical' || !a.embedding || !b.embedding) return lexical;
+        const semantic = cosineSimilarity(a.embedding, b.embedding);
+        return options.method === 'embeddings' ? semantic : (lexical + semantic) / 2;
+    };
+
+    const groups: (typeof items)[] = [];
+    items.forEach(item => {
+        let bestGroup: typeof items | null = null;
+        let bestScore = options.threshold;
+        for (const group of groups) {
+            const score = similarity(group[0], item);
+            if (score >= bestScore) {
+                bestGroup = group;
+                bestScore = score;
+            }
+        }
+        if (bestGroup) {
+            bestGroup.push(item);
+        } else {
+            groups.push([item]);
+        }
+    });
+
+    const createdAt = Date.now();
+    return groups.map((group, index) => {
+        const intentWeights = new Map<SearchIntentType, number>();
+        group.forEach(item => {
+            const intent = detectSearchIntent(item.intention.query, options.brandTerms);
+            intentWeights.set(intent, (intentWeights.get(intent) ?? 0) + Math.max(item.weight, 1));
+        });
+        const intent = SEARCH_INTENT_TYPES.reduce((top, type) => ((intentWeights.get(type) ?? 0) > (intentWeights.get(top) ?? 0) ? type : top), SEARCH_INTENT_TYPES[0]);
+        const queries = group.map(item => item.intention.query);
+        return { id: `cluster_${createdAt}_${index}`, label: clusterLabel(queries), intent, queries };
+    });
+};
+
+// Re-clustering keeps the label, intent and URL chosen for a previous cluster that contained the new head query.
+export const carryOverClusterMappings = (previous: KeywordCluster[], next: KeywordCluster[]): KeywordCluster[] => {
+    const byQuery = new Map<string, KeywordCluster>();
+    previous.forEach(cluster => cluster.queries.forEach(query => byQuery.set(normalizeQuery(query), cluster)));
+    const reused = new Set<string>();
+    return next.map(cluster => {
+        const match = byQuery.get(normalizeQuery(cluster.queries[0]));
+        if (!match || reused.has(match.id)) return cluster;
+        reused.add(match.id);
+        return { ...cluster, label: match.label, intent: match.intent, url: match.url };
+    });
+};
+
+// Queries given to the redaction prompt of products that match none of the project's queries: the head
+// queries of the heaviest clusters, so that every topic is represented before its variants.
+const MAX_PROMPT_INTENTIONS = 50;
+
+export const intentionsForPrompt = (intentions: SearchIntention[], clusters: KeywordCluster[]): string[] => {
+    if (clusters.length === 0) {
+        return [...intentions].sort((a, b) => intentionWeight(b) - intentionWeight(a)).map(i => i.query).slice(0, MAX_PROMPT_INTENTIONS);
+    }
+    const queries: string[] = [];
+    for (let rank = 0; queries.length < MAX_PROMPT_INTENTIONS && clusters.some(c => c.queries.length > rank); rank++) {
+        clusters.forEach(cluster => {
+            if (rank < cluster.queries.length && queries.length < MAX_PROMPT_INTENTIONS) queries.push(cluster.queries[rank]);
+        });
+    }
+    return queries;
+};
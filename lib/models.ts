@@ -0,0 +1,87 @@
+import type { CompetitiveAnalysisResult, CroAuditResult, ProductPageAnalysisResult } from '../shared/aiSchemas';
+
+// Entities persisted through the repositories of lib/storage.ts, with their browser storage keys.
+export type CMS = 'woocommerce' | 'shopify' | 'prestashop' | 'bigcommerce' | 'other';
+
+export interface Project {
+    id: string;
+    name: string;
+    url: string;
+    cms?: CMS;
+    creationDate: string; // ISO string date
+    gscConnected?: boolean;
+    gaConnected?: boolean;
+}
+export const LOCAL_STORAGE_PROJECTS = 'semanticAppProjects';
+
+export interface UserProfileData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    language: string;
+    stripeCustomerId?: string;
+}
+export const LOCAL_STORAGE_USER_PROFILE = 'userProfileData';
+
+export interface Collaborator {
+    id: string;
+    email: string;
+    invitationDate: string; // ISO string date
+    invitationUrl?: string; // Only returned by the API when the invitation is created
+    creditsUsedMock?: number;
+    lastActivityMock?: string; // ISO string date
+}
+export const LOCAL_STORAGE_COLLABORATORS = 'semanticAppCollaborators';
+
+// Every AI tool can archive its results under a name, optionally in a project. Analyses saved before the
+// other tools could do so have no 'tool': they are competitive analyses.
+export type SavedResultTool = 'competitive-analysis' | 'product-page-analysis' | 'cro-optimization' | 'faq-generator' | 'summary-table-generator';
+
+interface SavedGeneratedContent {
+    subject: string; // FAQ topic or page URL, also the revision document of the content.
+    html: string;
+    jsonLd?: string;
+}
+
+export interface SavedResultsByTool {
+    'competitive-analysis': CompetitiveAnalysisResult;
+    'product-page-analysis': ProductPageAnalysisResult;
+    'cro-optimization': CroResult[];
+    'faq-generator': SavedGeneratedContent;
+    'summary-table-generator': SavedGeneratedContent;
+}
+
+export interface SavedAnalysis<T extends SavedResultTool = SavedResultTool> {
+    id: string;
+    name: string;
+    date: string;
+    urls: string[];
+    tool: T;
+    projectId?: string;
+    results: SavedResultsByTool[T];
+}
+export const LOCAL_STORAGE_COMPETITIVE_ANALYSES = 'competitiveAnalyses_v2';
+
+export const savedResultToolLabels: Record<SavedResultTool, string> = {
+    'competitive-analysis': 'Analyse concurrentielle',
+    'product-page-analysis': 'Analyse fiche produit',
+    'cro-optimization': 'Audit CRO',
+    'faq-generator': 'FAQ',
+    'summary-table-generator': 'Tableau récapitulatif',
+};
+
+export const toSavedAnalysis = (item: SavedAnalysis): SavedAnalysis => ({ ...item, tool: item.tool ?? 'competitive-analysis' });
+
+export const isSavedResultOf = <T extends SavedResultTool>(item: SavedAnalysis | null | undefined, tool: T): item is SavedAnalysis<T> => item?.tool === tool;
+
+export interface CroResult {
+    url: string;
+    data: CroAuditResult | null; // null when the audit failed
+    error?: string;
+}
+
+// The templates, their versions and brand voices are defined in shared/promptTemplates.ts, with the API server.
+export const LOCAL_STORAGE_PROMPT_LIBRARY = 'semanticAppPromptLibrary';
+export const LOCAL_STORAGE_BRAND_VOICE_PREFIX = 'semanticAppBrandVoice_';
+
+export type UserRole = 'main' | 'collaborator';
@@ -0,0 +1,40 @@
+import type { UserRole } from './models';
+
+// Review of a generated description. Only approved descriptions reach the exports and CMS publishing. Reviews
+// are stored apart from the jobs, per product (document key), so that clearing the results keeps them.
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'needs-rework';
+
+export interface ReviewAuthor {
+    email: string;
+    role: UserRole;
+}
+
+export const reviewAuthorLabel = (author: ReviewAuthor): string =>
+    author.role === 'collaborator' ? `${author.email} (collaborateur)` : author.email;
+
+export interface ReviewComment {
+    id: string;
+    author: ReviewAuthor;
+    text: string;
+    createdAt: string; // ISO string date
+}
+
+export interface DescriptionReview {
+    documentKey: string; // See revisionDocumentKey
+    status: ReviewStatus;
+    reviewedHtml?: string; // Text the decision was taken on: an edited or regenerated description is pending again
+    comments: ReviewComment[];
+    decidedBy?: ReviewAuthor;
+    decidedAt?: string;
+}
+
+export interface ReviewDecision {
+    documentKey: string;
+    html: string;
+}
+
+export const LOCAL_STORAGE_DESCRIPTION_REVIEWS = 'semanticAppDescriptionReviews';
+
+export const reviewStatusOf = (review: DescriptionReview, html: string): ReviewStatus =>
+    review.status !== 'pending' && review.reviewedHtml === html ? review.status : 'pending';
+export const emptyReview = (documentKey: string): DescriptionReview => ({ documentKey, status: 'pending', comments: [] });
@@ -0,0 +1,112 @@
+import type { RevisionDocumentKind } from '../shared/documentKeys';
+import type { ReviewAuthor } from './reviews';
+
+// Every generation and manual edit of a generated text is saved as a numbered revision of its document:
+// the product description, FAQ or summary table written for a given product, topic or page.
+export type RevisionSource = 'generation' | 'edit' | 'restore';
+
+export interface ContentRevision {
+    id: string;
+    documentKey: string; // See revisionDocumentKey
+    kind: RevisionDocumentKind;
+    title: string; // Product URL, FAQ topic or page URL
+    version: number;
+    html: string;
+    jsonLd?: string;
+    source: RevisionSource;
+    restoredFrom?: number; // Version copied by a restore
+    author: ReviewAuthor;
+    projectId?: string;
+    createdAt: string; // ISO string date
+}
+
+// Numbered and dated by the repository; the API also replaces the author with the signed-in user.
+export type NewContentRevision = Omit<ContentRevision, 'id' | 'version' | 'createdAt'>;
+
+export type RevisionContent = Pick<ContentRevision, 'html' | 'jsonLd'>;
+
+export const LOCAL_STORAGE_REVISIONS_PREFIX = 'semanticAppRevisions_';
+export const LOCAL_STORAGE_PROJECT_DOCUMENTS_PREFIX = 'semanticAppRevisionDocuments_'; // Document keys revised in each project.
+export const MAX_REVISIONS_PER_DOCUMENT = 100;
+
+export const revisionDocumentKindLabels: Record<RevisionDocumentKind, string> = {
+    'product-description': 'Fiche produit',
+    faq: 'FAQ',
+    'summary-table': 'Tableau récapitulatif',
+};
+
+export const revisionSourceLabels: Record<RevisionSource, string> = {
+    generation: 'Génération IA',
+    edit: 'Modification manuelle',
+    restore: 'Restauration',
+};
+
+// Keeps the revision numbering going after the oldest revisions have been dropped.
+export const appendRevision = (revisions: ContentRevision[], revision: NewContentRevision): { revisions: ContentRevision[]; saved: ContentRevision } => {
+    const version = (revisions[revisions.length - 1]?.version ?? 0) + 1;
+    const saved: ContentRevision = { ...revision, id: `${Date.now()}-${version}`, version, createdAt: new Date().toISOString() };
+    return { revisions: [...revisions, saved].slice(-MAX_REVISIONS_PER_DOCUMENT), saved };
+};
+
+// Word-level diff of two HTML fragments, rendered as the newer fragment with <ins>/<del> around the changed
+// words. Removed tags are left out so that the markup of the newer version stays well-formed.
+const HTML_DIFF_TOKEN_PATTERN = /<[^>]+>|[^<\s]+|\s+/g;
+const MAX_HTML_DIFF_CELLS = 4_000_000;
+
+type HtmlDiffOperation = { type: 'equal' | 'delete' | 'insert'; token: string };
+
+const diffTokens = (before: string[], after: string[]): HtmlDiffOperation[] => {
+    if (before.length * after.length > MAX_HTML_DIFF_CELLS) {
+        return [...before.map(token => ({ type: 'delete' as const, token })), ...after.map(token => ({ type: 'insert' as const, token }))];
+    }
+    // lengths[i * width + j] is the longest common subsequence of before[i..] and after[j..].
+    const width = after.length + 1;
+    const lengths = new Uint32Array((before.length + 1) * width);
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = before[i] === after[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+    const operations: HtmlDiffOperation[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            operations.push({ type: 'equal', token: before[i++] });
+            j++;
+        } else if (j >= after.length || (i < before.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+            operations.push({ type: 'delete', token: before[i++] });
+        } else {
+            operations.push({ type: 'insert', token: after[j++] });
+        }
+    }
+    return operations;
+};
+
+export const htmlDiff = (before: string, after: string): string => {
+    const operations = diffTokens(before.match(HTML_DIFF_TOKEN_PATTERN) ?? [], after.match(HTML_DIFF_TOKEN_PATTERN) ?? []);
+    let html = '';
+    let open: 'delete' | 'insert' | null = null;
+    const close = () => {
+        if (open) html += open === 'delete' ? '</del>' : '</ins>';
+        open = null;
+    };
+    for (const { type, token } of operations) {
+        const isTag = token.startsWith('<');
+        if (type === 'equal' || isTag) {
+            close();
+            if (type !== 'delete') html += token;
+            continue;
+        }
+        if (open !== type) {
+            close();
+            html += type === 'delete' ? '<del class="diff-del">' : '<ins class="diff-ins">';
+            open = type;
+        }
+        html += token;
+    }
+    close();
+    return html;
+};
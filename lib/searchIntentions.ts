@@ -0,0 +1,110 @@
+// Search queries of a project, imported from Search Console or keyword tool exports.
+export type IntentionSource = 'gsc' | 'atp' | 'manual';
+
+// Search Console and keyword tool metrics. `ctr` is a ratio between 0 and 1.
+interface SearchIntentionMetrics {
+    clicks?: number;
+    impressions?: number;
+    ctr?: number;
+    position?: number;
+    volume?: number;
+}
+
+export interface SearchIntention extends SearchIntentionMetrics {
+    query: string;
+    sources?: IntentionSource[]; // Absent on rows imported before sources were tracked.
+    extra?: Record<string, string>; // Other CSV columns, by normalized header
+}
+
+const SEARCH_INTENTION_METRICS: (keyof SearchIntentionMetrics)[] = ['clicks', 'impressions', 'ctr', 'position', 'volume'];
+
+// replace: the import becomes the whole data set; append: only unknown queries are added;
+// upsert: unknown queries are added and known ones take the imported values.
+export type IntentionMergeMode = 'replace' | 'append' | 'upsert';
+
+export interface SearchIntentionImport {
+    id: string;
+    date: string; // ISO string date
+    source: IntentionSource;
+    mode: IntentionMergeMode;
+    fileName: string;
+    added: number;
+    updated: number;
+    skipped: number;
+    previous: SearchIntention[]; // Data set before the import, restored by undo.
+}
+
+export const LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX = 'semanticAppSearchIntentions_';
+export const LOCAL_STORAGE_SEARCH_INTENTION_IMPORTS_PREFIX = 'semanticAppSearchIntentionImports_';
+export const MAX_SEARCH_INTENTION_IMPORTS = 5; // Each entry keeps a full snapshot, so the history stays short.
+
+const THOUSANDS_COMMA_PATTERN = /^-?[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/;
+
+// Metrics come from CSV cells, so they may hold thousands separators or decimal commas.
+// A comma followed by exactly three digits ("1,234", "12,345.6") separates thousands; any other is decimal ("4,5").
+export const parseIntentionMetric = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    const compact = String(value ?? '').replace(/[\s\u00A0%]/g, '');
+    const text = THOUSANDS_COMMA_PATTERN.test(compact) ? compact.replace(/,/g, '') : compact.replace(',', '.');
+    const parsed = text ? Number(text) : NaN;
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// GSC exports CTR as "4.5%" or "4,5 %"; bare numbers above 1 are read as percentages too.
+export const parseCtrMetric = (value: unknown): number | undefined => {
+    const parsed = parseIntentionMetric(value);
+    if (parsed === undefined) return undefined;
+    return (typeof value === 'string' && value.includes('%')) || parsed > 1 ? parsed / 100 : parsed;
+};
+
+// Rows stored before metrics were typed kept every CSV column as a top-level string.
+export const toSearchIntention = (raw: any): SearchIntention => {
+    const intention: SearchIntention = { query: String(raw?.query ?? '') };
+    if (Array.isArray(raw?.sources)) intention.sources = raw.sources;
+    SEARCH_INTENTION_METRICS.forEach(metric => {
+        const value = metric === 'ctr' ? parseCtrMetric(raw?.[metric]) : parseIntentionMetric(raw?.[metric]);
+        if (value !== undefined) intention[metric] = value;
+    });
+    const extra: Record<string, string> = { ...(raw?.extra ?? {}) };
+    Object.entries(raw ?? {}).forEach(([key, value]) => {
+        if (!['query', 'sources', 'extra', ...SEARCH_INTENTION_METRICS].includes(key) && value !== undefined && value !== null) extra[key] = String(value);
+    });
+    if (Object.keys(extra).length > 0) intention.extra = extra;
+    return intention;
+};
+
+export const toSearchIntentionImport = (entry: SearchIntentionImport): SearchIntentionImport => ({ ...entry, previous: entry.previous.map(toSearchIntention) });
+
+// Case, accents and whitespace are ignored when deciding whether two queries are the same.
+export const normalizeQuery = (query: string): string =>
+    query.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const mergeSearchIntentions = (existing: SearchIntention[], imported: SearchIntention[], mode: IntentionMergeMode, source: IntentionSource) => {
+    const merged = new Map<string, SearchIntention>(mode === 'replace' ? [] : existing.map(i => [normalizeQuery(i.query), i]));
+    let added = 0;
+    let updated = 0;
+    let skipped = 0;
+    const seen = new Set<string>();
+
+    imported.forEach(row => {
+        const key = normalizeQuery(row.query);
+        if (!key || seen.has(key)) {
+            skipped++;
+            return;
+        }
+        seen.add(key);
+        const current = merged.get(key);
+        if (!current) {
+            merged.set(key, { ...row, sources: [source] });
+            added++;
+        } else if (mode === 'upsert') {
+            const sources = Array.from(new Set<IntentionSource>([...(current.sources ?? []), source]));
+            const extra = current.extra || row.extra ? { ...current.extra, ...row.extra } : undefined;
+            merged.set(key, { ...current, ...row, query: current.query, sources, extra });
+            updated++;
+        } else {
+            skipped++;
+        }
+    });
+    return { intentions: Array.from(merged.values()), added, updated, skipped };
+};
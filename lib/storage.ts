@@ -0,0 +1,400 @@
+import type { BrandVoice, PromptLibrary } from '../shared/promptTemplates';
+import { LOCAL_STORAGE_CATALOGUE_PREFIX, type CatalogueProduct } from './catalogue';
+import { LOCAL_STORAGE_KEYWORD_CLUSTERS_PREFIX, type KeywordCluster } from './keywordClustering';
+import { LOCAL_STORAGE_BRAND_VOICE_PREFIX, LOCAL_STORAGE_COLLABORATORS, LOCAL_STORAGE_COMPETITIVE_ANALYSES, LOCAL_STORAGE_PROJECTS, LOCAL_STORAGE_PROMPT_LIBRARY, LOCAL_STORAGE_USER_PROFILE, toSavedAnalysis, type Collaborator, type Project, type SavedAnalysis, type UserProfileData } from './models';
+import { emptyReview, LOCAL_STORAGE_DESCRIPTION_REVIEWS, type DescriptionReview, type ReviewAuthor, type ReviewComment, type ReviewDecision, type ReviewStatus } from './reviews';
+import { appendRevision, LOCAL_STORAGE_PROJECT_DOCUMENTS_PREFIX, LOCAL_STORAGE_REVISIONS_PREFIX, type ContentRevision, type NewContentRevision } from './revisions';
+import { LOCAL_STORAGE_SEARCH_INTENTION_IMPORTS_PREFIX, LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX, toSearchIntention, toSearchIntentionImport, type SearchIntention, type SearchIntentionImport } from './searchIntentions';
+
+export const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
+    try {
+        const storedValue = localStorage.getItem(key);
+        return storedValue ? JSON.parse(storedValue) as T : defaultValue;
+    } catch (e) {
+        console.warn(`Error loading '${key}' from localStorage:`, e);
+        return defaultValue;
+    }
+};
+
+export const saveToLocalStorage = <T,>(key: string, value: T): void => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.error(`Error saving '${key}' to localStorage:`, e);
+    }
+};
+
+// Every persisted entity goes through a typed repository. The backend is picked at build time
+// with STORAGE_BACKEND ('local' | 'indexeddb' | 'http' | 'memory').
+export type StorageBackendKind = 'local' | 'indexeddb' | 'http' | 'memory';
+
+export interface KeyValueBackend {
+    get<T>(key: string, defaultValue: T): Promise<T>;
+    set<T>(key: string, value: T): Promise<void>;
+    remove(key: string): Promise<void>;
+}
+
+export class LocalStorageBackend implements KeyValueBackend {
+    async get<T>(key: string, defaultValue: T): Promise<T> {
+        return loadFromLocalStorage<T>(key, defaultValue);
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        saveToLocalStorage(key, value);
+    }
+
+    async remove(key: string): Promise<void> {
+        try {
+            localStorage.removeItem(key);
+        } catch (e) {
+            console.error(`Error removing '${key}' from localStorage:`, e);
+        }
+    }
+}
+
+export class IndexedDbBackend implements KeyValueBackend {
+    private dbName: string;
+    private storeName: string;
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    constructor(dbName: string, storeName: string = 'keyval') {
+        this.dbName = dbName;
+        this.storeName = storeName;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async run<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async get<T>(key: string, defaultValue: T): Promise<T> {
+        try {
+            const value = await this.run('readonly', store => store.get(key));
+            return value === undefined ? defaultValue : value as T;
+        } catch (e) {
+            console.warn(`Error loading '${key}' from IndexedDB:`, e);
+            return defaultValue;
+        }
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        try {
+            await this.run('readwrite', store => store.put(value, key));
+        } catch (e) {
+            console.error(`Error saving '${key}' to IndexedDB:`, e);
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        try {
+            await this.run('readwrite', store => store.delete(key));
+        } catch (e) {
+            console.error(`Error removing '${key}' from IndexedDB:`, e);
+        }
+    }
+}
+
+export class InMemoryBackend implements KeyValueBackend {
+    private store: Map<string, string> = new Map();
+
+    // Values are kept serialized so callers can never mutate stored state by reference.
+    async get<T>(key: string, defaultValue: T): Promise<T> {
+        const storedValue = this.store.get(key);
+        return storedValue !== undefined ? JSON.parse(storedValue) as T : defaultValue;
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        this.store.set(key, JSON.stringify(value));
+    }
+
+    async remove(key: string): Promise<void> {
+        this.store.delete(key);
+    }
+}
+
+export interface CollectionRepository<T extends { id: string }> {
+    list(): Promise<T[]>;
+    create(item: T): Promise<T>; // Resolves with the stored item, whose id may have been reassigned by the backend.
+    update(item: T): Promise<T>;
+    remove(id: string): Promise<void>;
+}
+
+interface ProfileRepository {
+    get(): Promise<UserProfileData | null>;
+    save(profile: UserProfileData): Promise<UserProfileData>;
+}
+
+interface SearchIntentionRepository {
+    listForProject(projectId: string): Promise<SearchIntention[]>;
+    replaceForProject(projectId: string, intentions: SearchIntention[]): Promise<void>;
+    listImports(projectId: string): Promise<SearchIntentionImport[]>; // Most recent first.
+    replaceImports(projectId: string, imports: SearchIntentionImport[]): Promise<void>;
+}
+
+interface CatalogueRepository {
+    listForProject(projectId: string): Promise<CatalogueProduct[]>;
+    replaceForProject(projectId: string, products: CatalogueProduct[]): Promise<void>;
+}
+
+interface KeywordClusterRepository {
+    listForProject(projectId: string): Promise<KeywordCluster[]>;
+    replaceForProject(projectId: string, clusters: KeywordCluster[]): Promise<void>;
+}
+
+interface PromptLibraryRepository {
+    get(): Promise<PromptLibrary>;
+    save(library: PromptLibrary): Promise<void>;
+}
+
+interface BrandVoiceRepository {
+    getForProject(projectId: string): Promise<BrandVoice | null>;
+    saveForProject(projectId: string, brandVoice: BrandVoice): Promise<void>;
+}
+
+interface ContentRevisionRepository {
+    listForDocument(documentKey: string): Promise<ContentRevision[]>; // Oldest first.
+    listLatestForProject(projectId: string): Promise<ContentRevision[]>; // Latest version of each of the project's documents, most recent first.
+    add(revision: NewContentRevision): Promise<ContentRevision>;
+}
+
+interface DescriptionReviewRepository {
+    listForDocuments(documentKeys: string[]): Promise<DescriptionReview[]>; // Only documents with a decision or a comment.
+    decide(decisions: ReviewDecision[], status: ReviewStatus, author: ReviewAuthor): Promise<DescriptionReview[]>;
+    addComment(documentKey: string, author: ReviewAuthor, text: string): Promise<ReviewComment>;
+}
+
+export interface Repositories {
+    projects: CollectionRepository<Project>;
+    collaborators: CollectionRepository<Collaborator>;
+    analyses: CollectionRepository<SavedAnalysis>;
+    profile: ProfileRepository;
+    searchIntentions: SearchIntentionRepository;
+    catalogue: CatalogueRepository;
+    keywordClusters: KeywordClusterRepository;
+    promptLibrary: PromptLibraryRepository;
+    brandVoices: BrandVoiceRepository;
+    revisions: ContentRevisionRepository;
+    reviews: DescriptionReviewRepository;
+}
+
+const createKeyValueCollection = <T extends { id: string }>(backend: KeyValueBackend, key: string): CollectionRepository<T> => ({
+    list: () => backend.get<T[]>(key, []),
+    create: async (item) => {
+        const items = await backend.get<T[]>(key, []);
+        await backend.set(key, [...items, item]);
+        return item;
+    },
+    update: async (item) => {
+        const items = await backend.get<T[]>(key, []);
+        await backend.set(key, items.map(existing => existing.id === item.id ? item : existing));
+        return item;
+    },
+    remove: async (id) => {
+        const items = await backend.get<T[]>(key, []);
+        await backend.set(key, items.filter(existing => existing.id !== id));
+    },
+});
+
+export const createKeyValueRepositories = (backend: KeyValueBackend): Repositories => ({
+    projects: createKeyValueCollection<Project>(backend, LOCAL_STORAGE_PROJECTS),
+    collaborators: createKeyValueCollection<Collaborator>(backend, LOCAL_STORAGE_COLLABORATORS),
+    analyses: {
+        ...createKeyValueCollection<SavedAnalysis>(backend, LOCAL_STORAGE_COMPETITIVE_ANALYSES),
+        list: async () => (await backend.get<SavedAnalysis[]>(LOCAL_STORAGE_COMPETITIVE_ANALYSES, [])).map(toSavedAnalysis),
+    },
+    profile: {
+        get: () => backend.get<UserProfileData | null>(LOCAL_STORAGE_USER_PROFILE, null),
+        save: async (profile) => {
+            await backend.set(LOCAL_STORAGE_USER_PROFILE, profile);
+            return profile;
+        },
+    },
+    searchIntentions: {
+        listForProject: async (projectId) => (await backend.get<SearchIntention[]>(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}${projectId}`, [])).map(toSearchIntention),
+        replaceForProject: (projectId, intentions) => backend.set(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}${projectId}`, intentions),
+        listImports: async (projectId) => (await backend.get<SearchIntentionImport[]>(`${LOCAL_STORAGE_SEARCH_INTENTION_IMPORTS_PREFIX}${projectId}`, [])).map(toSearchIntentionImport),
+        replaceImports: (projectId, imports) => backend.set(`${LOCAL_STORAGE_SEARCH_INTENTION_IMPORTS_PREFIX}${projectId}`, imports),
+    },
+    catalogue: {
+        listForProject: (projectId) => backend.get<CatalogueProduct[]>(`${LOCAL_STORAGE_CATALOGUE_PREFIX}${projectId}`, []),
+        replaceForProject: (projectId, products) => backend.set(`${LOCAL_STORAGE_CATALOGUE_PREFIX}${projectId}`, products),
+    },
+    keywordClusters: {
+        listForProject: (projectId) => backend.get<KeywordCluster[]>(`${LOCAL_STORAGE_KEYWORD_CLUSTERS_PREFIX}${projectId}`, []),
+        replaceForProject: (projectId, clusters) => backend.set(`${LOCAL_STORAGE_KEYWORD_CLUSTERS_PREFIX}${projectId}`, clusters),
+    },
+    promptLibrary: {
+        get: () => backend.get<PromptLibrary>(LOCAL_STORAGE_PROMPT_LIBRARY, {}),
+        save: (library) => backend.set(LOCAL_STORAGE_PROMPT_LIBRARY, library),
+    },
+    brandVoices: {
+        getForProject: (projectId) => backend.get<BrandVoice | null>(`${LOCAL_STORAGE_BRAND_VOICE_PREFIX}${projectId}`, null),
+        saveForProject: (projectId, brandVoice) => backend.set(`${LOCAL_STORAGE_BRAND_VOICE_PREFIX}${projectId}`, brandVoice),
+    },
+    revisions: {
+        listForDocument: (documentKey) => backend.get<ContentRevision[]>(`${LOCAL_STORAGE_REVISIONS_PREFIX}${documentKey}`, []),
+        listLatestForProject: async (projectId) => {
+            const documentKeys = await backend.get<string[]>(`${LOCAL_STORAGE_PROJECT_DOCUMENTS_PREFIX}${projectId}`, []);
+            const histories = await Promise.all(documentKeys.map(documentKey => backend.get<ContentRevision[]>(`${LOCAL_STORAGE_REVISIONS_PREFIX}${documentKey}`, [])));
+            return histories
+                .map(history => history[history.length - 1])
+                .filter(latest => latest?.projectId === projectId)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        },
+        add: async (revision) => {
+            const key = `${LOCAL_STORAGE_REVISIONS_PREFIX}${revision.documentKey}`;
+            const { revisions, saved } = appendRevision(await backend.get<ContentRevision[]>(key, []), revision);
+            await backend.set(key, revisions);
+            if (revision.projectId) {
+                const indexKey = `${LOCAL_STORAGE_PROJECT_DOCUMENTS_PREFIX}${revision.projectId}`;
+                const documentKeys = await backend.get<string[]>(indexKey, []);
+                if (!documentKeys.includes(revision.documentKey)) await backend.set(indexKey, [...documentKeys, revision.documentKey]);
+            }
+            return saved;
+        },
+    },
+    reviews: {
+        listForDocuments: async (documentKeys) => {
+            const reviews = await backend.get<Record<string, DescriptionReview>>(LOCAL_STORAGE_DESCRIPTION_REVIEWS, {});
+            return documentKeys.filter(key => reviews[key]).map(key => reviews[key]);
+        },
+        decide: async (decisions, status, author) => {
+            const reviews = await backend.get<Record<string, DescriptionReview>>(LOCAL_STORAGE_DESCRIPTION_REVIEWS, {});
+            const decidedAt = new Date().toISOString();
+            const decided = decisions.map(({ documentKey, html }): DescriptionReview => ({
+                documentKey,
+                status,
+                comments: reviews[documentKey]?.comments ?? [],
+                ...(status === 'pending' ? {} : { reviewedHtml: html, decidedBy: author, decidedAt }),
+            }));
+            await backend.set(LOCAL_STORAGE_DESCRIPTION_REVIEWS, { ...reviews, ...Object.fromEntries(decided.map(review => [review.documentKey, review])) });
+            return decided;
+        },
+        addComment: async (documentKey, author, text) => {
+            const reviews = await backend.get<Record<string, DescriptionReview>>(LOCAL_STORAGE_DESCRIPTION_REVIEWS, {});
+            const comment: ReviewComment = { id: Date.now().toString(), author, text, createdAt: new Date().toISOString() };
+            const review = reviews[documentKey] ?? emptyReview(documentKey);
+            await backend.set(LOCAL_STORAGE_DESCRIPTION_REVIEWS, { ...reviews, [documentKey]: { ...review, comments: [...review.comments, comment] } });
+            return comment;
+        },
+    },
+});
+
+// HTTP backend: the REST API described in SpecsForDevPage.
+const API_BASE_URL = process.env.API_BASE_URL || '';
+export const LOCAL_STORAGE_AUTH_TOKEN = 'semanticAppAuthToken';
+
+export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Called when the API rejects the stored token, so the app can send the user back to the login screen.
+let unauthorizedHandler: (() => void) | null = null;
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+    unauthorizedHandler = handler;
+};
+
+export const apiRequest = async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+    const token = loadFromLocalStorage<string | null>(LOCAL_STORAGE_AUTH_TOKEN, null);
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            ...init.headers,
+        },
+    });
+    if (!response.ok) {
+        let message = `Erreur HTTP ${response.status}`;
+        try {
+            const body = await response.json();
+            if (body?.error) message = body.error;
+        } catch (_) { /* body is not JSON */ }
+        if (response.status === 401 && token) {
+            unauthorizedHandler?.();
+        }
+        throw new ApiError(response.status, message);
+    }
+    return response.status === 204 ? undefined as T : await response.json() as T;
+};
+
+const createHttpCollection = <T extends { id: string }>(path: string): CollectionRepository<T> => ({
+    list: () => apiRequest<T[]>(path),
+    create: (item) => apiRequest<T>(path, { method: 'POST', body: JSON.stringify(item) }),
+    update: (item) => apiRequest<T>(`${path}/${encodeURIComponent(item.id)}`, { method: 'PUT', body: JSON.stringify(item) }),
+    remove: (id) => apiRequest<void>(`${path}/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+});
+
+const createHttpRepositories = (): Repositories => ({
+    projects: createHttpCollection<Project>('/api/projects'),
+    collaborators: createHttpCollection<Collaborator>('/api/collaborators'),
+    analyses: createHttpCollection<SavedAnalysis>('/api/analyses'),
+    profile: {
+        get: () => apiRequest<UserProfileData | null>('/api/profile'),
+        save: (profile) => apiRequest<UserProfileData>('/api/profile', { method: 'PUT', body: JSON.stringify(profile) }),
+    },
+    searchIntentions: {
+        listForProject: async (projectId) => (await apiRequest<SearchIntention[]>(`/api/projects/${encodeURIComponent(projectId)}/intentions`)).map(toSearchIntention),
+        replaceForProject: (projectId, intentions) => apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/intentions`, { method: 'PUT', body: JSON.stringify(intentions) }),
+        listImports: async (projectId) => (await apiRequest<SearchIntentionImport[]>(`/api/projects/${encodeURIComponent(projectId)}/intentions/imports`)).map(toSearchIntentionImport),
+        replaceImports: (projectId, imports) => apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/intentions/imports`, { method: 'PUT', body: JSON.stringify(imports) }),
+    },
+    catalogue: {
+        listForProject: (projectId) => apiRequest<CatalogueProduct[]>(`/api/projects/${encodeURIComponent(projectId)}/catalogue`),
+        replaceForProject: (projectId, products) => apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/catalogue`, { method: 'PUT', body: JSON.stringify(products) }),
+    },
+    keywordClusters: {
+        listForProject: (projectId) => apiRequest<KeywordCluster[]>(`/api/projects/${encodeURIComponent(projectId)}/clusters`),
+        replaceForProject: (projectId, clusters) => apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/clusters`, { method: 'PUT', body: JSON.stringify(clusters) }),
+    },
+    promptLibrary: {
+        get: () => apiRequest<PromptLibrary>('/api/prompts'),
+        save: (library) => apiRequest<void>('/api/prompts', { method: 'PUT', body: JSON.stringify(library) }),
+    },
+    brandVoices: {
+        getForProject: (projectId) => apiRequest<BrandVoice | null>(`/api/projects/${encodeURIComponent(projectId)}/brand-voice`),
+        saveForProject: (projectId, brandVoice) => apiRequest<void>(`/api/projects/${encodeURIComponent(projectId)}/brand-voice`, { method: 'PUT', body: JSON.stringify(brandVoice) }),
+    },
+    revisions: {
+        listForDocument: (documentKey) => apiRequest<ContentRevision[]>(`/api/revisions?document=${encodeURIComponent(documentKey)}`),
+        listLatestForProject: (projectId) => apiRequest<ContentRevision[]>(`/api/revisions?project=${encodeURIComponent(projectId)}`),
+        add: (revision) => apiRequest<ContentRevision>('/api/revisions', { method: 'POST', body: JSON.stringify(revision) }),
+    },
+    // The API records the signed-in user as the author.
+    reviews: {
+        listForDocuments: (documentKeys) => apiRequest<DescriptionReview[]>('/api/reviews/lookup', { method: 'POST', body: JSON.stringify({ documentKeys }) }),
+        decide: (decisions, status) => apiRequest<DescriptionReview[]>('/api/reviews', { method: 'PUT', body: JSON.stringify({ status, items: decisions }) }),
+        addComment: (documentKey, _author, text) => apiRequest<ReviewComment>('/api/reviews/comments', { method: 'POST', body: JSON.stringify({ documentKey, text }) }),
+    },
+});
+
+export const createRepositories = (kind: StorageBackendKind): Repositories => {
+    switch (kind) {
+        case 'http': return createHttpRepositories();
+        case 'indexeddb': return createKeyValueRepositories(new IndexedDbBackend('ottercluster'));
+        case 'memory': return createKeyValueRepositories(new InMemoryBackend());
+        case 'local': return createKeyValueRepositories(new LocalStorageBackend());
+        default:
+            const exhaustiveCheck: never = kind;
+            return exhaustiveCheck;
+    }
+};
@@ -0,0 +1,84 @@
+import { type Database, toIsoString } from '../db';
+import { HttpError } from '../errors';
+import { getAccountPlan } from '../plans';
+import { planCreditAllowance } from '../../shared/plans';
+import { type CreditAction, currentCreditPeriod } from '../../shared/aiCredits';
+
+export { CHAT_MESSAGE_COST, CREDIT_COSTS, EMBEDDING_TEXTS_PER_UNIT, type AiAction, type CreditAction } from '../../shared/aiCredits';
+
+// Who is charged (the main account), who spent the credits and on what.
+export interface CreditCharge {
+    accountId: number;
+    userId: number;
+    action: CreditAction;
+    projectId: number | null;
+}
+
+export interface CreditTransactionRow {
+    id: string;
+    action: CreditAction;
+    projectId?: string;
+    amount: number;
+    status: 'committed' | 'refunded';
+    createdAt: string;
+}
+
+const MAX_LISTED_TRANSACTIONS = 500;
+
+// The allowance follows the account's current plan, so a plan change applies to the running month.
+const monthlyAllowance = async (db: Database, accountId: number): Promise<number> =>
+    planCreditAllowance(await getAccountPlan(db, accountId));
+
+export const getCreditBalance = async (db: Database, accountId: number): Promise<{ total: number; remaining: number }> => {
+    const allowance = await monthlyAllowance(db, accountId);
+    const [row] = await db.query('SELECT used FROM ai_credit_usage WHERE account_id = $1 AND period = $2', [accountId, currentCreditPeriod()]);
+    return { total: allowance, remaining: Math.max(0, allowance - Number(row?.used ?? 0)) };
+};
+
+// The latest charges of the whole account, collaborators' included, most recent first.
+export const listCreditTransactions = async (db: Database, accountId: number): Promise<CreditTransactionRow[]> => {
+    const rows = await db.query(
+        `SELECT * FROM ai_credit_transactions WHERE account_id = $1 ORDER BY created_at DESC, id DESC LIMIT ${MAX_LISTED_TRANSACTIONS}`,
+        [accountId]
+    );
+    return rows.map(row => ({
+        id: String(row.id),
+        action: row.action as CreditAction,
+        ...(row.project_id != null ? { projectId: String(row.project_id) } : {}),
+        amount: Number(row.amount),
+        status: row.status as CreditTransactionRow['status'],
+        createdAt: toIsoString(row.created_at),
+    }));
+};
+
+// Credits are taken before the model is called and given back if the call fails, so concurrent
+// requests cannot overspend the monthly allowance. Each charge is recorded as a transaction, marked
+// refunded when the credits are given back.
+export const reserveCredits = async (db: Database, charge: CreditCharge, cost: number): Promise<() => Promise<void>> => {
+    const { accountId } = charge;
+    const period = currentCreditPeriod();
+    if (cost === 0) {
+        return async () => {};
+    }
+    const allowance = await monthlyAllowance(db, accountId);
+    await db.query(
+        'INSERT INTO ai_credit_usage (account_id, period, used) VALUES ($1, $2, 0) ON CONFLICT (account_id, period) DO NOTHING',
+        [accountId, period]
+    );
+    const [row] = await db.query(
+        'UPDATE ai_credit_usage SET used = used + $1 WHERE account_id = $2 AND period = $3 AND used + $1 <= $4 RETURNING used',
+        [cost, accountId, period, allowance]
+    );
+    if (!row) {
+        throw new HttpError(402, `Crédits insuffisants : cette action nécessite ${cost} crédits.`);
+    }
+    const [transaction] = await db.query(
+        `INSERT INTO ai_credit_transactions (account_id, user_id, action, project_id, amount, status, created_at)
+         VALUES ($1, $2, $3, $4, $5, 'committed', $6) RETURNING id`,
+        [accountId, charge.userId, charge.action, charge.projectId, cost, new Date().toISOString()]
+    );
+    return async () => {
+        await db.query('UPDATE ai_credit_usage SET used = used - $1 WHERE account_id = $2 AND period = $3', [cost, accountId, period]);
+        await db.query(`UPDATE ai_credit_transactions SET status = 'refunded' WHERE id = $1`, [transaction.id]);
+    };
+};
@@ -0,0 +1,46 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import { type ModelProvider, ModelProviderError } from './types';
+
+const EMBEDDING_BATCH_SIZE = 100; // Gemini's batchEmbedContents limit
+
+const wrapErrors = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+        return await call();
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw new ModelProviderError(error.status, error.message);
+        }
+        throw error;
+    }
+};
+
+export const createGeminiProvider = (apiKey: string, baseUrl?: string): ModelProvider => {
+    const client = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+    return {
+        kind: 'gemini',
+
+        generateContent: ({ model, contents, config }) => wrapErrors(async () => {
+            const response = await client.models.generateContent({ model, contents, config });
+            return response.text ?? '';
+        }),
+
+        sendChatMessage: ({ model, config, history, message }) => wrapErrors(async () => {
+            const response = await client.chats.create({ model, config, history }).sendMessage({ message });
+            return response.text ?? '';
+        }),
+
+        embedContents: ({ model, texts }) => wrapErrors(async () => {
+            const embeddings: number[][] = [];
+            for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+                const response = await client.models.embedContent({
+                    model,
+                    contents: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+                    config: { taskType: 'CLUSTERING' },
+                });
+                embeddings.push(...(response.embeddings ?? []).map(embedding => embedding.values ?? []));
+            }
+            return embeddings;
+        }),
+    };
+};
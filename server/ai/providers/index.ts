@@ -0,0 +1,14 @@
+import type { ServerConfig } from '../../config';
+import type { ModelProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+
+export * from './types';
+
+// Returns null when no provider is configured: the AI endpoints then answer 503.
+export const createModelProvider = (config: ServerConfig): ModelProvider | null => {
+    switch (config.aiProvider) {
+        case 'gemini': return config.geminiApiKey ? createGeminiProvider(config.geminiApiKey, config.geminiBaseUrl) : null;
+        case 'mock': return createMockProvider(config.aiFixturesDir);
+    }
+};
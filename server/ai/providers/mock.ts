@@ -0,0 +1,54 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { Schema } from '@google/genai';
+import type { ModelProvider } from './types';
+
+// Deterministic stand-in for a model, so that the app runs and can be tested offline without an API key.
+// Generation requests replay `<fixturesDir>/<action>.json` (or `.txt` for plain text) when it exists;
+// otherwise structured requests get a placeholder object that matches their schema.
+
+export const placeholderFor = (schema: Schema | undefined): unknown => {
+    switch (String(schema?.type ?? '').toUpperCase()) {
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema?.properties ?? {}).map(([key, value]) => [key, placeholderFor(value)]));
+        case 'ARRAY':
+            return [placeholderFor(schema?.items)];
+        case 'NUMBER':
+        case 'INTEGER':
+            return schema?.minimum ?? 1;
+        case 'BOOLEAN':
+            return true;
+        default:
+            return schema?.enum?.[0] ?? 'Texte simulé';
+    }
+};
+
+// Hashed bag of words, so that texts sharing words get similar vectors.
+export const hashEmbedding = (text: string, dimensions = 64): number[] => {
+    const values = new Array(dimensions).fill(0);
+    text.toLowerCase().split(/\W+/).filter(Boolean).forEach(word => {
+        const hash = [...word].reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) % dimensions, 7);
+        values[hash] += 1;
+    });
+    return values;
+};
+
+const readFixture = (fixturesDir: string, name: string): string | null => {
+    const path = join(fixturesDir, name);
+    return existsSync(path) ? readFileSync(path, 'utf8') : null;
+};
+
+export const createMockProvider = (fixturesDir: string): ModelProvider => ({
+    kind: 'mock',
+
+    generateContent: async ({ action, contents, config }) => {
+        if (config?.responseSchema) {
+            return readFixture(fixturesDir, `${action}.json`) ?? JSON.stringify(placeholderFor(config.responseSchema));
+        }
+        return readFixture(fixturesDir, `${action}.txt`) ?? `Réponse simulée pour : ${contents.slice(0, 120)}`;
+    },
+
+    sendChatMessage: async ({ message }) => readFixture(fixturesDir, 'chat.txt') ?? `Réponse simulée : ${message.slice(0, 120)}`,
+
+    embedContents: async ({ texts }) => texts.map(text => hashEmbedding(text)),
+});
@@ -0,0 +1,56 @@
+import type { Content, GenerateContentConfig } from '@google/genai';
+import type { AiAction } from '../credits';
+
+export type ModelProviderKind = 'gemini' | 'mock';
+
+export const MODEL_PROVIDER_KINDS: ModelProviderKind[] = ['gemini', 'mock'];
+
+// Each feature is served by its own model; keywordClustering is the embedding model.
+export type ModelFeature = AiAction | 'chat';
+
+export type FeatureModels = Record<ModelFeature, string>;
+
+export const DEFAULT_FEATURE_MODELS: FeatureModels = {
+    siteAnalysis: 'gemini-2.5-flash',
+    productDescription: 'gemini-2.5-flash',
+    competitorAnalysis: 'gemini-2.5-pro',
+    productPageAnalysis: 'gemini-2.5-flash',
+    croAudit: 'gemini-2.5-flash',
+    faqGeneration: 'gemini-2.5-flash',
+    summaryTable: 'gemini-2.5-flash',
+    keywordClustering: 'text-embedding-004',
+    chat: 'gemini-2.5-flash',
+};
+
+export interface GenerateRequest {
+    action: AiAction;
+    model: string;
+    contents: string;
+    config?: GenerateContentConfig;
+}
+
+export interface ChatRequest {
+    model: string;
+    config?: GenerateContentConfig;
+    history: Content[];
+    message: string;
+}
+
+export interface EmbedRequest {
+    model: string;
+    texts: string[];
+}
+
+export interface ModelProvider {
+    kind: ModelProviderKind;
+    generateContent(request: GenerateRequest): Promise<string>;
+    sendChatMessage(request: ChatRequest): Promise<string>;
+    embedContents(request: EmbedRequest): Promise<number[][]>; // One vector per text, in the same order.
+}
+
+export class ModelProviderError extends Error {
+    constructor(public status: number | undefined, message: string) {
+        super(message);
+        this.name = 'ModelProviderError';
+    }
+}
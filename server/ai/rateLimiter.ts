@@ -0,0 +1,24 @@
+// Sliding one-minute window per caller, kept in memory: limits reset when the server restarts
+// and are not shared between instances.
+export class RateLimiter {
+    private limit: number;
+    private windowMs: number;
+    private hits = new Map<string, number[]>();
+
+    constructor(limit: number, windowMs: number = 60_000) {
+        this.limit = limit;
+        this.windowMs = windowMs;
+    }
+
+    // Returns the number of seconds to wait before retrying, or 0 when the call is allowed.
+    consume(key: string, now: number = Date.now()): number {
+        const recent = (this.hits.get(key) ?? []).filter(timestamp => now - timestamp < this.windowMs);
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            return Math.ceil((recent[0] + this.windowMs - now) / 1000);
+        }
+        recent.push(now);
+        this.hits.set(key, recent);
+        return 0;
+    }
+}
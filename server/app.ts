@@ -0,0 +1,50 @@
+import express, { type Express } from 'express';
+import cors from 'cors';
+import type { Database } from './db';
+import type { ServerConfig } from './config';
+import { createOptionalAuth, createRequireAuth, requireMainAccount } from './auth';
+import { errorHandler, HttpError } from './errors';
+import { createAuthRouter } from './routes/auth';
+import { createProfileRouter } from './routes/profile';
+import { createProjectsRouter } from './routes/projects';
+import { createCollaboratorsRouter } from './routes/collaborators';
+import { createReviewsRouter } from './routes/reviews';
+import { createAnalysesRouter } from './routes/analyses';
+import { createAiRouter } from './routes/ai';
+import { createCmsRouter } from './routes/cms';
+import { createPromptsRouter } from './routes/prompts';
+import { createRevisionsRouter } from './routes/revisions';
+import { createModelProvider } from './ai/providers';
+
+// The database and config are injected so the same app runs against Postgres or SQLite.
+export const createApp = (db: Database, config: ServerConfig): Express => {
+    const app = express();
+    const requireAuth = createRequireAuth(db, config);
+    const modelProvider = createModelProvider(config);
+
+    app.use(cors({ origin: config.corsOrigin }));
+    app.use(express.json({ limit: '10mb' }));
+
+    app.get('/api/health', (_req, res) => {
+        res.json({ status: 'ok', database: db.dialect });
+    });
+
+    // Everything except registration, login and password reset requires a valid JWT.
+    app.use('/api/auth', createAuthRouter(db, config, requireAuth));
+    app.use('/api/profile', requireAuth, createProfileRouter(db));
+    app.use('/api/projects/:projectId/cms', requireAuth, createCmsRouter(db, config));
+    app.use('/api/projects', requireAuth, createProjectsRouter(db));
+    app.use('/api/collaborators', requireAuth, requireMainAccount, createCollaboratorsRouter(db, config));
+    app.use('/api/analyses', requireAuth, createAnalysesRouter(db));
+    app.use('/api/prompts', requireAuth, createPromptsRouter(db));
+    app.use('/api/revisions', requireAuth, createRevisionsRouter(db));
+    app.use('/api/reviews', requireAuth, createReviewsRouter(db));
+    app.use('/api/ai', createOptionalAuth(db, config), createAiRouter(db, config, modelProvider));
+
+    app.use('/api', () => {
+        throw new HttpError(404, 'Endpoint introuvable.');
+    });
+    app.use(errorHandler);
+
+    return app;
+};
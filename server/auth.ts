@@ -0,0 +1,100 @@
+import type { Request, RequestHandler } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import type { Database } from './db';
+import type { ServerConfig } from './config';
+import { HttpError } from './errors';
+
+export type UserRole = 'main' | 'collaborator';
+
+export interface AuthenticatedUser {
+    id: number;
+    email: string;
+    role: UserRole;
+    accountId: number; // The main account whose data this user works on: their own id, or the inviting owner's for collaborators.
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthenticatedUser;
+        }
+    }
+}
+
+const BCRYPT_ROUNDS = 10;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+export const verifyPassword = (password: string, passwordHash: string): Promise<boolean> => bcrypt.compare(password, passwordHash);
+
+// Reset and invitation tokens are only stored hashed, so a leaked table cannot be used to take over accounts.
+export const createSecretToken = (): { token: string; tokenHash: string } => {
+    const token = randomBytes(32).toString('hex');
+    return { token, tokenHash: hashSecretToken(token) };
+};
+
+export const hashSecretToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const toAuthenticatedUser = (row: { id: unknown; email: unknown; role: unknown; owner_id: unknown }): AuthenticatedUser => ({
+    id: Number(row.id),
+    email: String(row.email),
+    role: row.role === 'collaborator' ? 'collaborator' : 'main',
+    accountId: row.owner_id ? Number(row.owner_id) : Number(row.id),
+});
+
+export const signToken = (config: ServerConfig, user: AuthenticatedUser): string =>
+    jwt.sign({ email: user.email, role: user.role, accountId: user.accountId }, config.jwtSecret, {
+        subject: String(user.id),
+        expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
+    });
+
+// Only the user id is taken from the token: the role and account are read again on every request, so that a
+// removed collaborator loses access at once instead of when the token expires.
+const authenticate = async (db: Database, config: ServerConfig, token: string): Promise<AuthenticatedUser> => {
+    let id: number;
+    try {
+        id = Number((jwt.verify(token, config.jwtSecret) as jwt.JwtPayload).sub);
+    } catch (_) {
+        throw new HttpError(401, 'Session invalide ou expirée.');
+    }
+    const [row] = await db.query<{ id: number; email: string; role: string; owner_id: number | null }>('SELECT id, email, role, owner_id FROM users WHERE id = $1', [id]);
+    if (!row) {
+        throw new HttpError(401, 'Session invalide ou expirée.');
+    }
+    return toAuthenticatedUser(row);
+};
+
+export const createRequireAuth = (db: Database, config: ServerConfig): RequestHandler => async (req, _res, next) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith('Bearer ')) {
+        throw new HttpError(401, 'Authentification requise.');
+    }
+    req.user = await authenticate(db, config, header.slice('Bearer '.length));
+    next();
+};
+
+// Attaches the user when a token is sent, but lets anonymous requests through.
+export const createOptionalAuth = (db: Database, config: ServerConfig): RequestHandler => async (req, _res, next) => {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+        req.user = await authenticate(db, config, header.slice('Bearer '.length));
+    }
+    next();
+};
+
+export const requireMainAccount: RequestHandler = (req, _res, next) => {
+    if (getUser(req).role !== 'main') {
+        throw new HttpError(403, 'Réservé au compte principal.');
+    }
+    next();
+};
+
+export const getUser = (req: Request): AuthenticatedUser => {
+    if (!req.user) {
+        throw new HttpError(401, 'Authentification requise.');
+    }
+    return req.user;
+};
@@ -0,0 +1,91 @@
+import { type CmsAdapter, type CmsConnection, type CmsNetworkPolicy, type CmsProduct, type CmsRequestInit, cmsRequest, nullIfNotFound, trimTrailingSlash } from './types';
+
+const DEFAULT_API_URL = 'https://api.bigcommerce.com';
+const JSON_LD_NAMESPACE = 'ottercluster';
+const JSON_LD_KEY = 'json_ld';
+
+interface BigCommerceProduct {
+    id: number;
+    name: string;
+    description: string;
+    custom_url?: { url: string };
+}
+
+interface BigCommerceMetafield {
+    id: number;
+    value: string;
+}
+
+// BigCommerce Catalog API v3. The JSON-LD is stored in a product metafield readable by the storefront.
+export const createBigCommerceAdapter = (connection: CmsConnection, network: CmsNetworkPolicy): CmsAdapter => {
+    const apiUrl = trimTrailingSlash(connection.settings.apiUrl || DEFAULT_API_URL);
+    const baseUrl = `${apiUrl}/stores/${encodeURIComponent(connection.settings.storeHash)}/v3`;
+    const request = <T>(path: string, init: CmsRequestInit = {}) => cmsRequest<T>(`${baseUrl}${path}`, network, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', 'X-Auth-Token': connection.secrets.accessToken },
+    });
+
+    const toProduct = async (product: BigCommerceProduct): Promise<CmsProduct> => {
+        const { data: metafields } = await request<{ data: BigCommerceMetafield[] }>(
+            `/catalog/products/${product.id}/metafields?namespace=${JSON_LD_NAMESPACE}&key=${JSON_LD_KEY}`
+        );
+        return {
+            id: String(product.id),
+            name: product.name,
+            descriptionHtml: product.description ?? '',
+            jsonLd: metafields[0]?.value ?? '',
+            jsonLdRef: metafields[0] ? String(metafields[0].id) : undefined,
+        };
+    };
+
+    const findOne = async (query: string): Promise<CmsProduct | null> => {
+        const { data } = await request<{ data: BigCommerceProduct[] }>(`/catalog/products?${query}`);
+        return data[0] ? toProduct(data[0]) : null;
+    };
+
+    return {
+        supportsJsonLd: true,
+
+        async testConnection() {
+            await request('/catalog/summary');
+        },
+
+        async findProduct(ref) {
+            if (ref.productId) {
+                const found = await nullIfNotFound(request<{ data: BigCommerceProduct }>(`/catalog/products/${encodeURIComponent(ref.productId)}`));
+                return found ? toProduct(found.data) : null;
+            }
+            if (ref.sku) {
+                return findOne(`sku=${encodeURIComponent(ref.sku)}`);
+            }
+            // The catalog cannot be filtered by URL, so fall back to a keyword search on the slug and match custom_url.
+            const path = new URL(ref.url).pathname;
+            const slug = path.split('/').filter(Boolean).pop();
+            if (!slug) return null;
+            const { data } = await request<{ data: BigCommerceProduct[] }>(
+                `/catalog/products?keyword=${encodeURIComponent(slug.replace(/-/g, ' '))}&include_fields=name,description,custom_url`
+            );
+            const match = data.find(product => trimTrailingSlash(product.custom_url?.url ?? '') === trimTrailingSlash(path));
+            return match ? toProduct(match) : null;
+        },
+
+        async updateProduct(product, content) {
+            await request(`/catalog/products/${product.id}`, {
+                method: 'PUT',
+                body: JSON.stringify({ description: content.descriptionHtml }),
+            });
+            if (content.jsonLd === null) return;
+            if (product.jsonLdRef) {
+                await request(`/catalog/products/${product.id}/metafields/${product.jsonLdRef}`, {
+                    method: 'PUT',
+                    body: JSON.stringify({ value: content.jsonLd }),
+                });
+            } else {
+                await request(`/catalog/products/${product.id}/metafields`, {
+                    method: 'POST',
+                    body: JSON.stringify({ namespace: JSON_LD_NAMESPACE, key: JSON_LD_KEY, value: content.jsonLd, permission_set: 'read_and_sf_access' }),
+                });
+            }
+        },
+    };
+};
@@ -0,0 +1,18 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+// CMS API keys are stored with AES-256-GCM as "<iv>.<tag>.<ciphertext>" (base64 parts).
+const deriveKey = (secret: string): Buffer => createHash('sha256').update(secret).digest();
+
+export const encryptCredentials = (secret: string, credentials: Record<string, string>): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join('.');
+};
+
+export const decryptCredentials = (secret: string, payload: string): Record<string, string> => {
+    const [iv, tag, data] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret), iv);
+    decipher.setAuthTag(tag);
+    return JSON.parse(Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8'));
+};
@@ -0,0 +1,17 @@
+import type { CmsAdapter, CmsConnection, CmsNetworkPolicy } from './types';
+import { createShopifyAdapter } from './shopify';
+import { createWooCommerceAdapter } from './woocommerce';
+import { createPrestaShopAdapter } from './prestashop';
+import { createBigCommerceAdapter } from './bigcommerce';
+
+export * from './types';
+export { encryptCredentials, decryptCredentials } from './credentials';
+
+export const createCmsAdapter = (connection: CmsConnection, network: CmsNetworkPolicy): CmsAdapter => {
+    switch (connection.cms) {
+        case 'shopify': return createShopifyAdapter(connection, network);
+        case 'woocommerce': return createWooCommerceAdapter(connection, network);
+        case 'prestashop': return createPrestaShopAdapter(connection, network);
+        case 'bigcommerce': return createBigCommerceAdapter(connection, network);
+    }
+};
@@ -0,0 +1,69 @@
+import { type CmsAdapter, type CmsConnection, type CmsNetworkPolicy, type CmsProduct, type CmsRequestInit, cmsRequest, nullIfNotFound, trimTrailingSlash } from './types';
+
+type LocalizedValue = string | { id: string | number; value: string }[];
+
+interface PrestaShopProduct {
+    id: number;
+    name: LocalizedValue;
+    description: LocalizedValue;
+}
+
+// Fields the Webservice returns on GET but rejects on PUT.
+const READ_ONLY_PRODUCT_NODES = ['manufacturer_name', 'quantity', 'position_in_category'];
+
+const escapeCdata = (value: string): string => value.replace(/]]>/g, ']]]]><![CDATA[>');
+
+// PrestaShop Webservice. It has no field for structured data, so only the description is published.
+export const createPrestaShopAdapter = (connection: CmsConnection, network: CmsNetworkPolicy): CmsAdapter => {
+    const baseUrl = `${trimTrailingSlash(connection.settings.storeUrl)}/api`;
+    const languageId = connection.settings.languageId || '1';
+    const authorization = `Basic ${Buffer.from(`${connection.secrets.apiKey}:`).toString('base64')}`;
+    const request = <T>(path: string, init: CmsRequestInit = {}, contentType = 'application/json') => cmsRequest<T>(`${baseUrl}${path}`, network, {
+        ...init,
+        headers: { 'Content-Type': contentType, Authorization: authorization },
+    });
+
+    const localized = (value: LocalizedValue): string => {
+        if (typeof value === 'string') return value;
+        return (value.find(entry => String(entry.id) === languageId) ?? value[0])?.value ?? '';
+    };
+
+    const getProduct = async (id: string): Promise<CmsProduct> => {
+        const { product } = await request<{ product: PrestaShopProduct }>(`/products/${encodeURIComponent(id)}?output_format=JSON`);
+        return { id: String(product.id), name: localized(product.name), descriptionHtml: localized(product.description), jsonLd: null };
+    };
+
+    return {
+        supportsJsonLd: false,
+
+        async testConnection() {
+            await request('/products?output_format=JSON&display=[id]&limit=1');
+        },
+
+        async findProduct(ref) {
+            // Friendly URLs look like /<category>/<id>-<slug>.html
+            const productId = ref.productId || ref.url.match(/\/(\d+)-[^/]*\.html/)?.[1];
+            if (productId) return nullIfNotFound(getProduct(productId));
+            if (!ref.sku) return null;
+            const result = await request<{ products?: { id: number }[] } | []>(
+                `/products?output_format=JSON&display=[id]&filter[reference]=[${encodeURIComponent(ref.sku)}]`
+            );
+            const match = Array.isArray(result) ? undefined : result.products?.[0];
+            return match ? getProduct(String(match.id)) : null;
+        },
+
+        async updateProduct(product, content) {
+            // The Webservice only accepts full documents on PUT, so edit the XML it returned.
+            let xml = await request<string>(`/products/${product.id}`);
+            for (const node of READ_ONLY_PRODUCT_NODES) {
+                xml = xml.replace(new RegExp(`<${node}\\b[^>]*(?:/>|>[\\s\\S]*?</${node}>)`, 'g'), '');
+            }
+            const languagePattern = new RegExp(`(<description>[\\s\\S]*?<language id="${languageId}"[^>]*>)[\\s\\S]*?(</language>)`);
+            if (!languagePattern.test(xml)) {
+                throw new Error(`Langue ${languageId} introuvable dans la fiche produit PrestaShop.`);
+            }
+            xml = xml.replace(languagePattern, (_match, open, close) => `${open}<![CDATA[${escapeCdata(content.descriptionHtml)}]]>${close}`);
+            await request(`/products/${product.id}`, { method: 'PUT', body: xml }, 'text/xml');
+        },
+    };
+};
@@ -0,0 +1,76 @@
+import { type CmsAdapter, type CmsConnection, type CmsNetworkPolicy, type CmsProduct, type CmsRequestInit, cmsRequest, nullIfNotFound, trimTrailingSlash } from './types';
+
+const SHOPIFY_API_VERSION = '2024-10';
+const JSON_LD_NAMESPACE = 'custom';
+const JSON_LD_KEY = 'json_ld';
+
+interface ShopifyProduct {
+    id: number;
+    title: string;
+    body_html: string | null;
+}
+
+interface ShopifyMetafield {
+    id: number;
+    value: string;
+}
+
+// Shopify Admin REST API. The JSON-LD goes to the `custom.json_ld` product metafield, like the CSV export.
+export const createShopifyAdapter = (connection: CmsConnection, network: CmsNetworkPolicy): CmsAdapter => {
+    const baseUrl = `${trimTrailingSlash(connection.settings.storeUrl)}/admin/api/${SHOPIFY_API_VERSION}`;
+    const request = <T>(path: string, init: CmsRequestInit = {}) => cmsRequest<T>(`${baseUrl}${path}`, network, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'X-Shopify-Access-Token': connection.secrets.accessToken },
+    });
+
+    const toProduct = async (product: ShopifyProduct): Promise<CmsProduct> => {
+        const { metafields } = await request<{ metafields: ShopifyMetafield[] }>(
+            `/products/${product.id}/metafields.json?namespace=${JSON_LD_NAMESPACE}&key=${JSON_LD_KEY}`
+        );
+        return {
+            id: String(product.id),
+            name: product.title,
+            descriptionHtml: product.body_html ?? '',
+            jsonLd: metafields[0]?.value ?? '',
+            jsonLdRef: metafields[0] ? String(metafields[0].id) : undefined,
+        };
+    };
+
+    return {
+        supportsJsonLd: true,
+
+        async testConnection() {
+            await request('/shop.json');
+        },
+
+        async findProduct(ref) {
+            if (ref.productId) {
+                const found = await nullIfNotFound(request<{ product: ShopifyProduct }>(`/products/${encodeURIComponent(ref.productId)}.json`));
+                return found ? toProduct(found.product) : null;
+            }
+            const handle = ref.handle || ref.url.match(/\/products\/([^/?#]+)/)?.[1];
+            if (!handle) return null;
+            const { products } = await request<{ products: ShopifyProduct[] }>(`/products.json?handle=${encodeURIComponent(handle)}`);
+            return products[0] ? toProduct(products[0]) : null;
+        },
+
+        async updateProduct(product, content) {
+            await request(`/products/${product.id}.json`, {
+                method: 'PUT',
+                body: JSON.stringify({ product: { id: Number(product.id), body_html: content.descriptionHtml } }),
+            });
+            if (content.jsonLd === null) return;
+            if (product.jsonLdRef) {
+                await request(`/products/${product.id}/metafields/${product.jsonLdRef}.json`, {
+                    method: 'PUT',
+                    body: JSON.stringify({ metafield: { id: Number(product.jsonLdRef), value: content.jsonLd, type: 'multi_line_text_field' } }),
+                });
+            } else {
+                await request(`/products/${product.id}/metafields.json`, {
+                    method: 'POST',
+                    body: JSON.stringify({ metafield: { namespace: JSON_LD_NAMESPACE, key: JSON_LD_KEY, value: content.jsonLd, type: 'multi_line_text_field' } }),
+                });
+            }
+        },
+    };
+};
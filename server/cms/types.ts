@@ -0,0 +1,167 @@
+import { type LookupAddress, lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, type LookupFunction, isIP } from 'net';
+import { Agent, fetch } from 'undici';
+
+export type PublishableCms = 'shopify' | 'woocommerce' | 'prestashop' | 'bigcommerce';
+
+export const PUBLISHABLE_CMS: PublishableCms[] = ['shopify', 'woocommerce', 'prestashop', 'bigcommerce'];
+
+// Non-secret settings are returned to the client; secrets are stored encrypted and never sent back.
+export const cmsConnectionFields: Record<PublishableCms, { settings: string[]; optionalSettings: string[]; secrets: string[] }> = {
+    shopify: { settings: ['storeUrl'], optionalSettings: [], secrets: ['accessToken'] },
+    woocommerce: { settings: ['storeUrl'], optionalSettings: [], secrets: ['consumerKey', 'consumerSecret'] },
+    prestashop: { settings: ['storeUrl'], optionalSettings: ['languageId'], secrets: ['apiKey'] },
+    bigcommerce: { settings: ['storeHash'], optionalSettings: ['apiUrl'], secrets: ['accessToken'] },
+};
+
+export interface CmsConnection {
+    cms: PublishableCms;
+    settings: Record<string, string>;
+    secrets: Record<string, string>;
+}
+
+// Identifiers from the uploaded catalogue; adapters use whichever their API can look up.
+export interface ProductRef {
+    url: string;
+    handle?: string;
+    productId?: string;
+    sku?: string;
+}
+
+export interface CmsProductContent {
+    descriptionHtml: string;
+    jsonLd: string | null; // null when the CMS has nowhere to store it.
+}
+
+export interface CmsProduct extends CmsProductContent {
+    id: string;
+    name: string;
+    jsonLdRef?: string; // Id of the metafield/meta entry holding the JSON-LD, when it already exists.
+}
+
+export interface CmsAdapter {
+    supportsJsonLd: boolean;
+    testConnection(): Promise<void>;
+    findProduct(ref: ProductRef): Promise<CmsProduct | null>;
+    updateProduct(product: CmsProduct, content: CmsProductContent): Promise<void>;
+}
+
+export class CmsApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'CmsApiError';
+    }
+}
+
+// Store URLs are typed in by users and fetched by the server, so they must not reach the server's own network.
+export interface CmsNetworkPolicy {
+    allowPrivateHosts: boolean; // Development only, for the local mock CMS.
+}
+
+const CMS_REQUEST_TIMEOUT_MS = 15_000;
+
+const privateAddresses = new BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => privateAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => privateAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 subnets by BlockList itself.
+const isPrivateAddress = (address: string): boolean => privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Requires https and a host that only resolves to public addresses. Checked when a connection is saved and
+// again before every request; the request itself connects through publicOnlyAgent, so a DNS record changed
+// after this check (DNS rebinding) still cannot lead to a private address.
+export const assertPublicUrl = async (value: string, network: CmsNetworkPolicy): Promise<void> => {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new CmsApiError(400, `URL invalide : ${value}`);
+    }
+    if (network.allowPrivateHosts) {
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new CmsApiError(400, `URL invalide : ${value}`);
+        }
+        return;
+    }
+    if (url.protocol !== 'https:') {
+        throw new CmsApiError(400, `L'URL ${url.origin} doit utiliser https.`);
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+    } catch (e: any) {
+        throw new CmsApiError(502, `Boutique injoignable : ${e.message}`);
+    }
+    if (addresses.some(isPrivateAddress)) {
+        throw new CmsApiError(400, `L'hôte ${url.hostname} désigne une adresse privée ou locale.`);
+    }
+};
+
+// Resolves like dns.lookup but fails when the host has a private address, so that the addresses checked are
+// the ones connected to. IP literals skip the lookup and are checked by assertPublicUrl.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+            callback(error, '');
+        } else if (addresses.some(entry => isPrivateAddress(entry.address))) {
+            callback(new CmsApiError(400, `L'hôte ${hostname} désigne une adresse privée ou locale.`), '');
+        } else if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+const publicOnlyAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+// What adapters send: a method, headers and a text body.
+export interface CmsRequestInit {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+// Redirects are not followed, since they could lead to a host that was never checked.
+export const cmsRequest = async <T>(url: string, network: CmsNetworkPolicy, init: CmsRequestInit = {}): Promise<T> => {
+    await assertPublicUrl(url, network);
+    let response: Awaited<ReturnType<typeof fetch>>;
+    try {
+        response = await fetch(url, {
+            ...init,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(CMS_REQUEST_TIMEOUT_MS),
+            dispatcher: network.allowPrivateHosts ? undefined : publicOnlyAgent,
+        });
+    } catch (e: any) {
+        if (e?.cause instanceof CmsApiError) throw e.cause;
+        const reason = e?.name === 'TimeoutError' ? `pas de réponse après ${CMS_REQUEST_TIMEOUT_MS / 1000} secondes` : e.message;
+        throw new CmsApiError(502, `Boutique injoignable : ${reason}`);
+    }
+    const text = await response.text();
+    if (!response.ok) {
+        const detail = text.length > 300 ? `${text.slice(0, 300)}…` : text;
+        throw new CmsApiError(response.status, `Le CMS a répondu ${response.status}${detail ? ` : ${detail}` : ''}`);
+    }
+    if (!text) return undefined as T;
+    return (response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text) as T;
+};
+
+// Lookups by id answer 404 for unknown products, which is a "not found" result rather than an error.
+export const nullIfNotFound = async <T>(request: Promise<T>): Promise<T | null> => {
+    try {
+        return await request;
+    } catch (e) {
+        if (e instanceof CmsApiError && e.status === 404) return null;
+        throw e;
+    }
+};
+
+export const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
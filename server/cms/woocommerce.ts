@@ -0,0 +1,67 @@
+import { type CmsAdapter, type CmsConnection, type CmsNetworkPolicy, type CmsProduct, type CmsRequestInit, cmsRequest, nullIfNotFound, trimTrailingSlash } from './types';
+
+const JSON_LD_META_KEY = '_ottercluster_json_ld';
+
+interface WooProduct {
+    id: number;
+    name: string;
+    description: string;
+    meta_data: { id: number; key: string; value: unknown }[];
+}
+
+// WooCommerce REST API v3, authenticated with a consumer key/secret pair over HTTPS.
+export const createWooCommerceAdapter = (connection: CmsConnection, network: CmsNetworkPolicy): CmsAdapter => {
+    const baseUrl = `${trimTrailingSlash(connection.settings.storeUrl)}/wp-json/wc/v3`;
+    const authorization = `Basic ${Buffer.from(`${connection.secrets.consumerKey}:${connection.secrets.consumerSecret}`).toString('base64')}`;
+    const request = <T>(path: string, init: CmsRequestInit = {}) => cmsRequest<T>(`${baseUrl}${path}`, network, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+    });
+
+    const toProduct = (product: WooProduct): CmsProduct => {
+        const meta = product.meta_data.find(entry => entry.key === JSON_LD_META_KEY);
+        return {
+            id: String(product.id),
+            name: product.name,
+            descriptionHtml: product.description ?? '',
+            jsonLd: typeof meta?.value === 'string' ? meta.value : '',
+            jsonLdRef: meta ? String(meta.id) : undefined,
+        };
+    };
+
+    const findOne = async (query: string): Promise<CmsProduct | null> => {
+        const products = await request<WooProduct[]>(`/products?${query}`);
+        return products[0] ? toProduct(products[0]) : null;
+    };
+
+    return {
+        supportsJsonLd: true,
+
+        async testConnection() {
+            await request('/products?per_page=1');
+        },
+
+        async findProduct(ref) {
+            if (ref.productId) {
+                const product = await nullIfNotFound(request<WooProduct>(`/products/${encodeURIComponent(ref.productId)}`));
+                return product ? toProduct(product) : null;
+            }
+            if (ref.sku) {
+                return findOne(`sku=${encodeURIComponent(ref.sku)}`);
+            }
+            // Default permalinks end with the product slug: /product/<slug>/
+            const slug = new URL(ref.url).pathname.split('/').filter(Boolean).pop();
+            return slug ? findOne(`slug=${encodeURIComponent(slug)}`) : null;
+        },
+
+        async updateProduct(product, content) {
+            await request(`/products/${product.id}`, {
+                method: 'PUT',
+                body: JSON.stringify({
+                    description: content.descriptionHtml,
+                    ...(content.jsonLd === null ? {} : { meta_data: [{ key: JSON_LD_META_KEY, value: content.jsonLd }] }),
+                }),
+            });
+        },
+    };
+};
@@ -0,0 +1,92 @@
+import { existsSync } from 'fs';
+import { DEFAULT_FEATURE_MODELS, MODEL_PROVIDER_KINDS, type FeatureModels, type ModelProviderKind } from './ai/providers/types';
+
+// Sensitive settings live in a `.env` file at the repository root (see SpecsForDevPage, section 5).
+if (existsSync('.env')) {
+    process.loadEnvFile('.env');
+}
+
+export interface ServerConfig {
+    port: number;
+    databaseUrl?: string; // PostgreSQL connection string; when absent the SQLite fallback is used.
+    sqlitePath: string;
+    jwtSecret: string;
+    jwtExpiresIn: string;
+    corsOrigin: string;
+    appUrl: string; // Public URL of the front end, used to build password reset and invitation links.
+    logResetLinks: boolean; // Opt-in, writes password reset links to the log while no mail provider is configured. Refused in production.
+    aiProvider: ModelProviderKind;
+    aiModels: FeatureModels;
+    aiFixturesDir: string; // Responses replayed by the mock provider.
+    geminiApiKey?: string; // With the Gemini provider, AI endpoints answer 503 when absent.
+    geminiBaseUrl?: string; // Overrides the Gemini endpoint, e.g. the local mock server.
+    aiRateLimitPerMinute: number;
+    aiAllowAnonymous: boolean; // Opt-in, lets the localStorage front end, which has no API account, use the proxy in development. Refused in production.
+    cmsCredentialsSecret: string; // Encrypts the CMS API keys stored per project.
+    cmsAllowPrivateHosts: boolean; // Opt-in, lets store URLs use http and local addresses, e.g. the mock CMS. Refused in production.
+}
+
+const DEV_JWT_SECRET = 'ottercluster-dev-secret';
+
+// AI_MODELS overrides the model of some features, e.g. "competitorAnalysis=gemini-2.5-flash,croAudit=gemini-2.5-pro".
+const parseFeatureModels = (value: string | undefined): FeatureModels => {
+    const models = { ...DEFAULT_FEATURE_MODELS };
+    (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+        const [feature, model] = entry.split('=').map(part => part.trim());
+        if (!Object.prototype.hasOwnProperty.call(models, feature) || !model) {
+            throw new Error(`Invalid AI_MODELS entry "${entry}": expected <feature>=<model> with a feature among ${Object.keys(models).join(', ')}.`);
+        }
+        models[feature as keyof FeatureModels] = model;
+    });
+    return models;
+};
+
+const parseProviderKind = (value: string | undefined): ModelProviderKind => {
+    const kind = (value || 'gemini') as ModelProviderKind;
+    if (!MODEL_PROVIDER_KINDS.includes(kind)) {
+        throw new Error(`Invalid AI_PROVIDER "${value}": expected one of ${MODEL_PROVIDER_KINDS.join(', ')}.`);
+    }
+    return kind;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+    const jwtSecret = env.JWT_SECRET || DEV_JWT_SECRET;
+    if (jwtSecret === DEV_JWT_SECRET) {
+        if (env.NODE_ENV === 'production') {
+            throw new Error('JWT_SECRET must be set in production.');
+        }
+        console.warn('JWT_SECRET is not set, using the development secret.');
+    }
+    const logResetLinks = env.LOG_RESET_LINKS === 'true';
+    if (logResetLinks && env.NODE_ENV === 'production') {
+        throw new Error('LOG_RESET_LINKS cannot be enabled in production.');
+    }
+    const aiAllowAnonymous = env.AI_ALLOW_ANONYMOUS === 'true';
+    if (aiAllowAnonymous && env.NODE_ENV === 'production') {
+        throw new Error('AI_ALLOW_ANONYMOUS cannot be enabled in production.');
+    }
+    const cmsAllowPrivateHosts = env.CMS_ALLOW_PRIVATE_HOSTS === 'true';
+    if (cmsAllowPrivateHosts && env.NODE_ENV === 'production') {
+        throw new Error('CMS_ALLOW_PRIVATE_HOSTS cannot be enabled in production.');
+    }
+
+    return {
+        port: Number(env.PORT) || 8787,
+        databaseUrl: env.DATABASE_URL || undefined,
+        sqlitePath: env.SQLITE_PATH || 'server/data/ottercluster.sqlite',
+        jwtSecret,
+        jwtExpiresIn: env.JWT_EXPIRES_IN || '7d',
+        corsOrigin: env.CORS_ORIGIN || 'http://localhost:3000',
+        appUrl: env.APP_URL || env.CORS_ORIGIN || 'http://localhost:3000',
+        logResetLinks,
+        aiProvider: parseProviderKind(env.AI_PROVIDER),
+        aiModels: parseFeatureModels(env.AI_MODELS),
+        aiFixturesDir: env.AI_FIXTURES_DIR || 'server/fixtures/ai',
+        geminiApiKey: env.GEMINI_API_KEY || undefined,
+        geminiBaseUrl: env.GEMINI_BASE_URL || undefined,
+        aiRateLimitPerMinute: Number(env.AI_RATE_LIMIT_PER_MINUTE) || 20,
+        aiAllowAnonymous,
+        cmsCredentialsSecret: env.CMS_CREDENTIALS_SECRET || jwtSecret,
+        cmsAllowPrivateHosts,
+    };
+};
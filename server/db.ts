@@ -0,0 +1,112 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import pg from 'pg';
+
+export type Dialect = 'postgres' | 'sqlite';
+export type Row = Record<string, unknown>;
+
+// Queries are written once with PostgreSQL `$1` placeholders and `RETURNING`; the SQLite adapter translates them.
+export interface Database {
+    dialect: Dialect;
+    query<T = Row>(sql: string, params?: unknown[]): Promise<T[]>;
+    exec(sql: string): Promise<void>; // Runs a multi-statement script atomically.
+    close(): Promise<void>;
+}
+
+class PostgresDatabase implements Database {
+    public dialect: Dialect = 'postgres';
+    private pool: pg.Pool;
+
+    constructor(connectionString: string) {
+        this.pool = new pg.Pool({ connectionString });
+    }
+
+    async query<T = Row>(sql: string, params: unknown[] = []): Promise<T[]> {
+        const result = await this.pool.query(sql, params);
+        return result.rows as T[];
+    }
+
+    // A multi-statement simple query already runs as a single implicit transaction.
+    async exec(sql: string): Promise<void> {
+        await this.pool.query(sql);
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+}
+
+class SqliteDatabase implements Database {
+    public dialect: Dialect = 'sqlite';
+    private db: BetterSqlite3.Database;
+
+    constructor(path: string) {
+        if (path !== ':memory:') {
+            mkdirSync(dirname(path), { recursive: true });
+        }
+        this.db = new BetterSqlite3(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('foreign_keys = ON');
+    }
+
+    // SQLite only binds numbers, strings, bigints, buffers and null.
+    private toSqliteValue(value: unknown): unknown {
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (value instanceof Date) return value.toISOString();
+        if (value === undefined) return null;
+        return value;
+    }
+
+    async query<T = Row>(sql: string, params: unknown[] = []): Promise<T[]> {
+        // `$n` placeholders may repeat or appear out of order, so bind them positionally in order of appearance.
+        const orderedParams: unknown[] = [];
+        const sqliteSql = sql.replace(/\$(\d+)/g, (_, index: string) => {
+            orderedParams.push(this.toSqliteValue(params[Number(index) - 1]));
+            return '?';
+        });
+        const statement = this.db.prepare(sqliteSql);
+        if (statement.reader) {
+            return statement.all(...orderedParams) as T[];
+        }
+        statement.run(...orderedParams);
+        return [];
+    }
+
+    async exec(sql: string): Promise<void> {
+        this.db.transaction(() => this.db.exec(sql))();
+    }
+
+    async close(): Promise<void> {
+        this.db.close();
+    }
+}
+
+export const openDatabase = (options: { databaseUrl?: string; sqlitePath: string }): Database => {
+    if (options.databaseUrl) {
+        return new PostgresDatabase(options.databaseUrl);
+    }
+    return new SqliteDatabase(options.sqlitePath);
+};
+
+// Column values come back as native types from PostgreSQL and as text/integers from SQLite.
+export const toIsoString = (value: unknown): string =>
+    value instanceof Date ? value.toISOString() : new Date(String(value)).toISOString();
+
+// Error codes of a UNIQUE constraint violation in PostgreSQL and in better-sqlite3.
+export const isUniqueViolation = (error: unknown): boolean => {
+    const code = (error as { code?: unknown } | null)?.code;
+    return code === '23505' || code === 'SQLITE_CONSTRAINT_UNIQUE';
+};
+
+export const toBoolean = (value: unknown): boolean => value === true || value === 1 || value === '1';
+
+// Serialized explicitly: node-postgres would turn a top-level array into a PostgreSQL array literal instead of JSON.
+export const encodeJson = (value: unknown): string => JSON.stringify(value);
+
+export const decodeJson = <T>(value: unknown): T =>
+    typeof value === 'string' ? JSON.parse(value) as T : value as T;
+
+// TEXT[] columns in PostgreSQL are stored as JSON text in SQLite.
+export const encodeTextArray = (db: Database, values: string[]): unknown =>
+    db.dialect === 'postgres' ? values : JSON.stringify(values);
@@ -0,0 +1,61 @@
+import type { ErrorRequestHandler } from 'express';
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+    if (err instanceof HttpError) {
+        res.status(err.status).json({ error: err.message });
+        return;
+    }
+    if (err?.type === 'entity.parse.failed') {
+        res.status(400).json({ error: 'Corps de requête JSON invalide.' });
+        return;
+    }
+    console.error('Unhandled server error:', err);
+    res.status(500).json({ error: 'Erreur interne du serveur.' });
+};
+
+// --- Input validation helpers ---
+export const requireString = (body: any, field: string, maxLength: number = 255): string => {
+    const value = body?.[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `Le champ '${field}' est requis.`);
+    }
+    if (value.length > maxLength) {
+        throw new HttpError(400, `Le champ '${field}' ne doit pas dépasser ${maxLength} caractères.`);
+    }
+    return value.trim();
+};
+
+export const optionalString = (body: any, field: string, maxLength: number = 255): string | null => {
+    const value = body?.[field];
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value !== 'string') {
+        throw new HttpError(400, `Le champ '${field}' doit être une chaîne de caractères.`);
+    }
+    if (value.length > maxLength) {
+        throw new HttpError(400, `Le champ '${field}' ne doit pas dépasser ${maxLength} caractères.`);
+    }
+    return value.trim();
+};
+
+export const requireEmail = (body: any, field: string = 'email'): string => {
+    const email = requireString(body, field).toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(email)) {
+        throw new HttpError(400, 'Adresse email invalide.');
+    }
+    return email;
+};
+
+export const parseId = (value: string): number => {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+        throw new HttpError(404, 'Ressource introuvable.');
+    }
+    return id;
+};
@@ -0,0 +1,24 @@
+import { loadConfig } from './config';
+import { openDatabase } from './db';
+import { runMigrations } from './migrations';
+import { createApp } from './app';
+
+const config = loadConfig();
+const db = openDatabase(config);
+
+const applied = await runMigrations(db);
+if (applied.length > 0) {
+    console.log(`Applied migrations: ${applied.join(', ')}`);
+}
+
+const server = createApp(db, config).listen(config.port, () => {
+    console.log(`OtterCluster API listening on http://localhost:${config.port} (${db.dialect})`);
+});
+
+const shutdown = () => {
+    server.close(() => {
+        db.close().finally(() => process.exit(0));
+    });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,13 @@
+import { loadConfig } from './config';
+import { openDatabase } from './db';
+import { runMigrations } from './migrations';
+
+const config = loadConfig();
+const db = openDatabase(config);
+
+try {
+    const applied = await runMigrations(db);
+    console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'Database is up to date.');
+} finally {
+    await db.close();
+}
@@ -0,0 +1,422 @@
+import type { Database } from './db';
+
+interface Migration {
+    id: number;
+    name: string;
+    postgres: string;
+    sqlite: string;
+}
+
+// Append-only: never edit a migration once it has shipped, add a new one instead.
+export const migrations: Migration[] = [
+    {
+        id: 1,
+        name: 'initial_schema',
+        postgres: `
+            CREATE TABLE users (
+                id SERIAL PRIMARY KEY,
+                email VARCHAR(255) UNIQUE NOT NULL,
+                password_hash VARCHAR(255) NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT NOW()
+            );
+            CREATE TABLE user_profiles (
+                user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+                first_name VARCHAR(100),
+                last_name VARCHAR(100),
+                language VARCHAR(10) DEFAULT 'fr',
+                stripe_customer_id VARCHAR(255)
+            );
+            CREATE TABLE projects (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                name VARCHAR(255) NOT NULL,
+                url TEXT,
+                cms VARCHAR(50),
+                creation_date TIMESTAMPTZ NOT NULL,
+                gsc_connected BOOLEAN DEFAULT FALSE,
+                ga_connected BOOLEAN DEFAULT FALSE
+            );
+            CREATE TABLE collaborators (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                email VARCHAR(255) NOT NULL,
+                invitation_date TIMESTAMPTZ NOT NULL
+            );
+            CREATE TABLE competitive_analyses (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                name VARCHAR(255) NOT NULL,
+                date TIMESTAMPTZ NOT NULL,
+                urls TEXT[],
+                results JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE users (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                email TEXT UNIQUE NOT NULL,
+                password_hash TEXT NOT NULL,
+                created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+            );
+            CREATE TABLE user_profiles (
+                user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+                first_name TEXT,
+                last_name TEXT,
+                language TEXT DEFAULT 'fr',
+                stripe_customer_id TEXT
+            );
+            CREATE TABLE projects (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                name TEXT NOT NULL,
+                url TEXT,
+                cms TEXT,
+                creation_date TEXT NOT NULL,
+                gsc_connected INTEGER DEFAULT 0,
+                ga_connected INTEGER DEFAULT 0
+            );
+            CREATE TABLE collaborators (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                email TEXT NOT NULL,
+                invitation_date TEXT NOT NULL
+            );
+            CREATE TABLE competitive_analyses (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                name TEXT NOT NULL,
+                date TEXT NOT NULL,
+                urls TEXT,
+                results TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 2,
+        name: 'project_search_intentions',
+        postgres: `
+            CREATE TABLE project_search_intentions (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                intentions JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE project_search_intentions (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                intentions TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 3,
+        name: 'user_roles_and_password_resets',
+        postgres: `
+            ALTER TABLE users ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'main';
+            ALTER TABLE users ADD COLUMN owner_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+            CREATE TABLE password_reset_tokens (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                token_hash VARCHAR(64) UNIQUE NOT NULL,
+                expires_at TIMESTAMPTZ NOT NULL,
+                used_at TIMESTAMPTZ
+            );
+        `,
+        sqlite: `
+            ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'main';
+            ALTER TABLE users ADD COLUMN owner_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+            CREATE TABLE password_reset_tokens (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                token_hash TEXT UNIQUE NOT NULL,
+                expires_at TEXT NOT NULL,
+                used_at TEXT
+            );
+        `,
+    },
+    {
+        id: 4,
+        name: 'ai_credit_usage',
+        postgres: `
+            CREATE TABLE ai_credit_usage (
+                account_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                period VARCHAR(7) NOT NULL,
+                used INTEGER NOT NULL DEFAULT 0,
+                PRIMARY KEY (account_id, period)
+            );
+        `,
+        sqlite: `
+            CREATE TABLE ai_credit_usage (
+                account_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                period TEXT NOT NULL,
+                used INTEGER NOT NULL DEFAULT 0,
+                PRIMARY KEY (account_id, period)
+            );
+        `,
+    },
+    {
+        id: 5,
+        name: 'cms_connections',
+        postgres: `
+            CREATE TABLE cms_connections (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                cms VARCHAR(50) NOT NULL,
+                settings JSONB NOT NULL,
+                credentials TEXT NOT NULL,
+                updated_at TIMESTAMPTZ NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE cms_connections (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                cms TEXT NOT NULL,
+                settings TEXT NOT NULL,
+                credentials TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 6,
+        name: 'project_catalogues',
+        postgres: `
+            CREATE TABLE project_catalogues (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                products JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE project_catalogues (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                products TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 7,
+        name: 'project_search_intention_imports',
+        postgres: `
+            CREATE TABLE project_search_intention_imports (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                imports JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE project_search_intention_imports (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                imports TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 8,
+        name: 'project_keyword_clusters',
+        postgres: `
+            CREATE TABLE project_keyword_clusters (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                clusters JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE project_keyword_clusters (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                clusters TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 9,
+        name: 'prompt_templates',
+        postgres: `
+            CREATE TABLE prompt_libraries (
+                user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+                library JSONB NOT NULL
+            );
+            CREATE TABLE project_brand_voices (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                brand_voice JSONB NOT NULL
+            );
+        `,
+        sqlite: `
+            CREATE TABLE prompt_libraries (
+                user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+                library TEXT NOT NULL
+            );
+            CREATE TABLE project_brand_voices (
+                project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+                brand_voice TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        id: 10,
+        name: 'content_revisions',
+        postgres: `
+            CREATE TABLE content_revisions (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+                document_key VARCHAR(2100) NOT NULL,
+                kind VARCHAR(50) NOT NULL,
+                title VARCHAR(2048) NOT NULL,
+                version INTEGER NOT NULL,
+                html TEXT NOT NULL,
+                json_ld TEXT,
+                source VARCHAR(20) NOT NULL,
+                restored_from INTEGER,
+                author_email VARCHAR(255) NOT NULL,
+                author_role VARCHAR(20) NOT NULL,
+                created_at TIMESTAMPTZ NOT NULL,
+                UNIQUE (user_id, document_key, version)
+            );
+        `,
+        sqlite: `
+            CREATE TABLE content_revisions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+                document_key TEXT NOT NULL,
+                kind TEXT NOT NULL,
+                title TEXT NOT NULL,
+                version INTEGER NOT NULL,
+                html TEXT NOT NULL,
+                json_ld TEXT,
+                source TEXT NOT NULL,
+                restored_from INTEGER,
+                author_email TEXT NOT NULL,
+                author_role TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                UNIQUE (user_id, document_key, version)
+            );
+        `,
+    },
+    {
+        id: 11,
+        name: 'saved_results_tool_and_project',
+        postgres: `
+            ALTER TABLE competitive_analyses ADD COLUMN tool VARCHAR(50) NOT NULL DEFAULT 'competitive-analysis';
+            ALTER TABLE competitive_analyses ADD COLUMN project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL;
+        `,
+        sqlite: `
+            ALTER TABLE competitive_analyses ADD COLUMN tool TEXT NOT NULL DEFAULT 'competitive-analysis';
+            ALTER TABLE competitive_analyses ADD COLUMN project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL;
+        `,
+    },
+    {
+        id: 12,
+        name: 'users_plan',
+        postgres: `
+            ALTER TABLE users ADD COLUMN plan VARCHAR(20) NOT NULL DEFAULT 'pro';
+        `,
+        sqlite: `
+            ALTER TABLE users ADD COLUMN plan TEXT NOT NULL DEFAULT 'pro';
+        `,
+    },
+    {
+        id: 13,
+        name: 'collaborators_invitation_token',
+        postgres: `
+            ALTER TABLE collaborators ADD COLUMN invitation_token_hash VARCHAR(64);
+        `,
+        sqlite: `
+            ALTER TABLE collaborators ADD COLUMN invitation_token_hash TEXT;
+        `,
+    },
+    {
+        id: 14,
+        name: 'content_reviews',
+        postgres: `
+            CREATE TABLE content_reviews (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_key VARCHAR(2100) NOT NULL,
+                status VARCHAR(20) NOT NULL,
+                reviewed_html TEXT,
+                decided_by_email VARCHAR(255),
+                decided_by_role VARCHAR(20),
+                decided_at TIMESTAMPTZ,
+                UNIQUE (user_id, document_key)
+            );
+            CREATE TABLE content_review_comments (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_key VARCHAR(2100) NOT NULL,
+                author_email VARCHAR(255) NOT NULL,
+                author_role VARCHAR(20) NOT NULL,
+                text TEXT NOT NULL,
+                created_at TIMESTAMPTZ NOT NULL
+            );
+            CREATE INDEX content_review_comments_document ON content_review_comments (user_id, document_key);
+        `,
+        sqlite: `
+            CREATE TABLE content_reviews (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_key TEXT NOT NULL,
+                status TEXT NOT NULL,
+                reviewed_html TEXT,
+                decided_by_email TEXT,
+                decided_by_role TEXT,
+                decided_at TEXT,
+                UNIQUE (user_id, document_key)
+            );
+            CREATE TABLE content_review_comments (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_key TEXT NOT NULL,
+                author_email TEXT NOT NULL,
+                author_role TEXT NOT NULL,
+                text TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX content_review_comments_document ON content_review_comments (user_id, document_key);
+        `,
+    },
+    {
+        id: 15,
+        name: 'ai_credit_transactions',
+        postgres: `
+            CREATE TABLE ai_credit_transactions (
+                id SERIAL PRIMARY KEY,
+                account_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                action VARCHAR(50) NOT NULL,
+                project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+                amount INTEGER NOT NULL,
+                status VARCHAR(20) NOT NULL,
+                created_at TIMESTAMPTZ NOT NULL
+            );
+            CREATE INDEX ai_credit_transactions_account ON ai_credit_transactions (account_id, created_at);
+        `,
+        sqlite: `
+            CREATE TABLE ai_credit_transactions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                account_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                action TEXT NOT NULL,
+                project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+                amount INTEGER NOT NULL,
+                status TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX ai_credit_transactions_account ON ai_credit_transactions (account_id, created_at);
+        `,
+    },
+];
+
+export const runMigrations = async (db: Database): Promise<number[]> => {
+    await db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (id INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)`);
+    const appliedRows = await db.query<{ id: number }>('SELECT id FROM schema_migrations');
+    const applied = new Set(appliedRows.map(row => Number(row.id)));
+
+    const newlyApplied: number[] = [];
+    for (const migration of migrations) {
+        if (applied.has(migration.id)) continue;
+        // The schema change and its bookkeeping row are applied as one atomic script.
+        await db.exec(`
+            ${db.dialect === 'postgres' ? migration.postgres : migration.sqlite}
+            INSERT INTO schema_migrations (id, name, applied_at) VALUES (${migration.id}, '${migration.name}', '${new Date().toISOString()}');
+        `);
+        newlyApplied.push(migration.id);
+    }
+    return newlyApplied;
+};
@@ -0,0 +1,254 @@
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+
+// In-memory stand-ins for the Shopify, WooCommerce, PrestaShop and BigCommerce APIs used by the
+// CMS publishing adapters, for offline development. Each platform lives under its own prefix, e.g.
+// a Shopify connection uses the store URL http://localhost:8789/shopify. Any non-empty credential is accepted.
+// The API must run with CMS_ALLOW_PRIVATE_HOSTS=true to reach it.
+
+interface MockProduct {
+    id: number;
+    name: string;
+    slug: string;
+    sku: string;
+    description: string;
+    jsonLd?: { id: number; value: string };
+}
+
+const seedProducts = (): MockProduct[] => [
+    { id: 101, name: 'Chaussures de trail', slug: 'chaussures-trail', sku: 'TRAIL-01', description: '<p>Chaussures de trail légères.</p>' },
+    { id: 102, name: 'Veste coupe-vent', slug: 'veste-coupe-vent', sku: 'VESTE-02', description: '<p>Veste imperméable.</p>' },
+    { id: 103, name: 'Sac à dos 20L', slug: 'sac-a-dos-20l', sku: 'SAC-03', description: '' },
+];
+
+const escapeXml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const requireHeader = (header: string) => (req: Request, res: Response, next: NextFunction) => {
+    const value = req.get(header) ?? '';
+    if (!value.replace(/^Basic\s+/, '').trim()) {
+        res.status(401).json({ errors: 'Invalid API credentials' });
+        return;
+    }
+    next();
+};
+
+const createStore = () => {
+    const products = seedProducts();
+    let nextMetafieldId = 9000;
+    return {
+        products,
+        find: (id: string) => products.find(product => String(product.id) === id),
+        setJsonLd: (product: MockProduct, value: string) => {
+            product.jsonLd = { id: product.jsonLd?.id ?? nextMetafieldId++, value };
+            return product.jsonLd;
+        },
+    };
+};
+
+const shopifyRouter = () => {
+    const router = express.Router();
+    const store = createStore();
+    const toShopify = (product: MockProduct) => ({ id: product.id, title: product.name, handle: product.slug, body_html: product.description });
+    const metafields = (product: MockProduct) => (product.jsonLd ? [{ id: product.jsonLd.id, namespace: 'custom', key: 'json_ld', value: product.jsonLd.value }] : []);
+
+    router.use(requireHeader('X-Shopify-Access-Token'));
+    router.get(/^\/admin\/api\/[^/]+\/shop\.json$/, (_req, res) => {
+        res.json({ shop: { name: 'Boutique de démonstration' } });
+    });
+    router.get(/^\/admin\/api\/[^/]+\/products\.json$/, (req, res) => {
+        const handle = String(req.query.handle ?? '');
+        res.json({ products: store.products.filter(product => !handle || product.slug === handle).map(toShopify) });
+    });
+    router.get(/^\/admin\/api\/[^/]+\/products\/(\d+)\.json$/, (req, res) => {
+        const product = store.find(req.params[0]);
+        if (!product) return void res.status(404).json({ errors: 'Not Found' });
+        res.json({ product: toShopify(product) });
+    });
+    router.put(/^\/admin\/api\/[^/]+\/products\/(\d+)\.json$/, (req, res) => {
+        const product = store.find(req.params[0]);
+        if (!product) return void res.status(404).json({ errors: 'Not Found' });
+        product.description = req.body?.product?.body_html ?? product.description;
+        res.json({ product: toShopify(product) });
+    });
+    router.get(/^\/admin\/api\/[^/]+\/products\/(\d+)\/metafields\.json$/, (req, res) => {
+        const product = store.find(req.params[0]);
+        if (!product) return void res.status(404).json({ errors: 'Not Found' });
+        res.json({ metafields: metafields(product) });
+    });
+    router.post(/^\/admin\/api\/[^/]+\/products\/(\d+)\/metafields\.json$/, (req, res) => {
+        const product = store.find(req.params[0]);
+        if (!product) return void res.status(404).json({ errors: 'Not Found' });
+        if (product.jsonLd) return void res.status(422).json({ errors: { key: ['must be unique within this namespace on this resource'] } });
+        store.setJsonLd(product, String(req.body?.metafield?.value ?? ''));
+        res.status(201).json({ metafield: metafields(product)[0] });
+    });
+    router.put(/^\/admin\/api\/[^/]+\/products\/(\d+)\/metafields\/(\d+)\.json$/, (req, res) => {
+        const product = store.find(req.params[0]);
+        if (!product?.jsonLd || String(product.jsonLd.id) !== req.params[1]) return void res.status(404).json({ errors: 'Not Found' });
+        store.setJsonLd(product, String(req.body?.metafield?.value ?? ''));
+        res.json({ metafield: metafields(product)[0] });
+    });
+    return router;
+};
+
+const wooCommerceRouter = () => {
+    const router = express.Router();
+    const store = createStore();
+    const toWoo = (product: MockProduct) => ({
+        id: product.id,
+        name: product.name,
+        slug: product.slug,
+        sku: product.sku,
+        description: product.description,
+        meta_data: product.jsonLd ? [{ id: product.jsonLd.id, key: '_ottercluster_json_ld', value: product.jsonLd.value }] : [],
+    });
+
+    router.use(requireHeader('Authorization'));
+    router.get('/wp-json/wc/v3/products', (req, res) => {
+        const { sku, slug } = req.query;
+        const matches = store.products.filter(product => (!sku || product.sku === sku) && (!slug || product.slug === slug));
+        res.json(matches.slice(0, Number(req.query.per_page) || 10).map(toWoo));
+    });
+    router.get('/wp-json/wc/v3/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void res.status(404).json({ code: 'woocommerce_rest_product_invalid_id', message: 'ID non valide.' });
+        res.json(toWoo(product));
+    });
+    router.put('/wp-json/wc/v3/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void res.status(404).json({ code: 'woocommerce_rest_product_invalid_id', message: 'ID non valide.' });
+        if (typeof req.body?.description === 'string') product.description = req.body.description;
+        for (const meta of req.body?.meta_data ?? []) {
+            if (meta.key === '_ottercluster_json_ld') store.setJsonLd(product, String(meta.value));
+        }
+        res.json(toWoo(product));
+    });
+    return router;
+};
+
+const prestaShopRouter = () => {
+    const router = express.Router();
+    const store = createStore();
+    const toXml = (product: MockProduct) => `<?xml version="1.0" encoding="UTF-8"?>
+<prestashop xmlns:xlink="http://www.w3.org/1999/xlink">
+<product>
+    <id><![CDATA[${product.id}]]></id>
+    <manufacturer_name notFilterable="true"><![CDATA[Marque]]></manufacturer_name>
+    <quantity notFilterable="true"><![CDATA[12]]></quantity>
+    <reference><![CDATA[${product.sku}]]></reference>
+    <name><language id="1"><![CDATA[${product.name}]]></language></name>
+    <link_rewrite><language id="1"><![CDATA[${product.slug}]]></language></link_rewrite>
+    <description><language id="1"><![CDATA[${product.description}]]></language></description>
+</product>
+</prestashop>`;
+
+    router.use(requireHeader('Authorization'));
+    router.use(express.text({ type: ['text/xml', 'application/xml'], limit: '10mb' }));
+    router.get('/api/products', (req, res) => {
+        const reference = String(req.query['filter[reference]'] ?? '').replace(/^\[|\]$/g, '');
+        const matches = store.products.filter(product => !reference || product.sku === reference);
+        // Like PrestaShop, an empty result is an empty array rather than an object.
+        res.json(matches.length ? { products: matches.slice(0, Number(req.query.limit) || undefined).map(product => ({ id: product.id })) } : []);
+    });
+    router.get('/api/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void res.status(404).type('text/xml').send('<prestashop><errors><error><message>Product not found</message></error></errors></prestashop>');
+        if (req.query.output_format === 'JSON') {
+            res.json({ product: { id: product.id, name: [{ id: '1', value: product.name }], description: [{ id: '1', value: product.description }] } });
+            return;
+        }
+        res.type('text/xml').send(toXml(product));
+    });
+    router.put('/api/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void res.status(404).type('text/xml').send('<prestashop><errors><error><message>Product not found</message></error></errors></prestashop>');
+        const xml = String(req.body ?? '');
+        if (/<(manufacturer_name|quantity)\b/.test(xml)) {
+            res.status(400).type('text/xml').send(`<prestashop><errors><error><message>${escapeXml('parameter "manufacturer_name" not writable')}</message></error></errors></prestashop>`);
+            return;
+        }
+        const description = xml.match(/<description>\s*<language id="1"[^>]*>([\s\S]*?)<\/language>/)?.[1];
+        if (description !== undefined) {
+            product.description = description.replace(/^<!\[CDATA\[|\]\]>$/g, '').replace(/]]]]><!\[CDATA\[>/g, ']]>');
+        }
+        res.type('text/xml').send(toXml(product));
+    });
+    return router;
+};
+
+const bigCommerceRouter = () => {
+    const router = express.Router();
+    const store = createStore();
+    const toBigCommerce = (product: MockProduct) => ({
+        id: product.id,
+        name: product.name,
+        sku: product.sku,
+        description: product.description,
+        custom_url: { url: `/${product.slug}/` },
+    });
+    const metafields = (product: MockProduct) => (product.jsonLd ? [{ id: product.jsonLd.id, namespace: 'ottercluster', key: 'json_ld', value: product.jsonLd.value }] : []);
+    const notFound = (res: Response) => res.status(404).json({ status: 404, title: 'The requested resource was not found.' });
+
+    router.use(requireHeader('X-Auth-Token'));
+    router.get('/stores/:hash/v3/catalog/summary', (_req, res) => {
+        res.json({ data: { inventory_count: store.products.length } });
+    });
+    router.get('/stores/:hash/v3/catalog/products', (req, res) => {
+        const sku = req.query.sku;
+        const keyword = String(req.query.keyword ?? '').toLowerCase();
+        const matches = store.products.filter(product => (!sku || product.sku === sku) && (!keyword || product.name.toLowerCase().includes(keyword) || product.slug.replace(/-/g, ' ').includes(keyword)));
+        res.json({ data: matches.map(toBigCommerce) });
+    });
+    router.get('/stores/:hash/v3/catalog/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void notFound(res);
+        res.json({ data: toBigCommerce(product) });
+    });
+    router.put('/stores/:hash/v3/catalog/products/:id', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void notFound(res);
+        if (typeof req.body?.description === 'string') product.description = req.body.description;
+        res.json({ data: toBigCommerce(product) });
+    });
+    router.get('/stores/:hash/v3/catalog/products/:id/metafields', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void notFound(res);
+        res.json({ data: metafields(product) });
+    });
+    router.post('/stores/:hash/v3/catalog/products/:id/metafields', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product) return void notFound(res);
+        if (product.jsonLd) return void res.status(409).json({ status: 409, title: 'Metafield already exists.' });
+        store.setJsonLd(product, String(req.body?.value ?? ''));
+        res.json({ data: metafields(product)[0] });
+    });
+    router.put('/stores/:hash/v3/catalog/products/:id/metafields/:metafieldId', (req, res) => {
+        const product = store.find(req.params.id);
+        if (!product?.jsonLd || String(product.jsonLd.id) !== req.params.metafieldId) return void notFound(res);
+        store.setJsonLd(product, String(req.body?.value ?? ''));
+        res.json({ data: metafields(product)[0] });
+    });
+    return router;
+};
+
+export const createMockCmsApp = (): Express => {
+    const app = express();
+    app.use(express.json({ limit: '10mb' }));
+
+    app.use('/shopify', shopifyRouter());
+    app.use('/woocommerce', wooCommerceRouter());
+    app.use('/prestashop', prestaShopRouter());
+    app.use('/bigcommerce', bigCommerceRouter());
+
+    app.use((req, res) => {
+        res.status(404).json({ error: `Mock CMS: unsupported route ${req.method} ${req.path}` });
+    });
+
+    return app;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const port = Number(process.env.MOCK_CMS_PORT) || 8789;
+    createMockCmsApp().listen(port, () => {
+        console.log(`Mock CMS listening on http://localhost:${port} (store URLs: /shopify, /woocommerce, /prestashop; BigCommerce API URL: /bigcommerce)`);
+    });
+}
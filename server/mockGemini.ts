@@ -0,0 +1,52 @@
+import express, { type Express } from 'express';
+import { hashEmbedding, placeholderFor } from './ai/providers/mock';
+
+// Minimal stand-in for the Gemini REST API, to exercise the Gemini provider without a key: point the
+// API server at it with GEMINI_BASE_URL. Structured-output requests get a placeholder object that
+// matches their responseSchema, other requests get a short canned text. AI_PROVIDER=mock skips HTTP altogether.
+
+const lastUserText = (contents: any[]): string => {
+    const parts = contents?.[contents.length - 1]?.parts ?? [];
+    return parts.map((part: any) => part.text ?? '').join(' ');
+};
+
+export const createMockGeminiApp = (): Express => {
+    const app = express();
+    app.use(express.json({ limit: '10mb' }));
+
+    app.post(/^\/v1beta\/models\/([^/:]+):generateContent$/, (req, res) => {
+        const generationConfig = req.body?.generationConfig ?? {};
+        // Like Gemini 2.5, which does not support tools together with a JSON response.
+        if (generationConfig.responseSchema && req.body?.tools?.length) {
+            res.status(400).json({ error: { code: 400, message: 'Tool use with a response mime type: \'application/json\' is unsupported', status: 'INVALID_ARGUMENT' } });
+            return;
+        }
+        const text = generationConfig.responseSchema
+            ? JSON.stringify(placeholderFor(generationConfig.responseSchema))
+            : `Réponse simulée pour : ${lastUserText(req.body?.contents).slice(0, 120)}`;
+        res.json({
+            candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+            usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+        });
+    });
+
+    app.post(/^\/v1beta\/models\/([^/:]+):batchEmbedContents$/, (req, res) => {
+        const embeddings = (req.body?.requests ?? []).map((request: any) => ({
+            values: hashEmbedding((request.content?.parts ?? []).map((part: any) => part.text ?? '').join(' ')),
+        }));
+        res.json({ embeddings });
+    });
+
+    app.use((req, res) => {
+        res.status(404).json({ error: { code: 404, message: `Mock Gemini: unsupported route ${req.method} ${req.path}`, status: 'NOT_FOUND' } });
+    });
+
+    return app;
+};
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const port = Number(process.env.MOCK_GEMINI_PORT) || 8788;
+    createMockGeminiApp().listen(port, () => {
+        console.log(`Mock Gemini listening on http://localhost:${port} (set GEMINI_BASE_URL=http://localhost:${port})`);
+    });
+}
@@ -0,0 +1,31 @@
+import type { Database } from './db';
+import { HttpError } from './errors';
+import { DEFAULT_USER_PLAN, PLAN_LIMITS, type PlanFeature, type UserPlan, isUserPlan } from '../shared/plans';
+
+// Collaborators work under the plan of the main account.
+export const getAccountPlan = async (db: Database, accountId: number): Promise<UserPlan> => {
+    const [row] = await db.query('SELECT plan FROM users WHERE id = $1', [accountId]);
+    return isUserPlan(row?.plan) ? row.plan : DEFAULT_USER_PLAN;
+};
+
+// Throws 403 when the account already has as many projects or collaborators as its plan allows.
+export const assertBelowPlanLimit = async (db: Database, accountId: number, limit: 'maxProjects' | 'maxCollaborators'): Promise<void> => {
+    const plan = await getAccountPlan(db, accountId);
+    const max = PLAN_LIMITS[plan][limit];
+    if (max === null) return;
+    const table = limit === 'maxProjects' ? 'projects' : 'collaborators';
+    const [{ count }] = await db.query(`SELECT COUNT(*) AS count FROM ${table} WHERE user_id = $1`, [accountId]);
+    if (Number(count) >= max) {
+        throw new HttpError(403, limit === 'maxProjects'
+            ? `Votre plan permet de gérer ${max} projets au maximum.`
+            : `Votre plan permet d'inviter ${max} collaborateurs au maximum.`);
+    }
+};
+
+// Throws 403 when the account's plan does not include the feature.
+export const assertPlanFeature = async (db: Database, accountId: number, feature: PlanFeature): Promise<void> => {
+    const plan = await getAccountPlan(db, accountId);
+    if (!PLAN_LIMITS[plan].features.includes(feature)) {
+        throw new HttpError(403, "Votre plan n'inclut pas cette fonctionnalité.");
+    }
+};
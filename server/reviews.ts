@@ -0,0 +1,60 @@
+import { type Database, type Row, toIsoString } from './db';
+
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected', 'needs-rework'];
+
+export interface ReviewAuthor {
+    email: string;
+    role: string;
+}
+
+export interface ReviewComment {
+    id: string;
+    author: ReviewAuthor;
+    text: string;
+    createdAt: string;
+}
+
+export interface DescriptionReview {
+    documentKey: string;
+    status: string;
+    reviewedHtml?: string; // Text the decision was taken on
+    decidedBy?: ReviewAuthor;
+    decidedAt?: string;
+    comments: ReviewComment[];
+}
+
+const toReview = (row: Row): DescriptionReview => ({
+    documentKey: row.document_key as string,
+    status: row.status as string,
+    reviewedHtml: (row.reviewed_html as string | null) ?? undefined,
+    decidedBy: row.decided_by_email ? { email: row.decided_by_email as string, role: row.decided_by_role as string } : undefined,
+    decidedAt: row.decided_at ? toIsoString(row.decided_at) : undefined,
+    comments: [],
+});
+
+export const toReviewComment = (row: Row): ReviewComment => ({
+    id: String(row.id),
+    author: { email: row.author_email as string, role: row.author_role as string },
+    text: row.text as string,
+    createdAt: toIsoString(row.created_at),
+});
+
+// Reviews of the given documents with their comments, oldest first. Documents without a decision or a comment are left out.
+export const loadReviews = async (db: Database, accountId: number, documentKeys: string[]): Promise<DescriptionReview[]> => {
+    if (documentKeys.length === 0) return [];
+    const placeholders = documentKeys.map((_, index) => `$${index + 2}`).join(', ');
+    const params = [accountId, ...documentKeys];
+    const reviewRows = await db.query(`SELECT * FROM content_reviews WHERE user_id = $1 AND document_key IN (${placeholders})`, params);
+    const commentRows = await db.query(
+        `SELECT * FROM content_review_comments WHERE user_id = $1 AND document_key IN (${placeholders}) ORDER BY created_at, id`,
+        params
+    );
+
+    const reviews = new Map<string, DescriptionReview>(reviewRows.map(row => [row.document_key as string, toReview(row)]));
+    for (const row of commentRows) {
+        const documentKey = row.document_key as string;
+        if (!reviews.has(documentKey)) reviews.set(documentKey, { documentKey, status: 'pending', comments: [] });
+        reviews.get(documentKey)!.comments.push(toReviewComment(row));
+    }
+    return [...reviews.values()];
+};
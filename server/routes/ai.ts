@@ -0,0 +1,263 @@
+import { Router, type Request } from 'express';
+import { type Database, decodeJson } from '../db';
+import type { ServerConfig } from '../config';
+import { HttpError, optionalString, parseId, requireString } from '../errors';
+import { RateLimiter } from '../ai/rateLimiter';
+import { assertPlanFeature } from '../plans';
+import { CHAT_MESSAGE_COST, CREDIT_COSTS, type CreditAction, EMBEDDING_TEXTS_PER_UNIT, getCreditBalance, listCreditTransactions, reserveCredits } from '../ai/credits';
+import { MAX_STRUCTURED_OUTPUT_ATTEMPTS, repairInstruction, structuredOutputIssues } from '../../shared/structuredOutput';
+import { type BrandVoice, type PromptLibrary, type PromptTemplateId, promptTemplateIds, promptTemplates, renderPrompt, resolvePromptTemplate, withReviewNotes } from '../../shared/promptTemplates';
+import { promptTemplateOutputs } from '../../shared/aiSchemas';
+import { type ChatTurn, MAX_CHAT_HISTORY, MAX_CHAT_LENGTH, chatLength, chatbotSystemInstruction } from '../../shared/chatbot';
+import { AI_ACTION_FEATURES } from '../../shared/plans';
+import { type ModelProvider, ModelProviderError } from '../ai/providers';
+
+const MAX_PROMPT_LENGTH = 100_000;
+const MAX_VARIABLE_LENGTH = 20_000;
+const MAX_REVIEW_NOTES = 50;
+const MAX_CHAT_PAGE_LENGTH = 50;
+
+const parseTemplate = (body: any): PromptTemplateId => {
+    const template = body?.template;
+    if (!promptTemplateIds.includes(template)) {
+        throw new HttpError(400, "Le champ 'template' est invalide.");
+    }
+    return template;
+};
+
+// Only the variables declared by the template are accepted; missing ones render empty.
+const parseVariables = (body: any, template: PromptTemplateId): Record<string, string> => {
+    const variables = body?.variables ?? {};
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+        throw new HttpError(400, "Le champ 'variables' doit être un objet.");
+    }
+    const declared = promptTemplates[template].variables.map(variable => variable.name);
+    const unknown = Object.keys(variables).filter(name => !declared.includes(name));
+    if (unknown.length > 0) {
+        throw new HttpError(400, `Variables inconnues pour le modèle '${template}' : ${unknown.join(', ')}.`);
+    }
+    return Object.fromEntries(declared.map(name => {
+        const value = variables[name] ?? '';
+        if (typeof value !== 'string' || value.length > MAX_VARIABLE_LENGTH) {
+            throw new HttpError(400, `La variable '${name}' doit être un texte de ${MAX_VARIABLE_LENGTH} caractères au plus.`);
+        }
+        return [name, value];
+    }));
+};
+
+const parseReviewNotes = (body: any): string[] => {
+    const notes = body?.reviewNotes ?? [];
+    if (!Array.isArray(notes) || notes.length > MAX_REVIEW_NOTES || notes.some(note => typeof note !== 'string' || note.length > MAX_VARIABLE_LENGTH)) {
+        throw new HttpError(400, `Le champ 'reviewNotes' doit être une liste de ${MAX_REVIEW_NOTES} remarques au plus.`);
+    }
+    return notes;
+};
+
+const MAX_UNITS = 100;
+
+const RESEARCH_INSTRUCTION = "\n\nPour l'instant, ne produis pas le résultat final : consulte les pages concernées et rapporte en texte toutes les informations utiles pour cette tâche.";
+
+// Competitor analyses are charged per URL analysed, every other template per generation.
+const generationUnits = (template: PromptTemplateId, variables: Record<string, string>): number => {
+    if (template !== 'competitorAnalysis') return 1;
+    const units = variables.urls.split(',').filter(url => url.trim()).length;
+    if (units < 1 || units > MAX_UNITS) {
+        throw new HttpError(400, `L'analyse concurrentielle porte sur 1 à ${MAX_UNITS} URLs.`);
+    }
+    return units;
+};
+
+const MAX_EMBEDDING_TEXTS = 2000;
+const MAX_EMBEDDING_TEXT_LENGTH = 500;
+
+const parseEmbeddingTexts = (body: any): string[] => {
+    const texts = body?.texts;
+    if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_EMBEDDING_TEXTS
+        || texts.some(text => typeof text !== 'string' || !text.trim() || text.length > MAX_EMBEDDING_TEXT_LENGTH)) {
+        throw new HttpError(400, `Le champ 'texts' doit être une liste de 1 à ${MAX_EMBEDDING_TEXTS} textes non vides de ${MAX_EMBEDDING_TEXT_LENGTH} caractères au plus.`);
+    }
+    return texts;
+};
+
+// Previous turns may only carry a role and text parts: no function calls, files or other model inputs.
+const isChatTurn = (turn: any): boolean =>
+    typeof turn === 'object' && turn !== null && !Array.isArray(turn)
+    && Object.keys(turn).every(key => key === 'role' || key === 'parts')
+    && (turn.role === 'user' || turn.role === 'model')
+    && Array.isArray(turn.parts) && turn.parts.length > 0
+    && turn.parts.every((part: any) => typeof part === 'object' && part !== null && Object.keys(part).length === 1 && typeof part.text === 'string');
+
+const parseChatHistory = (body: any): ChatTurn[] => {
+    const history = body?.history ?? [];
+    if (!Array.isArray(history) || history.length > MAX_CHAT_HISTORY || !history.every(isChatTurn)) {
+        throw new HttpError(400, `Le champ 'history' doit être une liste de ${MAX_CHAT_HISTORY} messages au plus, chacun fait d'un rôle ('user' ou 'model') et de textes.`);
+    }
+    return history.map(turn => ({ role: turn.role, parts: turn.parts.map((part: { text: string }) => ({ text: part.text })) }));
+};
+
+const toHttpError = (error: unknown): HttpError => {
+    if (error instanceof HttpError) return error;
+    console.error('Model request failed:', error);
+    if (error instanceof ModelProviderError && error.status === 429) {
+        return new HttpError(503, "Le service d'IA est momentanément saturé. Veuillez réessayer dans quelques instants.");
+    }
+    return new HttpError(502, "Le service d'IA n'a pas pu traiter la demande.");
+};
+
+// Models are chosen here, per feature (config.aiModels), not by the client.
+export const createAiRouter = (db: Database, config: ServerConfig, provider: ModelProvider | null): Router => {
+    const router = Router();
+    const rateLimiter = new RateLimiter(config.aiRateLimitPerMinute);
+
+    const checkAccess = (req: Request) => {
+        if (!provider) {
+            throw new HttpError(503, "Les fonctionnalités d'IA ne sont pas configurées sur ce serveur.");
+        }
+        if (!req.user && !config.aiAllowAnonymous) {
+            throw new HttpError(401, 'Authentification requise.');
+        }
+        const retryAfter = rateLimiter.consume(req.user ? `user:${req.user.id}` : `ip:${req.ip}`);
+        if (retryAfter > 0) {
+            throw new HttpError(429, `Trop de requêtes d'IA. Réessayez dans ${retryAfter} secondes.`);
+        }
+        return provider;
+    };
+
+    // The optional `projectId` names the project a request works on: its brand voice is applied to the prompt
+    // and the charge is recorded against it. Anonymous callers have no projects.
+    const loadProject = async (req: Request): Promise<{ id: number; brandVoice: BrandVoice | null } | null> => {
+        if (!req.user || req.body?.projectId === undefined) {
+            return null;
+        }
+        const id = parseId(String(req.body.projectId));
+        const [projectRow] = await db.query(
+            `SELECT b.brand_voice FROM projects p LEFT JOIN project_brand_voices b ON b.project_id = p.id
+             WHERE p.id = $1 AND p.user_id = $2`,
+            [id, req.user.accountId]
+        );
+        if (!projectRow) {
+            throw new HttpError(404, 'Projet introuvable.');
+        }
+        return { id, brandVoice: projectRow.brand_voice ? decodeJson<BrandVoice>(projectRow.brand_voice) : null };
+    };
+
+    // Callers only choose the template and its variables: the text comes from the account's library and the
+    // project's brand voice. Anonymous callers get the built-in templates.
+    const loadPromptTemplate = async (req: Request, template: PromptTemplateId, project: { brandVoice: BrandVoice | null } | null): Promise<string> => {
+        if (!req.user) {
+            return resolvePromptTemplate(template, {});
+        }
+        const [libraryRow] = await db.query('SELECT library FROM prompt_libraries WHERE user_id = $1', [req.user.accountId]);
+        return resolvePromptTemplate(template, libraryRow ? decodeJson<PromptLibrary>(libraryRow.library) : {}, project?.brandVoice ?? null);
+    };
+
+    // Anonymous callers (development only) are rate-limited but not charged: the browser ledger is their only budget.
+    const charge = async (req: Request, action: CreditAction, projectId: number | null, cost: number): Promise<() => Promise<void>> =>
+        req.user
+            ? reserveCredits(db, { accountId: req.user.accountId, userId: req.user.id, action, projectId }, cost)
+            : async () => {};
+
+    // Mirrors checkAccess, so the front end hides the AI features it would be refused.
+    router.get('/status', (req, res) => {
+        res.json({ enabled: provider !== null && (req.user !== undefined || config.aiAllowAnonymous), provider: provider?.kind ?? null });
+    });
+
+    router.get('/credits', async (req, res) => {
+        if (!req.user) {
+            throw new HttpError(401, 'Authentification requise.');
+        }
+        const { accountId } = req.user;
+        res.json({ ...await getCreditBalance(db, accountId), transactions: await listCreditTransactions(db, accountId) });
+    });
+
+    // The template decides the action charged, the response schema and the search step (promptTemplateOutputs).
+    // Both model calls of a grounded template are covered by the same charge. Actions reserved to some plans
+    // (AI_ACTION_FEATURES) are refused before any credit is taken.
+    router.post('/generate', async (req, res) => {
+        const client = checkAccess(req);
+        const template = parseTemplate(req.body);
+        const variables = parseVariables(req.body, template);
+        const reviewNotes = template === 'productDescription' ? parseReviewNotes(req.body) : [];
+        const project = await loadProject(req);
+        const contents = withReviewNotes(renderPrompt(await loadPromptTemplate(req, template, project), variables), reviewNotes);
+        if (contents.length > MAX_PROMPT_LENGTH) {
+            throw new HttpError(400, `Le prompt ne doit pas dépasser ${MAX_PROMPT_LENGTH} caractères.`);
+        }
+        const { action, schema, grounded } = promptTemplateOutputs[template];
+        const model = config.aiModels[action];
+        const cost = CREDIT_COSTS[action] * generationUnits(template, variables);
+        if (req.user && AI_ACTION_FEATURES[action]) {
+            await assertPlanFeature(db, req.user.accountId, AI_ACTION_FEATURES[action]);
+        }
+
+        const refund = await charge(req, action, project?.id ?? null, cost);
+        try {
+            // Gemini rejects Google Search combined with a response schema: grounded templates first read the
+            // pages with the search tool, then get the structured result from that research without the tool.
+            const research = grounded
+                ? await client.generateContent({ action, model, contents: contents + RESEARCH_INSTRUCTION, config: { tools: [{ googleSearch: {} }] } })
+                : '';
+            const structuredContents = grounded ? `${contents}\n\nInformations recueillies sur le web :\n${research}` : contents;
+            const request = { action, model, contents: structuredContents, config: { responseMimeType: 'application/json', responseSchema: schema } };
+            let text = await client.generateContent(request);
+            for (let attempt = 1; ; attempt++) {
+                const issues = structuredOutputIssues(schema, text);
+                if (issues.length === 0) break;
+                if (attempt >= MAX_STRUCTURED_OUTPUT_ATTEMPTS) {
+                    console.warn(`Structured output rejected after ${attempt} attempts:`, issues);
+                    throw new HttpError(502, `Le service d'IA a renvoyé une réponse mal structurée (${issues.slice(0, 3).join(' ; ')}). Veuillez réessayer.`);
+                }
+                text = await client.generateContent({ ...request, contents: structuredContents + repairInstruction(issues) });
+            }
+            res.json({ text });
+        } catch (error) {
+            await refund();
+            throw toHttpError(error);
+        }
+    });
+
+    router.post('/embed', async (req, res) => {
+        const client = checkAccess(req);
+        const texts = parseEmbeddingTexts(req.body);
+        const cost = CREDIT_COSTS.keywordClustering * Math.ceil(texts.length / EMBEDDING_TEXTS_PER_UNIT);
+        const project = await loadProject(req);
+
+        const refund = await charge(req, 'keywordClustering', project?.id ?? null, cost);
+        try {
+            const embeddings = await client.embedContents({ model: config.aiModels.keywordClustering, texts });
+            res.json({ embeddings });
+        } catch (error) {
+            await refund();
+            throw toHttpError(error);
+        }
+    });
+
+    // Chats are stateless on the server: the client sends the previous turns with every message, each of which
+    // is charged CHAT_MESSAGE_COST. The system instruction follows the page named by the client (shared/chatbot.ts);
+    // callers cannot set it, nor tools or response schemas.
+    router.post('/chat', async (req, res) => {
+        const client = checkAccess(req);
+        const message = requireString(req.body, 'message', MAX_CHAT_LENGTH);
+        const page = optionalString(req.body, 'page', MAX_CHAT_PAGE_LENGTH);
+        const history = parseChatHistory(req.body);
+        if (chatLength(history, message) > MAX_CHAT_LENGTH) {
+            throw new HttpError(400, `Le message et l'historique ne doivent pas dépasser ${MAX_CHAT_LENGTH} caractères au total.`);
+        }
+
+        const refund = await charge(req, 'chat', null, CHAT_MESSAGE_COST);
+        try {
+            const text = await client.sendChatMessage({
+                model: config.aiModels.chat,
+                config: { systemInstruction: chatbotSystemInstruction(page) },
+                history,
+                message,
+            });
+            res.json({ text });
+        } catch (error) {
+            await refund();
+            throw toHttpError(error);
+        }
+    });
+
+    return router;
+};
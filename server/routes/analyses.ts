@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { type Database, type Row, decodeJson, encodeJson, encodeTextArray, toIsoString } from '../db';
+import { getUser } from '../auth';
+import { HttpError, optionalString, parseId, requireString } from '../errors';
+
+// The table predates the other tools: it now archives the saved results of every AI tool, told apart by 'tool'.
+export const SAVED_RESULT_TOOLS = ['competitive-analysis', 'product-page-analysis', 'cro-optimization', 'faq-generator', 'summary-table-generator'];
+
+const toAnalysis = (row: Row) => ({
+    id: String(row.id),
+    name: row.name as string,
+    date: toIsoString(row.date),
+    urls: decodeJson<string[] | null>(row.urls) ?? [],
+    tool: row.tool as string,
+    projectId: row.project_id === null || row.project_id === undefined ? undefined : String(row.project_id),
+    results: decodeJson<unknown>(row.results),
+});
+
+const parseAnalysisBody = (body: any) => {
+    const urls = body?.urls ?? [];
+    if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+        throw new HttpError(400, "Le champ 'urls' doit être une liste d'URLs.");
+    }
+    if (body?.results === undefined || body?.results === null) {
+        throw new HttpError(400, "Le champ 'results' est requis.");
+    }
+    const tool = body?.tool ?? 'competitive-analysis';
+    if (!SAVED_RESULT_TOOLS.includes(tool)) {
+        throw new HttpError(400, `Le champ 'tool' doit valoir ${SAVED_RESULT_TOOLS.join(', ')}.`);
+    }
+    const projectId = optionalString(body, 'projectId', 20);
+    return {
+        name: requireString(body, 'name'),
+        urls: urls as string[],
+        tool: tool as string,
+        projectId: projectId ? parseId(projectId) : null,
+        results: body.results,
+    };
+};
+
+const assertProjectOwned = async (db: Database, projectId: number | null, accountId: number): Promise<void> => {
+    if (projectId === null) return;
+    const [project] = await db.query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [projectId, accountId]);
+    if (!project) {
+        throw new HttpError(404, 'Projet introuvable.');
+    }
+};
+
+export const createAnalysesRouter = (db: Database): Router => {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        const rows = await db.query('SELECT * FROM competitive_analyses WHERE user_id = $1 ORDER BY date', [getUser(req).accountId]);
+        res.json(rows.map(toAnalysis));
+    });
+
+    router.post('/', async (req, res) => {
+        const { accountId } = getUser(req);
+        const analysis = parseAnalysisBody(req.body);
+        await assertProjectOwned(db, analysis.projectId, accountId);
+        const [row] = await db.query(
+            'INSERT INTO competitive_analyses (user_id, name, date, urls, tool, project_id, results) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+            [accountId, analysis.name, new Date().toISOString(), encodeTextArray(db, analysis.urls), analysis.tool, analysis.projectId, encodeJson(analysis.results)]
+        );
+        res.status(201).json(toAnalysis(row));
+    });
+
+    // The tool of a saved result never changes; renaming and moving it to another project do.
+    router.put('/:id', async (req, res) => {
+        const { accountId } = getUser(req);
+        const analysisId = parseId(req.params.id);
+        const analysis = parseAnalysisBody(req.body);
+        await assertProjectOwned(db, analysis.projectId, accountId);
+        const [row] = await db.query(
+            'UPDATE competitive_analyses SET name = $1, urls = $2, project_id = $3, results = $4 WHERE id = $5 AND user_id = $6 RETURNING *',
+            [analysis.name, encodeTextArray(db, analysis.urls), analysis.projectId, encodeJson(analysis.results), analysisId, accountId]
+        );
+        if (!row) {
+            throw new HttpError(404, 'Analyse introuvable.');
+        }
+        res.json(toAnalysis(row));
+    });
+
+    router.delete('/:id', async (req, res) => {
+        const { accountId } = getUser(req);
+        const analysisId = parseId(req.params.id);
+        const [row] = await db.query('SELECT id FROM competitive_analyses WHERE id = $1 AND user_id = $2', [analysisId, accountId]);
+        if (!row) {
+            throw new HttpError(404, 'Analyse introuvable.');
+        }
+        await db.query('DELETE FROM competitive_analyses WHERE id = $1 AND user_id = $2', [analysisId, accountId]);
+        res.status(204).end();
+    });
+
+    return router;
+};
@@ -0,0 +1,159 @@
+import { Router, type RequestHandler } from 'express';
+import { type Database, toIsoString } from '../db';
+import type { ServerConfig } from '../config';
+import {
+    type AuthenticatedUser, hashPassword, verifyPassword, signToken, toAuthenticatedUser, createSecretToken, hashSecretToken, getUser, MIN_PASSWORD_LENGTH,
+} from '../auth';
+import { HttpError, optionalString, requireEmail, requireString } from '../errors';
+import { getAccountPlan } from '../plans';
+import { DEFAULT_USER_PLAN } from '../../shared/plans';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+interface UserRow {
+    id: number;
+    email: string;
+    password_hash: string;
+    role: string;
+    owner_id: number | null;
+}
+
+const requirePassword = (body: any): string => {
+    const password = requireString(body, 'password', 128);
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères.`);
+    }
+    return password;
+};
+
+export const createAuthRouter = (db: Database, config: ServerConfig, requireAuth: RequestHandler): Router => {
+    const router = Router();
+
+    // The plan is not part of the token: it is read from the main account whenever a session starts or is restored.
+    const withPlan = async (user: AuthenticatedUser) => ({ ...user, plan: await getAccountPlan(db, user.accountId) });
+
+    // The invitation behind a token, which must have been sent to `email`.
+    const findInvitation = async (invitationToken: string, email: string) => {
+        const [invitation] = await db.query<{ id: number; user_id: number; email: string }>(
+            'SELECT id, user_id, email FROM collaborators WHERE invitation_token_hash = $1',
+            [hashSecretToken(invitationToken)]
+        );
+        if (!invitation) {
+            throw new HttpError(400, 'Invitation invalide ou déjà utilisée.');
+        }
+        if (invitation.email !== email) {
+            throw new HttpError(400, 'Cette invitation a été envoyée à une autre adresse email.');
+        }
+        return invitation;
+    };
+
+    // Without an invitation token every sign-up creates a main account. The token, sent by the account owner,
+    // proves the invitation was received and can only be used once, by the invited address.
+    router.post('/register', async (req, res) => {
+        const email = requireEmail(req.body);
+        const password = requirePassword(req.body);
+        const invitationToken = optionalString(req.body, 'invitationToken', 128);
+
+        const existing = await db.query('SELECT id FROM users WHERE email = $1', [email]);
+        if (existing.length > 0) {
+            throw new HttpError(409, 'Un compte existe déjà avec cette adresse email.');
+        }
+
+        const invitation = invitationToken ? await findInvitation(invitationToken, email) : undefined;
+        // The column default ('pro', migration 12) was only meant for the accounts that existed then.
+        const [row] = await db.query<UserRow>(
+            'INSERT INTO users (email, password_hash, role, owner_id, plan) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+            [email, await hashPassword(password), invitation ? 'collaborator' : 'main', invitation?.user_id ?? null, DEFAULT_USER_PLAN]
+        );
+        if (invitation) {
+            await db.query('UPDATE collaborators SET invitation_token_hash = NULL WHERE id = $1', [invitation.id]);
+        }
+        await db.query('INSERT INTO user_profiles (user_id) VALUES ($1)', [row.id]);
+
+        const user = toAuthenticatedUser(row);
+        res.status(201).json({ token: signToken(config, user), user: await withPlan(user) });
+    });
+
+    router.post('/login', async (req, res) => {
+        const email = requireEmail(req.body);
+        const password = requireString(req.body, 'password', 128);
+
+        const [row] = await db.query<UserRow>('SELECT * FROM users WHERE email = $1', [email]);
+        if (!row || !(await verifyPassword(password, row.password_hash))) {
+            throw new HttpError(401, 'Email ou mot de passe incorrect.');
+        }
+
+        const user = toAuthenticatedUser(row);
+        res.json({ token: signToken(config, user), user: await withPlan(user) });
+    });
+
+    // Lets an existing main account, e.g. a collaborator removed earlier and invited again, join the account that
+    // invited it. Its own projects stay in place but are out of reach until it is removed from that account.
+    router.post('/accept-invitation', requireAuth, async (req, res) => {
+        const { id, email, role } = getUser(req);
+        const invitation = await findInvitation(requireString(req.body, 'invitationToken', 128), email);
+        if (role !== 'main') {
+            throw new HttpError(409, 'Ce compte collabore déjà avec un autre compte.');
+        }
+        const [{ count }] = await db.query('SELECT COUNT(*) AS count FROM collaborators WHERE user_id = $1', [id]);
+        if (Number(count) > 0) {
+            throw new HttpError(409, "Retirez d'abord les collaborateurs de votre compte pour rejoindre celui qui vous invite.");
+        }
+        const [row] = await db.query<UserRow>(
+            'UPDATE users SET role = $1, owner_id = $2 WHERE id = $3 RETURNING *',
+            ['collaborator', invitation.user_id, id]
+        );
+        await db.query('UPDATE collaborators SET invitation_token_hash = NULL WHERE id = $1', [invitation.id]);
+
+        const user = toAuthenticatedUser(row);
+        res.json({ token: signToken(config, user), user: await withPlan(user) });
+    });
+
+    // Re-reads the user so the client picks up role changes without signing in again.
+    router.get('/me', requireAuth, async (req, res) => {
+        const [row] = await db.query<UserRow>('SELECT * FROM users WHERE id = $1', [getUser(req).id]);
+        if (!row) {
+            throw new HttpError(401, 'Session invalide ou expirée.');
+        }
+        res.json({ user: await withPlan(toAuthenticatedUser(row)) });
+    });
+
+    // Always answers 204 so the endpoint cannot be used to find out which emails have an account.
+    router.post('/forgot-password', async (req, res) => {
+        const email = requireEmail(req.body);
+        const [row] = await db.query<UserRow>('SELECT * FROM users WHERE email = $1', [email]);
+        if (row) {
+            const { token, tokenHash } = createSecretToken();
+            await db.query(
+                'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+                [row.id, tokenHash, new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString()]
+            );
+            // No mail provider is wired yet: the link, which grants access to the account, is only logged on request in development.
+            if (config.logResetLinks) {
+                console.log(`Password reset link for ${email}: ${config.appUrl}/?resetToken=${token}`);
+            } else {
+                console.warn(`Password reset requested for user ${row.id}, but no mail provider is configured to send the link (see LOG_RESET_LINKS).`);
+            }
+        }
+        res.status(204).end();
+    });
+
+    router.post('/reset-password', async (req, res) => {
+        const token = requireString(req.body, 'token', 128);
+        const password = requirePassword(req.body);
+
+        const [resetToken] = await db.query<{ id: number; user_id: number; expires_at: unknown; used_at: unknown }>(
+            'SELECT * FROM password_reset_tokens WHERE token_hash = $1',
+            [hashSecretToken(token)]
+        );
+        if (!resetToken || resetToken.used_at || new Date(toIsoString(resetToken.expires_at)).getTime() < Date.now()) {
+            throw new HttpError(400, 'Lien de réinitialisation invalide ou expiré.');
+        }
+
+        await db.query('UPDATE users SET password_hash = $1 WHERE id = $2', [await hashPassword(password), resetToken.user_id]);
+        await db.query('UPDATE password_reset_tokens SET used_at = $1 WHERE user_id = $2 AND used_at IS NULL', [new Date().toISOString(), resetToken.user_id]);
+        res.status(204).end();
+    });
+
+    return router;
+};
@@ -0,0 +1,232 @@
+import { type Request, Router } from 'express';
+import { type Database, type Row, decodeJson, encodeJson, toIsoString } from '../db';
+import type { ServerConfig } from '../config';
+import { getUser } from '../auth';
+import { HttpError, optionalString, parseId, requireString } from '../errors';
+import {
+    type CmsConnection, type CmsNetworkPolicy, type CmsProductContent, type ProductRef, type PublishableCms,
+    CmsApiError, PUBLISHABLE_CMS, assertPublicUrl, cmsConnectionFields, createCmsAdapter, decryptCredentials, encryptCredentials,
+} from '../cms';
+import { loadReviews } from '../reviews';
+import { revisionDocumentKey } from '../../shared/documentKeys';
+
+const MAX_PUBLISH_ITEMS = 100;
+
+// Settings holding the base URL of the CMS API, fetched by the server.
+const URL_SETTINGS = ['storeUrl', 'apiUrl'];
+
+type PublishStatus = 'updated' | 'would-update' | 'unchanged' | 'not-found' | 'not-approved' | 'error';
+
+interface PublishItem extends ProductRef, CmsProductContent {}
+
+interface FieldChange {
+    field: 'description' | 'jsonLd';
+    before: string;
+    after: string;
+}
+
+const toConnection = (row: Row) => {
+    const cms = row.cms as PublishableCms;
+    return {
+        cms,
+        settings: decodeJson<Record<string, string>>(row.settings),
+        // Secrets are write-only: the client only learns which ones are set.
+        configuredSecrets: cmsConnectionFields[cms].secrets,
+        updatedAt: toIsoString(row.updated_at),
+    };
+};
+
+const parseItemList = (body: any): any[] => {
+    const items = body?.items;
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new HttpError(400, "Le champ 'items' doit être une liste non vide.");
+    }
+    if (items.length > MAX_PUBLISH_ITEMS) {
+        throw new HttpError(400, `Au plus ${MAX_PUBLISH_ITEMS} produits par requête.`);
+    }
+    return items;
+};
+
+const parseProductRef = (item: any): ProductRef => ({
+    url: requireString(item, 'url', 2048),
+    handle: optionalString(item, 'handle') ?? undefined,
+    productId: optionalString(item, 'productId') ?? undefined,
+    sku: optionalString(item, 'sku') ?? undefined,
+});
+
+const parsePublishItems = (body: any): PublishItem[] => parseItemList(body).map(item => ({
+    ...parseProductRef(item),
+    descriptionHtml: requireString(item, 'descriptionHtml', 100_000),
+    jsonLd: typeof item.jsonLd === 'string' && item.jsonLd.trim() ? item.jsonLd : null,
+}));
+
+const normalizeForDiff = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : String(e));
+
+// Mounted under /api/projects/:projectId/cms; both main accounts and collaborators may publish.
+export const createCmsRouter = (db: Database, config: ServerConfig): Router => {
+    const router = Router({ mergeParams: true });
+    const network: CmsNetworkPolicy = { allowPrivateHosts: config.cmsAllowPrivateHosts };
+
+    const findOwnedProject = async (req: Request): Promise<Row> => {
+        const projectId = parseId(String(req.params.projectId));
+        const [row] = await db.query('SELECT * FROM projects WHERE id = $1 AND user_id = $2', [projectId, getUser(req).accountId]);
+        if (!row) {
+            throw new HttpError(404, 'Projet introuvable.');
+        }
+        return row;
+    };
+
+    const loadConnection = async (projectId: number): Promise<CmsConnection> => {
+        const [row] = await db.query('SELECT * FROM cms_connections WHERE project_id = $1', [projectId]);
+        if (!row) {
+            throw new HttpError(404, "Aucune connexion CMS n'est configurée pour ce projet.");
+        }
+        return {
+            cms: row.cms as PublishableCms,
+            settings: decodeJson(row.settings),
+            secrets: decryptCredentials(config.cmsCredentialsSecret, row.credentials as string),
+        };
+    };
+
+    const toHttpError = (e: unknown): HttpError => {
+        if (e instanceof CmsApiError) {
+            const status = e.status === 401 || e.status === 403 ? 'Identifiants CMS refusés' : 'Erreur du CMS';
+            return new HttpError(502, `${status} : ${e.message}`);
+        }
+        return new HttpError(502, errorMessage(e));
+    };
+
+    router.get('/', async (req, res) => {
+        const project = await findOwnedProject(req);
+        const [row] = await db.query('SELECT * FROM cms_connections WHERE project_id = $1', [project.id]);
+        res.json(row ? toConnection(row) : null);
+    });
+
+    router.put('/', async (req, res) => {
+        const project = await findOwnedProject(req);
+        const cms = requireString(req.body, 'cms', 50) as PublishableCms;
+        if (!PUBLISHABLE_CMS.includes(cms)) {
+            throw new HttpError(400, 'Ce CMS ne prend pas en charge la publication directe.');
+        }
+        const fields = cmsConnectionFields[cms];
+        const settings: Record<string, string> = {};
+        for (const field of fields.settings) settings[field] = requireString(req.body?.settings, field, 2048);
+        for (const field of fields.optionalSettings) {
+            const value = optionalString(req.body?.settings, field, 2048);
+            if (value) settings[field] = value;
+        }
+        for (const field of URL_SETTINGS.filter(field => settings[field])) {
+            try {
+                await assertPublicUrl(settings[field], network);
+            } catch (e) {
+                throw new HttpError(400, errorMessage(e));
+            }
+        }
+
+        // Blank secrets keep the stored ones, so settings can be edited without re-entering keys.
+        const [existing] = await db.query('SELECT * FROM cms_connections WHERE project_id = $1', [project.id]);
+        const previousSecrets = existing && existing.cms === cms ? decryptCredentials(config.cmsCredentialsSecret, existing.credentials as string) : {};
+        const secrets: Record<string, string> = {};
+        for (const field of fields.secrets) {
+            const value = optionalString(req.body?.secrets, field, 1024) || previousSecrets[field];
+            if (!value) {
+                throw new HttpError(400, `Le champ '${field}' est requis.`);
+            }
+            secrets[field] = value;
+        }
+
+        const [row] = await db.query(
+            `INSERT INTO cms_connections (project_id, cms, settings, credentials, updated_at) VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (project_id) DO UPDATE SET cms = excluded.cms, settings = excluded.settings,
+                credentials = excluded.credentials, updated_at = excluded.updated_at
+             RETURNING *`,
+            [project.id, cms, encodeJson(settings), encryptCredentials(config.cmsCredentialsSecret, secrets), new Date().toISOString()]
+        );
+        res.json(toConnection(row));
+    });
+
+    router.delete('/', async (req, res) => {
+        const project = await findOwnedProject(req);
+        await db.query('DELETE FROM cms_connections WHERE project_id = $1', [project.id]);
+        res.status(204).end();
+    });
+
+    router.post('/test', async (req, res) => {
+        const project = await findOwnedProject(req);
+        const adapter = createCmsAdapter(await loadConnection(Number(project.id)), network);
+        try {
+            await adapter.testConnection();
+        } catch (e) {
+            throw toHttpError(e);
+        }
+        res.json({ ok: true });
+    });
+
+    // Current content of the products, shown next to the generated descriptions during review.
+    router.post('/products', async (req, res) => {
+        const project = await findOwnedProject(req);
+        const refs = parseItemList(req.body).map(parseProductRef);
+        const adapter = createCmsAdapter(await loadConnection(Number(project.id)), network);
+
+        const results = [];
+        for (const ref of refs) {
+            try {
+                const product = await adapter.findProduct(ref);
+                results.push(product
+                    ? { url: ref.url, status: 'found', productId: product.id, productName: product.name, descriptionHtml: product.descriptionHtml }
+                    : { url: ref.url, status: 'not-found' });
+            } catch (e) {
+                results.push({ url: ref.url, status: 'error', error: toHttpError(e).message });
+            }
+        }
+        res.json({ results });
+    });
+
+    // Items are processed one by one to stay within the CMS APIs' own rate limits. A description is only published
+    // when its review is approved and the approved text is the one sent.
+    router.post('/publish', async (req, res) => {
+        const project = await findOwnedProject(req);
+        const items = parsePublishItems(req.body);
+        const dryRun = req.body?.dryRun === true;
+        const adapter = createCmsAdapter(await loadConnection(Number(project.id)), network);
+        const documentKey = (item: PublishItem) => revisionDocumentKey('product-description', item.url);
+        const reviews = new Map((await loadReviews(db, getUser(req).accountId, [...new Set(items.map(documentKey))]))
+            .map(review => [review.documentKey, review]));
+
+        const results = [];
+        for (const item of items) {
+            const review = reviews.get(documentKey(item));
+            if (review?.status !== 'approved' || normalizeForDiff(review.reviewedHtml ?? '') !== normalizeForDiff(item.descriptionHtml)) {
+                results.push({ url: item.url, status: 'not-approved' as PublishStatus, error: "Cette version de la fiche n'a pas été approuvée.", changes: [] });
+                continue;
+            }
+            try {
+                const product = await adapter.findProduct(item);
+                if (!product) {
+                    results.push({ url: item.url, status: 'not-found' as PublishStatus, changes: [] });
+                    continue;
+                }
+                const content: CmsProductContent = { descriptionHtml: item.descriptionHtml, jsonLd: adapter.supportsJsonLd ? item.jsonLd : null };
+                const changes: FieldChange[] = [];
+                if (normalizeForDiff(product.descriptionHtml) !== normalizeForDiff(content.descriptionHtml)) {
+                    changes.push({ field: 'description', before: product.descriptionHtml, after: content.descriptionHtml });
+                }
+                if (content.jsonLd !== null && normalizeForDiff(product.jsonLd ?? '') !== normalizeForDiff(content.jsonLd)) {
+                    changes.push({ field: 'jsonLd', before: product.jsonLd ?? '', after: content.jsonLd });
+                }
+                if (changes.length > 0 && !dryRun) {
+                    await adapter.updateProduct(product, content);
+                }
+                const status: PublishStatus = changes.length === 0 ? 'unchanged' : dryRun ? 'would-update' : 'updated';
+                results.push({ url: item.url, status, productId: product.id, productName: product.name, changes });
+            } catch (e) {
+                results.push({ url: item.url, status: 'error' as PublishStatus, error: toHttpError(e).message, changes: [] });
+            }
+        }
+        res.json({ dryRun, jsonLdSupported: adapter.supportsJsonLd, results });
+    });
+
+    return router;
+};
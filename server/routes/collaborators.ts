@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { type Database, type Row, toIsoString } from '../db';
+import type { ServerConfig } from '../config';
+import { createSecretToken, getUser } from '../auth';
+import { HttpError, parseId, requireEmail } from '../errors';
+import { assertBelowPlanLimit } from '../plans';
+
+const toCollaborator = (row: Row) => ({
+    id: String(row.id),
+    email: row.email as string,
+    invitationDate: toIsoString(row.invitation_date),
+});
+
+export const createCollaboratorsRouter = (db: Database, config: ServerConfig): Router => {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        const rows = await db.query('SELECT * FROM collaborators WHERE user_id = $1 ORDER BY invitation_date', [getUser(req).accountId]);
+        res.json(rows.map(toCollaborator));
+    });
+
+    router.post('/', async (req, res) => {
+        const { accountId } = getUser(req);
+        const email = requireEmail(req.body);
+        const existing = await db.query('SELECT id FROM collaborators WHERE user_id = $1 AND email = $2', [accountId, email]);
+        if (existing.length > 0) {
+            throw new HttpError(409, 'Ce collaborateur existe déjà.');
+        }
+        await assertBelowPlanLimit(db, accountId, 'maxCollaborators');
+        const { token, tokenHash } = createSecretToken();
+        const [row] = await db.query(
+            'INSERT INTO collaborators (user_id, email, invitation_date, invitation_token_hash) VALUES ($1, $2, $3, $4) RETURNING *',
+            [accountId, email, new Date().toISOString(), tokenHash]
+        );
+        // The invitation link is only returned here: the account owner sends it to the collaborator, who needs it to sign up.
+        res.status(201).json({ ...toCollaborator(row), invitationUrl: `${config.appUrl}/?invitation=${token}` });
+    });
+
+    router.delete('/:id', async (req, res) => {
+        const { accountId } = getUser(req);
+        const collaboratorId = parseId(req.params.id);
+        const [row] = await db.query('SELECT id, email FROM collaborators WHERE id = $1 AND user_id = $2', [collaboratorId, accountId]);
+        if (!row) {
+            throw new HttpError(404, 'Collaborateur introuvable.');
+        }
+        await db.query('DELETE FROM collaborators WHERE id = $1 AND user_id = $2', [collaboratorId, accountId]);
+        // A collaborator who already signed up becomes a main account of their own, with none of this account's data
+        // and the plan it signed up with; it can join again through a new invitation (POST /api/auth/accept-invitation).
+        await db.query('UPDATE users SET owner_id = NULL, role = $1 WHERE email = $2 AND owner_id = $3', ['main', row.email, accountId]);
+        res.status(204).end();
+    });
+
+    return router;
+};
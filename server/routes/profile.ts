@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import type { Database } from '../db';
+import { getUser } from '../auth';
+import { HttpError, optionalString } from '../errors';
+
+const SUPPORTED_LANGUAGES = ['fr', 'en', 'es', 'de', 'it', 'pt'];
+
+interface ProfileRow {
+    email: string;
+    first_name: string | null;
+    last_name: string | null;
+    language: string | null;
+    stripe_customer_id: string | null;
+}
+
+const toProfile = (row: ProfileRow) => ({
+    firstName: row.first_name ?? '',
+    lastName: row.last_name ?? '',
+    email: row.email,
+    language: row.language ?? 'fr',
+    stripeCustomerId: row.stripe_customer_id ?? undefined,
+});
+
+export const createProfileRouter = (db: Database): Router => {
+    const router = Router();
+
+    const loadProfile = async (userId: number) => {
+        const [row] = await db.query<ProfileRow>(
+            `SELECT u.email, p.first_name, p.last_name, p.language, p.stripe_customer_id
+             FROM users u LEFT JOIN user_profiles p ON p.user_id = u.id
+             WHERE u.id = $1`,
+            [userId]
+        );
+        if (!row) {
+            throw new HttpError(404, 'Profil introuvable.');
+        }
+        return toProfile(row);
+    };
+
+    router.get('/', async (req, res) => {
+        res.json(await loadProfile(getUser(req).id));
+    });
+
+    // The email is the login identifier and is deliberately not editable here.
+    router.put('/', async (req, res) => {
+        const user = getUser(req);
+        const language = optionalString(req.body, 'language', 10) ?? 'fr';
+        if (!SUPPORTED_LANGUAGES.includes(language)) {
+            throw new HttpError(400, 'Langue non supportée.');
+        }
+        await db.query(
+            `INSERT INTO user_profiles (user_id, first_name, last_name, language)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (user_id) DO UPDATE SET first_name = excluded.first_name, last_name = excluded.last_name, language = excluded.language`,
+            [user.id, optionalString(req.body, 'firstName', 100), optionalString(req.body, 'lastName', 100), language]
+        );
+        res.json(await loadProfile(user.id));
+    });
+
+    return router;
+};
@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import { type Database, type Row, decodeJson, encodeJson, toBoolean, toIsoString } from '../db';
+import { getUser } from '../auth';
+import { HttpError, optionalString, parseId, requireString } from '../errors';
+import { validateBrandVoice } from './prompts';
+import { assertBelowPlanLimit } from '../plans';
+
+const SUPPORTED_CMS = ['woocommerce', 'shopify', 'prestashop', 'bigcommerce', 'other'];
+const MAX_CATALOGUE_PRODUCTS = 20000;
+const MAX_SEARCH_INTENTION_IMPORTS = 5;
+const SEARCH_INTENT_TYPES = ['informational', 'commercial', 'transactional', 'navigational'];
+
+const toProject = (row: Row) => ({
+    id: String(row.id),
+    name: row.name as string,
+    url: (row.url as string | null) ?? '',
+    cms: (row.cms as string | null) ?? undefined,
+    creationDate: toIsoString(row.creation_date),
+    gscConnected: toBoolean(row.gsc_connected),
+    gaConnected: toBoolean(row.ga_connected),
+});
+
+const parseProjectBody = (body: any) => {
+    const cms = optionalString(body, 'cms', 50);
+    if (cms && !SUPPORTED_CMS.includes(cms)) {
+        throw new HttpError(400, 'CMS non supporté.');
+    }
+    return {
+        name: requireString(body, 'name'),
+        url: optionalString(body, 'url', 2048),
+        cms,
+        gscConnected: body?.gscConnected === true,
+        gaConnected: body?.gaConnected === true,
+    };
+};
+
+export const createProjectsRouter = (db: Database): Router => {
+    const router = Router();
+
+    const findOwnedProject = async (accountId: number, projectId: number): Promise<Row> => {
+        const [row] = await db.query('SELECT * FROM projects WHERE id = $1 AND user_id = $2', [projectId, accountId]);
+        if (!row) {
+            throw new HttpError(404, 'Projet introuvable.');
+        }
+        return row;
+    };
+
+    router.get('/', async (req, res) => {
+        const rows = await db.query('SELECT * FROM projects WHERE user_id = $1 ORDER BY creation_date DESC', [getUser(req).accountId]);
+        res.json(rows.map(toProject));
+    });
+
+    router.post('/', async (req, res) => {
+        const { accountId } = getUser(req);
+        const project = parseProjectBody(req.body);
+        await assertBelowPlanLimit(db, accountId, 'maxProjects');
+        const [row] = await db.query(
+            `INSERT INTO projects (user_id, name, url, cms, creation_date, gsc_connected, ga_connected)
+             VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+            [accountId, project.name, project.url, project.cms, new Date().toISOString(), project.gscConnected, project.gaConnected]
+        );
+        res.status(201).json(toProject(row));
+    });
+
+    router.put('/:id', async (req, res) => {
+        const { accountId } = getUser(req);
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(accountId, projectId);
+        const project = parseProjectBody(req.body);
+        const [row] = await db.query(
+            `UPDATE projects SET name = $1, url = $2, cms = $3, gsc_connected = $4, ga_connected = $5
+             WHERE id = $6 AND user_id = $7 RETURNING *`,
+            [project.name, project.url, project.cms, project.gscConnected, project.gaConnected, projectId, accountId]
+        );
+        res.json(toProject(row));
+    });
+
+    router.delete('/:id', async (req, res) => {
+        const { accountId } = getUser(req);
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(accountId, projectId);
+        await db.query('DELETE FROM projects WHERE id = $1 AND user_id = $2', [projectId, accountId]);
+        res.status(204).end();
+    });
+
+    router.get('/:id/intentions', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const [row] = await db.query('SELECT intentions FROM project_search_intentions WHERE project_id = $1', [projectId]);
+        res.json(row ? decodeJson(row.intentions) : []);
+    });
+
+    router.put('/:id/intentions', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        if (!Array.isArray(req.body) || req.body.some(item => typeof item?.query !== 'string')) {
+            throw new HttpError(400, "Le corps doit être une liste d'intentions avec un champ 'query'.");
+        }
+        await db.query(
+            `INSERT INTO project_search_intentions (project_id, intentions) VALUES ($1, $2)
+             ON CONFLICT (project_id) DO UPDATE SET intentions = excluded.intentions`,
+            [projectId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    router.get('/:id/intentions/imports', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const [row] = await db.query('SELECT imports FROM project_search_intention_imports WHERE project_id = $1', [projectId]);
+        res.json(row ? decodeJson(row.imports) : []);
+    });
+
+    router.put('/:id/intentions/imports', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        if (!Array.isArray(req.body) || req.body.some(item => typeof item?.id !== 'string' || !Array.isArray(item?.previous))) {
+            throw new HttpError(400, "Le corps doit être une liste d'imports avec les champs 'id' et 'previous'.");
+        }
+        if (req.body.length > MAX_SEARCH_INTENTION_IMPORTS) {
+            throw new HttpError(400, `L'historique ne peut pas dépasser ${MAX_SEARCH_INTENTION_IMPORTS} imports.`);
+        }
+        await db.query(
+            `INSERT INTO project_search_intention_imports (project_id, imports) VALUES ($1, $2)
+             ON CONFLICT (project_id) DO UPDATE SET imports = excluded.imports`,
+            [projectId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    router.get('/:id/clusters', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const [row] = await db.query('SELECT clusters FROM project_keyword_clusters WHERE project_id = $1', [projectId]);
+        res.json(row ? decodeJson(row.clusters) : []);
+    });
+
+    router.put('/:id/clusters', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const isCluster = (item: any) =>
+            typeof item?.id === 'string' && typeof item.label === 'string' && SEARCH_INTENT_TYPES.includes(item.intent)
+            && Array.isArray(item.queries) && item.queries.every((query: unknown) => typeof query === 'string')
+            && (item.url === undefined || typeof item.url === 'string');
+        if (!Array.isArray(req.body) || !req.body.every(isCluster)) {
+            throw new HttpError(400, "Le corps doit être une liste de clusters avec les champs 'id', 'label', 'intent' et 'queries'.");
+        }
+        await db.query(
+            `INSERT INTO project_keyword_clusters (project_id, clusters) VALUES ($1, $2)
+             ON CONFLICT (project_id) DO UPDATE SET clusters = excluded.clusters`,
+            [projectId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    router.get('/:id/brand-voice', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const [row] = await db.query('SELECT brand_voice FROM project_brand_voices WHERE project_id = $1', [projectId]);
+        res.json(row ? decodeJson(row.brand_voice) : null);
+    });
+
+    router.put('/:id/brand-voice', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        validateBrandVoice(req.body);
+        await db.query(
+            `INSERT INTO project_brand_voices (project_id, brand_voice) VALUES ($1, $2)
+             ON CONFLICT (project_id) DO UPDATE SET brand_voice = excluded.brand_voice`,
+            [projectId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    router.get('/:id/catalogue', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        const [row] = await db.query('SELECT products FROM project_catalogues WHERE project_id = $1', [projectId]);
+        res.json(row ? decodeJson(row.products) : []);
+    });
+
+    router.put('/:id/catalogue', async (req, res) => {
+        const projectId = parseId(req.params.id);
+        await findOwnedProject(getUser(req).accountId, projectId);
+        if (!Array.isArray(req.body) || req.body.some(item => typeof item?.url !== 'string')) {
+            throw new HttpError(400, "Le corps doit être une liste de produits avec un champ 'url'.");
+        }
+        if (req.body.length > MAX_CATALOGUE_PRODUCTS) {
+            throw new HttpError(400, `Un catalogue ne peut pas dépasser ${MAX_CATALOGUE_PRODUCTS} produits.`);
+        }
+        await db.query(
+            `INSERT INTO project_catalogues (project_id, products) VALUES ($1, $2)
+             ON CONFLICT (project_id) DO UPDATE SET products = excluded.products`,
+            [projectId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    return router;
+};
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { type Database, decodeJson, encodeJson } from '../db';
+import { getUser } from '../auth';
+import { HttpError } from '../errors';
+import { MAX_PROMPT_TEMPLATE_VERSIONS, type PromptTemplateId, promptTemplateIds } from '../../shared/promptTemplates';
+
+// The built-in texts live in shared/promptTemplates.ts; the API stores the account's saved versions and each
+// project's brand voice, as described in SpecsForDevPage, and renders them in /api/ai/generate.
+const BRAND_VOICE_LENGTHS = ['default', 'short', 'medium', 'long'];
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_BRAND_VOICE_ENTRIES = 200;
+
+const isString = (value: unknown, maxLength: number): value is string => typeof value === 'string' && value.length <= maxLength;
+const isVersionNumber = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 1;
+
+const isPromptTemplateVersion = (item: any): boolean =>
+    isVersionNumber(item?.version) && isString(item.body, MAX_PROMPT_LENGTH) && isString(item.note, 255) && isString(item.createdAt, 50);
+
+export const validatePromptLibrary = (body: any): void => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'Le corps doit être un objet indexé par modèle de prompt.');
+    }
+    for (const [id, history] of Object.entries<any>(body)) {
+        if (!promptTemplateIds.includes(id as PromptTemplateId)) {
+            throw new HttpError(400, `Modèle de prompt inconnu : '${id}'.`);
+        }
+        if (!isVersionNumber(history?.activeVersion) || !Array.isArray(history.versions) || !history.versions.every(isPromptTemplateVersion)) {
+            throw new HttpError(400, `Le modèle '${id}' doit avoir les champs 'activeVersion' et 'versions' ({ version, body, note, createdAt }).`);
+        }
+        if (history.versions.length > MAX_PROMPT_TEMPLATE_VERSIONS) {
+            throw new HttpError(400, `Un modèle ne peut pas dépasser ${MAX_PROMPT_TEMPLATE_VERSIONS} versions.`);
+        }
+    }
+};
+
+export const validateBrandVoice = (body: any): void => {
+    const isGlossaryEntry = (entry: any) => isString(entry?.term, 255) && isString(entry.definition, 1000);
+    const pinned = body?.pinnedVersions;
+    const valid = isString(body?.tone, 255) && BRAND_VOICE_LENGTHS.includes(body.length)
+        && Array.isArray(body.forbiddenWords) && body.forbiddenWords.length <= MAX_BRAND_VOICE_ENTRIES && body.forbiddenWords.every((word: unknown) => isString(word, 255))
+        && Array.isArray(body.glossary) && body.glossary.length <= MAX_BRAND_VOICE_ENTRIES && body.glossary.every(isGlossaryEntry)
+        && pinned && typeof pinned === 'object' && !Array.isArray(pinned)
+        && Object.entries(pinned).every(([id, version]) => promptTemplateIds.includes(id as PromptTemplateId) && isVersionNumber(version));
+    if (!valid) {
+        throw new HttpError(400, "La voix de marque doit avoir les champs 'tone', 'length', 'forbiddenWords', 'glossary' et 'pinnedVersions'.");
+    }
+};
+
+// The library is shared by the main account and its collaborators.
+export const createPromptsRouter = (db: Database): Router => {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        const [row] = await db.query('SELECT library FROM prompt_libraries WHERE user_id = $1', [getUser(req).accountId]);
+        res.json(row ? decodeJson(row.library) : {});
+    });
+
+    router.put('/', async (req, res) => {
+        validatePromptLibrary(req.body);
+        await db.query(
+            `INSERT INTO prompt_libraries (user_id, library) VALUES ($1, $2)
+             ON CONFLICT (user_id) DO UPDATE SET library = excluded.library`,
+            [getUser(req).accountId, encodeJson(req.body)]
+        );
+        res.status(204).end();
+    });
+
+    return router;
+};
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import type { Database } from '../db';
+import { getUser } from '../auth';
+import { HttpError, requireString } from '../errors';
+import { REVIEW_STATUSES, loadReviews, toReviewComment } from '../reviews';
+
+// Reviews of generated product descriptions, keyed by document (see shared/documentKeys) and shared by the main
+// account and its collaborators. CMS publishing only accepts descriptions whose approved text is the one published.
+const MAX_REVIEW_DOCUMENTS = 1000;
+const MAX_DOCUMENT_KEY_LENGTH = 2100;
+const MAX_REVIEWED_HTML_LENGTH = 200_000;
+const MAX_COMMENT_LENGTH = 5000;
+
+const parseDocumentKeys = (body: any): string[] => {
+    const documentKeys = body?.documentKeys;
+    if (!Array.isArray(documentKeys) || documentKeys.length > MAX_REVIEW_DOCUMENTS
+        || documentKeys.some(key => typeof key !== 'string' || !key || key.length > MAX_DOCUMENT_KEY_LENGTH)) {
+        throw new HttpError(400, `Le champ 'documentKeys' doit être une liste de ${MAX_REVIEW_DOCUMENTS} clés au plus.`);
+    }
+    return documentKeys;
+};
+
+const parseDecisionItems = (body: any): { documentKey: string; html: string }[] => {
+    const items = body?.items;
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_REVIEW_DOCUMENTS) {
+        throw new HttpError(400, `Le champ 'items' doit être une liste de 1 à ${MAX_REVIEW_DOCUMENTS} fiches.`);
+    }
+    return items.map(item => {
+        if (typeof item?.html !== 'string' || item.html.length > MAX_REVIEWED_HTML_LENGTH) {
+            throw new HttpError(400, `Le champ 'html' doit être un texte de ${MAX_REVIEWED_HTML_LENGTH} caractères au plus.`);
+        }
+        return { documentKey: requireString(item, 'documentKey', MAX_DOCUMENT_KEY_LENGTH), html: item.html };
+    });
+};
+
+export const createReviewsRouter = (db: Database): Router => {
+    const router = Router();
+
+    // A POST so that a whole job's documents fit in one request.
+    router.post('/lookup', async (req, res) => {
+        res.json(await loadReviews(db, getUser(req).accountId, parseDocumentKeys(req.body)));
+    });
+
+    // Records the same decision for every item, along with the text it applies to. 'pending' clears the decision.
+    router.put('/', async (req, res) => {
+        const user = getUser(req);
+        const status = requireString(req.body, 'status', 20);
+        if (!REVIEW_STATUSES.includes(status)) {
+            throw new HttpError(400, `Statut de relecture inconnu : '${status}'.`);
+        }
+        const items = parseDecisionItems(req.body);
+        const decided = status !== 'pending';
+        const decidedAt = new Date().toISOString();
+        for (const item of items) {
+            await db.query(
+                `INSERT INTO content_reviews (user_id, document_key, status, reviewed_html, decided_by_email, decided_by_role, decided_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)
+                 ON CONFLICT (user_id, document_key) DO UPDATE SET status = excluded.status, reviewed_html = excluded.reviewed_html,
+                    decided_by_email = excluded.decided_by_email, decided_by_role = excluded.decided_by_role, decided_at = excluded.decided_at`,
+                [
+                    user.accountId, item.documentKey, status, decided ? item.html : null,
+                    decided ? user.email : null, decided ? user.role : null, decided ? decidedAt : null,
+                ]
+            );
+        }
+        res.json(await loadReviews(db, user.accountId, items.map(item => item.documentKey)));
+    });
+
+    router.post('/comments', async (req, res) => {
+        const user = getUser(req);
+        const documentKey = requireString(req.body, 'documentKey', MAX_DOCUMENT_KEY_LENGTH);
+        const text = requireString(req.body, 'text', MAX_COMMENT_LENGTH);
+        const [row] = await db.query(
+            `INSERT INTO content_review_comments (user_id, document_key, author_email, author_role, text, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+            [user.accountId, documentKey, user.email, user.role, text, new Date().toISOString()]
+        );
+        res.status(201).json(toReviewComment(row));
+    });
+
+    return router;
+};
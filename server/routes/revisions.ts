@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { type Database, type Row, isUniqueViolation, toIsoString } from '../db';
+import { getUser } from '../auth';
+import { HttpError, optionalString, parseId, requireString } from '../errors';
+
+// Revisions of generated texts, shared by the main account and its collaborators. The author is always
+// the signed-in user, so the history tells who made each change.
+const REVISION_KINDS = ['product-description', 'faq', 'summary-table'];
+const REVISION_SOURCES = ['generation', 'edit', 'restore'];
+const MAX_REVISIONS_PER_DOCUMENT = 100;
+const MAX_REVISION_LENGTH = 200_000;
+const MAX_VERSION_ATTEMPTS = 5;
+
+const toRevision = (row: Row) => ({
+    id: String(row.id),
+    documentKey: row.document_key as string,
+    kind: row.kind as string,
+    title: row.title as string,
+    version: Number(row.version),
+    html: row.html as string,
+    jsonLd: (row.json_ld as string | null) ?? undefined,
+    source: row.source as string,
+    restoredFrom: row.restored_from === null || row.restored_from === undefined ? undefined : Number(row.restored_from),
+    author: { email: row.author_email as string, role: row.author_role as string },
+    projectId: row.project_id === null || row.project_id === undefined ? undefined : String(row.project_id),
+    createdAt: toIsoString(row.created_at),
+});
+
+const parseRevisionBody = (body: any) => {
+    const kind = requireString(body, 'kind', 50);
+    const source = requireString(body, 'source', 20);
+    if (!REVISION_KINDS.includes(kind)) {
+        throw new HttpError(400, `Type de contenu inconnu : '${kind}'.`);
+    }
+    if (!REVISION_SOURCES.includes(source)) {
+        throw new HttpError(400, `Origine de version inconnue : '${source}'.`);
+    }
+    if (typeof body.html !== 'string' || body.html.length > MAX_REVISION_LENGTH) {
+        throw new HttpError(400, `Le champ 'html' doit être un texte de ${MAX_REVISION_LENGTH} caractères au plus.`);
+    }
+    const restoredFrom = body.restoredFrom ?? null;
+    if (restoredFrom !== null && (!Number.isInteger(restoredFrom) || restoredFrom < 1)) {
+        throw new HttpError(400, "Le champ 'restoredFrom' doit être un numéro de version.");
+    }
+    const projectId = optionalString(body, 'projectId', 20);
+    return {
+        documentKey: requireString(body, 'documentKey', 2100),
+        kind,
+        title: requireString(body, 'title', 2048),
+        html: body.html as string,
+        jsonLd: optionalString(body, 'jsonLd', MAX_REVISION_LENGTH),
+        source,
+        restoredFrom: restoredFrom as number | null,
+        projectId: projectId ? parseId(projectId) : null,
+    };
+};
+
+export const createRevisionsRouter = (db: Database): Router => {
+    const router = Router();
+
+    router.get('/', async (req, res) => {
+        // ?project=:id lists the latest revision of each document whose last version belongs to the project.
+        if (typeof req.query.project === 'string') {
+            const rows = await db.query(
+                `SELECT r.* FROM content_revisions r
+                 WHERE r.user_id = $1 AND r.project_id = $2
+                   AND r.version = (SELECT MAX(l.version) FROM content_revisions l WHERE l.user_id = r.user_id AND l.document_key = r.document_key)
+                 ORDER BY r.created_at DESC`,
+                [getUser(req).accountId, parseId(req.query.project)]
+            );
+            res.json(rows.map(toRevision));
+            return;
+        }
+        const documentKey = typeof req.query.document === 'string' ? req.query.document : '';
+        if (!documentKey) {
+            throw new HttpError(400, "Le paramètre 'document' ou 'project' est requis.");
+        }
+        const rows = await db.query(
+            'SELECT * FROM content_revisions WHERE user_id = $1 AND document_key = $2 ORDER BY version',
+            [getUser(req).accountId, documentKey]
+        );
+        res.json(rows.map(toRevision));
+    });
+
+    // Numbers the revision after the document's latest one and drops the oldest past the limit. Two saves of the
+    // same document can pick the same number: the unique (document, version) key rejects the second, which retries.
+    router.post('/', async (req, res) => {
+        const user = getUser(req);
+        const revision = parseRevisionBody(req.body);
+        if (revision.projectId !== null) {
+            const [project] = await db.query('SELECT id FROM projects WHERE id = $1 AND user_id = $2', [revision.projectId, user.accountId]);
+            if (!project) {
+                throw new HttpError(404, 'Projet introuvable.');
+            }
+        }
+        let row: Row | undefined;
+        let version = 0;
+        for (let attempt = 1; !row; attempt++) {
+            const [latest] = await db.query<{ version: number | null }>(
+                'SELECT MAX(version) AS version FROM content_revisions WHERE user_id = $1 AND document_key = $2',
+                [user.accountId, revision.documentKey]
+            );
+            version = Number(latest?.version ?? 0) + 1;
+            try {
+                [row] = await db.query(
+                    `INSERT INTO content_revisions (user_id, project_id, document_key, kind, title, version, html, json_ld, source, restored_from, author_email, author_role, created_at)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
+                    [
+                        user.accountId, revision.projectId, revision.documentKey, revision.kind, revision.title, version, revision.html,
+                        revision.jsonLd, revision.source, revision.restoredFrom, user.email, user.role, new Date().toISOString(),
+                    ]
+                );
+            } catch (error) {
+                if (!isUniqueViolation(error)) throw error;
+                if (attempt >= MAX_VERSION_ATTEMPTS) {
+                    throw new HttpError(409, "Ce document vient d'être modifié par ailleurs. Veuillez réessayer.");
+                }
+            }
+        }
+        await db.query(
+            'DELETE FROM content_revisions WHERE user_id = $1 AND document_key = $2 AND version <= $3',
+            [user.accountId, revision.documentKey, version - MAX_REVISIONS_PER_DOCUMENT]
+        );
+        res.status(201).json(toRevision(row));
+    });
+
+    return router;
+};
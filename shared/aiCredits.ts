@@ -0,0 +1,25 @@
+// Credit cost of each AI action. The API server debits them; the front end displays and pre-checks them.
+export const CREDIT_COSTS = {
+    siteAnalysis: 10,
+    productDescription: 10,
+    competitorAnalysis: 50,
+    productPageAnalysis: 30,
+    croAudit: 40,
+    faqGeneration: 20,
+    summaryTable: 20,
+    keywordClustering: 5, // Per EMBEDDING_TEXTS_PER_UNIT queries embedded
+} as const;
+
+export type AiAction = keyof typeof CREDIT_COSTS;
+
+// Each assistant message is charged on its own: the chat is not a template and has no action.
+export const CHAT_MESSAGE_COST = 1;
+
+// What a recorded credit transaction was spent on.
+export type CreditAction = AiAction | 'chat';
+
+// Allowances are granted per calendar month (UTC), identified as YYYY-MM.
+export const currentCreditPeriod = (): string => new Date().toISOString().slice(0, 7);
+
+// Embedding requests are charged per started block of queries.
+export const EMBEDDING_TEXTS_PER_UNIT = 500;
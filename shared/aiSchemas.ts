@@ -0,0 +1,278 @@
+import { Type, type Schema } from '@google/genai';
+import type { AiAction } from './aiCredits';
+import type { PromptTemplateId } from './promptTemplates';
+
+// Each structured AI feature declares its result once: a TypeScript type and the Gemini responseSchema
+// that produces it.
+
+const stringListSchema: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+const auditScoreSchema: Schema = { type: Type.INTEGER, minimum: 1, maximum: 10, description: 'Score de 1 à 10.' };
+
+export interface StrengthsAndWeaknesses {
+    strengths: string[];
+    weaknesses: string[];
+}
+const strengthsAndWeaknessesSchema: Schema = {
+    type: Type.OBJECT,
+    properties: { strengths: stringListSchema, weaknesses: stringListSchema },
+    required: ['strengths', 'weaknesses'],
+};
+
+export interface SiteAnalysis {
+    mission: string;
+    vision: string;
+    valeurs: string;
+    eeat: string;
+}
+export const siteAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        mission: { type: Type.STRING },
+        vision: { type: Type.STRING },
+        valeurs: { type: Type.STRING, description: 'Les valeurs fondamentales.' },
+        eeat: { type: Type.STRING, description: "L'évaluation E.E.A.T. (Expertise, Authoritativeness, Trustworthiness)." },
+    },
+    required: ['mission', 'vision', 'valeurs', 'eeat'],
+};
+
+export interface ProductDescriptionResult {
+    descriptionHtml: string;
+    jsonLd: string;
+    originalDescription?: string;
+}
+export const productDescriptionSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        descriptionHtml: { type: Type.STRING, description: "La description du produit au format HTML." },
+        jsonLd: { type: Type.STRING, description: "Le script JSON-LD complet pour le produit." },
+        originalDescription: { type: Type.STRING, description: "La description actuelle de la page produit, reprise telle quelle, vide si elle est introuvable." }
+    },
+    required: ["descriptionHtml", "jsonLd"]
+};
+
+export interface CompetitorAnalysis {
+    positioning: string;
+    catalogDepth: string;
+    bestSellers: { name: string; reason: string }[];
+    productPageStructure: { advantages: string[]; disadvantages: string[] };
+}
+export interface CompetitiveAnalysisResult {
+    synthesis: {
+        commonStrengths: string;
+        differentiationStrategies: string;
+        marketOpportunities: string;
+    };
+    competitors: { url: string; analysis: CompetitorAnalysis }[];
+}
+export const competitiveAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        synthesis: {
+            type: Type.OBJECT,
+            properties: {
+                commonStrengths: { type: Type.STRING, description: 'Les points forts que les concurrents partagent.' },
+                differentiationStrategies: { type: Type.STRING, description: 'Ce qui rend chaque concurrent unique.' },
+                marketOpportunities: { type: Type.STRING, description: "Les opportunités de marché à saisir." },
+            },
+            required: ['commonStrengths', 'differentiationStrategies', 'marketOpportunities'],
+        },
+        competitors: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    url: { type: Type.STRING },
+                    analysis: {
+                        type: Type.OBJECT,
+                        properties: {
+                            positioning: { type: Type.STRING },
+                            catalogDepth: { type: Type.STRING },
+                            bestSellers: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: { name: { type: Type.STRING }, reason: { type: Type.STRING } },
+                                    required: ['name', 'reason'],
+                                },
+                            },
+                            productPageStructure: {
+                                type: Type.OBJECT,
+                                properties: { advantages: stringListSchema, disadvantages: stringListSchema },
+                                required: ['advantages', 'disadvantages'],
+                            },
+                        },
+                        required: ['positioning', 'catalogDepth', 'bestSellers', 'productPageStructure'],
+                    },
+                },
+                required: ['url', 'analysis'],
+            },
+        },
+    },
+    required: ['synthesis', 'competitors'],
+};
+
+export interface MetaSuggestion {
+    current: string;
+    suggested: string;
+    reasoning: string;
+}
+export interface ProductPageAnalysisResult {
+    analysis: {
+        pageStructure: StrengthsAndWeaknesses;
+        designUI: StrengthsAndWeaknesses;
+        content: StrengthsAndWeaknesses & { wordCount: string; densityAndNature: string };
+        seo: StrengthsAndWeaknesses;
+        internalLinking: StrengthsAndWeaknesses;
+        cro: StrengthsAndWeaknesses;
+    };
+    summary: { advantages: string[]; disadvantages: string[] };
+    optimizationSuggestions: { metaTitle: MetaSuggestion; metaDescription: MetaSuggestion };
+}
+const metaSuggestionSchema = (suggestion: string): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        current: { type: Type.STRING },
+        suggested: { type: Type.STRING, description: suggestion },
+        reasoning: { type: Type.STRING, description: 'Explication des améliorations.' },
+    },
+    required: ['current', 'suggested', 'reasoning'],
+});
+export const productPageAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        analysis: {
+            type: Type.OBJECT,
+            properties: {
+                pageStructure: strengthsAndWeaknessesSchema,
+                designUI: strengthsAndWeaknessesSchema,
+                content: {
+                    type: Type.OBJECT,
+                    properties: {
+                        wordCount: { type: Type.STRING, description: 'Ex: Environ 350 mots.' },
+                        densityAndNature: { type: Type.STRING, description: 'Analyse de la densité sémantique et de la nature du contenu.' },
+                        strengths: stringListSchema,
+                        weaknesses: stringListSchema,
+                    },
+                    required: ['wordCount', 'densityAndNature', 'strengths', 'weaknesses'],
+                },
+                seo: strengthsAndWeaknessesSchema,
+                internalLinking: strengthsAndWeaknessesSchema,
+                cro: strengthsAndWeaknessesSchema,
+            },
+            required: ['pageStructure', 'designUI', 'content', 'seo', 'internalLinking', 'cro'],
+        },
+        summary: {
+            type: Type.OBJECT,
+            properties: { advantages: stringListSchema, disadvantages: stringListSchema },
+            required: ['advantages', 'disadvantages'],
+        },
+        optimizationSuggestions: {
+            type: Type.OBJECT,
+            properties: {
+                metaTitle: metaSuggestionSchema('Titre meta optimisé (environ 60 caractères).'),
+                metaDescription: metaSuggestionSchema('Meta description optimisée (environ 155 caractères).'),
+            },
+            required: ['metaTitle', 'metaDescription'],
+        },
+    },
+    required: ['analysis', 'summary', 'optimizationSuggestions'],
+};
+
+export type CroAuditCategory = 'valueProposition' | 'visualsAndMedia' | 'productDescription' | 'callToAction' | 'trustAndReassurance';
+export interface CroCategoryAudit extends StrengthsAndWeaknesses {
+    score: number;
+    recommendations: string[];
+}
+export interface CroAuditResult {
+    overallScore: number;
+    summary: string;
+    detailedAudit: Record<CroAuditCategory, CroCategoryAudit>;
+}
+export const croAuditCategories: { key: CroAuditCategory; title: string }[] = [
+    { key: 'valueProposition', title: 'Proposition de Valeur & Clarté' },
+    { key: 'visualsAndMedia', title: 'Visuels & Médias' },
+    { key: 'productDescription', title: 'Description & Contenu' },
+    { key: 'callToAction', title: 'Appel à l\'Action (CTA)' },
+    { key: 'trustAndReassurance', title: 'Confiance & Réassurance' },
+];
+const croCategoryAuditSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        score: auditScoreSchema,
+        strengths: stringListSchema,
+        weaknesses: stringListSchema,
+        recommendations: { ...stringListSchema, description: 'Actions concrètes à mettre en place.' },
+    },
+    required: ['score', 'strengths', 'weaknesses', 'recommendations'],
+};
+export const croAuditSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overallScore: { ...auditScoreSchema, description: 'Score global de 1 à 10, selon le potentiel de conversion de la page.' },
+        summary: { type: Type.STRING, description: 'Les 2-3 points les plus critiques à améliorer pour augmenter les conversions.' },
+        detailedAudit: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(croAuditCategories.map(category => [category.key, croCategoryAuditSchema])),
+            required: croAuditCategories.map(category => category.key),
+        },
+    },
+    required: ['overallScore', 'summary', 'detailedAudit'],
+};
+
+export interface FaqResult {
+    faqItems: { question: string; answer: string }[];
+    jsonLd: string;
+}
+export const faqSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        faqItems: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING },
+                },
+                required: ["question", "answer"],
+            }
+        },
+        jsonLd: {
+            type: Type.STRING,
+            description: 'A string containing the complete JSON-LD for an FAQPage.'
+        }
+    },
+    required: ["faqItems", "jsonLd"]
+};
+
+export interface SummaryTableResult {
+    tableHtml: string;
+    jsonLd: string;
+}
+export const summaryTableSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        tableHtml: { type: Type.STRING, description: "Le tableau récapitulatif au format HTML." },
+        jsonLd: { type: Type.STRING, description: "Le script JSON-LD complet pour un Article." }
+    },
+    required: ["tableHtml", "jsonLd"]
+};
+
+interface PromptTemplateOutput {
+    action: AiAction; // Credit cost and model
+    schema: Schema;
+    grounded: boolean; // Reads web pages through Google Search
+}
+
+// What each prompt template produces. The API server charges, grounds and checks a generation from its
+// template alone; callers only send the variables.
+export const promptTemplateOutputs: Record<PromptTemplateId, PromptTemplateOutput> = {
+    siteAnalysis: { action: 'siteAnalysis', schema: siteAnalysisSchema, grounded: true },
+    productDescription: { action: 'productDescription', schema: productDescriptionSchema, grounded: true },
+    competitorAnalysis: { action: 'competitorAnalysis', schema: competitiveAnalysisSchema, grounded: true },
+    productPageAnalysis: { action: 'productPageAnalysis', schema: productPageAnalysisSchema, grounded: true },
+    croAudit: { action: 'croAudit', schema: croAuditSchema, grounded: true },
+    faqFromTopic: { action: 'faqGeneration', schema: faqSchema, grounded: false },
+    faqFromUrl: { action: 'faqGeneration', schema: faqSchema, grounded: true },
+    summaryTable: { action: 'summaryTable', schema: summaryTableSchema, grounded: true },
+};
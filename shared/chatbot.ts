@@ -0,0 +1,30 @@
+// The assistant's system instruction is fixed by the API server: the client only names the page the chat was
+// opened on and sends the previous turns, which carry plain text only.
+export interface ChatTurn {
+    role: 'user' | 'model';
+    parts: { text: string }[];
+}
+
+export const MAX_CHAT_HISTORY = 100; // Turns sent with each message
+export const MAX_CHAT_LENGTH = 100_000; // Characters of the message and its history together
+
+const DEFAULT_INSTRUCTION = "You are a helpful assistant for the OtterCluster application. Help the user understand the current page and navigate if requested. If you suggest navigation, clearly state 'Okay, I will navigate you to the [Page Name] page.' or 'Navigating to [Page Name].'";
+
+const PAGE_INSTRUCTIONS: Record<string, string> = {
+    dashboard: "You are a dashboard assistant for OtterCluster. You can provide summaries of what's on the dashboard or help navigate to other sections like 'My Projects' or 'E-commerce Redaction'. If you suggest navigation, clearly state 'Okay, I will navigate you to the [Page Name] page.'",
+};
+
+export const chatbotSystemInstruction = (page: string | null): string =>
+    page !== null && Object.prototype.hasOwnProperty.call(PAGE_INSTRUCTIONS, page) ? PAGE_INSTRUCTIONS[page] : DEFAULT_INSTRUCTION;
+
+export const chatLength = (history: ChatTurn[], message: string): number =>
+    history.reduce((sum, turn) => sum + turn.parts.reduce((turnSum, part) => turnSum + part.text.length, 0), message.length);
+
+// Drops the oldest exchanges until the history fits the limits of the API server.
+export const trimChatHistory = (history: ChatTurn[], message: string): ChatTurn[] => {
+    let trimmed = history;
+    while (trimmed.length > 0 && (trimmed.length > MAX_CHAT_HISTORY || chatLength(trimmed, message) > MAX_CHAT_LENGTH)) {
+        trimmed = trimmed.slice(2);
+    }
+    return trimmed;
+};
@@ -0,0 +1,14 @@
+// Generated texts are identified across runs by their document key: the product description, FAQ or summary
+// table written for a given product, topic or page. The API uses it to match published products with their reviews.
+export type RevisionDocumentKind = 'product-description' | 'faq' | 'summary-table';
+
+export const normalizeProductUrl = (url: string): string => {
+    try {
+        const parsed = new URL(url.trim());
+        return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch (_) {
+        return url.trim().toLowerCase();
+    }
+};
+
+export const revisionDocumentKey = (kind: RevisionDocumentKind, subject: string): string => `${kind}:${normalizeProductUrl(subject)}`;
@@ -0,0 +1,35 @@
+import type { AiAction } from './aiCredits';
+
+// Subscription plans and what they allow. The pricing page shows these limits and the API server enforces
+// them; custom plans ('sur-mesure') get the entreprise limits.
+export type UserPlan = 'starter' | 'pro' | 'entreprise';
+
+export type PlanFeature = 'advanced-seo-analysis' | 'revision-history';
+
+export interface PlanLimits {
+    maxProjects: number | null; // null means unlimited
+    maxCollaborators: number;
+    monthlyCredits: number; // AI credits granted each calendar month
+    features: PlanFeature[];
+}
+
+// New accounts start on this plan until they subscribe; it is also assumed for unknown stored values.
+export const DEFAULT_USER_PLAN: UserPlan = 'starter';
+
+export const PLAN_LIMITS: Record<UserPlan, PlanLimits> = {
+    starter: { maxProjects: 3, maxCollaborators: 0, monthlyCredits: 250, features: [] },
+    pro: { maxProjects: 10, maxCollaborators: 0, monthlyCredits: 2000, features: ['advanced-seo-analysis', 'revision-history'] },
+    entreprise: { maxProjects: null, maxCollaborators: 5, monthlyCredits: 5000, features: ['advanced-seo-analysis', 'revision-history'] },
+};
+
+// AI actions only available to the plans with a feature; the API server refuses them to the other plans.
+export const AI_ACTION_FEATURES: Partial<Record<AiAction, PlanFeature>> = {
+    competitorAnalysis: 'advanced-seo-analysis',
+    productPageAnalysis: 'advanced-seo-analysis',
+};
+
+// Debited by the API server for accounts with an API session, and by the browser ledger otherwise.
+export const planCreditAllowance = (plan: UserPlan): number => PLAN_LIMITS[plan].monthlyCredits;
+
+export const isUserPlan = (value: unknown): value is UserPlan =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLAN_LIMITS, value);
@@ -0,0 +1,231 @@
+// Shared by the front end, which edits and previews the templates, and the API server, which renders the
+// prompt actually sent to the model.
+// Every AI prompt is a template with {{variables}}. Version 1 is the built-in text below; edits made on the
+// prompt templates page are saved as new versions in the account's library. A project can pin versions and
+// adds its brand voice (tone, length, forbidden words, glossary) to the writing prompts.
+
+export type PromptTemplateId = 'siteAnalysis' | 'productDescription' | 'competitorAnalysis' | 'productPageAnalysis' | 'croAudit' | 'faqFromTopic' | 'faqFromUrl' | 'summaryTable';
+
+export interface PromptVariable {
+    name: string;
+    label: string;
+    example: string; // Sample value used by the preview of the templates page
+}
+
+export interface PromptTemplateDefinition {
+    label: string;
+    variables: PromptVariable[];
+    usesBrandVoice: boolean; // Writing prompts get the project's brand voice appended, analysis prompts do not
+    body: string;
+}
+
+export interface PromptTemplateVersion {
+    version: number;
+    body: string;
+    note: string;
+    createdAt: string; // ISO string date, empty for the built-in version
+}
+
+export interface PromptTemplateHistory {
+    versions: PromptTemplateVersion[]; // Saved edits, numbered from 2
+    activeVersion: number;
+}
+
+export type PromptLibrary = Partial<Record<PromptTemplateId, PromptTemplateHistory>>;
+
+export type BrandVoiceLength = 'default' | 'short' | 'medium' | 'long';
+
+export interface GlossaryEntry {
+    term: string;
+    definition: string;
+}
+
+export interface BrandVoice {
+    tone: string;
+    length: BrandVoiceLength;
+    forbiddenWords: string[];
+    glossary: GlossaryEntry[];
+    pinnedVersions: Partial<Record<PromptTemplateId, number>>; // Takes precedence over the library's active version
+}
+
+export const BUILT_IN_PROMPT_VERSION = 1;
+export const MAX_PROMPT_TEMPLATE_VERSIONS = 50;
+
+const urlVariable: PromptVariable = { name: 'url', label: 'URL analysée', example: 'https://www.exemple.fr/produit' };
+
+export const promptTemplates: Record<PromptTemplateId, PromptTemplateDefinition> = {
+    siteAnalysis: {
+        label: 'Analyse du site (rédaction e-commerce)',
+        variables: [urlVariable],
+        usesBrandVoice: false,
+        body: `Analyse le site web à l'URL suivante: {{url}}. Extrais sa mission, sa vision, ses valeurs fondamentales, et une évaluation de son E.E.A.T. (Expertise, Authoritativeness, Trustworthiness). Si une information est introuvable, indique-le brièvement.`,
+    },
+    productDescription: {
+        label: 'Fiche produit',
+        variables: [
+            urlVariable,
+            { name: 'mission', label: "Mission de l'entreprise", example: 'Rendre la randonnée accessible à tous.' },
+            { name: 'vision', label: "Vision de l'entreprise", example: "Devenir la référence de l'outdoor responsable." },
+            { name: 'valeurs', label: "Valeurs de l'entreprise", example: 'Durabilité, transparence, conseil.' },
+            { name: 'eeat', label: 'Évaluation E.E.A.T', example: 'Fiches rédigées par des guides de montagne.' },
+            { name: 'cible', label: 'Cible client', example: 'Randonneurs débutants' },
+            { name: 'intentions', label: 'Consigne sur les intentions de recherche (vide sans intentions)', example: 'Cible en priorité les requêtes de recherche suivantes, sélectionnées pour ce produit (mots-clés, questions) : sac à dos randonnée 30l.' },
+        ],
+        usesBrandVoice: true,
+        body: `En te basant sur les informations suivantes sur une entreprise :
+- Mission: {{mission}}
+- Vision: {{vision}}
+- Valeurs: {{valeurs}}
+- E.E.A.T: {{eeat}}
+- Cible client: {{cible}}
+
+{{intentions}}
+
+Analyse la page produit à l'URL : {{url}}. Extrais les informations essentielles (nom, images, description, marque, prix, devise, disponibilité, etc.).
+Ensuite, effectue deux tâches :
+1. Rédige une fiche produit optimisée SEO en HTML (avec <p>, <ul>, <li>).
+2. Crée un script JSON-LD valide pour un 'Product' rich result, incluant autant de propriétés pertinentes que possible (name, image, description, brand, offers, aggregateRating, etc.). Si une information n'est pas disponible, omets la propriété.
+3. Reprends telle quelle la description actuelle de la page, pour qu'elle puisse être comparée à ta rédaction.
+
+Retourne un objet JSON valide.`,
+    },
+    competitorAnalysis: {
+        label: 'Analyse concurrentielle',
+        variables: [{ name: 'urls', label: 'URLs des concurrents, séparées par des virgules', example: 'https://www.concurrent-a.fr, https://www.concurrent-b.fr' }],
+        usesBrandVoice: false,
+        body: `En tant qu'expert en stratégie e-commerce, analyse les sites concurrents aux URLs suivantes : {{urls}}.
+Pour chaque site, fournis une analyse détaillée sur :
+1. Positionnement: Cible client, arguments de vente uniques, image de marque.
+2. Profondeur du Catalogue: Estimation du nombre de catégories et de produits, étendue de l'offre.
+3. Meilleures Ventes: Identification des produits mis en avant et pourquoi ils semblent être des best-sellers.
+4. Structure de la Fiche Produit: Analyse approfondie de la structure d'une fiche produit type. Identifie ses avantages et ses inconvénients en te basant sur les bonnes pratiques du e-commerce (qualité des images, clarté des descriptions, efficacité du CTA, présence d'avis clients, éléments de réassurance, etc.).
+
+Ensuite, fournis une Synthèse Stratégique Comparative qui met en lumière :
+- Les forces et faiblesses communes.
+- Les stratégies de différenciation de chaque concurrent.
+- Les opportunités de marché à saisir.
+
+Renseigne dans "competitors" une entrée par URL analysée, avec l'URL exacte fournie.`,
+    },
+    productPageAnalysis: {
+        label: 'Analyse de fiche produit',
+        variables: [urlVariable],
+        usesBrandVoice: false,
+        body: `En tant qu'expert en e-commerce, SEO et UX, analyse en profondeur la fiche produit à l'URL suivante : {{url}}.
+Base ton évaluation sur les meilleures pratiques de l'industrie, en t'inspirant notamment des recommandations de Google (https://developers.google.com/search/docs/specialty/ecommerce?hl=fr) et de Microsoft Bing.
+
+Évalue la structure de la page, le design et l'UI, le contenu (nombre de mots, densité sémantique), le SEO, le maillage interne et la conversion, puis propose un meta titre et une meta description optimisés.`,
+    },
+    croAudit: {
+        label: 'Audit CRO',
+        variables: [urlVariable],
+        usesBrandVoice: false,
+        body: `En tant qu'expert en CRO (Conversion Rate Optimization) spécialisé en e-commerce, audite la fiche produit à l'URL suivante: {{url}}.
+Fournis une analyse approfondie et structurée : un score global de 1 à 10 selon le potentiel de conversion, un résumé des 2-3 points les plus critiques,
+puis pour chaque axe (proposition de valeur et clarté, visuels et médias, description et contenu, appel à l'action, confiance et réassurance)
+un score de 1 à 10, les points forts, les points faibles et des recommandations concrètes.`,
+    },
+    faqFromTopic: {
+        label: "FAQ à partir d'un sujet",
+        variables: [{ name: 'sujet', label: 'Sujet de la FAQ', example: 'Entretien des chaussures de randonnée' }],
+        usesBrandVoice: true,
+        body: `Generate a list of 5 frequently asked questions (FAQ) about the topic "{{sujet}}". For each question, provide a concise and helpful answer. Also generate a valid JSON-LD script for an FAQPage rich result based on these questions and answers. The response must be a valid JSON object.`,
+    },
+    faqFromUrl: {
+        label: "FAQ à partir d'une URL",
+        variables: [urlVariable],
+        usesBrandVoice: true,
+        body: `Analyze the content of the page at the URL {{url}}. Based on this content, generate a list of 5 frequently asked questions (FAQ) with concise and helpful answers. Also generate a valid JSON-LD script for an FAQPage rich result based on these questions and answers. The response must be a valid JSON object.`,
+    },
+    summaryTable: {
+        label: 'Tableau récapitulatif',
+        variables: [urlVariable],
+        usesBrandVoice: true,
+        body: `Tu es un expert en analyse de contenu et en SEO. Analyse le contenu de la page web à l'URL suivante: {{url}}.
+Ta mission est de générer deux choses :
+1. Un tableau récapitulatif HTML qui est à la fois un résumé et un complément au contenu. Ce tableau doit avoir les en-têtes: "Thème Principal", "Points Clés", et "Informations Complémentaires / Actions".
+2. Un script JSON-LD valide pour un 'Article' rich result, basé sur le contenu de la page. Le JSON-LD doit inclure @context, @type, headline, image, author, publisher, datePublished, dateModified, et description. Extrais ces informations de la page.
+
+Le résultat doit être UNIQUEMENT un objet JSON valide.`,
+    },
+};
+
+export const promptTemplateIds = Object.keys(promptTemplates) as PromptTemplateId[];
+
+export const brandVoiceLengthLabels: Record<BrandVoiceLength, string> = {
+    default: 'Libre',
+    short: 'Courte',
+    medium: 'Moyenne',
+    long: 'Longue',
+};
+
+const brandVoiceLengthInstructions: Record<BrandVoiceLength, string> = {
+    default: '',
+    short: "textes courts et concis, va à l'essentiel",
+    medium: 'textes de longueur moyenne, équilibrés entre informations et arguments',
+    long: 'textes longs et détaillés, développe chaque point',
+};
+
+export const emptyBrandVoice = (): BrandVoice => ({ tone: '', length: 'default', forbiddenWords: [], glossary: [], pinnedVersions: {} });
+
+export const promptTemplateVersions = (id: PromptTemplateId, library: PromptLibrary): PromptTemplateVersion[] => [
+    { version: BUILT_IN_PROMPT_VERSION, body: promptTemplates[id].body, note: "Version d'origine", createdAt: '' },
+    ...(library[id]?.versions ?? []),
+];
+
+// A version pinned by the project wins over the library's active one; unknown numbers fall back to the built-in text.
+export const activePromptVersion = (id: PromptTemplateId, library: PromptLibrary, brandVoice?: BrandVoice | null): PromptTemplateVersion => {
+    const versions = promptTemplateVersions(id, library);
+    const wanted = brandVoice?.pinnedVersions[id] ?? library[id]?.activeVersion ?? BUILT_IN_PROMPT_VERSION;
+    return versions.find(v => v.version === wanted) ?? versions[0];
+};
+
+const brandVoiceInstructions = (brandVoice: BrandVoice): string => {
+    const rules = [
+        brandVoice.tone.trim() && `- Ton : ${brandVoice.tone.trim()}.`,
+        brandVoiceLengthInstructions[brandVoice.length] && `- Longueur : ${brandVoiceLengthInstructions[brandVoice.length]}.`,
+        brandVoice.forbiddenWords.length > 0 && `- N'utilise jamais les mots ou expressions suivants : ${brandVoice.forbiddenWords.join(', ')}.`,
+        brandVoice.glossary.length > 0 && `- Glossaire de la marque, à employer avec ce sens : ${brandVoice.glossary.map(entry => (entry.definition ? `${entry.term} (${entry.definition})` : entry.term)).join(' ; ')}.`,
+    ].filter(Boolean);
+    return rules.length > 0 ? `Consignes de la marque à respecter dans les textes rédigés :\n${rules.join('\n')}` : '';
+};
+
+export const withBrandVoice = (id: PromptTemplateId, body: string, brandVoice?: BrandVoice | null): string => {
+    const instructions = brandVoice && promptTemplates[id].usesBrandVoice ? brandVoiceInstructions(brandVoice) : '';
+    return instructions ? `${body.trim()}\n\n${instructions}` : body.trim();
+};
+
+// The template text to fill for a feature: its active version, followed by the brand voice for writing prompts.
+export const resolvePromptTemplate = (id: PromptTemplateId, library: PromptLibrary, brandVoice?: BrandVoice | null): string =>
+    withBrandVoice(id, activePromptVersion(id, library, brandVoice).body, brandVoice);
+
+const PROMPT_VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown variables render empty; the blank lines left by empty values are collapsed.
+export const renderPrompt = (template: string, values: Record<string, string>): string =>
+    template.replace(PROMPT_VARIABLE_PATTERN, (_, name: string) => values[name] ?? '').replace(/\n{3,}/g, '\n\n').trim();
+
+const promptVariablesIn = (body: string): string[] =>
+    [...new Set([...body.matchAll(PROMPT_VARIABLE_PATTERN)].map(match => match[1]))];
+
+export const unknownPromptVariables = (id: PromptTemplateId, body: string): string[] =>
+    promptVariablesIn(body).filter(name => !promptTemplates[id].variables.some(variable => variable.name === name));
+
+// Saving an edit makes it the active version. The oldest saved edits are dropped past the version limit.
+export const addPromptTemplateVersion = (library: PromptLibrary, id: PromptTemplateId, body: string, note: string): PromptLibrary => {
+    const versions = promptTemplateVersions(id, library);
+    const version = Math.max(...versions.map(v => v.version)) + 1;
+    const saved = [...(library[id]?.versions ?? []), { version, body, note, createdAt: new Date().toISOString() }];
+    return { ...library, [id]: { versions: saved.slice(-MAX_PROMPT_TEMPLATE_VERSIONS), activeVersion: version } };
+};
+
+export const setActivePromptVersion = (library: PromptLibrary, id: PromptTemplateId, version: number): PromptLibrary => ({
+    ...library,
+    [id]: { versions: library[id]?.versions ?? [], activeVersion: version },
+});
+
+// Appended to the product description prompt when the review queue sends a description back for rework.
+export const withReviewNotes = (prompt: string, reviewNotes: string[]): string =>
+    reviewNotes.length > 0
+        ? `${prompt}\n\nUne version précédente de cette fiche a été renvoyée par la relecture avec les remarques suivantes, dont la nouvelle version doit tenir compte :\n${reviewNotes.map(note => `- ${note}`).join('\n')}`
+        : prompt;
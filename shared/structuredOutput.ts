@@ -0,0 +1,98 @@
+import { Type, type Schema } from '@google/genai';
+
+// Checks of structured AI replies, run by the API server (which asks the model again once when a reply
+// does not match) and by the front end (which also converts the tolerated values to the declared types).
+
+export const MAX_STRUCTURED_OUTPUT_ATTEMPTS = 2;
+const MAX_REPORTED_ISSUES = 10;
+
+// Strips Markdown fences and recovers from the usual slips: text around the object and trailing commas.
+export const parseStructuredText = (text: string): unknown => {
+    const trimmed = text.trim();
+    const unfenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1] ?? trimmed;
+    try {
+        return JSON.parse(unfenced);
+    } catch (error) {
+        const start = unfenced.search(/[[{]/);
+        const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+        if (start < 0 || end <= start) throw error;
+        return JSON.parse(unfenced.slice(start, end + 1).replace(/,(\s*[}\]])/g, '$1'));
+    }
+};
+
+// Returns the value with numbers given as text ("8/10") and scalars given as strings converted, and collects
+// every mismatch in `issues`. Missing optional arrays become empty arrays so that components can map over them.
+// Schemas sent as JSON may spell their types in lower case, hence the upper-casing.
+export const conformToSchema = (schema: Schema | undefined, value: unknown, path: string, issues: string[]): unknown => {
+    const at = path || 'réponse';
+    switch (String(schema?.type ?? '').toUpperCase()) {
+        case Type.OBJECT: {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                issues.push(`${at} : objet attendu`);
+                return value;
+            }
+            const result: Record<string, unknown> = { ...value };
+            Object.entries(schema?.properties ?? {}).forEach(([key, child]) => {
+                const childPath = path ? `${path}.${key}` : key;
+                if (result[key] === undefined || result[key] === null) {
+                    if (schema?.required?.includes(key)) {
+                        issues.push(`${childPath} : propriété manquante`);
+                    } else if (String(child.type ?? '').toUpperCase() === Type.ARRAY) {
+                        result[key] = [];
+                    }
+                    return;
+                }
+                result[key] = conformToSchema(child, result[key], childPath, issues);
+            });
+            return result;
+        }
+        case Type.ARRAY:
+            if (!Array.isArray(value)) {
+                issues.push(`${at} : liste attendue`);
+                return value;
+            }
+            return value.map((item, index) => conformToSchema(schema?.items, item, `${path}[${index}]`, issues));
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const number = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+            if (!Number.isFinite(number)) {
+                issues.push(`${at} : nombre attendu`);
+                return value;
+            }
+            const bounded = Math.min(schema?.maximum ?? Infinity, Math.max(schema?.minimum ?? -Infinity, number));
+            return String(schema?.type).toUpperCase() === Type.INTEGER ? Math.round(bounded) : bounded;
+        }
+        case Type.BOOLEAN:
+            if (typeof value !== 'boolean') issues.push(`${at} : booléen attendu`);
+            return value;
+        case Type.STRING:
+            if (typeof value === 'object') {
+                issues.push(`${at} : texte attendu`);
+                return value;
+            }
+            if (schema?.enum && !schema.enum.includes(String(value))) {
+                issues.push(`${at} : valeur « ${String(value)} » hors de ${schema.enum.join(', ')}`);
+            }
+            return String(value);
+        default:
+            return value;
+    }
+};
+
+export const schemaIssues = (schema: Schema | undefined, value: unknown): string[] => {
+    const issues: string[] = [];
+    conformToSchema(schema, value, '', issues);
+    return issues.slice(0, MAX_REPORTED_ISSUES);
+};
+
+// Returns the problems of a reply, an empty list when it can be used as is.
+export const structuredOutputIssues = (schema: Schema, text: string): string[] => {
+    try {
+        return schemaIssues(schema, parseStructuredText(text));
+    } catch (error) {
+        return [`JSON invalide : ${(error as Error).message}`];
+    }
+};
+
+export const repairInstruction = (issues: string[]): string =>
+    `\n\nTa réponse précédente a été rejetée : ${issues.join(' ; ')}. Réponds de nouveau avec uniquement un objet JSON valide qui respecte exactement le schéma demandé, sans texte autour.`;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { catalogueFromCsv, guessCatalogueMapping } from '../lib/catalogue';
+import { buildCmsExport, type ExportableDescription } from '../lib/cmsExports';
+import { parseCsvTable } from '../lib/csv';
+import { validateJsonLd } from '../lib/jsonLd';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const validJsonLd = JSON.stringify({
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: 'Robe',
+    offers: { '@type': 'Offer', price: '79.90', priceCurrency: 'EUR' },
+});
+
+const generated = (overrides: Partial<ExportableDescription>): ExportableDescription => ({
+    productUrl: 'https://shop.fr/products/robe',
+    description: '<p>Robe "lin"</p>',
+    jsonLd: validJsonLd,
+    failed: false,
+    jsonLdValidation: validateJsonLd(validJsonLd, 'Product'),
+    ...overrides,
+});
+
+const lines = (content: string) => content.trimEnd().split('\r\n');
+
+describe('catalogueFromCsv', () => {
+    it('rebuilds Shopify URLs from the handle and merges variant rows', () => {
+        const table = parseCsvTable(encode('Handle,Title,Variant SKU,Variant Price\nrobe,Robe en lin,ROBE-S,79.90\nrobe,,ROBE-M,79.90\n'));
+        const mapping = guessCatalogueMapping(table.headers);
+        expect(catalogueFromCsv(table, mapping, 'https://shop.fr/collections/all')).toEqual([
+            { url: 'https://shop.fr/products/robe', name: 'Robe en lin', handle: 'robe', productId: undefined, sku: 'ROBE-S', price: '79.90', category: undefined },
+        ]);
+    });
+
+    it('reads the Merchant Center id column as the SKU', () => {
+        const table = parseCsvTable(encode('id,title,link\nROBE-S,Robe,https://shop.fr/robe\n'));
+        const [product] = catalogueFromCsv(table, guessCatalogueMapping(table.headers));
+        expect(product).toMatchObject({ url: 'https://shop.fr/robe', sku: 'ROBE-S' });
+        expect(product.productId).toBeUndefined();
+    });
+});
+
+describe('buildCmsExport', () => {
+    it('exports Shopify rows by handle and skips products without one', () => {
+        const items = [generated({}), generated({ productUrl: 'https://shop.fr/robe' })];
+        const result = buildCmsExport('shopify', items);
+        expect(lines(result.content)).toEqual([
+            '"Handle","Body (HTML)","Metafield: custom.json_ld [multi_line_text_field]"',
+            `"robe","<p>Robe ""lin""</p>","${validJsonLd.replace(/"/g, '""')}"`,
+        ]);
+        expect(result).toMatchObject({ exported: 1, skipped: 1, invalid: 0 });
+    });
+
+    it('leaves out failed generations and invalid markup', () => {
+        const invalid = generated({ jsonLd: '{}', jsonLdValidation: validateJsonLd('{}') });
+        const failed = generated({ failed: true, jsonLdValidation: null });
+        expect(buildCmsExport('shopify', [invalid, failed, generated({})])).toMatchObject({ exported: 1, skipped: 1, invalid: 1 });
+        // PrestaShop has no JSON-LD field, so invalid markup does not block its rows.
+        expect(buildCmsExport('prestashop', [{ ...invalid, product: { url: invalid.productUrl, productId: '12' } }])).toMatchObject({ exported: 1, invalid: 0 });
+    });
+
+    it('writes WooCommerce rows with the ID and SKU', () => {
+        const result = buildCmsExport('woocommerce', [generated({ product: { url: 'https://shop.fr/robe', sku: 'ROBE' } })]);
+        expect(lines(result.content)[1]).toMatch(/^"","ROBE","<p>Robe ""lin""<\/p>",/);
+    });
+
+    it('asks to import PrestaShop rows without an ID with the reference as key', () => {
+        const withId = generated({ product: { url: 'https://shop.fr/robe', productId: '12', sku: 'ROBE' } });
+        const referenceOnly = generated({ product: { url: 'https://shop.fr/jupe', sku: 'JUPE' } });
+
+        const byId = buildCmsExport('prestashop', [withId]);
+        expect(lines(byId.content)).toEqual(['"ID";"Reference #";"Description"', '"12";"ROBE";"<p>Robe ""lin""</p>"']);
+        expect(byId.importNote).toBeNull();
+
+        const mixed = buildCmsExport('prestashop', [withId, referenceOnly]);
+        expect(lines(mixed.content)[2]).toBe('"";"JUPE";"<p>Robe ""lin""</p>"');
+        expect(mixed.importNote).toMatch(/Utiliser la référence produit comme clé/);
+    });
+});
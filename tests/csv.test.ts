@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, findCsvColumn, parseCsv, parseCsvTable } from '../lib/csv';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('parseCsv', () => {
+    it('handles quoted delimiters, line breaks and escaped quotes', () => {
+        const text = 'name,description\r\n"Robe, rouge","Ligne 1\nLigne 2"\n"Taille ""M""",x\n';
+        expect(parseCsv(text, ',')).toEqual([
+            ['name', 'description'],
+            ['Robe, rouge', 'Ligne 1\nLigne 2'],
+            ['Taille "M"', 'x'],
+        ]);
+    });
+
+    it('keeps quotes that do not open a field and drops blank rows', () => {
+        expect(parseCsv('a;5" screen\n;\n\nb;c', ';')).toEqual([['a', '5" screen'], ['b', 'c']]);
+    });
+
+    it('strips the byte order mark', () => {
+        expect(parseCsv('\uFEFFquery,clicks\nrobe,3', ',')[0][0]).toBe('query');
+    });
+});
+
+describe('detectCsvDelimiter', () => {
+    it('picks the delimiter that gives consistent columns', () => {
+        expect(detectCsvDelimiter('query;clicks;impressions\nrobe, rouge;3;40\njupe;1;12')).toBe(';');
+        expect(detectCsvDelimiter('query\tclicks\nrobe\t3')).toBe('\t');
+        expect(detectCsvDelimiter('query,clicks\nrobe,3')).toBe(',');
+    });
+});
+
+describe('parseCsvTable', () => {
+    it('pads short rows to the header width', () => {
+        const table = parseCsvTable(encode('query,clicks,impressions\nrobe,3\n'));
+        expect(table.headers).toEqual(['query', 'clicks', 'impressions']);
+        expect(table.rows).toEqual([['robe', '3', '']]);
+        expect(table).toMatchObject({ delimiter: ',', encoding: 'utf-8', hasHeader: true });
+    });
+
+    it('reads a plain list of URLs as headerless data', () => {
+        const table = parseCsvTable(encode('https://shop.fr/p/1\nhttps://shop.fr/p/2'));
+        expect(table.hasHeader).toBe(false);
+        expect(table.headers).toEqual(['Colonne 1']);
+        expect(table.rows).toHaveLength(2);
+    });
+
+    it('falls back to Windows-1252 when the bytes are not UTF-8', () => {
+        const bytes = new Uint8Array([0x6e, 0x6f, 0x6d, 0x3b, 0x70, 0x72, 0x69, 0x78, 0x0a, 0x72, 0xe9, 0x66, 0x3b, 0x31, 0x30]); // "nom;prix\nréf;10"
+        const table = parseCsvTable(bytes.buffer);
+        expect(table.encoding).toBe('windows-1252');
+        expect(table.rows).toEqual([['réf', '10']]);
+    });
+});
+
+describe('findCsvColumn', () => {
+    it('prefers exact matches and only matches short aliases exactly', () => {
+        const headers = ['Product ID', 'Id', 'Page URL'];
+        expect(findCsvColumn(headers, ['id', 'product id'])).toBe(1);
+        expect(findCsvColumn(headers, ['url'])).toBe(-1);
+        expect(findCsvColumn(headers, ['page url'])).toBe(2);
+    });
+
+    it('skips columns that are already used', () => {
+        expect(findCsvColumn(['Top queries', 'Query'], ['query'], new Set([1]))).toBe(-1);
+        expect(findCsvColumn(['Top queries', 'Queries'], ['queries'], new Set([1]))).toBe(0);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonLd } from '../lib/jsonLd';
+
+const product = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: 'Robe en lin',
+    image: 'https://shop.fr/robe.jpg',
+    description: 'Robe légère en lin.',
+    sku: 'ROBE-LIN',
+    gtin13: '3700000000001',
+    brand: { '@type': 'Brand', name: 'Maison' },
+    offers: { '@type': 'Offer', price: '79.90', priceCurrency: 'EUR', availability: 'https://schema.org/InStock', url: 'https://shop.fr/robe' },
+};
+
+const errorPaths = (markup: unknown, expectedType?: Parameters<typeof validateJsonLd>[1]) =>
+    validateJsonLd(markup, expectedType).issues.filter(issue => issue.severity === 'error').map(issue => issue.path);
+
+describe('validateJsonLd', () => {
+    it('accepts a complete product', () => {
+        const validation = validateJsonLd(JSON.stringify(product), 'Product');
+        expect(validation.valid).toBe(true);
+        expect(validation.types).toEqual(['Product']);
+        expect(validation.issues).toEqual([]);
+    });
+
+    it('reads markup wrapped in a script tag or a code fence', () => {
+        expect(validateJsonLd(`<script type="application/ld+json">${JSON.stringify(product)}</script>`).valid).toBe(true);
+        expect(validateJsonLd('```json\n' + JSON.stringify(product) + '\n```').valid).toBe(true);
+    });
+
+    it('reports invalid JSON instead of throwing', () => {
+        const validation = validateJsonLd('{ "name": ');
+        expect(validation.valid).toBe(false);
+        expect(validation.data).toBeNull();
+        expect(validation.issues[0].message).toMatch(/^JSON invalide/);
+    });
+
+    it('rejects prices with a currency symbol or a decimal comma', () => {
+        expect(errorPaths({ ...product, offers: { ...product.offers, price: '79,90 €' } })).toEqual(['Product.offers.price']);
+        expect(errorPaths({ ...product, offers: { ...product.offers, priceCurrency: 'eur' } })).toEqual(['Product.offers.priceCurrency']);
+    });
+
+    it('requires an offer, a review or a rating on products', () => {
+        const { offers, ...withoutOffers } = product;
+        expect(errorPaths(withoutOffers)).toEqual(['Product']);
+    });
+
+    it('reports the expected type when it is missing', () => {
+        expect(validateJsonLd(product, 'FAQPage').valid).toBe(false);
+    });
+
+    it('reports product group variants that are not objects', () => {
+        const group = {
+            '@context': 'https://schema.org',
+            '@type': 'ProductGroup',
+            name: 'Robe en lin',
+            productGroupID: 'ROBE',
+            variesBy: 'https://schema.org/size',
+            hasVariant: [null, 'robe-s', { ...product, '@context': undefined }],
+        };
+        expect(errorPaths(group)).toEqual(['ProductGroup.hasVariant[0]', 'ProductGroup.hasVariant[1]']);
+    });
+
+    it('requires at least one variant in a product group', () => {
+        expect(errorPaths({ '@context': 'https://schema.org', '@type': 'ProductGroup', name: 'Robe', hasVariant: [] })).toEqual(['ProductGroup.hasVariant']);
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { carryOverClusterMappings, clusterIntentions, detectSearchIntent, intentionsForPrompt, type KeywordCluster } from '../lib/keywordClustering';
+import type { SearchIntention } from '../lib/searchIntentions';
+
+const intentions: SearchIntention[] = [
+    { query: 'robe rouge', impressions: 1000 },
+    { query: 'robes rouges', impressions: 400 },
+    { query: 'robe rouge pas cher', impressions: 50 },
+    { query: 'comment laver un pull en laine', impressions: 300 },
+    { query: 'laver pull laine', impressions: 80 },
+];
+
+describe('detectSearchIntent', () => {
+    it('matches intent modifiers regardless of case and accents', () => {
+        expect(detectSearchIntent('Acheter robe rouge')).toBe('transactional');
+        expect(detectSearchIntent('meilleure robe été')).toBe('commercial');
+        expect(detectSearchIntent('Comment choisir sa robe')).toBe('informational');
+        expect(detectSearchIntent('robe rouge')).toBe('commercial');
+    });
+
+    it('treats brand queries as navigational', () => {
+        expect(detectSearchIntent('maison lin robe prix', ['maison lin'])).toBe('navigational');
+    });
+});
+
+describe('clusterIntentions', () => {
+    it('groups queries that share their words, heaviest query first', () => {
+        const clusters = clusterIntentions(intentions, { method: 'lexical', threshold: 0.5 });
+        expect(clusters.map(cluster => cluster.queries)).toEqual([
+            ['robe rouge', 'robes rouges', 'robe rouge pas cher'],
+            ['comment laver un pull en laine', 'laver pull laine'],
+        ]);
+        expect(clusters[0]).toMatchObject({ label: 'robe rouge', intent: 'commercial' });
+        expect(clusters[1]).toMatchObject({ label: 'comment laver pull laine', intent: 'informational' });
+    });
+
+    it('uses the embeddings with the embeddings method', () => {
+        const embeddings = [[1, 0], [0, 1], [1, 0.1], [0, 1], [0.1, 1]];
+        const clusters = clusterIntentions(intentions, { method: 'embeddings', threshold: 0.9, embeddings });
+        expect(clusters.map(cluster => cluster.queries)).toEqual([
+            ['robe rouge', 'robe rouge pas cher'],
+            ['robes rouges', 'comment laver un pull en laine', 'laver pull laine'],
+        ]);
+    });
+});
+
+describe('carryOverClusterMappings', () => {
+    it('keeps the label, intent and URL of the previous cluster of the head query', () => {
+        const previous: KeywordCluster[] = [{ id: 'old', label: 'Robes rouges', intent: 'transactional', queries: ['robes rouges', 'robe rouge'], url: 'https://shop.fr/robes' }];
+        const [cluster, other] = carryOverClusterMappings(previous, clusterIntentions(intentions, { method: 'lexical', threshold: 0.5 }));
+        expect(cluster).toMatchObject({ label: 'Robes rouges', intent: 'transactional', url: 'https://shop.fr/robes' });
+        expect(other.url).toBeUndefined();
+    });
+});
+
+describe('intentionsForPrompt', () => {
+    it('takes the head query of every cluster before their variants', () => {
+        const clusters = clusterIntentions(intentions, { method: 'lexical', threshold: 0.5 });
+        expect(intentionsForPrompt(intentions, clusters).slice(0, 3)).toEqual(['robe rouge', 'comment laver un pull en laine', 'robes rouges']);
+    });
+
+    it('orders the queries by weight without clusters', () => {
+        expect(intentionsForPrompt(intentions, [])[1]).toBe('robes rouges');
+    });
+});
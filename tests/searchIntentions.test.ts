@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseCtrMetric, parseIntentionMetric } from '../lib/searchIntentions';
+
+describe('parseIntentionMetric', () => {
+    it('reads thousands separators and decimal commas', () => {
+        expect(parseIntentionMetric('1,234')).toBe(1234);
+        expect(parseIntentionMetric('1,234,567')).toBe(1234567);
+        expect(parseIntentionMetric('12,345.6')).toBe(12345.6);
+        expect(parseIntentionMetric('1 234')).toBe(1234);
+        expect(parseIntentionMetric('4,5')).toBe(4.5);
+        expect(parseIntentionMetric('0,125')).toBe(0.125);
+        expect(parseIntentionMetric('')).toBeUndefined();
+        expect(parseIntentionMetric('n/a')).toBeUndefined();
+    });
+
+    it('reads CTR percentages as ratios', () => {
+        expect(parseCtrMetric('4,5 %')).toBeCloseTo(0.045);
+        expect(parseCtrMetric('12')).toBeCloseTo(0.12);
+        expect(parseCtrMetric('0.3')).toBeCloseTo(0.3);
+    });
+});
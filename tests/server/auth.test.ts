@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type TestServer, startTestServer } from './testServer';
+
+describe('auth routes', () => {
+    let server: TestServer;
+
+    beforeEach(async () => {
+        server = await startTestServer();
+    });
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await server.close();
+    });
+
+    it('registers a main account and signs in with it', async () => {
+        const registered = await server.request('POST', '/api/auth/register', { body: { email: ' Alice@Example.com ', password: 'motdepasse123' } });
+        expect(registered.status).toBe(201);
+        expect(registered.body.user).toMatchObject({ email: 'alice@example.com', role: 'main', plan: 'starter' });
+        expect(registered.body.user.accountId).toBe(registered.body.user.id);
+
+        const login = await server.request('POST', '/api/auth/login', { body: { email: 'alice@example.com', password: 'motdepasse123' } });
+        expect(login.status).toBe(200);
+        const me = await server.request('GET', '/api/auth/me', { token: login.body.token });
+        expect(me.body.user).toMatchObject({ email: 'alice@example.com', role: 'main' });
+    });
+
+    it('rejects duplicate emails, short passwords and wrong credentials', async () => {
+        await server.register('alice@example.com');
+        expect((await server.request('POST', '/api/auth/register', { body: { email: 'alice@example.com', password: 'motdepasse123' } })).status).toBe(409);
+        expect((await server.request('POST', '/api/auth/register', { body: { email: 'bob@example.com', password: 'court' } })).status).toBe(400);
+        expect((await server.request('POST', '/api/auth/login', { body: { email: 'alice@example.com', password: 'mauvais-mot' } })).status).toBe(401);
+        expect((await server.request('POST', '/api/auth/login', { body: { email: 'nobody@example.com', password: 'motdepasse123' } })).status).toBe(401);
+    });
+
+    it('requires a valid token', async () => {
+        expect((await server.request('GET', '/api/auth/me')).status).toBe(401);
+        expect((await server.request('GET', '/api/auth/me', { token: 'not-a-token' })).status).toBe(401);
+        expect((await server.request('GET', '/api/projects')).status).toBe(401);
+    });
+
+    it('ignores role fields sent at registration', async () => {
+        const owner = await server.register('owner@example.com');
+        const { body } = await server.request('POST', '/api/auth/register', {
+            body: { email: 'intruder@example.com', password: 'motdepasse123', role: 'collaborator', ownerId: owner.user.id },
+        });
+        expect(body.user).toMatchObject({ role: 'main', accountId: body.user.id });
+    });
+
+    describe('password reset', () => {
+        it('answers 204 without logging the link by default', async () => {
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            await server.register('alice@example.com');
+
+            expect((await server.request('POST', '/api/auth/forgot-password', { body: { email: 'alice@example.com' } })).status).toBe(204);
+            expect((await server.request('POST', '/api/auth/forgot-password', { body: { email: 'nobody@example.com' } })).status).toBe(204);
+            expect(log.mock.calls.flat().join(' ')).not.toContain('resetToken=');
+            expect(warn.mock.calls.flat().join(' ')).not.toContain('resetToken=');
+        });
+
+        it('resets the password once with the logged link', async () => {
+            await server.close();
+            server = await startTestServer({ LOG_RESET_LINKS: 'true' });
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+            await server.register('alice@example.com');
+
+            await server.request('POST', '/api/auth/forgot-password', { body: { email: 'alice@example.com' } });
+            const token = log.mock.calls.flat().join(' ').match(/resetToken=([0-9a-f]+)/)?.[1];
+            expect(token).toBeDefined();
+
+            expect((await server.request('POST', '/api/auth/reset-password', { body: { token, password: 'nouveaumotdepasse' } })).status).toBe(204);
+            expect((await server.request('POST', '/api/auth/reset-password', { body: { token, password: 'encoreunautre' } })).status).toBe(400);
+            expect((await server.request('POST', '/api/auth/login', { body: { email: 'alice@example.com', password: 'nouveaumotdepasse' } })).status).toBe(200);
+        });
+    });
+
+    describe('invitations', () => {
+        const invite = async (email: string) => {
+            const owner = await server.register('owner@example.com', 'entreprise');
+            const { body } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email } });
+            return { owner, invitationToken: new URL(body.invitationUrl).searchParams.get('invitation') };
+        };
+
+        it('creates a collaborator of the inviting account', async () => {
+            const { owner, invitationToken } = await invite('collab@example.com');
+            const { status, body } = await server.request('POST', '/api/auth/register', {
+                body: { email: 'collab@example.com', password: 'motdepasse123', invitationToken },
+            });
+            expect(status).toBe(201);
+            expect(body.user).toMatchObject({ role: 'collaborator', accountId: owner.user.id, plan: 'entreprise' });
+        });
+
+        it('refuses unknown tokens, other emails and reused tokens', async () => {
+            const { invitationToken } = await invite('collab@example.com');
+            const register = (email: string, token: string | null) =>
+                server.request('POST', '/api/auth/register', { body: { email, password: 'motdepasse123', invitationToken: token } });
+
+            expect((await register('collab@example.com', 'inconnu')).body.error).toBe('Invitation invalide ou déjà utilisée.');
+            expect((await register('other@example.com', invitationToken)).status).toBe(400);
+            expect((await register('collab@example.com', invitationToken)).status).toBe(201);
+            expect((await register('late@example.com', invitationToken)).body.error).toBe('Invitation invalide ou déjà utilisée.');
+        });
+    });
+});
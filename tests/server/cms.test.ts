@@ -0,0 +1,159 @@
+import { once } from 'events';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createMockCmsApp } from '../../server/mockCms';
+import { encryptCredentials, publicOnlyLookup } from '../../server/cms';
+import { revisionDocumentKey } from '../../shared/documentKeys';
+import { type TestServer, startTestServer } from './testServer';
+
+let mockCms: Server;
+let mockCmsUrl: string;
+
+beforeAll(async () => {
+    mockCms = createMockCmsApp().listen(0, '127.0.0.1');
+    await once(mockCms, 'listening');
+    mockCmsUrl = `http://127.0.0.1:${(mockCms.address() as AddressInfo).port}`;
+});
+afterAll(async () => {
+    mockCms.closeAllConnections();
+    await new Promise(resolve => mockCms.close(resolve));
+});
+
+const createProject = async (server: TestServer, token: string): Promise<string> => {
+    const { body } = await server.request('POST', '/api/projects', { token, body: { name: 'Boutique', url: 'https://shop.fr', cms: 'shopify' } });
+    return body.id;
+};
+
+// Product 101 of the mock CMS, found through the identifier each adapter looks up.
+const connections = () => [
+    { cms: 'shopify', settings: { storeUrl: `${mockCmsUrl}/shopify` }, secrets: { accessToken: 'token' }, ref: { url: 'https://shop.fr/products/chaussures-trail' } },
+    { cms: 'woocommerce', settings: { storeUrl: `${mockCmsUrl}/woocommerce` }, secrets: { consumerKey: 'ck', consumerSecret: 'cs' }, ref: { url: 'https://shop.fr/product/chaussures-trail/' } },
+    { cms: 'prestashop', settings: { storeUrl: `${mockCmsUrl}/prestashop` }, secrets: { apiKey: 'key' }, ref: { url: 'https://shop.fr/101-chaussures', sku: 'TRAIL-01' } },
+    { cms: 'bigcommerce', settings: { storeHash: 'abc123', apiUrl: `${mockCmsUrl}/bigcommerce` }, secrets: { accessToken: 'token' }, ref: { url: 'https://shop.fr/chaussures', productId: '101' } },
+];
+
+describe('CMS routes with the mock CMS', () => {
+    let server: TestServer;
+    let token: string;
+    let projectId: string;
+
+    beforeEach(async () => {
+        server = await startTestServer({ CMS_ALLOW_PRIVATE_HOSTS: 'true' });
+        ({ token } = await server.register('alice@example.com'));
+        projectId = await createProject(server, token);
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const cms = (method: string, path: string, body?: unknown) => server.request(method, `/api/projects/${projectId}/cms${path}`, { token, body });
+
+    it.each(['shopify', 'woocommerce', 'prestashop', 'bigcommerce'])('connects to %s and looks products up', async name => {
+        const connection = connections().find(candidate => candidate.cms === name)!;
+        const saved = await cms('PUT', '', { cms: connection.cms, settings: connection.settings, secrets: connection.secrets });
+        expect(saved.status).toBe(200);
+        expect(saved.body).not.toHaveProperty('secrets');
+        expect((await cms('POST', '/test')).body).toEqual({ ok: true });
+
+        const { body } = await cms('POST', '/products', { items: [connection.ref, { url: 'https://shop.fr/inconnu', productId: '999' }] });
+        expect(body.results).toEqual([
+            expect.objectContaining({ status: 'found', productId: '101', productName: 'Chaussures de trail' }),
+            { url: 'https://shop.fr/inconnu', status: 'not-found' },
+        ]);
+    });
+
+    describe('publishing', () => {
+        const item = { url: 'https://shop.fr/products/chaussures-trail', descriptionHtml: '<p>Nouvelle description.</p>', jsonLd: '{"@type":"Product"}' };
+        const approve = (html: string) => server.request('PUT', '/api/reviews', {
+            token,
+            body: { status: 'approved', items: [{ documentKey: revisionDocumentKey('product-description', item.url), html }] },
+        });
+        const publish = async (items: unknown[], dryRun = false) => (await cms('POST', '/publish', { items, dryRun })).body.results;
+
+        beforeEach(async () => {
+            const { cms: name, settings, secrets } = connections()[0];
+            await cms('PUT', '', { cms: name, settings, secrets });
+        });
+
+        it('refuses descriptions that were not approved', async () => {
+            expect(await publish([item])).toEqual([expect.objectContaining({ status: 'not-approved', changes: [] })]);
+            await approve('<p>Autre texte.</p>');
+            expect(await publish([item])).toEqual([expect.objectContaining({ status: 'not-approved' })]);
+        });
+
+        it('previews, publishes and then leaves approved descriptions unchanged', async () => {
+            expect((await approve(item.descriptionHtml)).status).toBe(200);
+
+            const [preview] = await publish([item], true);
+            expect(preview).toMatchObject({ status: 'would-update', productId: '101' });
+            expect(preview.changes.map((change: any) => change.field)).toEqual(['description', 'jsonLd']);
+            expect(preview.changes[0].before).toBe('<p>Chaussures de trail légères.</p>');
+
+            expect(await publish([item])).toEqual([expect.objectContaining({ status: 'updated' })]);
+            const { body } = await cms('POST', '/products', { items: [{ url: item.url }] });
+            expect(body.results[0].descriptionHtml).toBe(item.descriptionHtml);
+            expect(await publish([item])).toEqual([expect.objectContaining({ status: 'unchanged', changes: [] })]);
+        });
+
+        it('reports approved products missing from the CMS', async () => {
+            const missing = { ...item, url: 'https://shop.fr/products/inconnu' };
+            await server.request('PUT', '/api/reviews', {
+                token,
+                body: { status: 'approved', items: [{ documentKey: revisionDocumentKey('product-description', missing.url), html: missing.descriptionHtml }] },
+            });
+            expect(await publish([missing])).toEqual([expect.objectContaining({ status: 'not-found' })]);
+        });
+    });
+});
+
+describe('CMS store URL restrictions', () => {
+    let server: TestServer;
+    let token: string;
+    let projectId: string;
+
+    beforeEach(async () => {
+        server = await startTestServer();
+        ({ token } = await server.register('alice@example.com'));
+        projectId = await createProject(server, token);
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it.each([
+        'http://shop.example.com',
+        'https://127.0.0.1/shopify',
+        'https://localhost/shopify',
+        'https://[::1]/shopify',
+        'https://[::ffff:10.0.0.1]/shopify',
+        'https://169.254.169.254/latest',
+        'https://192.168.1.10/shopify',
+    ])('refuses %s', async storeUrl => {
+        const { status } = await server.request('PUT', `/api/projects/${projectId}/cms`, {
+            token,
+            body: { cms: 'shopify', settings: { storeUrl }, secrets: { accessToken: 'token' } },
+        });
+        expect(status).toBe(400);
+    });
+
+    it('checks stored URLs again before each request', async () => {
+        await server.db.query(
+            'INSERT INTO cms_connections (project_id, cms, settings, credentials, updated_at) VALUES ($1, $2, $3, $4, $5)',
+            [Number(projectId), 'shopify', JSON.stringify({ storeUrl: `${mockCmsUrl}/shopify` }), encryptCredentials('test-secret', { accessToken: 'token' }), new Date().toISOString()]
+        );
+        const { status, body } = await server.request('POST', `/api/projects/${projectId}/cms/test`, { token });
+        expect(status).toBe(502);
+        expect(body.error).toBe(`Erreur du CMS : L'URL ${mockCmsUrl} doit utiliser https.`);
+    });
+
+    // Requests connect through this lookup, so a host that resolved to a public address when checked cannot be
+    // pointed at a private one for the connection itself.
+    it('refuses to connect to hosts resolving to private addresses', async () => {
+        const lookup = (all: boolean) => new Promise((resolve, reject) =>
+            publicOnlyLookup('localhost', { all }, (error, address) => (error ? reject(error) : resolve(address))));
+
+        await expect(lookup(true)).rejects.toThrow("L'hôte localhost désigne une adresse privée ou locale.");
+        await expect(lookup(false)).rejects.toThrow("L'hôte localhost désigne une adresse privée ou locale.");
+    });
+});
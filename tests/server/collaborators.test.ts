@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type TestServer, startTestServer } from './testServer';
+
+describe('collaborator routes', () => {
+    let server: TestServer;
+
+    beforeEach(async () => {
+        server = await startTestServer();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const acceptInvitation = async (invitationUrl: string, email: string) => {
+        const invitationToken = new URL(invitationUrl).searchParams.get('invitation');
+        const { body } = await server.request('POST', '/api/auth/register', { body: { email, password: 'motdepasse123', invitationToken } });
+        return body as { token: string; user: any };
+    };
+
+    it('invites, lists and removes collaborators', async () => {
+        const owner = await server.register('owner@example.com', 'entreprise');
+        const created = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'Collab@Example.com' } });
+        expect(created.status).toBe(201);
+        expect(created.body).toMatchObject({ email: 'collab@example.com' });
+        expect(created.body.invitationUrl).toMatch(/^http:\/\/localhost:3000\/\?invitation=[0-9a-f]{64}$/);
+
+        expect((await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } })).status).toBe(409);
+
+        const list = await server.request('GET', '/api/collaborators', { token: owner.token });
+        expect(list.body).toEqual([{ id: created.body.id, email: 'collab@example.com', invitationDate: expect.any(String) }]);
+
+        expect((await server.request('DELETE', `/api/collaborators/${created.body.id}`, { token: owner.token })).status).toBe(204);
+        expect((await server.request('DELETE', `/api/collaborators/${created.body.id}`, { token: owner.token })).status).toBe(404);
+        expect((await server.request('GET', '/api/collaborators', { token: owner.token })).body).toEqual([]);
+    });
+
+    it('enforces the collaborator limit of the plan', async () => {
+        const pro = await server.register('pro@example.com', 'pro');
+        expect((await server.request('POST', '/api/collaborators', { token: pro.token, body: { email: 'collab@example.com' } })).status).toBe(403);
+
+        const owner = await server.register('owner@example.com', 'entreprise');
+        for (let i = 0; i < 5; i++) {
+            expect((await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: `collab${i}@example.com` } })).status).toBe(201);
+        }
+        expect((await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab5@example.com' } })).status).toBe(403);
+    });
+
+    it("gives collaborators the account's data but not its collaborator management", async () => {
+        const owner = await server.register('owner@example.com', 'entreprise');
+        await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique', url: 'https://shop.fr', cms: 'shopify' } });
+        const { body: invitation } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const collaborator = await acceptInvitation(invitation.invitationUrl, 'collab@example.com');
+
+        const projects = await server.request('GET', '/api/projects', { token: collaborator.token });
+        expect(projects.body.map((project: any) => project.name)).toEqual(['Boutique']);
+        expect((await server.request('GET', '/api/collaborators', { token: collaborator.token })).status).toBe(403);
+    });
+
+    it('turns a removed collaborator into a main account without access to the data', async () => {
+        const owner = await server.register('owner@example.com', 'entreprise');
+        await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique', url: 'https://shop.fr', cms: 'shopify' } });
+        const { body: invitation } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const collaborator = await acceptInvitation(invitation.invitationUrl, 'collab@example.com');
+
+        await server.request('DELETE', `/api/collaborators/${invitation.id}`, { token: owner.token });
+        const me = await server.request('GET', '/api/auth/me', { token: collaborator.token });
+        expect(me.body.user).toMatchObject({ role: 'main', accountId: collaborator.user.id });
+        expect((await server.request('GET', '/api/projects', { token: collaborator.token })).body).toEqual([]);
+    });
+
+    it('lets a removed collaborator join again through a new invitation', async () => {
+        const owner = await server.register('owner@example.com', 'entreprise');
+        await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique' } });
+        const { body: first } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const collaborator = await acceptInvitation(first.invitationUrl, 'collab@example.com');
+        await server.request('DELETE', `/api/collaborators/${first.id}`, { token: owner.token });
+        expect((await server.request('GET', '/api/auth/me', { token: collaborator.token })).body.user).toMatchObject({ role: 'main', plan: 'starter' });
+
+        const { body: second } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const invitationToken = new URL(second.invitationUrl).searchParams.get('invitation');
+        expect((await server.request('POST', '/api/auth/register', { body: { email: 'collab@example.com', password: 'motdepasse123', invitationToken } })).status).toBe(409);
+
+        const accepted = await server.request('POST', '/api/auth/accept-invitation', { token: collaborator.token, body: { invitationToken } });
+        expect(accepted.status).toBe(200);
+        expect(accepted.body.user).toMatchObject({ role: 'collaborator', accountId: owner.user.id, plan: 'entreprise' });
+        expect((await server.request('GET', '/api/projects', { token: accepted.body.token })).body.map((project: any) => project.name)).toEqual(['Boutique']);
+        expect((await server.request('POST', '/api/auth/accept-invitation', { token: collaborator.token, body: { invitationToken } })).status).toBe(400);
+    });
+
+    it('only lets the invited main account accept an invitation', async () => {
+        const owner = await server.register('owner@example.com', 'entreprise');
+        const other = await server.register('other@example.com', 'entreprise');
+        const invite = async (email: string) => {
+            const { body } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email } });
+            return new URL(body.invitationUrl).searchParams.get('invitation');
+        };
+
+        const accept = (token: string, invitationToken: string | null) => server.request('POST', '/api/auth/accept-invitation', { token, body: { invitationToken } });
+        expect((await accept(other.token, await invite('someone@example.com'))).status).toBe(400);
+
+        await server.request('POST', '/api/collaborators', { token: other.token, body: { email: 'helper@example.com' } });
+        expect((await accept(other.token, await invite('other@example.com'))).status).toBe(409);
+        expect((await server.request('POST', '/api/auth/accept-invitation', { body: { invitationToken: 'token' } })).status).toBe(401);
+    });
+});
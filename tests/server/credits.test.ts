@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CREDIT_COSTS, CHAT_MESSAGE_COST, EMBEDDING_TEXTS_PER_UNIT } from '../../shared/aiCredits';
+import { type UserPlan, planCreditAllowance } from '../../shared/plans';
+import { type TestServer, startTestServer } from './testServer';
+
+describe('AI credits', () => {
+    let server: TestServer;
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const generate = (token: string | undefined, template: string, variables: Record<string, string> = {}) =>
+        server.request('POST', '/api/ai/generate', { token, body: { template, variables } });
+
+    // Records credits already spent this month by the account of `userId`.
+    const seedUsage = (userId: string, used: number) =>
+        server.db.query('INSERT INTO ai_credit_usage (account_id, period, used) VALUES ($1, $2, $3)', [Number(userId), new Date().toISOString().slice(0, 7), used]);
+
+    it.each<[UserPlan, number]>([['starter', 250], ['pro', 2000], ['entreprise', 5000]])('grants the %s plan %i credits a month', async (plan, allowance) => {
+        server = await startTestServer();
+        const { token } = await server.register('alice@example.com', plan);
+        expect(planCreditAllowance(plan)).toBe(allowance);
+        expect((await server.request('GET', '/api/ai/credits', { token })).body).toEqual({ total: allowance, remaining: allowance, transactions: [] });
+    });
+
+    it('charges each action its cost from the monthly allowance', async () => {
+        server = await startTestServer();
+        const { token } = await server.register('alice@example.com', 'pro');
+
+        expect((await generate(token, 'productDescription')).status).toBe(200);
+        expect((await generate(token, 'competitorAnalysis', { urls: 'https://a.fr, https://b.fr' })).status).toBe(200);
+        expect((await server.request('POST', '/api/ai/chat', { token, body: { message: 'Bonjour' } })).status).toBe(200);
+        expect((await server.request('POST', '/api/ai/embed', { token, body: { texts: Array(EMBEDDING_TEXTS_PER_UNIT + 1).fill('robe rouge') } })).status).toBe(200);
+
+        const spent = CREDIT_COSTS.productDescription + 2 * CREDIT_COSTS.competitorAnalysis + CHAT_MESSAGE_COST + 2 * CREDIT_COSTS.keywordClustering;
+        expect((await server.request('GET', '/api/ai/credits', { token })).body).toMatchObject({ total: 2000, remaining: 2000 - spent });
+    });
+
+    it('refuses actions that exceed the remaining credits without charging them', async () => {
+        server = await startTestServer();
+        const { token, user } = await server.register('alice@example.com', 'starter');
+        await seedUsage(user.id, 250 - CREDIT_COSTS.productDescription - 5);
+
+        expect((await generate(token, 'productDescription')).status).toBe(200);
+        const refused = await generate(token, 'productDescription');
+        expect(refused.status).toBe(402);
+        expect(refused.body.error).toBe(`Crédits insuffisants : cette action nécessite ${CREDIT_COSTS.productDescription} crédits.`);
+        expect((await server.request('GET', '/api/ai/credits', { token })).body.remaining).toBe(5);
+    });
+
+    it('gives the credits back when the model output is rejected', async () => {
+        // The mock provider replays this fixture, which never matches the product description schema.
+        const fixturesDir = mkdtempSync(join(tmpdir(), 'ottercluster-fixtures-'));
+        writeFileSync(join(fixturesDir, 'productDescription.json'), '[]');
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+            server = await startTestServer({ AI_FIXTURES_DIR: fixturesDir });
+            const { token } = await server.register('alice@example.com', 'pro');
+
+            expect((await generate(token, 'productDescription')).status).toBe(502);
+            const { body } = await server.request('GET', '/api/ai/credits', { token });
+            expect(body.remaining).toBe(2000);
+            expect(body.transactions).toMatchObject([{ action: 'productDescription', amount: CREDIT_COSTS.productDescription, status: 'refunded' }]);
+        } finally {
+            vi.restoreAllMocks();
+            rmSync(fixturesDir, { recursive: true, force: true });
+        }
+    });
+
+    it('refuses the actions of features missing from the plan without charging them', async () => {
+        server = await startTestServer();
+        const { token } = await server.register('alice@example.com', 'starter');
+
+        const refused = await generate(token, 'competitorAnalysis', { urls: 'https://a.fr' });
+        expect(refused.status).toBe(403);
+        expect(refused.body.error).toBe("Votre plan n'inclut pas cette fonctionnalité.");
+        expect((await generate(token, 'productPageAnalysis', { url: 'https://a.fr/robe' })).status).toBe(403);
+        expect((await generate(token, 'productDescription')).status).toBe(200);
+        expect((await server.request('GET', '/api/ai/credits', { token })).body.remaining).toBe(250 - CREDIT_COSTS.productDescription);
+    });
+
+    it('applies a plan change to the current month', async () => {
+        server = await startTestServer();
+        const { token, user } = await server.register('alice@example.com', 'starter');
+        await seedUsage(user.id, 250);
+        expect((await generate(token, 'productDescription')).status).toBe(402);
+
+        await server.db.query('UPDATE users SET plan = $1 WHERE id = $2', ['pro', Number(user.id)]);
+        expect((await generate(token, 'productDescription')).status).toBe(200);
+        expect((await server.request('GET', '/api/ai/credits', { token })).body).toMatchObject({ total: 2000, remaining: 1750 - CREDIT_COSTS.productDescription });
+    });
+
+    it('shares the allowance of the main account with its collaborators', async () => {
+        server = await startTestServer();
+        const owner = await server.register('owner@example.com', 'entreprise');
+        const { body: invitation } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const { body: collaborator } = await server.request('POST', '/api/auth/register', {
+            body: { email: 'collab@example.com', password: 'motdepasse123', invitationToken: new URL(invitation.invitationUrl).searchParams.get('invitation') },
+        });
+
+        expect((await generate(collaborator.token, 'productDescription')).status).toBe(200);
+        expect((await server.request('GET', '/api/ai/credits', { token: owner.token })).body).toMatchObject({ total: 5000, remaining: 5000 - CREDIT_COSTS.productDescription });
+    });
+
+    it("records each charge of the account with its action and project, collaborators' included", async () => {
+        server = await startTestServer();
+        const owner = await server.register('owner@example.com', 'entreprise');
+        const { body: project } = await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique' } });
+        const { body: invitation } = await server.request('POST', '/api/collaborators', { token: owner.token, body: { email: 'collab@example.com' } });
+        const { body: collaborator } = await server.request('POST', '/api/auth/register', {
+            body: { email: 'collab@example.com', password: 'motdepasse123', invitationToken: new URL(invitation.invitationUrl).searchParams.get('invitation') },
+        });
+
+        await server.request('POST', '/api/ai/generate', { token: collaborator.token, body: { template: 'productDescription', variables: {}, projectId: project.id } });
+        await server.request('POST', '/api/ai/embed', { token: owner.token, body: { texts: ['robe rouge'], projectId: project.id } });
+        await server.request('POST', '/api/ai/chat', { token: owner.token, body: { message: 'Bonjour' } });
+
+        const { body } = await server.request('GET', '/api/ai/credits', { token: owner.token });
+        expect(body.transactions).toEqual([
+            { id: expect.any(String), action: 'chat', amount: CHAT_MESSAGE_COST, status: 'committed', createdAt: expect.any(String) },
+            { id: expect.any(String), action: 'keywordClustering', projectId: project.id, amount: CREDIT_COSTS.keywordClustering, status: 'committed', createdAt: expect.any(String) },
+            { id: expect.any(String), action: 'productDescription', projectId: project.id, amount: CREDIT_COSTS.productDescription, status: 'committed', createdAt: expect.any(String) },
+        ]);
+    });
+
+    it("refuses to charge another account's project", async () => {
+        server = await startTestServer();
+        const owner = await server.register('owner@example.com');
+        const other = await server.register('other@example.com');
+        const { body: project } = await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique' } });
+
+        expect((await server.request('POST', '/api/ai/embed', { token: other.token, body: { texts: ['robe rouge'], projectId: project.id } })).status).toBe(404);
+        expect((await server.request('GET', '/api/ai/credits', { token: other.token })).body.transactions).toEqual([]);
+    });
+
+    it('requires an account unless anonymous access is enabled', async () => {
+        server = await startTestServer();
+        expect((await server.request('GET', '/api/ai/credits')).status).toBe(401);
+        expect((await generate(undefined, 'productDescription')).status).toBe(401);
+    });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type TestServer, startTestServer } from './testServer';
+
+describe('project routes', () => {
+    let server: TestServer;
+
+    beforeEach(async () => {
+        server = await startTestServer();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('creates, lists, updates and deletes projects', async () => {
+        const { token } = await server.register('owner@example.com');
+        const created = await server.request('POST', '/api/projects', { token, body: { name: 'Boutique', url: 'https://shop.fr', cms: 'shopify' } });
+        expect(created.status).toBe(201);
+        expect(created.body).toMatchObject({ id: expect.any(String), name: 'Boutique', url: 'https://shop.fr', cms: 'shopify', gscConnected: false });
+
+        const updated = await server.request('PUT', `/api/projects/${created.body.id}`, { token, body: { name: 'Boutique FR', url: 'https://shop.fr', gscConnected: true } });
+        expect(updated.body).toMatchObject({ name: 'Boutique FR', gscConnected: true });
+        expect((await server.request('GET', '/api/projects', { token })).body).toEqual([updated.body]);
+
+        expect((await server.request('DELETE', `/api/projects/${created.body.id}`, { token })).status).toBe(204);
+        expect((await server.request('GET', '/api/projects', { token })).body).toEqual([]);
+    });
+
+    it('validates the project fields', async () => {
+        const { token } = await server.register('owner@example.com');
+        expect((await server.request('POST', '/api/projects', { token, body: { url: 'https://shop.fr' } })).status).toBe(400);
+        expect((await server.request('POST', '/api/projects', { token, body: { name: 'Boutique', cms: 'magento' } })).body.error).toBe('CMS non supporté.');
+    });
+
+    it("hides other accounts' projects and their data", async () => {
+        const owner = await server.register('owner@example.com');
+        const other = await server.register('other@example.com');
+        const { body: project } = await server.request('POST', '/api/projects', { token: owner.token, body: { name: 'Boutique' } });
+
+        expect((await server.request('GET', '/api/projects', { token: other.token })).body).toEqual([]);
+        expect((await server.request('PUT', `/api/projects/${project.id}`, { token: other.token, body: { name: 'Volée' } })).status).toBe(404);
+        expect((await server.request('GET', `/api/projects/${project.id}/intentions`, { token: other.token })).status).toBe(404);
+        expect((await server.request('DELETE', `/api/projects/${project.id}`, { token: other.token })).status).toBe(404);
+    });
+
+    it('replaces the search intentions of a project', async () => {
+        const { token } = await server.register('owner@example.com');
+        const { body: project } = await server.request('POST', '/api/projects', { token, body: { name: 'Boutique' } });
+        const path = `/api/projects/${project.id}/intentions`;
+
+        expect((await server.request('GET', path, { token })).body).toEqual([]);
+        expect((await server.request('PUT', path, { token, body: [{ query: 'robe rouge', clicks: 3 }] })).status).toBe(204);
+        expect((await server.request('PUT', path, { token, body: [{ clicks: 3 }] })).status).toBe(400);
+        expect((await server.request('GET', path, { token })).body).toEqual([{ query: 'robe rouge', clicks: 3 }]);
+    });
+});
@@ -0,0 +1,59 @@
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { loadConfig } from '../../server/config';
+import { type Database, openDatabase } from '../../server/db';
+import { runMigrations } from '../../server/migrations';
+import { createApp } from '../../server/app';
+import type { UserPlan } from '../../shared/plans';
+
+export interface TestResponse {
+    status: number;
+    body: any;
+}
+
+export interface TestServer {
+    db: Database;
+    request: (method: string, path: string, options?: { token?: string; body?: unknown }) => Promise<TestResponse>;
+    register: (email: string, plan?: UserPlan) => Promise<{ token: string; user: any }>;
+    close: () => Promise<void>;
+}
+
+// Starts the API on a random port against an in-memory SQLite database and the mock AI provider.
+// `env` overrides the environment variables read by loadConfig.
+export const startTestServer = async (env: NodeJS.ProcessEnv = {}): Promise<TestServer> => {
+    const config = loadConfig({ SQLITE_PATH: ':memory:', AI_PROVIDER: 'mock', JWT_SECRET: 'test-secret', ...env });
+    const db = openDatabase(config);
+    await runMigrations(db);
+    const server = createApp(db, config).listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const request: TestServer['request'] = async (method, path, { token, body } = {}) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: { ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+        const text = await response.text();
+        return { status: response.status, body: text ? JSON.parse(text) : null };
+    };
+
+    const register: TestServer['register'] = async (email, plan) => {
+        const { status, body } = await request('POST', '/api/auth/register', { body: { email, password: 'motdepasse123' } });
+        if (status !== 201) {
+            throw new Error(`Registration of ${email} failed with ${status}: ${JSON.stringify(body)}`);
+        }
+        if (plan) {
+            await db.query('UPDATE users SET plan = $1 WHERE id = $2', [plan, Number(body.user.id)]);
+        }
+        return body;
+    };
+
+    const close = async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await db.close();
+    };
+
+    return { db, request, register, close };
+};
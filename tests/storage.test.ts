@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LOCAL_STORAGE_COMPETITIVE_ANALYSES, type Project } from '../lib/models';
+import type { NewContentRevision } from '../lib/revisions';
+import { LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX } from '../lib/searchIntentions';
+import { createKeyValueRepositories, InMemoryBackend, type Repositories } from '../lib/storage';
+
+const project = (id: string): Project => ({ id, name: `Boutique ${id}`, url: `https://${id}.example.com`, creationDate: '2026-01-01T00:00:00.000Z' });
+
+const revision = (documentKey: string, projectId: string | undefined, html: string): NewContentRevision => ({
+    documentKey,
+    kind: 'product-description',
+    title: documentKey,
+    html,
+    source: 'generation',
+    author: { email: 'owner@example.com', role: 'main' },
+    projectId,
+});
+
+let backend: InMemoryBackend;
+let repositories: Repositories;
+
+beforeEach(() => {
+    backend = new InMemoryBackend();
+    repositories = createKeyValueRepositories(backend);
+});
+
+describe('collections', () => {
+    it('creates, updates and removes items', async () => {
+        await repositories.projects.create(project('a'));
+        await repositories.projects.create(project('b'));
+        await repositories.projects.update({ ...project('a'), name: 'Renommée' });
+        await repositories.projects.remove('b');
+
+        expect(await repositories.projects.list()).toEqual([{ ...project('a'), name: 'Renommée' }]);
+    });
+
+    it('does not let callers mutate stored items', async () => {
+        await repositories.projects.create(project('a'));
+        (await repositories.projects.list())[0].name = 'Modifiée';
+
+        expect((await repositories.projects.list())[0].name).toBe('Boutique a');
+    });
+
+    it('reads analyses saved without a tool as competitive analyses', async () => {
+        await backend.set(LOCAL_STORAGE_COMPETITIVE_ANALYSES, [{ id: '1', name: 'Ancienne', date: '2025-01-01', urls: [], results: {} }]);
+
+        expect((await repositories.analyses.list())[0].tool).toBe('competitive-analysis');
+    });
+});
+
+describe('search intentions', () => {
+    it('keeps each project apart', async () => {
+        await repositories.searchIntentions.replaceForProject('a', [{ query: 'robe rouge', clicks: 3 }]);
+        await repositories.searchIntentions.replaceForProject('b', [{ query: 'pull laine' }]);
+
+        expect(await repositories.searchIntentions.listForProject('a')).toEqual([{ query: 'robe rouge', clicks: 3 }]);
+        expect(await repositories.searchIntentions.listForProject('c')).toEqual([]);
+    });
+
+    it('types the metrics of rows stored as raw CSV columns', async () => {
+        await backend.set(`${LOCAL_STORAGE_SEARCH_INTENTIONS_PREFIX}a`, [{ query: 'robe rouge', clicks: '1 234', ctr: '4,5 %', pays: 'FR' }]);
+
+        expect(await repositories.searchIntentions.listForProject('a')).toEqual([{ query: 'robe rouge', clicks: 1234, ctr: 0.045, extra: { pays: 'FR' } }]);
+    });
+});
+
+describe('revisions', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-03-01T10:00:00.000Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('numbers the versions of each document', async () => {
+        await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'a', '<p>v1</p>'));
+        const saved = await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'a', '<p>v2</p>'));
+
+        expect(saved.version).toBe(2);
+        expect((await repositories.revisions.listForDocument('product-description:shop.example.com/robe')).map(r => r.html)).toEqual(['<p>v1</p>', '<p>v2</p>']);
+    });
+
+    it('lists the latest version of each document of a project, most recent first', async () => {
+        await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'a', '<p>robe v1</p>'));
+        vi.setSystemTime(new Date('2026-03-01T11:00:00.000Z'));
+        await repositories.revisions.add(revision('product-description:shop.example.com/pull', 'a', '<p>pull v1</p>'));
+        vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+        await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'a', '<p>robe v2</p>'));
+        await repositories.revisions.add(revision('product-description:shop.example.com/jupe', 'b', '<p>jupe v1</p>'));
+        await repositories.revisions.add(revision('product-description:shop.example.com/veste', undefined, '<p>veste v1</p>'));
+
+        expect((await repositories.revisions.listLatestForProject('a')).map(r => r.html)).toEqual(['<p>robe v2</p>', '<p>pull v1</p>']);
+    });
+
+    it('leaves out documents whose latest version was saved in another project', async () => {
+        await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'a', '<p>v1</p>'));
+        await repositories.revisions.add(revision('product-description:shop.example.com/robe', 'b', '<p>v2</p>'));
+
+        expect(await repositories.revisions.listLatestForProject('a')).toEqual([]);
+        expect((await repositories.revisions.listLatestForProject('b')).map(r => r.version)).toEqual([2]);
+    });
+});
@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.API_PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || 'local'),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {